@@ -1,4 +1,4 @@
-import { MessageSquare, Plus, Search, CheckSquare, FileText, Settings, Plug } from "lucide-react";
+import { MessageSquare, Plus, Search, CheckSquare, FileText, Settings, Plug, Brain, LogOut, Users } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -17,12 +17,16 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useQuery } from "@tanstack/react-query";
-import type { Conversation } from "@shared/schema";
+import { hasPermission, type Conversation } from "@shared/schema";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { roleLabel } from "@/lib/roles";
 
 export function AppSidebar() {
   const [location] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const { user, logoutMutation } = useAuth();
+  const userName = user?.displayName || user?.username || "";
 
   const { data: conversations = [] } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations"],
@@ -103,6 +107,14 @@ export function AppSidebar() {
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={location === "/memory"}>
+                  <Link href="/memory" data-testid="link-memory">
+                    <Brain className="w-4 h-4" />
+                    <span dir="rtl">الذاكرة</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
               <SidebarMenuItem>
                 <SidebarMenuButton asChild isActive={location === "/integrations"}>
                   <Link href="/integrations" data-testid="link-integrations">
@@ -111,6 +123,16 @@ export function AppSidebar() {
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              {hasPermission(user?.role, "users:manage") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive={location === "/users"}>
+                    <Link href="/users" data-testid="link-users">
+                      <Users className="w-4 h-4" />
+                      <span dir="rtl">المستخدمون</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
               <SidebarMenuItem>
                 <SidebarMenuButton asChild isActive={location === "/settings"}>
                   <Link href="/settings" data-testid="link-settings">
@@ -157,18 +179,30 @@ export function AppSidebar() {
         <div className="flex items-center gap-3" dir="rtl">
           <Avatar>
             <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
-              AK
+              {userName.slice(0, 2).toUpperCase()}
             </AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium truncate">أبو خالد</p>
-            <p className="text-xs text-muted-foreground">المدير</p>
+            <p className="text-sm font-medium truncate" dir="auto" data-testid="text-current-user">{userName}</p>
+            <p className="text-xs text-muted-foreground truncate" data-testid="text-current-user-role">
+              {user && roleLabel(user.role)}
+            </p>
           </div>
           <Button variant="ghost" size="icon" asChild data-testid="button-settings-footer">
             <Link href="/settings">
               <Settings className="w-4 h-4" />
             </Link>
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            title="تسجيل الخروج"
+            data-testid="button-logout"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
         </div>
       </SidebarFooter>
     </Sidebar>
@@ -0,0 +1,21 @@
+import { CalendarClock } from "lucide-react";
+
+// How a task and its Google Calendar event are kept in step, shown wherever
+// tasks can be linked to events
+export function CalendarSyncRules() {
+  return (
+    <div className="space-y-2 text-sm" dir="rtl" data-testid="calendar-sync-rules">
+      <div className="flex items-center gap-2 font-semibold">
+        <CalendarClock className="w-4 h-4" />
+        مزامنة المهام مع التقويم
+      </div>
+      <ul className="list-disc pr-5 space-y-1 text-muted-foreground">
+        <li>يُزامَن العنوان والوصف وتاريخ الاستحقاق (موعد بداية الحدث) في الاتجاهين.</li>
+        <li>تصل تعديلات المهمة إلى التقويم فوراً، وتصل تعديلات التقويم إلى المهمة خلال بضع دقائق.</li>
+        <li>إذا عُدِّل الطرفان منذ آخر مزامنة، يُعتمد التعديل الأحدث.</li>
+        <li>حذف المهمة أو إزالة تاريخ استحقاقها يحذف الحدث، أما حذف الحدث فيفك الربط وتبقى المهمة.</li>
+        <li>عند إكمال مهمة متكررة مرتبطة، تُضاف المهمة التالية في السلسلة إلى التقويم أيضاً.</li>
+      </ul>
+    </div>
+  );
+}
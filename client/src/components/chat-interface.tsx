@@ -1,19 +1,44 @@
-import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Mic, MicOff, Volume2, Sparkles } from "lucide-react";
+import { useState, useRef, useEffect, type ReactNode } from "react";
+import { Send, Loader2, Mic, MicOff, Volume2, Sparkles, Square, Paperclip, X, FileText, Upload, ListTodo } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { Message } from "@shared/schema";
+import { MAX_ATTACHMENT_BYTES, MAX_MESSAGE_ATTACHMENTS, type AttachmentUpload, type Message, type ToolCallRecord } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { ChatTaskCard, isTaskToolCall } from "@/components/chat-task-card";
+import { ToolTrace } from "@/components/tool-trace";
+import { MessageCitations } from "@/components/message-citations";
+import { ConversationSummary } from "@/components/conversation-summary";
+import { MessageAttachments } from "@/components/message-attachments";
+import { uploadAttachment } from "@/lib/attachments";
+
+// A file in the composer, uploaded as soon as it is added
+interface PendingAttachment {
+  id: string;
+  file: File;
+  status: "uploading" | "ready" | "error";
+  upload?: AttachmentUpload;
+}
 
 interface ChatInterfaceProps {
   messages: Message[];
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachments: AttachmentUpload[]) => void;
+  onStopGeneration?: () => void;
   isLoading?: boolean;
   isTyping?: boolean;
+  isStreaming?: boolean;
+  streamingContent?: string;
+  streamingToolCalls?: ToolCallRecord[];
+  summary?: string | null;
+  summarizedUntil?: string | Date | null;
+  // Looks for action items in the conversation to offer as tasks
+  onExtractTasks?: () => void;
+  isExtractingTasks?: boolean;
+  // Shown after the last message, e.g. tasks proposed from the conversation
+  taskProposals?: ReactNode;
 }
 
 function containsArabic(text: string): boolean {
@@ -25,13 +50,30 @@ function getTextDirection(text: string): "rtl" | "ltr" {
   return containsArabic(text) ? "rtl" : "ltr";
 }
 
-export function ChatInterface({ messages, onSendMessage, isLoading = false, isTyping = false }: ChatInterfaceProps) {
+export function ChatInterface({
+  messages,
+  onSendMessage,
+  onStopGeneration,
+  isLoading = false,
+  isTyping = false,
+  isStreaming = false,
+  streamingContent,
+  streamingToolCalls = [],
+  summary,
+  summarizedUntil = null,
+  onExtractTasks,
+  isExtractingTasks = false,
+  taskProposals,
+}: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const [isRecording, setIsRecording] = useState(false);
   const [voiceLang, setVoiceLang] = useState<"ar-SA" | "en-US">("ar-SA");
   const [recognition, setRecognition] = useState<any>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -81,13 +123,81 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingContent, streamingToolCalls, taskProposals]);
+
+  const isUploading = attachments.some((attachment) => attachment.status === "uploading");
+  const readyAttachments = attachments.flatMap((attachment) => attachment.upload ? [attachment.upload] : []);
+  const canSend = (!!input.trim() || readyAttachments.length > 0) && !isUploading && !isLoading;
+
+  const addFiles = (files: File[]) => {
+    const room = MAX_MESSAGE_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      toast({
+        title: "خطأ",
+        description: `يمكن إرفاق ${MAX_MESSAGE_ATTACHMENTS} ملفات كحد أقصى في الرسالة`,
+        variant: "destructive",
+      });
+    }
+    const accepted = files.slice(0, Math.max(room, 0)).filter((file) => {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast({
+          title: "خطأ",
+          description: `${file.name}: الحجم الأقصى ${MAX_ATTACHMENT_BYTES / 1024 / 1024} ميجابايت`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      return true;
+    });
+
+    const pending = accepted.map((file): PendingAttachment => ({ id: crypto.randomUUID(), file, status: "uploading" }));
+    setAttachments((current) => [...current, ...pending]);
+
+    for (const attachment of pending) {
+      uploadAttachment(attachment.file)
+        .then((upload) => {
+          setAttachments((current) => current.map((item) => item.id === attachment.id ? { ...item, status: "ready", upload } : item));
+        })
+        .catch((error: Error) => {
+          setAttachments((current) => current.map((item) => item.id === attachment.id ? { ...item, status: "error" } : item));
+          toast({
+            title: "خطأ",
+            description: `${attachment.file.name}: ${error.message || "فشل رفع الملف"}`,
+            variant: "destructive",
+          });
+        });
+    }
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((current) => current.filter((attachment) => attachment.id !== id));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading) {
-      onSendMessage(input.trim());
+    if (canSend) {
+      onSendMessage(input.trim(), readyAttachments);
       setInput("");
+      setAttachments([]);
       if (textareaRef.current) {
         textareaRef.current.style.height = "auto";
       }
@@ -158,7 +268,21 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
   };
 
   return (
-    <div className="flex flex-col h-full bg-gradient-to-b from-background to-muted/20">
+    <div
+      className="relative flex flex-col h-full bg-gradient-to-b from-background to-muted/20"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-background/80 backdrop-blur-sm border-2 border-dashed border-primary rounded-lg pointer-events-none" data-testid="overlay-drop-files">
+          <div className="flex flex-col items-center gap-2 text-primary" dir="rtl">
+            <Upload className="w-10 h-10" />
+            <p className="text-lg font-medium">أفلت الملفات هنا لإرفاقها</p>
+            <p className="text-sm text-muted-foreground">PDF، Word، Excel، CSV، نصوص وصور</p>
+          </div>
+        </div>
+      )}
       <ScrollArea className="flex-1 px-4" ref={scrollRef}>
         <div className="max-w-5xl mx-auto py-8 space-y-6">
           {messages.length === 0 && (
@@ -190,6 +314,10 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
             </div>
           )}
 
+          {summary && (
+            <ConversationSummary summary={summary} summarizedUntil={summarizedUntil} />
+          )}
+
           {messages.map((message, index) => {
             const dir = getTextDirection(message.content);
             const isArabic = dir === "rtl";
@@ -243,6 +371,18 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
                       </Button>
                     )}
                   </div>
+                  {message.attachments && (
+                    <MessageAttachments attachments={message.attachments} messageId={message.id} isUser={isUser} />
+                  )}
+                  {message.toolCalls?.filter(isTaskToolCall).map((toolCall) => (
+                    <ChatTaskCard key={toolCall.id} toolCall={toolCall} />
+                  ))}
+                  {message.citations && (
+                    <MessageCitations citations={message.citations} messageId={message.id} />
+                  )}
+                  {message.toolCalls && (
+                    <ToolTrace toolCalls={message.toolCalls} messageId={message.id} />
+                  )}
                   <p className={cn(
                     "text-xs mt-2 flex items-center gap-1",
                     isUser ? "text-primary-foreground/60" : "text-muted-foreground"
@@ -267,7 +407,34 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
             );
           })}
 
-          {isTyping && (
+          {(streamingContent || streamingToolCalls.length > 0) && (
+            <div className="flex gap-4 items-start" data-testid="message-streaming">
+              <Avatar className="w-10 h-10 flex-shrink-0 ring-2 ring-primary/10">
+                <AvatarFallback className="bg-gradient-to-br from-primary to-primary/60 text-primary-foreground font-bold">
+                  M
+                </AvatarFallback>
+              </Avatar>
+              <div
+                className="rounded-2xl px-5 py-4 max-w-2xl shadow-sm bg-card border border-border/50"
+                dir={getTextDirection(streamingContent || "")}
+              >
+                <p
+                  className="text-base leading-relaxed whitespace-pre-wrap break-words"
+                  dir={getTextDirection(streamingContent || "")}
+                  lang={containsArabic(streamingContent || "") ? "ar" : "en"}
+                >
+                  {streamingContent}
+                  <span className="inline-block w-2 h-4 ml-1 align-middle bg-primary/60 animate-pulse" />
+                </p>
+                {streamingToolCalls.filter(isTaskToolCall).map((toolCall) => (
+                  <ChatTaskCard key={toolCall.id} toolCall={toolCall} />
+                ))}
+                <ToolTrace toolCalls={streamingToolCalls} messageId="streaming" />
+              </div>
+            </div>
+          )}
+
+          {isTyping && !streamingContent && streamingToolCalls.length === 0 && (
             <div className="flex gap-4 items-start">
               <Avatar className="w-10 h-10 flex-shrink-0 ring-2 ring-primary/10">
                 <AvatarFallback className="bg-gradient-to-br from-primary to-primary/60 text-primary-foreground font-bold">
@@ -283,6 +450,8 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
               </div>
             </div>
           )}
+
+          {taskProposals}
         </div>
       </ScrollArea>
 
@@ -290,6 +459,36 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
         <div className="max-w-5xl mx-auto p-6">
           <form onSubmit={handleSubmit} className="relative">
             <div className="relative rounded-2xl border-2 border-border/50 bg-card shadow-sm focus-within:border-primary/50 focus-within:ring-4 focus-within:ring-primary/10 transition-all duration-200">
+              {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 px-4 pt-3" dir="rtl">
+                  {attachments.map((attachment) => (
+                    <div
+                      key={attachment.id}
+                      className={cn(
+                        "inline-flex items-center gap-1.5 rounded-md border bg-muted/40 px-2 py-1 text-xs",
+                        attachment.status === "error" && "border-destructive text-destructive"
+                      )}
+                      data-testid={`attachment-pending-${attachment.id}`}
+                    >
+                      {attachment.status === "uploading" ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <FileText className="w-3 h-3" />
+                      )}
+                      <span className="truncate max-w-[12rem]" dir="auto">{attachment.file.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeAttachment(attachment.id)}
+                        className="opacity-60 hover:opacity-100"
+                        title="إزالة"
+                        data-testid={`button-remove-attachment-${attachment.id}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <Textarea
                 ref={textareaRef}
                 placeholder="اكتب رسالتك هنا..."
@@ -298,7 +497,7 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
                 onKeyDown={handleKeyDown}
                 disabled={isLoading}
                 className={cn(
-                  "resize-none border-0 bg-transparent px-6 py-4 pr-28 pl-28 min-h-[64px] max-h-[200px] focus-visible:ring-0 text-base",
+                  "resize-none border-0 bg-transparent px-6 py-4 pr-28 pl-40 min-h-[64px] max-h-[200px] focus-visible:ring-0 text-base",
                   getTextDirection(input)
                 )}
                 dir={getTextDirection(input)}
@@ -306,6 +505,48 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
                 data-testid="input-message"
               />
               <div className="absolute left-3 bottom-3 flex gap-1.5">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  accept=".pdf,.docx,.xlsx,.xls,.csv,.txt,.md,.json,image/png,image/jpeg,image/gif,image/webp"
+                  onChange={(e) => {
+                    addFiles(Array.from(e.target.files ?? []));
+                    e.target.value = "";
+                  }}
+                  data-testid="input-attachment-file"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isLoading}
+                  className="rounded-xl h-10 w-10"
+                  data-testid="button-attach"
+                  title="إرفاق ملف / Attach file"
+                >
+                  <Paperclip className="w-5 h-5" />
+                </Button>
+                {onExtractTasks && (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={onExtractTasks}
+                    disabled={isLoading || isExtractingTasks || messages.length === 0}
+                    className="rounded-xl h-10 w-10"
+                    data-testid="button-extract-tasks"
+                    title="استخراج المهام من المحادثة / Extract tasks"
+                  >
+                    {isExtractingTasks ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <ListTodo className="w-5 h-5" />
+                    )}
+                  </Button>
+                )}
                 <Button
                   type="button"
                   size="icon"
@@ -336,19 +577,33 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false, isTy
                   {voiceLang === "ar-SA" ? "🇸🇦" : "🇬🇧"}
                 </Button>
               </div>
-              <Button
-                type="submit"
-                size="icon"
-                disabled={!input.trim() || isLoading}
-                className="absolute right-3 bottom-3 rounded-xl h-12 w-12 shadow-md shadow-primary/20"
-                data-testid="button-send"
-              >
-                {isLoading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  <Send className="w-5 h-5" />
-                )}
-              </Button>
+              {isStreaming && onStopGeneration ? (
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="destructive"
+                  onClick={onStopGeneration}
+                  className="absolute right-3 bottom-3 rounded-xl h-12 w-12 shadow-md"
+                  data-testid="button-stop"
+                  title="إيقاف الرد / Stop"
+                >
+                  <Square className="w-5 h-5" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="icon"
+                  disabled={!canSend}
+                  className="absolute right-3 bottom-3 rounded-xl h-12 w-12 shadow-md shadow-primary/20"
+                  data-testid="button-send"
+                >
+                  {isLoading ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <Send className="w-5 h-5" />
+                  )}
+                </Button>
+              )}
             </div>
           </form>
           <div className="flex items-center justify-center gap-2 mt-4 text-xs text-muted-foreground" dir="rtl">
@@ -0,0 +1,97 @@
+import { Check, CheckSquare, Clock, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { Task, ToolCallRecord } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const TASK_TOOL_LABELS: Record<string, string> = {
+  create_task: "تم إنشاء مهمة",
+  update_task: "تم تحديث مهمة",
+  complete_task: "تم إكمال مهمة",
+  delete_task: "تم حذف مهمة",
+};
+
+export function isTaskToolCall(toolCall: ToolCallRecord): boolean {
+  return toolCall.name in TASK_TOOL_LABELS && !toolCall.error && !!toolCall.result;
+}
+
+function getToolCallTask(toolCall: ToolCallRecord): Task | undefined {
+  const result = toolCall.result as (Task & { task?: Task }) | undefined;
+  return toolCall.name === "delete_task" ? result?.task : result;
+}
+
+interface ChatTaskCardProps {
+  toolCall: ToolCallRecord;
+}
+
+// Shows a task the assistant created or changed inside the chat thread.
+// Prefers the live task from the tasks list so later edits are reflected.
+export function ChatTaskCard({ toolCall }: ChatTaskCardProps) {
+  const { data: tasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const snapshot = getToolCallTask(toolCall);
+  if (!snapshot) {
+    return null;
+  }
+
+  const isDeleted = toolCall.name === "delete_task" || (tasks !== undefined && !tasks.some((t) => t.id === snapshot.id));
+  const task = tasks?.find((t) => t.id === snapshot.id) ?? snapshot;
+  const isCompleted = task.status === "completed";
+
+  return (
+    <Card className="p-3 mt-3 bg-muted/40" data-testid={`chat-task-card-${task.id}`}>
+      <div className="flex items-start gap-3" dir="rtl">
+        <div className="w-8 h-8 rounded-md bg-primary/10 flex items-center justify-center flex-shrink-0">
+          {isDeleted ? (
+            <Trash2 className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <CheckSquare className="w-4 h-4 text-primary" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground mb-1">{TASK_TOOL_LABELS[toolCall.name]}</p>
+          <p
+            className={cn(
+              "text-sm font-medium",
+              (isCompleted || isDeleted) && "line-through text-muted-foreground"
+            )}
+            dir="auto"
+          >
+            {task.title}
+          </p>
+          {task.description && (
+            <p className="text-xs text-muted-foreground line-clamp-2 mt-1" dir="auto">
+              {task.description}
+            </p>
+          )}
+          <div className="flex items-center gap-2 mt-2">
+            {isDeleted ? (
+              <Badge variant="outline" className="text-xs">محذوفة</Badge>
+            ) : isCompleted ? (
+              <Badge variant="secondary" className="text-xs bg-green-500/10 text-green-700 dark:text-green-400">
+                <Check className="w-3 h-3 ml-1" />
+                مكتملة
+              </Badge>
+            ) : task.status === "in_progress" ? (
+              <Badge variant="default" className="text-xs">قيد التنفيذ</Badge>
+            ) : (
+              <Badge variant="secondary" className="text-xs">
+                <Clock className="w-3 h-3 ml-1" />
+                قيد الانتظار
+              </Badge>
+            )}
+            {!isDeleted && (
+              <Link href="/tasks" className="text-xs text-primary hover:underline" data-testid={`link-chat-task-${task.id}`}>
+                عرض في المهام
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
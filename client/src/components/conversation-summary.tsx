@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { ChevronDown, ScrollText } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+
+interface ConversationSummaryProps {
+  summary: string;
+  summarizedUntil: string | Date | null;
+}
+
+// The rolling summary the assistant sees in place of older messages once the
+// conversation outgrows the context budget.
+export function ConversationSummary({ summary, summarizedUntil }: ConversationSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="rounded-xl border border-dashed bg-muted/30 px-4 py-3"
+      dir="rtl"
+      data-testid="conversation-summary"
+    >
+      <CollapsibleTrigger
+        className="flex w-full items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        data-testid="button-toggle-summary"
+      >
+        <ScrollText className="w-4 h-4" />
+        <span className="flex-1 text-right">
+          يرى المساعد ملخصًا للرسائل الأقدم
+          {summarizedUntil && ` (حتى ${new Date(summarizedUntil).toLocaleString('ar-SA')})`}
+        </span>
+        <ChevronDown className={cn("w-4 h-4 transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <p className="mt-3 text-sm leading-relaxed whitespace-pre-wrap" dir="auto">{summary}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,64 @@
+import { Check, CircleHelp, Crown, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+export type AttendeeResponse = "needsAction" | "declined" | "tentative" | "accepted";
+
+export interface CalendarAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus: AttendeeResponse;
+  organizer: boolean;
+  optional: boolean;
+  self: boolean;
+}
+
+const RESPONSES: Record<AttendeeResponse, { label: string; icon: typeof Check; className: string }> = {
+  accepted: { label: "قبل", icon: Check, className: "text-green-600 dark:text-green-400" },
+  tentative: { label: "ربما", icon: CircleHelp, className: "text-amber-600 dark:text-amber-400" },
+  declined: { label: "اعتذر", icon: X, className: "text-destructive" },
+  needsAction: { label: "لم يرد", icon: CircleHelp, className: "text-muted-foreground" },
+};
+
+// e.g. "3 قبول · 1 اعتذار" for an event card
+export function summarizeResponses(attendees: CalendarAttendee[]): string {
+  const count = (response: AttendeeResponse) => attendees.filter((attendee) => attendee.responseStatus === response).length;
+  return [
+    `${count("accepted")} قبول`,
+    count("declined") > 0 ? `${count("declined")} اعتذار` : "",
+    count("needsAction") + count("tentative") > 0 ? `${count("needsAction") + count("tentative")} بانتظار الرد` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+interface EventAttendeesProps {
+  attendees: CalendarAttendee[];
+}
+
+// Each attendee with their response to the invitation; the organizer first
+export function EventAttendees({ attendees }: EventAttendeesProps) {
+  const sorted = [...attendees].sort((a, b) => Number(b.organizer) - Number(a.organizer));
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {sorted.map((attendee) => {
+        const response = RESPONSES[attendee.responseStatus] ?? RESPONSES.needsAction;
+        const Icon = response.icon;
+        return (
+          <Badge
+            key={attendee.email}
+            variant="secondary"
+            className="gap-1.5 font-normal"
+            title={`${attendee.email} — ${response.label}`}
+            data-testid={`attendee-${attendee.email}`}
+          >
+            <Icon className={cn("w-3 h-3", response.className)} />
+            <span dir="auto">{attendee.displayName || attendee.email}</span>
+            {attendee.organizer && <Crown className="w-3 h-3 text-muted-foreground" />}
+            {attendee.optional && <span className="text-muted-foreground">(اختياري)</span>}
+            {attendee.self && <span className="text-muted-foreground">(أنت)</span>}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
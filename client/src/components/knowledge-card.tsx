@@ -1,4 +1,4 @@
-import { FileText, MoreVertical, Tag } from "lucide-react";
+import { FileText, Lock, MoreVertical, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,15 +8,19 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { BusinessProcess } from "@shared/schema";
+import type { BusinessProcess, KnowledgeStatus } from "@shared/schema";
+import { knowledgeStatusLabels, knowledgeStatusVariants } from "@/components/knowledge-review-panel";
 
 interface KnowledgeCardProps {
   process: BusinessProcess;
   onView: (id: string) => void;
+  onEdit?: (id: string) => void;
   onDelete: (id: string) => void;
+  // Deleting needs the knowledge:delete permission
+  canDelete?: boolean;
 }
 
-export function KnowledgeCard({ process, onView, onDelete }: KnowledgeCardProps) {
+export function KnowledgeCard({ process, onView, onEdit, onDelete, canDelete = true }: KnowledgeCardProps) {
   return (
     <Card 
       className="p-6 hover-elevate cursor-pointer active-elevate-2" 
@@ -35,6 +39,21 @@ export function KnowledgeCard({ process, onView, onDelete }: KnowledgeCardProps)
           </p>
           
           <div className="flex items-center gap-2 flex-wrap">
+            {process.status !== "published" && (
+              <Badge
+                variant={knowledgeStatusVariants[process.status as KnowledgeStatus]}
+                className="text-xs"
+                data-testid={`badge-knowledge-status-${process.id}`}
+              >
+                {knowledgeStatusLabels[process.status as KnowledgeStatus]}
+              </Badge>
+            )}
+            {process.visibility === "private" && (
+              <Badge variant="secondary" className="text-xs" data-testid={`badge-knowledge-private-${process.id}`}>
+                <Lock className="w-3 h-3 ml-1" />
+                خاص
+              </Badge>
+            )}
             <Badge variant="outline" className="text-xs" dir="auto">
               {process.category}
             </Badge>
@@ -73,15 +92,28 @@ export function KnowledgeCard({ process, onView, onDelete }: KnowledgeCardProps)
             }}>
               عرض التفاصيل
             </DropdownMenuItem>
-            <DropdownMenuItem 
-              onClick={(e) => {
-                e.stopPropagation();
-                onDelete(process.id);
-              }}
-              className="text-destructive"
-            >
-              حذف
-            </DropdownMenuItem>
+            {onEdit && (
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit(process.id);
+                }}
+                data-testid={`button-knowledge-edit-${process.id}`}
+              >
+                تعديل
+              </DropdownMenuItem>
+            )}
+            {canDelete && (
+              <DropdownMenuItem 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(process.id);
+                }}
+                className="text-destructive"
+              >
+                حذف
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
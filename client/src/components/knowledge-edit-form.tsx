@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BusinessProcess, KnowledgeVisibility } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface KnowledgeEditFormProps {
+  process: BusinessProcess;
+  // Only the owner may change an entry's visibility
+  canChangeVisibility: boolean;
+  onSaved: (process: BusinessProcess) => void;
+  onCancel: () => void;
+}
+
+export function KnowledgeEditForm({ process, canChangeVisibility, onSaved, onCancel }: KnowledgeEditFormProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState({
+    title: process.title,
+    description: process.description,
+    category: process.category,
+    content: process.content,
+    tags: process.tags ?? [],
+    visibility: process.visibility as KnowledgeVisibility,
+  });
+  const [tagInput, setTagInput] = useState("");
+
+  const updateProcessMutation = useMutation({
+    mutationFn: async (updates: Partial<typeof draft>) => {
+      const response = await apiRequest("PATCH", `/api/knowledge/${process.id}`, updates);
+      return await response.json() as BusinessProcess;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge"] });
+      onSaved(updated);
+      toast({
+        title: "نجاح",
+        description: "تم حفظ التعديلات",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حفظ التعديلات",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddTag = () => {
+    if (tagInput.trim() && !draft.tags.includes(tagInput.trim())) {
+      setDraft({ ...draft, tags: [...draft.tags, tagInput.trim()] });
+      setTagInput("");
+    }
+  };
+
+  const handleSave = () => {
+    const { visibility, ...fields } = draft;
+    updateProcessMutation.mutate(canChangeVisibility ? draft : fields);
+  };
+
+  const isComplete = draft.title.trim() && draft.description.trim() && draft.category.trim() && draft.content.trim();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="edit-title">العنوان</Label>
+        <Input
+          id="edit-title"
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          data-testid="input-edit-knowledge-title"
+          dir="auto"
+        />
+      </div>
+      <div>
+        <Label htmlFor="edit-description">الوصف</Label>
+        <Input
+          id="edit-description"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          data-testid="input-edit-knowledge-description"
+          dir="auto"
+        />
+      </div>
+      <div>
+        <Label htmlFor="edit-category">الفئة</Label>
+        <Input
+          id="edit-category"
+          value={draft.category}
+          onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+          data-testid="input-edit-knowledge-category"
+          dir="auto"
+        />
+      </div>
+      <div>
+        <Label htmlFor="edit-content">المحتوى</Label>
+        <Textarea
+          id="edit-content"
+          value={draft.content}
+          onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          rows={12}
+          data-testid="input-edit-knowledge-content"
+          dir="auto"
+        />
+      </div>
+      {canChangeVisibility && (
+        <div>
+          <Label htmlFor="edit-visibility">الظهور</Label>
+          <Select
+            value={draft.visibility}
+            onValueChange={(value) => setDraft({ ...draft, visibility: value as KnowledgeVisibility })}
+          >
+            <SelectTrigger id="edit-visibility" data-testid="select-edit-knowledge-visibility">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="shared">مشترك مع الجميع</SelectItem>
+              <SelectItem value="private">خاص بي فقط</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div>
+        <Label htmlFor="edit-tags">الوسوم</Label>
+        <div className="flex gap-2">
+          <Input
+            id="edit-tags"
+            placeholder="أضف وسماً..."
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddTag();
+              }
+            }}
+            data-testid="input-edit-knowledge-tag"
+            dir="auto"
+          />
+          <Button type="button" onClick={handleAddTag} variant="secondary">
+            إضافة
+          </Button>
+        </div>
+        {draft.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {draft.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">
+                {tag}
+                <button
+                  onClick={() => setDraft({ ...draft, tags: draft.tags.filter((t) => t !== tag) })}
+                  className="ml-1 hover:text-destructive"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={handleSave}
+          disabled={!isComplete || updateProcessMutation.isPending}
+          className="flex-1"
+          data-testid="button-save-knowledge"
+        >
+          {updateProcessMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "حفظ التعديلات"}
+        </Button>
+        <Button variant="outline" onClick={onCancel} data-testid="button-cancel-edit-knowledge">
+          إلغاء
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { diffWords } from "diff";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BusinessProcess, BusinessProcessVersionWithAuthor } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface KnowledgeHistoryProps {
+  processId: string;
+  onRestored: (process: BusinessProcess) => void;
+}
+
+const TEXT_FIELDS = [
+  { key: "title", label: "العنوان" },
+  { key: "description", label: "الوصف" },
+  { key: "category", label: "الفئة" },
+  { key: "content", label: "المحتوى" },
+] as const;
+
+// Word-level changes between two versions of a field: removals struck
+// through in red, additions in green
+function TextDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-7" dir="auto">
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.added && "bg-green-500/20 text-green-700 dark:text-green-400",
+            part.removed && "bg-red-500/20 text-red-700 dark:text-red-400 line-through"
+          )}
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function VersionDiff({ from, to }: { from: BusinessProcessVersionWithAuthor; to: BusinessProcessVersionWithAuthor }) {
+  const changedFields = TEXT_FIELDS.filter(({ key }) => from[key] !== to[key]);
+  const fromTags = from.tags ?? [];
+  const toTags = to.tags ?? [];
+  const removedTags = fromTags.filter((tag) => !toTags.includes(tag));
+  const addedTags = toTags.filter((tag) => !fromTags.includes(tag));
+
+  if (changedFields.length === 0 && removedTags.length === 0 && addedTags.length === 0 && from.visibility === to.visibility) {
+    return <p className="text-sm text-muted-foreground">لا توجد اختلافات بين النسختين</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="knowledge-version-diff">
+      {changedFields.map(({ key, label }) => (
+        <div key={key}>
+          <Label className="text-xs text-muted-foreground">{label}</Label>
+          <TextDiff before={from[key]} after={to[key]} />
+        </div>
+      ))}
+      {(removedTags.length > 0 || addedTags.length > 0) && (
+        <div>
+          <Label className="text-xs text-muted-foreground">الوسوم</Label>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {removedTags.map((tag) => (
+              <Badge key={`removed-${tag}`} variant="outline" className="line-through text-red-700 dark:text-red-400" dir="auto">
+                {tag}
+              </Badge>
+            ))}
+            {addedTags.map((tag) => (
+              <Badge key={`added-${tag}`} variant="outline" className="text-green-700 dark:text-green-400" dir="auto">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {from.visibility !== to.visibility && (
+        <div>
+          <Label className="text-xs text-muted-foreground">الظهور</Label>
+          <p className="text-sm">
+            {to.visibility === "private" ? "أصبح خاصاً" : "أصبح مشتركاً مع الجميع"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Version list of a knowledge entry with a diff between any two versions
+// and restore of older ones
+export function KnowledgeHistory({ processId, onRestored }: KnowledgeHistoryProps) {
+  const { toast } = useToast();
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<BusinessProcessVersionWithAuthor[]>({
+    queryKey: ["/api/knowledge", processId, "versions"],
+  });
+
+  // Compare the latest version with the one before it until the user picks
+  useEffect(() => {
+    if (versions.length > 0 && toVersion === null) {
+      setToVersion(versions[0].version);
+      setFromVersion(versions[1]?.version ?? versions[0].version);
+    }
+  }, [versions, toVersion]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/knowledge/${processId}/versions/${version}/restore`);
+      return await response.json() as BusinessProcess;
+    },
+    onSuccess: (process, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge"] });
+      setToVersion(null);
+      onRestored(process);
+      toast({
+        title: "نجاح",
+        description: `تمت استعادة النسخة ${version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في استعادة النسخة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="w-8 h-8 mx-auto mb-2" />
+        <p className="text-sm">لم يُعدَّل هذا الإدخال بعد</p>
+      </div>
+    );
+  }
+
+  const from = versions.find((version) => version.version === fromVersion);
+  const to = versions.find((version) => version.version === toVersion);
+  const latest = versions[0].version;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {versions.map((version) => (
+          <div
+            key={version.id}
+            className={cn(
+              "flex items-center gap-3 rounded-md border p-3 cursor-pointer hover-elevate",
+              version.version === toVersion && "border-primary"
+            )}
+            onClick={() => {
+              setToVersion(version.version);
+              const previous = versions.find((candidate) => candidate.version < version.version);
+              setFromVersion(previous?.version ?? version.version);
+            }}
+            data-testid={`row-knowledge-version-${version.version}`}
+          >
+            <Badge variant={version.version === latest ? "default" : "secondary"}>
+              {version.version}
+            </Badge>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate" dir="auto">{version.authorName ?? "مستخدم محذوف"}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(version.createdAt).toLocaleString("ar-SA")}
+                {version.restoredFrom !== null && ` · استعادة للنسخة ${version.restoredFrom}`}
+              </p>
+            </div>
+            {version.version === latest ? (
+              <span className="text-xs text-muted-foreground">النسخة الحالية</span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  restoreMutation.mutate(version.version);
+                }}
+                disabled={restoreMutation.isPending}
+                data-testid={`button-restore-version-${version.version}`}
+              >
+                <RotateCcw className="w-3 h-3 ml-1" />
+                استعادة
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4 border-t pt-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-32">
+            <Label>من النسخة</Label>
+            <Select value={fromVersion?.toString()} onValueChange={(value) => setFromVersion(Number(value))}>
+              <SelectTrigger data-testid="select-diff-from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.version.toString()}>{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-32">
+            <Label>إلى النسخة</Label>
+            <Select value={toVersion?.toString()} onValueChange={(value) => setToVersion(Number(value))}>
+              <SelectTrigger data-testid="select-diff-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.version.toString()}>{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {from && to && (from.version === to.version ? (
+          <p className="text-sm text-muted-foreground">اختر نسختين مختلفتين للمقارنة</p>
+        ) : (
+          <VersionDiff from={from} to={to} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Loader2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_KNOWLEDGE_IMPORT_FILES,
+  type BusinessProcess,
+  type KnowledgeImportDraft,
+  type KnowledgeVisibility,
+} from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { uploadAttachment } from "@/lib/attachments";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const ACCEPTED_FILES = ".pdf,.docx,.md,.markdown,.html,.htm,.txt";
+
+interface ReviewDraft extends KnowledgeImportDraft {
+  included: boolean;
+  tagsText: string;
+}
+
+interface KnowledgeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function isComplete(draft: ReviewDraft): boolean {
+  return !!(draft.title.trim() && draft.description.trim() && draft.category.trim() && draft.content.trim());
+}
+
+// Bulk import: documents are uploaded and analyzed into draft entries, which
+// the user reviews and edits before anything is saved.
+export function KnowledgeImportDialog({ open, onOpenChange }: KnowledgeImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [drafts, setDrafts] = useState<ReviewDraft[]>([]);
+  const [visibility, setVisibility] = useState<KnowledgeVisibility>("shared");
+
+  const reset = () => {
+    setDrafts([]);
+    setVisibility("shared");
+  };
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const uploads = await Promise.all(files.map(uploadAttachment));
+      const response = await apiRequest("POST", "/api/knowledge/import/analyze", { files: uploads });
+      return (await response.json() as { drafts: KnowledgeImportDraft[] }).drafts;
+    },
+    onSuccess: (results) => {
+      setDrafts(results.map((draft) => ({ ...draft, included: !draft.error, tagsText: draft.tags.join("، ") })));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تحليل الملفات",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (entries: ReviewDraft[]) => {
+      const response = await apiRequest("POST", "/api/knowledge/import", {
+        entries: entries.map((draft) => ({
+          title: draft.title.trim(),
+          description: draft.description.trim(),
+          category: draft.category.trim(),
+          content: draft.content,
+          tags: draft.tagsText.split(/[,،]/).map((tag) => tag.trim()).filter(Boolean),
+          visibility,
+        })),
+      });
+      return await response.json() as BusinessProcess[];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge"] });
+      toast({
+        title: "نجاح",
+        description: `تم استيراد ${created.length} من إدخالات المعرفة`,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في استيراد الإدخالات",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) {
+      return;
+    }
+    if (files.length > MAX_KNOWLEDGE_IMPORT_FILES) {
+      toast({
+        title: "خطأ",
+        description: `يمكن استيراد ${MAX_KNOWLEDGE_IMPORT_FILES} ملفاً كحد أقصى في المرة الواحدة`,
+        variant: "destructive",
+      });
+      return;
+    }
+    analyzeMutation.mutate(files);
+  };
+
+  const updateDraft = (index: number, changes: Partial<ReviewDraft>) => {
+    setDrafts((current) => current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !analyzeMutation.isPending && !importMutation.isPending) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const selected = drafts.filter((draft) => draft.included);
+  const canImport = selected.length > 0 && selected.every(isComplete) && !importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>استيراد ملفات إلى قاعدة المعرفة</DialogTitle>
+          <DialogDescription>
+            ارفع ملفات PDF أو Word أو Markdown أو HTML، وسيقترح المساعد عنواناً ووصفاً وفئة ووسوماً لكل ملف لتراجعها قبل الحفظ
+          </DialogDescription>
+        </DialogHeader>
+
+        {drafts.length === 0 ? (
+          <div
+            className={cn(
+              "flex flex-col items-center justify-center gap-3 rounded-md border-2 border-dashed p-10 text-center",
+              isDragging ? "border-primary bg-primary/5" : "border-border"
+            )}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              if (!analyzeMutation.isPending) {
+                handleFiles(e.dataTransfer.files);
+              }
+            }}
+            data-testid="dropzone-knowledge-import"
+          >
+            {analyzeMutation.isPending ? (
+              <>
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                <p className="text-sm text-muted-foreground">جارٍ رفع الملفات وتحليلها...</p>
+              </>
+            ) : (
+              <>
+                <Upload className="w-8 h-8 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">اسحب الملفات إلى هنا أو</p>
+                <Button
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  data-testid="button-choose-import-files"
+                >
+                  اختيار الملفات
+                </Button>
+              </>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+              data-testid="input-import-files"
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[480px] pl-4">
+              <div className="space-y-4">
+                {drafts.map((draft, index) => (
+                  <div
+                    key={`${draft.sourceName}-${index}`}
+                    className={cn("rounded-md border p-4 space-y-3", !draft.included && "opacity-60")}
+                    data-testid={`card-import-draft-${index}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`import-draft-${index}`}
+                        checked={draft.included}
+                        disabled={!!draft.error}
+                        onCheckedChange={(checked) => updateDraft(index, { included: checked === true })}
+                        data-testid={`checkbox-import-draft-${index}`}
+                      />
+                      <FileText className="w-4 h-4 text-muted-foreground" />
+                      <Label htmlFor={`import-draft-${index}`} className="truncate" dir="auto">
+                        {draft.sourceName}
+                      </Label>
+                    </div>
+
+                    {draft.error ? (
+                      <p className="flex items-center gap-2 text-sm text-destructive" dir="auto">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        {draft.error}
+                      </p>
+                    ) : draft.included && (
+                      <>
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          <div>
+                            <Label>العنوان</Label>
+                            <Input
+                              value={draft.title}
+                              onChange={(e) => updateDraft(index, { title: e.target.value })}
+                              data-testid={`input-import-title-${index}`}
+                              dir="auto"
+                            />
+                          </div>
+                          <div>
+                            <Label>الفئة</Label>
+                            <Input
+                              value={draft.category}
+                              onChange={(e) => updateDraft(index, { category: e.target.value })}
+                              data-testid={`input-import-category-${index}`}
+                              dir="auto"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <Label>الوصف</Label>
+                          <Input
+                            value={draft.description}
+                            onChange={(e) => updateDraft(index, { description: e.target.value })}
+                            data-testid={`input-import-description-${index}`}
+                            dir="auto"
+                          />
+                        </div>
+                        <div>
+                          <Label>الوسوم (مفصولة بفواصل)</Label>
+                          <Input
+                            value={draft.tagsText}
+                            onChange={(e) => updateDraft(index, { tagsText: e.target.value })}
+                            data-testid={`input-import-tags-${index}`}
+                            dir="auto"
+                          />
+                        </div>
+                        <div>
+                          <Label>المحتوى</Label>
+                          <Textarea
+                            value={draft.content}
+                            onChange={(e) => updateDraft(index, { content: e.target.value })}
+                            rows={6}
+                            data-testid={`input-import-content-${index}`}
+                            dir="auto"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="w-48">
+                <Label htmlFor="import-visibility">الظهور</Label>
+                <Select value={visibility} onValueChange={(value) => setVisibility(value as KnowledgeVisibility)}>
+                  <SelectTrigger id="import-visibility" data-testid="select-import-visibility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="shared">مشترك مع الجميع</SelectItem>
+                    <SelectItem value="private">خاص بي فقط</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1" />
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending} data-testid="button-import-start-over">
+                البدء من جديد
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(selected)}
+                disabled={!canImport}
+                data-testid="button-submit-import"
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  `استيراد ${selected.length} إدخال`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  canChangeKnowledgeStatus,
+  knowledgeTransitions,
+  type BusinessProcess,
+  type BusinessProcessCommentWithAuthor,
+  type KnowledgeStatus,
+  type KnowledgeStatusChange,
+  type PublicUser,
+} from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+export const knowledgeStatusLabels: Record<KnowledgeStatus, string> = {
+  draft: "مسودة",
+  in_review: "قيد المراجعة",
+  published: "منشور",
+  archived: "مؤرشف",
+};
+
+export const knowledgeStatusVariants: Record<KnowledgeStatus, "default" | "secondary" | "outline"> = {
+  draft: "outline",
+  in_review: "secondary",
+  published: "default",
+  archived: "outline",
+};
+
+// What the button for moving to each status says
+const transitionLabels: Record<KnowledgeStatus, string> = {
+  draft: "إعادة إلى مسودة",
+  in_review: "إرسال للمراجعة",
+  published: "نشر",
+  archived: "أرشفة",
+};
+
+interface KnowledgeReviewPanelProps {
+  process: BusinessProcess;
+  onChanged: (process: BusinessProcess) => void;
+}
+
+// Status, reviewer and review thread of a knowledge entry, with the status
+// changes the current user may make
+export function KnowledgeReviewPanel({ process, onChanged }: KnowledgeReviewPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [comment, setComment] = useState("");
+  const [reviewerId, setReviewerId] = useState<string>("");
+  const status = process.status as KnowledgeStatus;
+
+  const { data: comments = [], isLoading } = useQuery<BusinessProcessCommentWithAuthor[]>({
+    queryKey: ["/api/knowledge", process.id, "comments"],
+  });
+
+  const { data: reviewers = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/knowledge", "reviewers"],
+  });
+
+  const actions = user
+    ? knowledgeTransitions[status].filter((next) => canChangeKnowledgeStatus(user, process, next))
+    : [];
+  const reviewerName = reviewers.find((reviewer) => reviewer.id === process.reviewerId)?.username;
+
+  const statusMutation = useMutation({
+    mutationFn: async (change: KnowledgeStatusChange) => {
+      const response = await apiRequest("POST", `/api/knowledge/${process.id}/status`, change);
+      return await response.json() as BusinessProcess;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge"] });
+      setComment("");
+      onChanged(updated);
+      toast({
+        title: "نجاح",
+        description: `أصبحت حالة الإدخال: ${knowledgeStatusLabels[updated.status as KnowledgeStatus]}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تغيير حالة الإدخال",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (content: string) => {
+      return await apiRequest("POST", `/api/knowledge/${process.id}/comments`, { content });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge", process.id, "comments"] });
+      setComment("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في إضافة التعليق",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAction = (next: KnowledgeStatus) => {
+    statusMutation.mutate({
+      status: next,
+      reviewerId: next === "in_review" ? reviewerId : undefined,
+      comment: comment.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant={knowledgeStatusVariants[status]} data-testid="badge-knowledge-status">
+          {knowledgeStatusLabels[status]}
+        </Badge>
+        {process.reviewerId && (
+          <span className="text-sm text-muted-foreground" dir="auto">
+            المراجع: {reviewerName ?? "مستخدم محذوف"}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor="knowledge-review-comment">تعليق</Label>
+        <Textarea
+          id="knowledge-review-comment"
+          placeholder="اكتب تعليقاً أو ملاحظة مع تغيير الحالة..."
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={3}
+          data-testid="input-knowledge-comment"
+          dir="auto"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => commentMutation.mutate(comment.trim())}
+            disabled={!comment.trim() || commentMutation.isPending}
+            data-testid="button-add-knowledge-comment"
+          >
+            <Send className="w-3 h-3 ml-1" />
+            إضافة تعليق
+          </Button>
+          {actions.includes("in_review") && (
+            <Select value={reviewerId} onValueChange={setReviewerId}>
+              <SelectTrigger className="w-48" data-testid="select-knowledge-reviewer">
+                <SelectValue placeholder="اختر المراجع" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewers.map((reviewer) => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>{reviewer.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {actions.map((next) => (
+            <Button
+              key={next}
+              variant={next === "published" || next === "in_review" ? "default" : "secondary"}
+              onClick={() => handleAction(next)}
+              disabled={statusMutation.isPending || (next === "in_review" && !reviewerId)}
+              data-testid={`button-knowledge-status-${next}`}
+            >
+              {statusMutation.isPending && statusMutation.variables?.status === next ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                transitionLabels[next]
+              )}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3 border-t pt-4">
+        <h4 className="text-sm font-semibold">سجل المراجعة</h4>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">لا توجد تعليقات بعد</p>
+        ) : (
+          comments.map((entry) => (
+            <div key={entry.id} className="rounded-md border p-3 space-y-1" data-testid={`knowledge-comment-${entry.id}`}>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground" dir="auto">{entry.authorName ?? "مستخدم محذوف"}</span>
+                <span>{new Date(entry.createdAt).toLocaleString("ar-SA")}</span>
+                {entry.statusChange && (
+                  <Badge variant="outline" className="text-xs">
+                    ← {knowledgeStatusLabels[entry.statusChange as KnowledgeStatus]}
+                  </Badge>
+                )}
+              </div>
+              {entry.content && <p className="text-sm whitespace-pre-wrap" dir="auto">{entry.content}</p>}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
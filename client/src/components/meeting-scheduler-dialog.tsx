@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, CalendarPlus, Loader2, Search } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MeetingSlot, MeetingSlotSuggestions } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const DURATIONS = [30, 45, 60, 90, 120];
+
+interface MeetingSchedulerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function splitAttendees(value: string): string[] {
+  return value.split(/[,،\n]/).map((attendee) => attendee.trim()).filter(Boolean);
+}
+
+// Finds times when everyone is free and books the chosen one with the
+// attendees invited
+export function MeetingSchedulerDialog({ open, onOpenChange }: MeetingSchedulerDialogProps) {
+  const { toast } = useToast();
+  const [attendees, setAttendees] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [summary, setSummary] = useState("");
+  const [suggestions, setSuggestions] = useState<MeetingSlotSuggestions | null>(null);
+  const [selected, setSelected] = useState<MeetingSlot | null>(null);
+
+  const reset = () => {
+    setSuggestions(null);
+    setSelected(null);
+  };
+
+  const close = () => {
+    reset();
+    setAttendees("");
+    setSummary("");
+    onOpenChange(false);
+  };
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/suggest-slots", {
+        attendees: splitAttendees(attendees),
+        durationMinutes,
+        from: from || undefined,
+        to: to || undefined,
+      });
+      return await response.json() as MeetingSlotSuggestions;
+    },
+    onSuccess: (data) => {
+      setSuggestions(data);
+      setSelected(data.slots[0] ?? null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في البحث عن مواعيد",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/calendar/book-slot", {
+        summary: summary.trim(),
+        start: selected!.start,
+        end: selected!.end,
+        attendees: suggestions!.attendees,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events/upcoming"] });
+      toast({
+        title: "نجاح",
+        description: "تم حجز الاجتماع وإرسال الدعوات",
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حجز الاجتماع",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatSlot = (slot: MeetingSlot) => {
+    const options = { timeZone: suggestions?.timeZone };
+    const start = new Date(slot.start);
+    const day = start.toLocaleDateString("ar-SA", { ...options, weekday: "long", day: "numeric", month: "short" });
+    const time = (date: Date) => date.toLocaleTimeString("ar-SA", { ...options, hour: "2-digit", minute: "2-digit" });
+    return `${day}، ${time(start)} - ${time(new Date(slot.end))}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-2xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>جدولة اجتماع</DialogTitle>
+          <DialogDescription>
+            يبحث عن أوقات يكون فيها الجميع متاحين ضمن ساعات العمل وبعيدًا عن أوقات الصلاة
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="meeting-attendees">المدعوون</Label>
+            <Input
+              id="meeting-attendees"
+              value={attendees}
+              onChange={(e) => { setAttendees(e.target.value); reset(); }}
+              placeholder="ahmed@example.com, sara@example.com"
+              dir="ltr"
+              data-testid="input-meeting-attendees"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>المدة</Label>
+              <Select value={String(durationMinutes)} onValueChange={(value) => { setDurationMinutes(Number(value)); reset(); }}>
+                <SelectTrigger data-testid="select-meeting-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{minutes} دقيقة</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meeting-from">من</Label>
+              <Input id="meeting-from" type="date" value={from} onChange={(e) => { setFrom(e.target.value); reset(); }} data-testid="input-meeting-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meeting-to">إلى</Label>
+              <Input id="meeting-to" type="date" value={to} onChange={(e) => { setTo(e.target.value); reset(); }} data-testid="input-meeting-to" />
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => suggestMutation.mutate()}
+            disabled={suggestMutation.isPending}
+            data-testid="button-suggest-slots"
+          >
+            {suggestMutation.isPending ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Search className="w-4 h-4 ml-2" />}
+            البحث عن مواعيد
+          </Button>
+
+          {suggestions && (
+            <div className="space-y-3">
+              {suggestions.unavailable.length > 0 && (
+                <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    تعذر الاطلاع على تقويم: <span dir="ltr">{suggestions.unavailable.join(", ")}</span>، لذا قد تتعارض المواعيد مع ارتباطاتهم
+                  </span>
+                </p>
+              )}
+              {suggestions.slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">لا توجد أوقات متاحة للجميع في هذه الفترة</p>
+              ) : (
+                <div className="space-y-2">
+                  {suggestions.slots.map((slot) => (
+                    <button
+                      key={slot.start}
+                      type="button"
+                      onClick={() => setSelected(slot)}
+                      className={cn(
+                        "w-full rounded-md border p-3 text-right hover-elevate",
+                        selected?.start === slot.start && "border-primary bg-primary/5",
+                      )}
+                      data-testid={`slot-${slot.start}`}
+                    >
+                      <p className="text-sm font-medium">{formatSlot(slot)}</p>
+                      {slot.notes.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1" dir="ltr">{slot.notes.join(" · ")}</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selected && (
+            <div className="space-y-2">
+              <Label htmlFor="meeting-summary">عنوان الاجتماع</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="meeting-summary"
+                  value={summary}
+                  onChange={(e) => setSummary(e.target.value)}
+                  dir="auto"
+                  data-testid="input-meeting-summary"
+                />
+                <Button
+                  onClick={() => bookMutation.mutate()}
+                  disabled={!summary.trim() || bookMutation.isPending}
+                  data-testid="button-book-slot"
+                >
+                  {bookMutation.isPending ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <CalendarPlus className="w-4 h-4 ml-2" />}
+                  حجز
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { FileText, File as FileIcon, AlertTriangle } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { MessageAttachment } from "@shared/schema";
+import { formatFileSize } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  messageId: string;
+  isUser: boolean;
+}
+
+// Files attached to a message: images as thumbnails, documents as chips that
+// open the original file.
+export function MessageAttachments({ attachments, messageId, isUser }: MessageAttachmentsProps) {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  const images = attachments.filter((attachment) => attachment.kind === "image");
+  const files = attachments.filter((attachment) => attachment.kind !== "image");
+
+  return (
+    <div className="mt-3 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment, index) => (
+            <a
+              key={attachment.objectPath}
+              href={attachment.objectPath}
+              target="_blank"
+              rel="noreferrer"
+              data-testid={`link-attachment-${messageId}-image-${index}`}
+            >
+              <img
+                src={attachment.objectPath}
+                alt={attachment.name}
+                className="h-32 max-w-[12rem] rounded-md object-cover border border-border/50"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((attachment, index) => {
+            const unreadable = attachment.kind === "file" || !!attachment.extractionError;
+            const chip = (
+              <a
+                href={attachment.objectPath}
+                target="_blank"
+                rel="noreferrer"
+                className={cn(
+                  "inline-flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs hover-elevate",
+                  isUser ? "border-primary-foreground/30 bg-primary-foreground/10" : "bg-muted/40"
+                )}
+                data-testid={`link-attachment-${messageId}-file-${index}`}
+              >
+                {attachment.kind === "text" ? <FileText className="w-3 h-3" /> : <FileIcon className="w-3 h-3" />}
+                <span className="truncate max-w-[14rem]" dir="auto">{attachment.name}</span>
+                <span className="opacity-70" dir="ltr">{formatFileSize(attachment.size)}</span>
+                {unreadable && <AlertTriangle className="w-3 h-3 text-amber-500" />}
+              </a>
+            );
+
+            if (!unreadable) {
+              return <span key={attachment.objectPath}>{chip}</span>;
+            }
+            return (
+              <Tooltip key={attachment.objectPath}>
+                <TooltipTrigger asChild>{chip}</TooltipTrigger>
+                <TooltipContent className="max-w-sm" dir="rtl">
+                  <p className="text-xs">
+                    {attachment.extractionError
+                      ? "تعذّر استخراج النص من هذا الملف، لذا لم يقرأه المساعد"
+                      : "نوع الملف غير مدعوم للقراءة؛ يرى المساعد اسمه فقط"}
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
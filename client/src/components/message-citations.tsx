@@ -0,0 +1,45 @@
+import { BookOpen } from "lucide-react";
+import { Link } from "wouter";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Citation } from "@shared/schema";
+
+interface MessageCitationsProps {
+  citations: Citation[];
+  messageId: string;
+}
+
+// Knowledge base sources cited in a reply, linking back to the entry so the
+// reader can verify the answer against the documented procedure.
+export function MessageCitations({ citations, messageId }: MessageCitationsProps) {
+  if (citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50" dir="rtl">
+      <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+        <BookOpen className="w-3 h-3" />
+        المصادر من قاعدة المعرفة
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {citations.map((citation) => (
+          <Tooltip key={citation.index}>
+            <TooltipTrigger asChild>
+              <Link
+                href={`/knowledge?entry=${citation.processId}`}
+                className="inline-flex items-center gap-1.5 rounded-md border bg-muted/40 px-2 py-1 text-xs hover-elevate"
+                data-testid={`link-citation-${messageId}-${citation.index}`}
+              >
+                <span className="font-semibold text-primary">[{citation.index}]</span>
+                <span className="truncate max-w-[14rem]" dir="auto">{citation.title}</span>
+              </Link>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-sm">
+              <p className="text-xs whitespace-pre-wrap" dir="auto">{citation.excerpt}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </div>
+  );
+}
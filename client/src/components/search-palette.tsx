@@ -0,0 +1,168 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { BookOpen, CheckSquare, Loader2, MessageSquare, MessagesSquare, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { apiRequest } from "@/lib/queryClient";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const GROUPS: Array<{ type: SearchResultType; label: string; icon: typeof Search }> = [
+  { type: "knowledge", label: "قاعدة المعرفة", icon: BookOpen },
+  { type: "task", label: "المهام", icon: CheckSquare },
+  { type: "conversation", label: "المحادثات", icon: MessagesSquare },
+  { type: "message", label: "الرسائل", icon: MessageSquare },
+];
+
+// Wraps the highlighted ranges of a snippet in <mark>
+function renderHighlighted(text: string, highlights: Array<[number, number]>): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of highlights) {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+  return parts;
+}
+
+// Global search across conversations, messages, tasks and the knowledge base,
+// opened from the header or with Ctrl/Cmd+K.
+export function SearchPalette() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search?q=${encodeURIComponent(debouncedQuery)}`);
+      return await res.json();
+    },
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setQuery("");
+      setDebouncedQuery("");
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    setLocation(result.url);
+  };
+
+  const isSearching = query.trim() !== debouncedQuery || isFetching;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+        data-testid="button-open-search"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden sm:inline">بحث</span>
+        <kbd className="hidden sm:inline rounded border bg-muted px-1.5 text-[10px] font-mono" dir="ltr">
+          Ctrl K
+        </kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl" dir="rtl">
+          <DialogTitle className="sr-only">البحث</DialogTitle>
+          {/* Results are matched and ranked on the server, so cmdk's own filtering is off */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="ابحث في المحادثات والمهام وقاعدة المعرفة..."
+              dir="auto"
+              data-testid="input-search"
+            />
+            <CommandList className="max-h-[60vh]">
+              {debouncedQuery && !isSearching && (
+                <CommandEmpty>لا توجد نتائج</CommandEmpty>
+              )}
+              {isSearching && query.trim() && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {GROUPS.map(({ type, label, icon: Icon }) => {
+                const groupResults = results.filter((result) => result.type === type);
+                if (groupResults.length === 0) {
+                  return null;
+                }
+                return (
+                  <CommandGroup key={type} heading={label}>
+                    {groupResults.map((result) => (
+                      <CommandItem
+                        key={`${result.type}-${result.id}`}
+                        value={`${result.type}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start gap-3"
+                        data-testid={`search-result-${result.type}-${result.id}`}
+                      >
+                        <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                        <div className="flex-1 min-w-0">
+                          {result.title && result.type !== "conversation" && (
+                            <p className="text-sm font-medium truncate" dir="auto">{result.title}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground line-clamp-2" dir="auto">
+                            {renderHighlighted(result.snippet, result.highlights)}
+                          </p>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, type DragEvent, type ReactNode } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Task, TaskColumn } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+export interface TaskMove {
+  taskId: string;
+  columnId: string;
+  beforeId: string | null;
+  // Where the server will put the task, for showing the move right away
+  position: number;
+}
+
+interface TaskBoardProps {
+  columns: TaskColumn[];
+  // Top-level cards; subtasks are rendered inside their parent's card
+  tasks: Task[];
+  renderCard: (task: Task) => ReactNode;
+  onMove: (move: TaskMove) => void;
+  onAddTask: (column: TaskColumn) => void;
+}
+
+interface DropTarget {
+  columnId: string;
+  beforeId: string | null;
+}
+
+// The column a task shows in. Tasks without one (or whose column was just
+// deleted) go in the first column for their status.
+export function columnIdOf(task: Task, columns: TaskColumn[]): string | undefined {
+  if (task.columnId && columns.some((column) => column.id === task.columnId)) {
+    return task.columnId;
+  }
+  return columns.find((column) => column.status === task.status)?.id;
+}
+
+export function byBoardOrder(a: Task, b: Task): number {
+  return a.position - b.position || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+// Mirrors how the server picks a position between the new neighbours
+function positionBetween(before?: Task, after?: Task): number {
+  if (before && after) return (before.position + after.position) / 2;
+  if (after) return after.position - 1;
+  return (before?.position ?? 0) + 1;
+}
+
+export function TaskBoard({ columns, tasks, renderCard, onMove, onAddTask }: TaskBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const tasksByColumn = new Map<string, Task[]>(columns.map((column) => [column.id, []]));
+  for (const task of tasks) {
+    const columnId = columnIdOf(task, columns);
+    if (columnId) tasksByColumn.get(columnId)!.push(task);
+  }
+  tasksByColumn.forEach((list) => list.sort(byBoardOrder));
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleCardDragOver = (e: DragEvent, columnId: string, list: Task[], index: number) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const upperHalf = e.clientY < rect.top + rect.height / 2;
+    const before = upperHalf ? list[index] : list[index + 1];
+    setDropTarget({ columnId, beforeId: before?.id ?? null });
+  };
+
+  const handleColumnDragOver = (e: DragEvent, columnId: string) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    if (dropTarget?.columnId !== columnId) {
+      setDropTarget({ columnId, beforeId: null });
+    }
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    const task = tasks.find((t) => t.id === draggingId);
+    const target = dropTarget;
+    handleDragEnd();
+    if (!task || !target || target.beforeId === task.id) return;
+
+    const siblings = (tasksByColumn.get(target.columnId) ?? []).filter((t) => t.id !== task.id);
+    const index = target.beforeId ? siblings.findIndex((t) => t.id === target.beforeId) : siblings.length;
+    const insertAt = index === -1 ? siblings.length : index;
+
+    // Dropping a card right where it already is
+    const current = tasksByColumn.get(target.columnId) ?? [];
+    if (columnIdOf(task, columns) === target.columnId && current.indexOf(task) === insertAt) return;
+
+    onMove({
+      taskId: task.id,
+      columnId: target.columnId,
+      beforeId: target.beforeId,
+      position: positionBetween(siblings[insertAt - 1], siblings[insertAt]),
+    });
+  };
+
+  const dropIndicator = <div className="h-1 rounded-full bg-primary" />;
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" dir="rtl" data-testid="task-board">
+      {columns.map((column) => {
+        const list = tasksByColumn.get(column.id) ?? [];
+        const overLimit = column.wipLimit !== null && list.length > column.wipLimit;
+        const atLimit = column.wipLimit !== null && list.length >= column.wipLimit;
+        const isTarget = dropTarget?.columnId === column.id;
+
+        return (
+          <div
+            key={column.id}
+            className={cn(
+              "flex w-80 shrink-0 flex-col rounded-md border bg-muted/40 p-3",
+              isTarget && "ring-2 ring-primary/40",
+              overLimit && "border-destructive"
+            )}
+            onDragOver={(e) => handleColumnDragOver(e, column.id)}
+            onDrop={handleDrop}
+            data-testid={`task-column-${column.id}`}
+          >
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <h3 className="truncate font-semibold" dir="auto">{column.name}</h3>
+                <Badge
+                  variant={overLimit ? "destructive" : "secondary"}
+                  className="text-xs"
+                  data-testid={`badge-column-count-${column.id}`}
+                >
+                  {column.wipLimit !== null ? `${list.length}/${column.wipLimit}` : list.length}
+                </Badge>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onAddTask(column)}
+                disabled={atLimit}
+                data-testid={`button-add-task-${column.id}`}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex min-h-24 flex-1 flex-col gap-3">
+              {list.map((task, index) => (
+                <div key={task.id} className="space-y-3">
+                  {isTarget && dropTarget?.beforeId === task.id && draggingId !== task.id && dropIndicator}
+                  <div
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", task.id);
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleCardDragOver(e, column.id, list, index)}
+                    className={cn("cursor-grab", draggingId === task.id && "opacity-50")}
+                    data-testid={`board-card-${task.id}`}
+                  >
+                    {renderCard(task)}
+                  </div>
+                </div>
+              ))}
+              {isTarget && dropTarget?.beforeId === null && dropIndicator}
+              {list.length === 0 && !isTarget && (
+                <p className="py-6 text-center text-sm text-muted-foreground">لا توجد مهام</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { Check, MoreVertical, Clock } from "lucide-react";
+import { Check, MoreVertical, Clock, CalendarDays, User, ListChecks, Tag, Repeat, CalendarCheck, MessageSquare } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -9,18 +10,44 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { Task } from "@shared/schema";
+import type { Task, TaskCalendarLink, TaskPriority } from "@shared/schema";
+import { isOverdue, taskPriorityClasses, taskPriorityLabels } from "@/lib/tasks";
 import { cn } from "@/lib/utils";
 
 interface TaskCardProps {
   task: Task;
+  subtasks?: Task[];
+  assigneeName?: string;
   onStatusChange: (id: string, status: string) => void;
+  onEdit?: (task: Task) => void;
+  onAddSubtask?: (task: Task) => void;
+  onRecurrenceAction?: (id: string, action: "skip" | "pause" | "resume") => void;
+  // The task's Google Calendar event, when it has one
+  calendarLink?: TaskCalendarLink;
+  onCalendarChange?: (id: string, onCalendar: boolean) => void;
+  // Only the owner can delete a task
+  canDelete?: boolean;
   onDelete: (id: string) => void;
 }
 
-export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
+export function TaskCard({
+  task,
+  subtasks = [],
+  assigneeName,
+  onStatusChange,
+  onEdit,
+  onAddSubtask,
+  onRecurrenceAction,
+  calendarLink,
+  onCalendarChange,
+  canDelete = true,
+  onDelete,
+}: TaskCardProps) {
   const isCompleted = task.status === "completed";
   const isPending = task.status === "pending";
+  const overdue = isOverdue(task);
+  const checklistDone = task.checklist.filter((item) => item.done).length;
+  const subtasksDone = subtasks.filter((subtask) => subtask.status === "completed").length;
 
   const handleCheckChange = () => {
     onStatusChange(task.id, isCompleted ? "pending" : "completed");
@@ -35,8 +62,8 @@ export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
           className="mt-1"
           data-testid={`checkbox-task-${task.id}`}
         />
-        
-        <div className="flex-1 min-w-0">
+
+        <div className={cn("flex-1 min-w-0", onEdit && "cursor-pointer")} onClick={() => onEdit?.(task)}>
           <h3 className={cn(
             "text-base font-medium mb-1",
             isCompleted && "line-through text-muted-foreground"
@@ -48,7 +75,7 @@ export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
               {task.description}
             </p>
           )}
-          <div className="flex items-center gap-2 mt-2">
+          <div className="flex items-center gap-2 mt-2 flex-wrap">
             {isPending && (
               <Badge variant="secondary" className="text-xs">
                 <Clock className="w-3 h-3 ml-1" />
@@ -66,10 +93,106 @@ export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
                 مكتملة
               </Badge>
             )}
+            {task.priority !== "medium" && (
+              <Badge
+                variant="secondary"
+                className={cn("text-xs", taskPriorityClasses[task.priority as TaskPriority])}
+                data-testid={`badge-task-priority-${task.id}`}
+              >
+                {taskPriorityLabels[task.priority as TaskPriority]}
+              </Badge>
+            )}
+            {task.dueDate && (
+              <span
+                className={cn("flex items-center text-xs", overdue ? "text-destructive font-medium" : "text-muted-foreground")}
+                data-testid={`text-task-due-${task.id}`}
+              >
+                <CalendarDays className="w-3 h-3 ml-1" />
+                {new Date(task.dueDate).toLocaleDateString('ar-SA')}
+              </span>
+            )}
+            {task.recurrence && (
+              <Badge
+                variant="outline"
+                className={cn("text-xs", task.recurrence.paused && "text-muted-foreground")}
+                title={task.recurrence.rule}
+                data-testid={`badge-task-recurrence-${task.id}`}
+              >
+                <Repeat className="w-3 h-3 ml-1" />
+                {task.recurrence.paused ? "متكررة (متوقفة مؤقتاً)" : "متكررة"}
+              </Badge>
+            )}
+            {calendarLink && (
+              <Badge
+                variant="outline"
+                className={cn("text-xs", calendarLink.lastError && "border-destructive text-destructive")}
+                title={calendarLink.lastError ?? undefined}
+                data-testid={`badge-task-calendar-${task.id}`}
+              >
+                <CalendarCheck className="w-3 h-3 ml-1" />
+                {calendarLink.lastError ? "تعذرت المزامنة" : "في التقويم"}
+              </Badge>
+            )}
+            {assigneeName && (
+              <span className="flex items-center text-xs text-muted-foreground" dir="auto">
+                <User className="w-3 h-3 ml-1" />
+                {assigneeName}
+              </span>
+            )}
+            {task.checklist.length > 0 && (
+              <span className="flex items-center text-xs text-muted-foreground">
+                <ListChecks className="w-3 h-3 ml-1" />
+                {checklistDone}/{task.checklist.length}
+              </span>
+            )}
+            {task.labels.map((label) => (
+              <Badge key={label} variant="outline" className="text-xs" dir="auto">
+                <Tag className="w-3 h-3 ml-1" />
+                {label}
+              </Badge>
+            ))}
+            {task.conversationId && (
+              <Link
+                href={`/chat/${task.conversationId}`}
+                onClick={(e) => e.stopPropagation()}
+                className="flex items-center text-xs text-primary hover:underline"
+                data-testid={`link-task-conversation-${task.id}`}
+              >
+                <MessageSquare className="w-3 h-3 ml-1" />
+                المحادثة
+              </Link>
+            )}
             <span className="text-xs text-muted-foreground">
               {new Date(task.createdAt).toLocaleDateString('ar-SA')}
             </span>
           </div>
+
+          {subtasks.length > 0 && (
+            <div className="mt-3 space-y-1 border-r-2 pr-3" onClick={(e) => e.stopPropagation()}>
+              <p className="text-xs text-muted-foreground">
+                المهام الفرعية ({subtasksDone}/{subtasks.length})
+              </p>
+              {subtasks.map((subtask) => (
+                <div key={subtask.id} className="flex items-center gap-2" data-testid={`task-subtask-${subtask.id}`}>
+                  <Checkbox
+                    checked={subtask.status === "completed"}
+                    onCheckedChange={() => onStatusChange(subtask.id, subtask.status === "completed" ? "pending" : "completed")}
+                  />
+                  <span
+                    className={cn(
+                      "text-sm",
+                      onEdit && "cursor-pointer",
+                      subtask.status === "completed" && "line-through text-muted-foreground"
+                    )}
+                    onClick={() => onEdit?.(subtask)}
+                    dir="auto"
+                  >
+                    {subtask.title}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         <DropdownMenu>
@@ -79,6 +202,31 @@ export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
+            {onEdit && (
+              <DropdownMenuItem onClick={() => onEdit(task)}>
+                <span dir="rtl">تعديل المهمة</span>
+              </DropdownMenuItem>
+            )}
+            {onAddSubtask && !task.parentId && (
+              <DropdownMenuItem onClick={() => onAddSubtask(task)}>
+                <span dir="rtl">إضافة مهمة فرعية</span>
+              </DropdownMenuItem>
+            )}
+            {onRecurrenceAction && task.recurrence && (
+              <>
+                <DropdownMenuItem onClick={() => onRecurrenceAction(task.id, "skip")}>
+                  <span dir="rtl">تخطي هذا الموعد</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onRecurrenceAction(task.id, task.recurrence!.paused ? "resume" : "pause")}>
+                  <span dir="rtl">{task.recurrence.paused ? "استئناف التكرار" : "إيقاف التكرار مؤقتاً"}</span>
+                </DropdownMenuItem>
+              </>
+            )}
+            {onCalendarChange && (calendarLink || task.dueDate) && (
+              <DropdownMenuItem onClick={() => onCalendarChange(task.id, !calendarLink)}>
+                <span dir="rtl">{calendarLink ? "إزالة من التقويم" : "إضافة إلى التقويم"}</span>
+              </DropdownMenuItem>
+            )}
             {isPending && (
               <DropdownMenuItem onClick={() => onStatusChange(task.id, "in_progress")}>
                 <span dir="rtl">وضع علامة قيد التنفيذ</span>
@@ -94,12 +242,14 @@ export function TaskCard({ task, onStatusChange, onDelete }: TaskCardProps) {
                 <span dir="rtl">إعادة فتح المهمة</span>
               </DropdownMenuItem>
             )}
-            <DropdownMenuItem 
-              onClick={() => onDelete(task.id)}
-              className="text-destructive"
-            >
-              <span dir="rtl">حذف المهمة</span>
-            </DropdownMenuItem>
+            {canDelete && (
+              <DropdownMenuItem
+                onClick={() => onDelete(task.id)}
+                className="text-destructive"
+              >
+                <span dir="rtl">حذف المهمة</span>
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_TASK_COLUMNS,
+  taskStatuses,
+  type TaskColumn,
+  type TaskStatus,
+  type UpdateTaskColumn,
+} from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { taskStatusLabels } from "@/lib/tasks";
+import { useToast } from "@/hooks/use-toast";
+
+interface TaskColumnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: TaskColumn[];
+}
+
+function parseWipLimit(value: string): number | null {
+  const limit = parseInt(value, 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+// Adds, renames, re-maps, reorders and removes the board's columns. Changes
+// are saved as they are made.
+export function TaskColumnsDialog({ open, onOpenChange, columns }: TaskColumnsDialogProps) {
+  const { toast } = useToast();
+  const [newColumn, setNewColumn] = useState({ name: "", status: "in_progress" as TaskStatus, wipLimit: "" });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message || "فشل في تحديث الأعمدة",
+      variant: "destructive",
+    });
+  };
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/task-columns"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  };
+
+  const createColumnMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/task-columns", {
+        name: newColumn.name.trim(),
+        status: newColumn.status,
+        wipLimit: parseWipLimit(newColumn.wipLimit),
+      });
+    },
+    onSuccess: () => {
+      onSuccess();
+      setNewColumn({ name: "", status: "in_progress", wipLimit: "" });
+    },
+    onError,
+  });
+
+  const updateColumnMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateTaskColumn }) => {
+      return await apiRequest("PATCH", `/api/task-columns/${id}`, updates);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteColumnMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/task-columns/${id}`, undefined);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const reorderColumnsMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      return await apiRequest("POST", "/api/task-columns/reorder", { ids });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const moveColumn = (index: number, offset: number) => {
+    const ids = columns.map((column) => column.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderColumnsMutation.mutate(ids);
+  };
+
+  // A status must keep at least one column
+  const isOnlyColumnFor = (column: TaskColumn) =>
+    !columns.some((other) => other.id !== column.id && other.status === column.status);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>أعمدة اللوحة</DialogTitle>
+          <DialogDescription>
+            كل عمود يحدد حالة المهام فيه، ويمكن تحديد حد أقصى لعدد المهام الجارية في كل عمود
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 mt-2">
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex flex-wrap items-center gap-2" data-testid={`row-task-column-${column.id}`}>
+              <Input
+                key={column.name}
+                defaultValue={column.name}
+                className="flex-1 min-w-32"
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== column.name) {
+                    updateColumnMutation.mutate({ id: column.id, updates: { name } });
+                  }
+                }}
+                data-testid={`input-column-name-${column.id}`}
+                dir="auto"
+              />
+              <Select
+                value={column.status}
+                onValueChange={(status) => updateColumnMutation.mutate({ id: column.id, updates: { status: status as TaskStatus } })}
+                disabled={isOnlyColumnFor(column)}
+              >
+                <SelectTrigger className="w-32" data-testid={`select-column-status-${column.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>{taskStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                key={column.wipLimit ?? "none"}
+                type="number"
+                min={1}
+                placeholder="بلا حد"
+                defaultValue={column.wipLimit ?? ""}
+                className="w-24"
+                onBlur={(e) => {
+                  const wipLimit = parseWipLimit(e.target.value);
+                  if (wipLimit !== column.wipLimit) {
+                    updateColumnMutation.mutate({ id: column.id, updates: { wipLimit } });
+                  }
+                }}
+                data-testid={`input-column-wip-${column.id}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveColumn(index, -1)}
+                disabled={index === 0 || reorderColumnsMutation.isPending}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveColumn(index, 1)}
+                disabled={index === columns.length - 1 || reorderColumnsMutation.isPending}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteColumnMutation.mutate(column.id)}
+                disabled={isOnlyColumnFor(column) || deleteColumnMutation.isPending}
+                data-testid={`button-delete-column-${column.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {columns.length < MAX_TASK_COLUMNS && (
+          <div className="space-y-2 border-t pt-4">
+            <Label>عمود جديد</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                placeholder="اسم العمود..."
+                value={newColumn.name}
+                onChange={(e) => setNewColumn({ ...newColumn, name: e.target.value })}
+                className="flex-1 min-w-32"
+                data-testid="input-new-column-name"
+                dir="auto"
+              />
+              <Select
+                value={newColumn.status}
+                onValueChange={(status) => setNewColumn({ ...newColumn, status: status as TaskStatus })}
+              >
+                <SelectTrigger className="w-32" data-testid="select-new-column-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>{taskStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                placeholder="بلا حد"
+                value={newColumn.wipLimit}
+                onChange={(e) => setNewColumn({ ...newColumn, wipLimit: e.target.value })}
+                className="w-24"
+                data-testid="input-new-column-wip"
+              />
+              <Button
+                onClick={() => createColumnMutation.mutate()}
+                disabled={!newColumn.name.trim() || createColumnMutation.isPending}
+                data-testid="button-add-column"
+              >
+                {createColumnMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,424 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  taskPriorities,
+  taskStatuses,
+  type PublicUser,
+  type Task,
+  type TaskColumn,
+  type TaskChecklistItem,
+  type TaskPriority,
+  type TaskStatus,
+} from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { browserTimeZone, fromDateInputValue, taskPriorityLabels, taskStatusLabels, toDateInputValue } from "@/lib/tasks";
+import { TaskRecurrenceField } from "@/components/task-recurrence-field";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const UNASSIGNED = "none";
+
+interface TaskDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing when set, creating otherwise
+  task?: Task;
+  // Creates the new task as a subtask of this one
+  parentId?: string;
+  // Creates the new task in this board column, which decides its status
+  column?: TaskColumn;
+  subtasks?: Task[];
+  users: PublicUser[];
+}
+
+interface TaskForm {
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: string;
+  assigneeId: string;
+  labels: string[];
+  checklist: TaskChecklistItem[];
+  recurrenceRule: string;
+}
+
+function toForm(task?: Task): TaskForm {
+  return {
+    title: task?.title ?? "",
+    description: task?.description ?? "",
+    status: (task?.status as TaskStatus) ?? "pending",
+    priority: (task?.priority as TaskPriority) ?? "medium",
+    dueDate: toDateInputValue(task?.dueDate ?? null),
+    assigneeId: task?.assigneeId ?? UNASSIGNED,
+    labels: task?.labels ?? [],
+    checklist: task?.checklist ?? [],
+    recurrenceRule: task?.recurrence?.rule ?? "",
+  };
+}
+
+export function TaskDialog({ open, onOpenChange, task, parentId, column, subtasks = [], users }: TaskDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<TaskForm>(() => toForm(task));
+  const [labelInput, setLabelInput] = useState("");
+  const [checklistInput, setChecklistInput] = useState("");
+  const [subtaskInput, setSubtaskInput] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(task));
+      setLabelInput("");
+      setChecklistInput("");
+      setSubtaskInput("");
+    }
+  }, [open, task]);
+
+  const saveTaskMutation = useMutation({
+    mutationFn: async (values: TaskForm) => {
+      const body = {
+        title: values.title.trim(),
+        description: values.description.trim() || null,
+        status: values.status,
+        priority: values.priority,
+        dueDate: fromDateInputValue(values.dueDate),
+        assigneeId: values.assigneeId === UNASSIGNED ? null : values.assigneeId,
+        labels: values.labels,
+        checklist: values.checklist.filter((item) => item.text.trim()),
+        recurrence: values.recurrenceRule.trim()
+          ? { rule: values.recurrenceRule.trim(), timeZone: task?.recurrence?.timeZone ?? browserTimeZone() }
+          : null,
+        ...(task ? {} : { parentId: parentId ?? null, columnId: column?.id }),
+      };
+      return task
+        ? await apiRequest("PATCH", `/api/tasks/${task.id}`, body)
+        : await apiRequest("POST", "/api/tasks", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      onOpenChange(false);
+      toast({
+        title: "نجاح",
+        description: task ? "تم حفظ المهمة" : "تم إنشاء المهمة بنجاح",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حفظ المهمة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const subtaskMutation = useMutation({
+    mutationFn: async (change: { id?: string; title?: string; status?: TaskStatus }) => {
+      return change.id
+        ? await apiRequest("PATCH", `/api/tasks/${change.id}`, { status: change.status })
+        : await apiRequest("POST", "/api/tasks", { title: change.title, parentId: task!.id });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setSubtaskInput("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تحديث المهام الفرعية",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddLabel = () => {
+    const label = labelInput.trim();
+    if (label && !form.labels.includes(label)) {
+      setForm({ ...form, labels: [...form.labels, label] });
+    }
+    setLabelInput("");
+  };
+
+  const handleAddChecklistItem = () => {
+    const text = checklistInput.trim();
+    if (text) {
+      setForm({ ...form, checklist: [...form.checklist, { id: crypto.randomUUID(), text, done: false }] });
+      setChecklistInput("");
+    }
+  };
+
+  const updateChecklistItem = (id: string, changes: Partial<TaskChecklistItem>) => {
+    setForm({ ...form, checklist: form.checklist.map((item) => (item.id === id ? { ...item, ...changes } : item)) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>{task ? "تعديل المهمة" : parentId ? "مهمة فرعية جديدة" : "إنشاء مهمة جديدة"}</DialogTitle>
+          <DialogDescription>
+            {task ? "حدّث تفاصيل المهمة وقائمة التحقق والمهام الفرعية" : "أضف مهمة جديدة لتتبع عملك"}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[70vh] pl-4">
+          <div className="space-y-4 mt-2">
+            <div>
+              <Label htmlFor="task-title">العنوان</Label>
+              <Input
+                id="task-title"
+                placeholder="عنوان المهمة..."
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                data-testid="input-task-title"
+                dir="auto"
+              />
+            </div>
+            <div>
+              <Label htmlFor="task-description">الوصف (اختياري)</Label>
+              <Textarea
+                id="task-description"
+                placeholder="وصف المهمة..."
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+                data-testid="input-task-description"
+                dir="auto"
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {column && !task ? (
+                <div>
+                  <Label>العمود</Label>
+                  <Input value={column.name} disabled dir="auto" data-testid="input-task-column" />
+                </div>
+              ) : (
+                <div>
+                  <Label>الحالة</Label>
+                  <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as TaskStatus })}>
+                    <SelectTrigger data-testid="select-task-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {taskStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{taskStatusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label>الأولوية</Label>
+                <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value as TaskPriority })}>
+                  <SelectTrigger data-testid="select-task-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {taskPriorities.map((priority) => (
+                      <SelectItem key={priority} value={priority}>{taskPriorityLabels[priority]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="task-due-date">تاريخ الاستحقاق</Label>
+                <Input
+                  id="task-due-date"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                  data-testid="input-task-due-date"
+                />
+              </div>
+              <div>
+                <Label>المسؤول</Label>
+                <Select value={form.assigneeId} onValueChange={(value) => setForm({ ...form, assigneeId: value })}>
+                  <SelectTrigger data-testid="select-task-assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>بدون مسؤول</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!parentId && !task?.parentId && (
+              <TaskRecurrenceField
+                key={`${task?.id ?? "new"}-${open}`}
+                value={form.recurrenceRule}
+                onChange={(recurrenceRule) => setForm((current) => ({ ...current, recurrenceRule }))}
+              />
+            )}
+
+            <div>
+              <Label htmlFor="task-label">التصنيفات</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="task-label"
+                  placeholder="أضف تصنيفاً..."
+                  value={labelInput}
+                  onChange={(e) => setLabelInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddLabel();
+                    }
+                  }}
+                  data-testid="input-task-label"
+                  dir="auto"
+                />
+                <Button type="button" onClick={handleAddLabel} variant="secondary">
+                  إضافة
+                </Button>
+              </div>
+              {form.labels.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {form.labels.map((label) => (
+                    <Badge key={label} variant="secondary" dir="auto">
+                      {label}
+                      <button
+                        onClick={() => setForm({ ...form, labels: form.labels.filter((l) => l !== label) })}
+                        className="mr-1 hover:text-destructive"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="task-checklist">قائمة التحقق</Label>
+              <div className="space-y-2 mt-1">
+                {form.checklist.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2" data-testid={`checklist-item-${item.id}`}>
+                    <Checkbox
+                      checked={item.done}
+                      onCheckedChange={(checked) => updateChecklistItem(item.id, { done: checked === true })}
+                    />
+                    <Input
+                      value={item.text}
+                      onChange={(e) => updateChecklistItem(item.id, { text: e.target.value })}
+                      className={cn("h-8", item.done && "line-through text-muted-foreground")}
+                      dir="auto"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, checklist: form.checklist.filter((i) => i.id !== item.id) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    id="task-checklist"
+                    placeholder="أضف بنداً..."
+                    value={checklistInput}
+                    onChange={(e) => setChecklistInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddChecklistItem();
+                      }
+                    }}
+                    data-testid="input-task-checklist"
+                    dir="auto"
+                  />
+                  <Button type="button" onClick={handleAddChecklistItem} variant="secondary">
+                    إضافة
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {task && !task.parentId && (
+              <div>
+                <Label htmlFor="task-subtask">المهام الفرعية</Label>
+                <div className="space-y-2 mt-1">
+                  {subtasks.map((subtask) => (
+                    <div key={subtask.id} className="flex items-center gap-2" data-testid={`subtask-${subtask.id}`}>
+                      <Checkbox
+                        checked={subtask.status === "completed"}
+                        onCheckedChange={(checked) => subtaskMutation.mutate({
+                          id: subtask.id,
+                          status: checked === true ? "completed" : "pending",
+                        })}
+                      />
+                      <span
+                        className={cn("text-sm", subtask.status === "completed" && "line-through text-muted-foreground")}
+                        dir="auto"
+                      >
+                        {subtask.title}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <Input
+                      id="task-subtask"
+                      placeholder="أضف مهمة فرعية..."
+                      value={subtaskInput}
+                      onChange={(e) => setSubtaskInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && subtaskInput.trim()) {
+                          e.preventDefault();
+                          subtaskMutation.mutate({ title: subtaskInput.trim() });
+                        }
+                      }}
+                      data-testid="input-task-subtask"
+                      dir="auto"
+                    />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      onClick={() => subtaskMutation.mutate({ title: subtaskInput.trim() })}
+                      disabled={!subtaskInput.trim() || subtaskMutation.isPending}
+                      data-testid="button-add-subtask"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <Button
+              onClick={() => saveTaskMutation.mutate(form)}
+              disabled={!form.title.trim() || saveTaskMutation.isPending}
+              className="w-full"
+              data-testid="button-submit-task"
+            >
+              {saveTaskMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : task ? (
+                "حفظ المهمة"
+              ) : (
+                "إنشاء المهمة"
+              )}
+            </Button>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
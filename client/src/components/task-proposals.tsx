@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ListTodo, Loader2, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { TaskProposal } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fromDateInputValue } from "@/lib/tasks";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProposalDraft extends TaskProposal {
+  key: number;
+  selected: boolean;
+}
+
+interface TaskProposalsProps {
+  conversationId: string;
+  proposals: TaskProposal[];
+  // Called once the tasks are created or the proposals are dismissed
+  onDone: () => void;
+}
+
+// Action items the model found in the conversation. The user edits and picks
+// the ones to keep; they become tasks linked back to this conversation.
+export function TaskProposals({ conversationId, proposals, onDone }: TaskProposalsProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<ProposalDraft[]>([]);
+
+  useEffect(() => {
+    setDrafts(proposals.map((proposal, key) => ({ ...proposal, key, selected: true })));
+  }, [proposals]);
+
+  const selected = drafts.filter((draft) => draft.selected && draft.title.trim());
+
+  const createTasksMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/conversations/${conversationId}/tasks`, {
+        tasks: selected.map((draft) => ({
+          title: draft.title.trim(),
+          description: draft.description.trim() || null,
+          dueDate: draft.dueDate ? fromDateInputValue(draft.dueDate) : null,
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "نجاح",
+        description: `تم إنشاء ${selected.length} ${selected.length === 1 ? "مهمة" : "مهام"} من المحادثة`,
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في إنشاء المهام",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (key: number, changes: Partial<ProposalDraft>) => {
+    setDrafts((current) => current.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  return (
+    <Card className="p-4 border-dashed bg-muted/30" dir="rtl" data-testid="task-proposals">
+      <div className="flex items-center gap-2 mb-3">
+        <ListTodo className="w-4 h-4 text-primary" />
+        <p className="text-sm font-medium flex-1">مهام مقترحة من المحادثة</p>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDone} title="تجاهل" data-testid="button-dismiss-proposals">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="space-y-3">
+        {drafts.map((draft) => (
+          <div key={draft.key} className="flex items-start gap-3" data-testid={`task-proposal-${draft.key}`}>
+            <Checkbox
+              checked={draft.selected}
+              onCheckedChange={(checked) => updateDraft(draft.key, { selected: checked === true })}
+              className="mt-2.5"
+              data-testid={`checkbox-proposal-${draft.key}`}
+            />
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={draft.title}
+                  onChange={(e) => updateDraft(draft.key, { title: e.target.value })}
+                  className="h-9"
+                  dir="auto"
+                  data-testid={`input-proposal-title-${draft.key}`}
+                />
+                <Input
+                  type="date"
+                  value={draft.dueDate ?? ""}
+                  onChange={(e) => updateDraft(draft.key, { dueDate: e.target.value || null })}
+                  className="h-9 w-40"
+                  data-testid={`input-proposal-due-${draft.key}`}
+                />
+              </div>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                placeholder="الوصف (اختياري)"
+                rows={2}
+                className="text-sm"
+                dir="auto"
+                data-testid={`input-proposal-description-${draft.key}`}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <Button variant="outline" size="sm" onClick={onDone}>
+          تجاهل
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => createTasksMutation.mutate()}
+          disabled={selected.length === 0 || createTasksMutation.isPending}
+          data-testid="button-create-proposed-tasks"
+        >
+          {createTasksMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+          إنشاء المهام المحددة ({selected.length})
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Toggle } from "@/components/ui/toggle";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { hijriMonthLabels, weekdayLabels } from "@/lib/tasks";
+
+type RecurrenceKind = "none" | "daily" | "weekly" | "monthly" | "yearly" | "hijri_monthly" | "hijri_yearly" | "custom";
+
+const kindLabels: Record<RecurrenceKind, string> = {
+  none: "لا تتكرر",
+  daily: "يومياً",
+  weekly: "أسبوعياً",
+  monthly: "شهرياً",
+  yearly: "سنوياً",
+  hijri_monthly: "شهرياً (هجري)",
+  hijri_yearly: "سنوياً (هجري)",
+  custom: "قاعدة مخصصة (RRULE)",
+};
+
+const LAST_DAY = -1;
+
+interface Preset {
+  kind: RecurrenceKind;
+  interval: number;
+  weekdays: string[];
+  monthDay: number;
+  hijriMonth: number;
+}
+
+function toRule({ kind, interval, weekdays, monthDay, hijriMonth }: Preset): string {
+  const every = interval > 1 ? `;INTERVAL=${interval}` : "";
+  switch (kind) {
+    case "daily":
+      return `FREQ=DAILY${every}`;
+    case "weekly":
+      return `FREQ=WEEKLY${every}${weekdays.length ? `;BYDAY=${weekdays.join(",")}` : ""}`;
+    case "monthly":
+      return `FREQ=MONTHLY${every};BYMONTHDAY=${monthDay}`;
+    case "yearly":
+      return `FREQ=YEARLY${every}`;
+    case "hijri_monthly":
+      return `RSCALE=ISLAMIC-UMALQURA;FREQ=MONTHLY${every};BYMONTHDAY=${monthDay}`;
+    case "hijri_yearly":
+      return `RSCALE=ISLAMIC-UMALQURA;FREQ=YEARLY${every};BYMONTH=${hijriMonth};BYMONTHDAY=${monthDay}`;
+    default:
+      return "";
+  }
+}
+
+interface TaskRecurrenceFieldProps {
+  // The RRULE, or "" when the task does not repeat
+  value: string;
+  onChange: (rule: string) => void;
+}
+
+// Builds common rules from a few choices; anything else can be typed as an
+// RRULE. An existing rule opens as a custom one.
+export function TaskRecurrenceField({ value, onChange }: TaskRecurrenceFieldProps) {
+  const [preset, setPreset] = useState<Preset>({
+    kind: value ? "custom" : "none",
+    interval: 1,
+    weekdays: [],
+    monthDay: 1,
+    hijriMonth: 9,
+  });
+
+  const update = (changes: Partial<Preset>) => {
+    const next = { ...preset, ...changes };
+    setPreset(next);
+    if (next.kind !== "custom") {
+      onChange(toRule(next));
+    }
+  };
+
+  const { kind } = preset;
+  const usesMonthDay = kind === "monthly" || kind === "hijri_monthly" || kind === "hijri_yearly";
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label>التكرار</Label>
+          <Select value={kind} onValueChange={(value) => update({ kind: value as RecurrenceKind })}>
+            <SelectTrigger data-testid="select-task-recurrence">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(kindLabels) as RecurrenceKind[]).map((option) => (
+                <SelectItem key={option} value={option}>{kindLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {kind !== "none" && kind !== "custom" && (
+          <div>
+            <Label htmlFor="task-recurrence-interval">كل</Label>
+            <Input
+              id="task-recurrence-interval"
+              type="number"
+              min={1}
+              max={100}
+              value={preset.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              data-testid="input-task-recurrence-interval"
+            />
+          </div>
+        )}
+      </div>
+
+      {kind === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(weekdayLabels).map(([code, label]) => (
+            <Toggle
+              key={code}
+              size="sm"
+              variant="outline"
+              pressed={preset.weekdays.includes(code)}
+              onPressedChange={(pressed) =>
+                update({ weekdays: pressed ? [...preset.weekdays, code] : preset.weekdays.filter((day) => day !== code) })
+              }
+              data-testid={`toggle-recurrence-day-${code}`}
+            >
+              {label}
+            </Toggle>
+          ))}
+        </div>
+      )}
+
+      {usesMonthDay && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {kind === "hijri_yearly" && (
+            <div>
+              <Label>الشهر الهجري</Label>
+              <Select value={String(preset.hijriMonth)} onValueChange={(value) => update({ hijriMonth: Number(value) })}>
+                <SelectTrigger data-testid="select-recurrence-hijri-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {hijriMonthLabels.map((label, index) => (
+                    <SelectItem key={label} value={String(index + 1)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label>اليوم من الشهر</Label>
+            <Select value={String(preset.monthDay)} onValueChange={(value) => update({ monthDay: Number(value) })}>
+              <SelectTrigger data-testid="select-recurrence-month-day">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: kind === "monthly" ? 31 : 30 }, (_, i) => i + 1).map((day) => (
+                  <SelectItem key={day} value={String(day)}>{day}</SelectItem>
+                ))}
+                <SelectItem value={String(LAST_DAY)}>آخر يوم</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {kind !== "none" && (
+        <div>
+          <Label htmlFor="task-recurrence-rule">القاعدة</Label>
+          <Input
+            id="task-recurrence-rule"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={kind !== "custom"}
+            placeholder="FREQ=MONTHLY;BYMONTHDAY=15"
+            dir="ltr"
+            className="font-mono text-xs"
+            data-testid="input-task-recurrence-rule"
+          />
+          {kind === "yearly" && (
+            <p className="text-xs text-muted-foreground mt-1">يتكرر في يوم وشهر تاريخ الاستحقاق</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
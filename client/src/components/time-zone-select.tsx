@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
+
+// "UTC+03:00" for the zone right now
+function describeOffset(timeZone: string): string {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(new Date())
+    .find((part) => part.type === "timeZoneName")?.value;
+  return name === "GMT" ? "UTC+00:00" : name?.replace("GMT", "UTC") ?? "";
+}
+
+interface TimeZoneSelectProps {
+  value: string | null;
+  onChange: (timeZone: string | null) => void;
+  // Offered first as "follow the organisation" when set; choosing it passes null
+  inheritedTimeZone?: string;
+  disabled?: boolean;
+  "data-testid"?: string;
+}
+
+// A searchable list of IANA time zones
+export function TimeZoneSelect({ value, onChange, inheritedTimeZone, disabled, "data-testid": testId }: TimeZoneSelectProps) {
+  const [open, setOpen] = useState(false);
+
+  const select = (timeZone: string | null) => {
+    onChange(timeZone);
+    setOpen(false);
+  };
+
+  const label = value
+    ? `${value} (${describeOffset(value)})`
+    : inheritedTimeZone
+      ? `منطقة المؤسسة / Organisation's: ${inheritedTimeZone}`
+      : "اختر منطقة زمنية / Choose a time zone";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+          data-testid={testId}
+        >
+          <span className="flex items-center gap-2 truncate" dir="ltr">
+            <Globe className="w-4 h-4 shrink-0 text-muted-foreground" />
+            {label}
+          </span>
+          <ChevronsUpDown className="w-4 h-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="ابحث عن مدينة / Search for a city" dir="ltr" />
+          <CommandList className="max-h-72">
+            <CommandEmpty>لا توجد نتائج / No results</CommandEmpty>
+            {inheritedTimeZone && (
+              <CommandGroup>
+                <CommandItem value={`organisation ${inheritedTimeZone}`} onSelect={() => select(null)}>
+                  <Check className={cn("w-4 h-4 ml-2", value === null ? "opacity-100" : "opacity-0")} />
+                  منطقة المؤسسة / Organisation's ({inheritedTimeZone})
+                </CommandItem>
+              </CommandGroup>
+            )}
+            <CommandGroup>
+              {TIME_ZONES.map((timeZone) => (
+                <CommandItem key={timeZone} value={timeZone} onSelect={() => select(timeZone)} dir="ltr">
+                  <Check className={cn("w-4 h-4 mr-2", value === timeZone ? "opacity-100" : "opacity-0")} />
+                  {timeZone}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
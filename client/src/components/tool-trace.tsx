@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { ChevronDown, Wrench, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ToolCallRecord } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const TOOL_LABELS: Record<string, string> = {
+  list_tasks: "عرض المهام",
+  create_task: "إنشاء مهمة",
+  update_task: "تحديث مهمة",
+  complete_task: "إكمال مهمة",
+  delete_task: "حذف مهمة",
+  search_emails: "البحث في البريد",
+  get_email: "قراءة رسالة",
+  get_unread_email_count: "عدد الرسائل غير المقروءة",
+  list_calendars: "عرض التقاويم",
+  list_calendar_events: "عرض أحداث التقويم",
+  get_upcoming_events: "الأحداث القادمة",
+  get_calendar_event: "قراءة حدث",
+  suggest_meeting_slots: "اقتراح مواعيد اجتماع",
+  book_meeting: "حجز اجتماع",
+};
+
+interface ToolTraceProps {
+  toolCalls: ToolCallRecord[];
+  messageId: string;
+}
+
+// Collapsible list of the tools the assistant called while answering.
+export function ToolTrace({ toolCalls, messageId }: ToolTraceProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (toolCalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-3" dir="rtl">
+      <CollapsibleTrigger
+        className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        data-testid={`button-tool-trace-${messageId}`}
+      >
+        <Wrench className="w-3 h-3" />
+        <span>الأدوات المستخدمة ({toolCalls.length})</span>
+        <ChevronDown className={cn("w-3 h-3 transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-1.5 text-xs">
+          {toolCalls.map((toolCall) => (
+            <li
+              key={toolCall.id}
+              className="flex items-start gap-2 rounded-md bg-muted/50 px-2 py-1.5"
+              data-testid={`tool-trace-item-${toolCall.id}`}
+            >
+              {toolCall.error ? (
+                <AlertCircle className="w-3.5 h-3.5 mt-0.5 text-destructive flex-shrink-0" />
+              ) : (
+                <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {toolCall.step !== undefined && (
+                    <span className="text-muted-foreground">#{toolCall.step}</span>
+                  )}
+                  <span className="font-medium">{TOOL_LABELS[toolCall.name] ?? toolCall.name}</span>
+                  {toolCall.durationMs !== undefined && (
+                    <span className="text-muted-foreground" dir="ltr">{toolCall.durationMs}ms</span>
+                  )}
+                </div>
+                {Object.keys(toolCall.arguments).length > 0 && (
+                  <code className="block truncate text-muted-foreground" dir="ltr">
+                    {JSON.stringify(toolCall.arguments)}
+                  </code>
+                )}
+                {toolCall.error && (
+                  <p className="text-destructive" dir="auto">{toolCall.error}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
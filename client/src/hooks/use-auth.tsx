@@ -0,0 +1,104 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { closeSocket } from "@/lib/websocket";
+import { useToast } from "@/hooks/use-toast";
+
+interface LoginData {
+  username: string;
+  password: string;
+}
+
+interface RegisterData extends LoginData {
+  displayName?: string | null;
+}
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Data cached for the previous user (or for nobody) must not leak into the
+  // new session, and the socket reconnects with the new session cookie
+  const startSession = (signedIn: PublicUser) => {
+    closeSocket();
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], signedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: startSession,
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل تسجيل الدخول",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const response = await apiRequest("POST", "/api/register", data);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: startSession,
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل إنشاء الحساب",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      closeSocket();
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل تسجيل الخروج",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
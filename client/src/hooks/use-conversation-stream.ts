@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { onServerEvent, onSocketOpen, sendSocketMessage } from "@/lib/websocket";
+import type { ToolCallRecord } from "@shared/schema";
+
+export interface StreamingReply {
+  streamId: string;
+  content: string;
+  toolCalls: ToolCallRecord[];
+}
+
+// Tracks the assistant reply currently being streamed for a conversation over /ws.
+export function useConversationStream(conversationId: string | undefined) {
+  const [reply, setReply] = useState<StreamingReply | null>(null);
+  const finishedStreams = useRef(new Set<string>());
+
+  useEffect(() => {
+    setReply(null);
+    if (!conversationId) {
+      return;
+    }
+
+    const removeOpenListener = onSocketOpen(() => {
+      sendSocketMessage({ type: "subscribe", conversationId });
+    });
+
+    const removeEventListener = onServerEvent(({ type, data }) => {
+      if (data?.conversationId !== conversationId) {
+        return;
+      }
+
+      switch (type) {
+        case "message_stream_start":
+          setReply({ streamId: data.streamId, content: data.content || "", toolCalls: data.toolCalls || [] });
+          break;
+        case "message_delta":
+          setReply((current) =>
+            current && current.streamId === data.streamId
+              ? { ...current, content: current.content + data.delta }
+              : { streamId: data.streamId, content: data.delta, toolCalls: [] },
+          );
+          break;
+        case "message_tool_call":
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          setReply((current) =>
+            current && current.streamId === data.streamId
+              ? { ...current, toolCalls: [...current.toolCalls, data.toolCall] }
+              : { streamId: data.streamId, content: "", toolCalls: [data.toolCall] },
+          );
+          break;
+        case "conversation_summary_updated":
+          queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId] });
+          break;
+        case "message_stream_end":
+          finishedStreams.current.add(data.streamId);
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", conversationId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+          setReply((current) => (current?.streamId === data.streamId ? null : current));
+          break;
+      }
+    });
+
+    return () => {
+      removeOpenListener();
+      removeEventListener();
+      sendSocketMessage({ type: "unsubscribe", conversationId });
+    };
+  }, [conversationId]);
+
+  // Shows the reply as pending as soon as the server accepts the message,
+  // before the first delta arrives.
+  const beginStream = useCallback((streamId: string) => {
+    if (finishedStreams.current.has(streamId)) {
+      return;
+    }
+    setReply((current) => (current?.streamId === streamId ? current : { streamId, content: "", toolCalls: [] }));
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (conversationId && reply) {
+      sendSocketMessage({ type: "cancel", conversationId, streamId: reply.streamId });
+    }
+  }, [conversationId, reply]);
+
+  return { reply, beginStream, cancel };
+}
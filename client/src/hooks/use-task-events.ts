@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { onServerEvent } from "@/lib/websocket";
+
+// Keeps task lists and the board columns current while other people (or the
+// assistant) change them.
+export function useTaskEvents() {
+  useEffect(() => {
+    return onServerEvent(({ type }) => {
+      switch (type) {
+        case "task_created":
+        case "task_updated":
+        case "task_deleted":
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/task-calendar-links"] });
+          break;
+        case "task_columns_updated":
+          queryClient.invalidateQueries({ queryKey: ["/api/task-columns"] });
+          // Deleting or re-mapping a column moves or re-statuses its tasks
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          break;
+      }
+    });
+  }, []);
+}
@@ -0,0 +1,32 @@
+import type { AttachmentUpload } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+
+// Uploads the file straight to object storage through a signed URL, then
+// finalizes it so the server records the uploader as its owner
+export async function uploadAttachment(file: File): Promise<AttachmentUpload> {
+  const uploadResponse = await apiRequest("POST", "/api/objects/upload");
+  const { uploadURL } = await uploadResponse.json() as { uploadURL: string };
+
+  const stored = await fetch(uploadURL, {
+    method: "PUT",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+  if (!stored.ok) {
+    throw new Error(`${stored.status}: ${stored.statusText}`);
+  }
+
+  const finalizeResponse = await apiRequest("PUT", "/api/attachments", { attachmentURL: uploadURL });
+  const { objectPath } = await finalizeResponse.json() as { objectPath: string };
+  return { objectPath, name: file.name };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
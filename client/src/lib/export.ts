@@ -1,4 +1,4 @@
-import type { Conversation, Message, Task, BusinessProcess } from "@shared/schema";
+import type { Conversation, Message, Task, TaskColumn, BusinessProcess } from "@shared/schema";
 
 // Export conversations to JSON
 export function exportConversationsToJSON(conversations: Conversation[]): void {
@@ -55,12 +55,16 @@ export function exportTasksToJSON(tasks: Task[]): void {
 
 // Export tasks to CSV
 export function exportTasksToCSV(tasks: Task[]): void {
-  const headers = ["ID", "Title", "Description", "Status", "Created At", "Updated At"];
+  const headers = ["ID", "Parent ID", "Title", "Description", "Status", "Priority", "Due Date", "Labels", "Created At", "Updated At"];
   const rows = tasks.map(task => [
     task.id,
+    task.parentId || "",
     escapeCSV(task.title),
     escapeCSV(task.description || ""),
     task.status,
+    task.priority,
+    task.dueDate ? new Date(task.dueDate).toLocaleDateString() : "",
+    escapeCSV(task.labels.join("; ")),
     new Date(task.createdAt).toLocaleString(),
     new Date(task.updatedAt).toLocaleString()
   ]);
@@ -69,27 +73,36 @@ export function exportTasksToCSV(tasks: Task[]): void {
   downloadFile(csv, `tasks-${getDateString()}.csv`, "text/csv");
 }
 
-// Export tasks to Markdown
-export function exportTasksToMarkdown(tasks: Task[]): void {
+// Export tasks to Markdown, one section per board column. Tasks outside any
+// column go under the first column for their status.
+export function exportTasksToMarkdown(tasks: Task[], columns: TaskColumn[]): void {
   let markdown = "# Tasks Export\n\n";
   markdown += `Exported on: ${new Date().toLocaleString()}\n\n`;
   markdown += `Total tasks: ${tasks.length}\n\n`;
 
-  const statusGroups = {
-    pending: tasks.filter(t => t.status === "pending"),
-    in_progress: tasks.filter(t => t.status === "in_progress"),
-    completed: tasks.filter(t => t.status === "completed")
-  };
+  const columnOf = (task: Task) =>
+    columns.find(c => c.id === task.columnId) ?? columns.find(c => c.status === task.status);
 
-  Object.entries(statusGroups).forEach(([status, statusTasks]) => {
-    if (statusTasks.length > 0) {
-      markdown += `## ${status.replace("_", " ").toUpperCase()}\n\n`;
-      statusTasks.forEach(task => {
+  columns.forEach(column => {
+    const columnTasks = tasks.filter(t => columnOf(t)?.id === column.id);
+    if (columnTasks.length > 0) {
+      markdown += `## ${column.name}\n\n`;
+      columnTasks.forEach(task => {
         markdown += `### ${task.title}\n\n`;
         if (task.description) {
           markdown += `${task.description}\n\n`;
         }
         markdown += `- **Status:** ${task.status}\n`;
+        markdown += `- **Priority:** ${task.priority}\n`;
+        if (task.dueDate) {
+          markdown += `- **Due:** ${new Date(task.dueDate).toLocaleDateString()}\n`;
+        }
+        if (task.labels.length > 0) {
+          markdown += `- **Labels:** ${task.labels.join(", ")}\n`;
+        }
+        task.checklist.forEach(item => {
+          markdown += `- [${item.done ? "x" : " "}] ${item.text}\n`;
+        });
         markdown += `- **Created:** ${new Date(task.createdAt).toLocaleString()}\n`;
         markdown += `- **Updated:** ${new Date(task.updatedAt).toLocaleString()}\n\n`;
       });
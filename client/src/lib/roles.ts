@@ -0,0 +1,11 @@
+import type { UserRole } from "@shared/schema";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "مسؤول النظام",
+  manager: "مدير",
+  staff: "موظف",
+};
+
+export function roleLabel(role: string): string {
+  return ROLE_LABELS[role as UserRole] ?? role;
+}
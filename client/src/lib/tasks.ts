@@ -0,0 +1,69 @@
+import type { Task, TaskPriority, TaskStatus } from "@shared/schema";
+
+export const taskStatusLabels: Record<TaskStatus, string> = {
+  pending: "قيد الانتظار",
+  in_progress: "قيد التنفيذ",
+  completed: "مكتملة",
+};
+
+export const taskPriorityLabels: Record<TaskPriority, string> = {
+  low: "منخفضة",
+  medium: "متوسطة",
+  high: "عالية",
+  urgent: "عاجلة",
+};
+
+export const taskPriorityClasses: Record<TaskPriority, string> = {
+  low: "bg-muted text-muted-foreground",
+  medium: "bg-blue-500/10 text-blue-700 dark:text-blue-400",
+  high: "bg-orange-500/10 text-orange-700 dark:text-orange-400",
+  urgent: "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+export function isOverdue(task: Task): boolean {
+  return !!task.dueDate && task.status !== "completed" && new Date(task.dueDate) < new Date();
+}
+
+// Due dates are picked as calendar days and stored as local midnight
+export function toDateInputValue(date: Date | string | null): string {
+  if (!date) {
+    return "";
+  }
+  const value = new Date(date);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+export function fromDateInputValue(value: string): string | null {
+  return value ? new Date(`${value}T00:00:00`).toISOString() : null;
+}
+
+export const weekdayLabels: Record<string, string> = {
+  SU: "الأحد",
+  MO: "الاثنين",
+  TU: "الثلاثاء",
+  WE: "الأربعاء",
+  TH: "الخميس",
+  FR: "الجمعة",
+  SA: "السبت",
+};
+
+export const hijriMonthLabels = [
+  "محرم",
+  "صفر",
+  "ربيع الأول",
+  "ربيع الآخر",
+  "جمادى الأولى",
+  "جمادى الآخرة",
+  "رجب",
+  "شعبان",
+  "رمضان",
+  "شوال",
+  "ذو القعدة",
+  "ذو الحجة",
+];
+
+// The zone recurrence days are counted in
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
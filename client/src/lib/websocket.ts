@@ -0,0 +1,94 @@
+export interface ServerEvent<T = any> {
+  type: string;
+  data: T;
+}
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+const RECONNECT_DELAY_MS = 2000;
+
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<ServerEventListener>();
+const openListeners = new Set<() => void>();
+
+function getSocketUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/ws`;
+}
+
+function connect(): WebSocket {
+  if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+    return socket;
+  }
+
+  socket = new WebSocket(getSocketUrl());
+
+  socket.onopen = () => {
+    openListeners.forEach((listener) => listener());
+  };
+
+  socket.onmessage = (event) => {
+    try {
+      const parsed = JSON.parse(event.data) as ServerEvent;
+      listeners.forEach((listener) => listener(parsed));
+    } catch (error) {
+      console.error("Invalid WebSocket message:", error);
+    }
+  };
+
+  socket.onclose = () => {
+    socket = null;
+    if (listeners.size > 0 && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, RECONNECT_DELAY_MS);
+    }
+  };
+
+  return socket;
+}
+
+// Subscribes to every event pushed over /ws. Returns an unsubscribe function.
+export function onServerEvent(listener: ServerEventListener): () => void {
+  listeners.add(listener);
+  connect();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Runs the callback now if the socket is open and again after every reconnect,
+// so per-connection state such as conversation subscriptions is restored.
+export function onSocketOpen(listener: () => void): () => void {
+  openListeners.add(listener);
+  if (connect().readyState === WebSocket.OPEN) {
+    listener();
+  }
+  return () => {
+    openListeners.delete(listener);
+  };
+}
+
+export function sendSocketMessage(message: Record<string, unknown>): void {
+  const ws = connect();
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+// Closes the socket without reconnecting, e.g. on logout. The next listener
+// or message opens a new connection with the then-current session.
+export function closeSocket(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    const ws = socket;
+    socket = null;
+    ws.onclose = null;
+    ws.close();
+  }
+}
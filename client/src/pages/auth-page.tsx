@@ -0,0 +1,172 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, MessageSquare } from "lucide-react";
+
+const loginFormSchema = z.object({
+  username: z.string().min(1, "اسم المستخدم مطلوب"),
+  password: z.string().min(1, "كلمة المرور مطلوبة"),
+});
+
+const registerFormSchema = z.object({
+  username: z
+    .string()
+    .min(3, "اسم المستخدم 3 أحرف على الأقل")
+    .max(50, "اسم المستخدم طويل جداً")
+    .regex(/^[\w.@-]+$/, "أحرف لاتينية وأرقام و . @ - _ فقط"),
+  displayName: z.string().max(100, "الاسم طويل جداً"),
+  password: z.string().min(8, "كلمة المرور 8 أحرف على الأقل").max(200, "كلمة المرور طويلة جداً"),
+});
+
+type LoginFormValues = z.infer<typeof loginFormSchema>;
+type RegisterFormValues = z.infer<typeof registerFormSchema>;
+
+function LoginForm() {
+  const { loginMutation } = useAuth();
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => loginMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>اسم المستخدم</FormLabel>
+              <FormControl>
+                <Input {...field} dir="ltr" autoComplete="username" data-testid="input-login-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>كلمة المرور</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" dir="ltr" autoComplete="current-password" data-testid="input-login-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full gap-2" disabled={loginMutation.isPending} data-testid="button-login">
+          {loginMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          تسجيل الدخول
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function RegisterForm() {
+  const { registerMutation } = useAuth();
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: { username: "", displayName: "", password: "" },
+  });
+
+  const onSubmit = (values: RegisterFormValues) => {
+    registerMutation.mutate({ ...values, displayName: values.displayName.trim() || null });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>اسم المستخدم</FormLabel>
+              <FormControl>
+                <Input {...field} dir="ltr" autoComplete="username" data-testid="input-register-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="displayName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>الاسم الظاهر (اختياري)</FormLabel>
+              <FormControl>
+                <Input {...field} dir="auto" autoComplete="name" data-testid="input-register-display-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>كلمة المرور</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" dir="ltr" autoComplete="new-password" data-testid="input-register-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full gap-2" disabled={registerMutation.isPending} data-testid="button-register">
+          {registerMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          إنشاء حساب
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30" dir="rtl">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-12 h-12 rounded-md bg-primary flex items-center justify-center">
+            <MessageSquare className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle>مودرن</CardTitle>
+          <CardDescription>سجّل الدخول للمتابعة إلى مساعدك الذكي</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" dir="rtl">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">تسجيل الدخول</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">حساب جديد</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <LoginForm />
+            </TabsContent>
+            <TabsContent value="register">
+              <RegisterForm />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,42 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams } from "wouter";
+import { useLocation, useParams } from "wouter";
 import { ChatInterface } from "@/components/chat-interface";
-import type { Message, Conversation } from "@shared/schema";
+import { TaskProposals } from "@/components/task-proposals";
+import type { AttachmentUpload, Message, Conversation, TaskProposal } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useState, useEffect } from "react";
+import { useConversationStream } from "@/hooks/use-conversation-stream";
+import { onServerEvent } from "@/lib/websocket";
 import { Loader2 } from "lucide-react";
 
+interface SendMessageResponse {
+  userMessage: Message;
+  conversationId: string;
+  streamId: string;
+}
+
 export default function ChatPage() {
   const params = useParams();
   const conversationId = params.id;
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [isTyping, setIsTyping] = useState(false);
+  const { reply, beginStream, cancel } = useConversationStream(conversationId);
+  const [proposals, setProposals] = useState<TaskProposal[]>([]);
+
+  // Proposals belong to the conversation they came from
+  useEffect(() => {
+    setProposals([]);
+  }, [conversationId]);
+
+  // Action items found after a reply when automatic suggestions are on
+  useEffect(() => {
+    return onServerEvent(({ type, data }) => {
+      if (type === "task_proposals" && data.conversationId === conversationId) {
+        setProposals(data.proposals);
+      }
+    });
+  }, [conversationId]);
 
   const { data: messages = [], isLoading: messagesLoading } = useQuery<Message[]>({
     queryKey: conversationId ? ["/api/messages", conversationId] : ["/api/messages/current"],
@@ -24,23 +49,27 @@ export default function ChatPage() {
   });
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, attachments }: { content: string; attachments: AttachmentUpload[] }) => {
       const endpoint = conversationId 
         ? `/api/messages/${conversationId}`
         : "/api/messages";
       
-      return await apiRequest("POST", endpoint, { content });
+      const res = await apiRequest("POST", endpoint, { content, attachments });
+      return await res.json() as SendMessageResponse;
     },
-    onMutate: () => {
-      setIsTyping(true);
-    },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      setIsTyping(false);
+
+      // The reply streams into the conversation page; a new conversation
+      // picks up the stream in progress once it subscribes there.
+      if (data.conversationId !== conversationId) {
+        setLocation(`/chat/${data.conversationId}`);
+      } else {
+        beginStream(data.streamId);
+      }
     },
     onError: (error: Error) => {
-      setIsTyping(false);
       toast({
         title: "Error",
         description: error.message || "Failed to send message",
@@ -49,6 +78,29 @@ export default function ChatPage() {
     },
   });
 
+  const extractTasksMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/conversations/${conversationId}/extract-tasks`, undefined);
+      return await res.json() as TaskProposal[];
+    },
+    onSuccess: (found) => {
+      setProposals(found);
+      if (found.length === 0) {
+        toast({
+          title: "لا توجد مهام",
+          description: "لم يُعثر على بنود عمل جديدة في هذه المحادثة",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في استخراج المهام",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (messagesLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -63,9 +115,20 @@ export default function ChatPage() {
   return (
     <ChatInterface
       messages={messages}
-      onSendMessage={(content) => sendMessageMutation.mutate(content)}
-      isLoading={sendMessageMutation.isPending}
-      isTyping={isTyping && sendMessageMutation.isPending}
+      onSendMessage={(content, attachments) => sendMessageMutation.mutate({ content, attachments })}
+      onStopGeneration={cancel}
+      isLoading={sendMessageMutation.isPending || !!reply}
+      isTyping={sendMessageMutation.isPending || (!!reply && !reply.content)}
+      isStreaming={!!reply}
+      streamingContent={reply?.content || undefined}
+      streamingToolCalls={reply?.toolCalls}
+      summary={conversation?.summary}
+      summarizedUntil={conversation?.summarizedUntil}
+      onExtractTasks={conversationId ? () => extractTasksMutation.mutate() : undefined}
+      isExtractingTasks={extractTasksMutation.isPending}
+      taskProposals={conversationId && proposals.length > 0 && (
+        <TaskProposals conversationId={conversationId} proposals={proposals} onDone={() => setProposals([])} />
+      )}
     />
   );
 }
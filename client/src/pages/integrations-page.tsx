@@ -1,13 +1,21 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Mail, Calendar, ExternalLink, Clock, MapPin, Users } from "lucide-react";
-import { useState } from "react";
+import { Mail, Calendar, ExternalLink, Clock, MapPin, Users, ListTodo, Loader2, CalendarPlus, Repeat, Trash2, Save } from "lucide-react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { CalendarSyncRules } from "@/components/calendar-sync-rules";
+import { MeetingSchedulerDialog } from "@/components/meeting-scheduler-dialog";
+import { EventAttendees, summarizeResponses, type CalendarAttendee } from "@/components/event-attendees";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { settingsTimeZone, type Settings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 interface GmailMessage {
   id: string;
@@ -21,20 +29,42 @@ interface GmailMessage {
   labels?: string[];
 }
 
+interface CalendarInfo {
+  id: string;
+  summary: string;
+  primary: boolean;
+  accessRole: string;
+  backgroundColor?: string;
+}
+
+type EditScope = "occurrence" | "series";
+
 interface CalendarEvent {
   id: string;
+  calendarId: string;
   summary: string;
   description?: string;
   start: string;
   end: string;
+  // start and end are then the first and last day
+  allDay: boolean;
   location?: string;
-  attendees?: string[];
+  attendees?: CalendarAttendee[];
+  organizer?: { email: string; displayName?: string; self: boolean };
+  recurrence?: string[];
+  // Set on an occurrence of a recurring event
+  recurringEventId?: string;
   htmlLink?: string;
 }
 
 export default function IntegrationsPage() {
+  const { toast } = useToast();
   const [selectedEmail, setSelectedEmail] = useState<GmailMessage | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  const [schedulerOpen, setSchedulerOpen] = useState(false);
+  const [calendarId, setCalendarId] = useState("primary");
+  const [editSummary, setEditSummary] = useState("");
+  const [editScope, setEditScope] = useState<EditScope>("occurrence");
 
   const { data: emails, isLoading: emailsLoading } = useQuery<GmailMessage[]>({
     queryKey: ['/api/gmail/messages'],
@@ -44,8 +74,98 @@ export default function IntegrationsPage() {
     queryKey: ['/api/gmail/unread-count'],
   });
 
+  const { data: calendars = [] } = useQuery<CalendarInfo[]>({
+    queryKey: ['/api/calendar/calendars'],
+  });
+
   const { data: upcomingEvents, isLoading: eventsLoading } = useQuery<CalendarEvent[]>({
-    queryKey: ['/api/calendar/events/upcoming'],
+    queryKey: ['/api/calendar/events/upcoming', calendarId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/calendar/events/upcoming?calendarId=${encodeURIComponent(calendarId)}`);
+      return await res.json();
+    },
+  });
+
+  // Tasks are linked to events on the primary calendar only
+  const isPrimaryCalendar = calendarId === "primary" || !!calendars.find((calendar) => calendar.id === calendarId)?.primary;
+  const canEditCalendar = calendarId === "primary" || ["owner", "writer"].includes(calendars.find((calendar) => calendar.id === calendarId)?.accessRole ?? "");
+
+  useEffect(() => {
+    setEditSummary(selectedEvent?.summary ?? "");
+    setEditScope("occurrence");
+  }, [selectedEvent]);
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ['/api/settings'],
+  });
+  const timeZone = settings ? settingsTimeZone(settings) : undefined;
+
+  const createTaskMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      return await apiRequest("POST", `/api/calendar/events/${eventId}/task`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-calendar-links"] });
+      setSelectedEvent(null);
+      toast({
+        title: "نجاح",
+        description: "تم إنشاء مهمة مرتبطة بالحدث",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في إنشاء المهمة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const eventUrl = (eventId: string) =>
+    `/api/calendar/events/${encodeURIComponent(eventId)}?calendarId=${encodeURIComponent(calendarId)}`;
+
+  const updateEventMutation = useMutation({
+    mutationFn: async ({ event, summary, scope }: { event: CalendarEvent; summary: string; scope: EditScope }) => {
+      return await apiRequest("PATCH", eventUrl(event.id), { summary, scope });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events/upcoming"] });
+      setSelectedEvent(null);
+      toast({
+        title: "نجاح",
+        description: "تم تحديث الحدث",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تحديث الحدث",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async ({ event, scope }: { event: CalendarEvent; scope: EditScope }) => {
+      return await apiRequest("DELETE", `${eventUrl(event.id)}&scope=${scope}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events/upcoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-calendar-links"] });
+      setSelectedEvent(null);
+      toast({
+        title: "نجاح",
+        description: "تم حذف الحدث",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حذف الحدث",
+        variant: "destructive",
+      });
+    },
   });
 
   const formatDate = (dateString: string) => {
@@ -58,6 +178,24 @@ export default function IntegrationsPage() {
     });
   };
 
+  // Event times are shown in the user's time zone; all-day events are dates
+  // with no zone
+  const formatEventTime = (dateString: string, allDay: boolean) => {
+    return new Date(dateString).toLocaleDateString('ar-SA', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      ...(allDay ? { timeZone: 'UTC' } : { hour: '2-digit', minute: '2-digit', timeZone }),
+    });
+  };
+
+  const formatEventRange = (event: CalendarEvent) => {
+    if (event.allDay && event.start === event.end) {
+      return `${formatEventTime(event.start, true)} (طوال اليوم)`;
+    }
+    return `${formatEventTime(event.start, event.allDay)} - ${formatEventTime(event.end, event.allDay)}`;
+  };
+
   const extractEmail = (emailString: string) => {
     const match = emailString.match(/<(.+?)>/);
     return match ? match[1] : emailString;
@@ -163,7 +301,36 @@ export default function IntegrationsPage() {
 
           <TabsContent value="calendar">
             <div className="space-y-4">
-              <h2 className="text-xl font-semibold">الأحداث القادمة</h2>
+              <Card>
+                <CardContent className="pt-6">
+                  <CalendarSyncRules />
+                </CardContent>
+              </Card>
+
+              <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-semibold">الأحداث القادمة</h2>
+                {calendars.length > 1 && (
+                  <Select value={calendarId} onValueChange={setCalendarId}>
+                    <SelectTrigger className="w-56 mr-auto" data-testid="select-calendar">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {calendars.map((calendar) => (
+                        <SelectItem key={calendar.id} value={calendar.primary ? "primary" : calendar.id}>
+                          <span className="flex items-center gap-2">
+                            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: calendar.backgroundColor }} />
+                            <span dir="auto">{calendar.summary}</span>
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setSchedulerOpen(true)} data-testid="button-schedule-meeting">
+                  <CalendarPlus className="w-4 h-4 ml-2" />
+                  جدولة اجتماع
+                </Button>
+              </div>
 
               {eventsLoading ? (
                 <div className="space-y-3">
@@ -194,7 +361,7 @@ export default function IntegrationsPage() {
                             <CardDescription className="space-y-1">
                               <div className="flex items-center gap-2">
                                 <Clock className="w-3 h-3" />
-                                <span className="text-xs">{formatDate(event.start)}</span>
+                                <span className="text-xs">{formatEventTime(event.start, event.allDay)}</span>
                               </div>
                               {event.location && (
                                 <div className="flex items-center gap-2">
@@ -205,7 +372,13 @@ export default function IntegrationsPage() {
                               {event.attendees && event.attendees.length > 0 && (
                                 <div className="flex items-center gap-2">
                                   <Users className="w-3 h-3" />
-                                  <span className="text-xs">{event.attendees.length} مشارك</span>
+                                  <span className="text-xs">{event.attendees.length} مشارك ({summarizeResponses(event.attendees)})</span>
+                                </div>
+                              )}
+                              {event.recurringEventId && (
+                                <div className="flex items-center gap-2">
+                                  <Repeat className="w-3 h-3" />
+                                  <span className="text-xs">حدث متكرر</span>
                                 </div>
                               )}
                             </CardDescription>
@@ -271,12 +444,14 @@ export default function IntegrationsPage() {
         </DialogContent>
       </Dialog>
 
+      <MeetingSchedulerDialog open={schedulerOpen} onOpenChange={setSchedulerOpen} />
+
       <Dialog open={!!selectedEvent} onOpenChange={() => setSelectedEvent(null)}>
         <DialogContent className="max-w-2xl" dir="rtl">
           <DialogHeader>
             <DialogTitle dir="auto">{selectedEvent?.summary}</DialogTitle>
             <DialogDescription>
-              {selectedEvent && formatDate(selectedEvent.start)} - {selectedEvent && formatDate(selectedEvent.end)}
+              {selectedEvent && formatEventRange(selectedEvent)}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -295,31 +470,97 @@ export default function IntegrationsPage() {
                 <p className="text-sm text-muted-foreground" dir="auto">{selectedEvent.location}</p>
               </div>
             )}
+            {selectedEvent?.organizer && (
+              <div>
+                <div className="font-semibold mb-2">المنظم</div>
+                <p className="text-sm text-muted-foreground" dir="auto">
+                  {selectedEvent.organizer.self ? "أنت" : selectedEvent.organizer.displayName || selectedEvent.organizer.email}
+                </p>
+              </div>
+            )}
             {selectedEvent?.attendees && selectedEvent.attendees.length > 0 && (
               <div>
                 <div className="font-semibold mb-2 flex items-center gap-2">
                   <Users className="w-4 h-4" />
                   المشاركون ({selectedEvent.attendees.length})
                 </div>
-                <div className="flex flex-wrap gap-2">
-                  {selectedEvent.attendees.map((email) => (
-                    <Badge key={email} variant="secondary" dir="ltr">
-                      {email}
-                    </Badge>
-                  ))}
+                <EventAttendees attendees={selectedEvent.attendees} />
+              </div>
+            )}
+            {selectedEvent && canEditCalendar && (
+              <div className="pt-4 border-t space-y-2">
+                <div className="font-semibold flex items-center gap-2">
+                  تعديل الحدث
+                  {selectedEvent.recurringEventId && <Repeat className="w-4 h-4 text-muted-foreground" />}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={editSummary}
+                    onChange={(e) => setEditSummary(e.target.value)}
+                    dir="auto"
+                    data-testid="input-event-summary"
+                  />
+                  {selectedEvent.recurringEventId && (
+                    <Select value={editScope} onValueChange={(value) => setEditScope(value as EditScope)}>
+                      <SelectTrigger className="w-44 shrink-0" data-testid="select-event-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="occurrence">هذا الموعد فقط</SelectItem>
+                        <SelectItem value="series">كل المواعيد</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => updateEventMutation.mutate({ event: selectedEvent, summary: editSummary.trim(), scope: editScope })}
+                    disabled={!editSummary.trim() || updateEventMutation.isPending}
+                    data-testid="button-save-event"
+                  >
+                    {updateEventMutation.isPending ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Save className="w-4 h-4 ml-2" />}
+                    حفظ
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1 text-destructive"
+                    onClick={() => deleteEventMutation.mutate({ event: selectedEvent, scope: editScope })}
+                    disabled={deleteEventMutation.isPending}
+                    data-testid="button-delete-event"
+                  >
+                    {deleteEventMutation.isPending ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Trash2 className="w-4 h-4 ml-2" />}
+                    {selectedEvent.recurringEventId && editScope === "series" ? "حذف كل المواعيد" : "حذف"}
+                  </Button>
                 </div>
               </div>
             )}
-            {selectedEvent?.htmlLink && (
-              <div className="pt-4 border-t">
+            <div className="pt-4 border-t space-y-2">
+              {isPrimaryCalendar && (
+                <Button
+                  className="w-full"
+                  onClick={() => selectedEvent && createTaskMutation.mutate(selectedEvent.id)}
+                  disabled={createTaskMutation.isPending}
+                  data-testid="button-create-task-from-event"
+                >
+                  {createTaskMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+                  ) : (
+                    <ListTodo className="w-4 h-4 ml-2" />
+                  )}
+                  إنشاء مهمة متابعة مرتبطة
+                </Button>
+              )}
+              {selectedEvent?.htmlLink && (
                 <Button asChild variant="outline" className="w-full">
                   <a href={selectedEvent.htmlLink} target="_blank" rel="noopener noreferrer">
                     <ExternalLink className="w-4 h-4 ml-2" />
                     فتح في تقويم جوجل
                   </a>
                 </Button>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         </DialogContent>
       </Dialog>
@@ -1,9 +1,13 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { KnowledgeCard } from "@/components/knowledge-card";
+import { KnowledgeImportDialog } from "@/components/knowledge-import-dialog";
+import { KnowledgeEditForm } from "@/components/knowledge-edit-form";
+import { KnowledgeHistory } from "@/components/knowledge-history";
+import { KnowledgeReviewPanel, knowledgeStatusLabels } from "@/components/knowledge-review-panel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Loader2, X, Download } from "lucide-react";
+import { Plus, Loader2, X, Download, Upload, Pencil } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -20,25 +24,45 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import type { BusinessProcess } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  canEditKnowledge,
+  hasPermission,
+  knowledgeStatuses,
+  type BusinessProcess,
+  type KnowledgeStatus,
+  type KnowledgeVisibility,
+} from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { exportKnowledgeToJSON, exportKnowledgeToMarkdown } from "@/lib/export";
 
 export default function KnowledgePage() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const search = useSearch();
+  const [, setLocation] = useLocation();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedProcess, setSelectedProcess] = useState<BusinessProcess | null>(null);
+  const [viewTab, setViewTab] = useState("details");
+  const [isEditing, setIsEditing] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<KnowledgeStatus | "all">("all");
+  const [listTab, setListTab] = useState("all");
   const [newProcess, setNewProcess] = useState({
     title: "",
     description: "",
     category: "",
     content: "",
     tags: [] as string[],
+    visibility: "shared" as KnowledgeVisibility,
   });
   const [tagInput, setTagInput] = useState("");
 
@@ -46,10 +70,40 @@ export default function KnowledgePage() {
     queryKey: ["/api/knowledge"],
   });
 
+  const { data: reviewQueue = [] } = useQuery<BusinessProcess[]>({
+    queryKey: ["/api/knowledge", "review-queue"],
+  });
+
+  // Citations in chat link here as /knowledge?entry=<id>
+  const linkedEntryId = new URLSearchParams(search).get("entry");
+  useEffect(() => {
+    if (!linkedEntryId) {
+      return;
+    }
+    const process = processes.find((p) => p.id === linkedEntryId);
+    if (process) {
+      setSelectedProcess(process);
+      setIsViewDialogOpen(true);
+    }
+  }, [linkedEntryId, processes]);
+
+  const handleViewDialogChange = (open: boolean) => {
+    setIsViewDialogOpen(open);
+    if (!open) {
+      setIsEditing(false);
+      setViewTab("details");
+    }
+    if (!open && linkedEntryId) {
+      setLocation("/knowledge", { replace: true });
+    }
+  };
+
   const filteredProcesses = processes.filter((p) =>
-    p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    p.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    p.category.toLowerCase().includes(searchQuery.toLowerCase())
+    (statusFilter === "all" || p.status === statusFilter) && (
+      p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      p.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      p.category.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const createProcessMutation = useMutation({
@@ -59,10 +113,10 @@ export default function KnowledgePage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/knowledge"] });
       setIsDialogOpen(false);
-      setNewProcess({ title: "", description: "", category: "", content: "", tags: [] });
+      setNewProcess({ title: "", description: "", category: "", content: "", tags: [], visibility: "shared" });
       toast({
         title: "نجاح",
-        description: "تم إنشاء إدخال المعرفة بنجاح",
+        description: "تم إنشاء الإدخال كمسودة؛ أرسله للمراجعة لينشر",
       });
     },
     onError: (error: Error) => {
@@ -111,14 +165,43 @@ export default function KnowledgePage() {
     setNewProcess({ ...newProcess, tags: newProcess.tags.filter((t) => t !== tag) });
   };
 
-  const handleViewProcess = (id: string) => {
+  const handleViewProcess = (id: string, edit = false) => {
     const process = processes.find((p) => p.id === id);
     if (process) {
       setSelectedProcess(process);
+      setIsEditing(edit);
+      setViewTab("details");
       setIsViewDialogOpen(true);
     }
   };
 
+  const renderCards = (list: BusinessProcess[], emptyTitle: string, emptyHint: string) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {list.length === 0 ? (
+        <div className="col-span-2 text-center py-12" dir="rtl">
+          <div className="w-16 h-16 rounded-full bg-muted mx-auto mb-4 flex items-center justify-center">
+            <Plus className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">{emptyTitle}</h3>
+          <p className="text-muted-foreground mb-4">
+            {emptyHint}
+          </p>
+        </div>
+      ) : (
+        list.map((process) => (
+          <KnowledgeCard
+            key={process.id}
+            process={process}
+            onView={handleViewProcess}
+            onEdit={canEditKnowledge(user?.role, process) ? (id) => handleViewProcess(id, true) : undefined}
+            onDelete={(id) => deleteProcessMutation.mutate(id)}
+            canDelete={hasPermission(user?.role, "knowledge:delete")}
+          />
+        ))
+      )}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -154,6 +237,11 @@ export default function KnowledgePage() {
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} data-testid="button-import-knowledge">
+              <Upload className="w-4 h-4 ml-2" />
+              <span dir="rtl">استيراد ملفات</span>
+            </Button>
+            <KnowledgeImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button data-testid="button-create-knowledge">
@@ -215,6 +303,21 @@ export default function KnowledgePage() {
                       dir="auto"
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="visibility">الظهور</Label>
+                    <Select
+                      value={newProcess.visibility}
+                      onValueChange={(value) => setNewProcess({ ...newProcess, visibility: value as KnowledgeVisibility })}
+                    >
+                      <SelectTrigger id="visibility" data-testid="select-knowledge-visibility">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="shared">مشترك مع الجميع</SelectItem>
+                        <SelectItem value="private">خاص بي فقط</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div>
                     <Label htmlFor="tags">الوسوم</Label>
                     <div className="flex gap-2">
@@ -277,63 +380,128 @@ export default function KnowledgePage() {
           </div>
         </div>
 
-        <div className="mb-6" dir="rtl">
-          <Input
-            placeholder="البحث في قاعدة المعرفة..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            data-testid="input-search-knowledge"
-            dir="auto"
-          />
-        </div>
+        <Tabs value={listTab} onValueChange={setListTab} dir="rtl">
+          <TabsList className="mb-4">
+            <TabsTrigger value="all" data-testid="tab-knowledge-all">كل الإدخالات</TabsTrigger>
+            <TabsTrigger value="review" data-testid="tab-knowledge-review-queue">
+              قائمة المراجعة
+              {reviewQueue.length > 0 && (
+                <Badge variant="secondary" className="mr-2">{reviewQueue.length}</Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {filteredProcesses.length === 0 ? (
-            <div className="col-span-2 text-center py-12" dir="rtl">
-              <div className="w-16 h-16 rounded-full bg-muted mx-auto mb-4 flex items-center justify-center">
-                <Plus className="w-8 h-8 text-muted-foreground" />
-              </div>
-              <h3 className="text-lg font-semibold mb-2">لا توجد إدخالات معرفة بعد</h3>
-              <p className="text-muted-foreground mb-4">
-                ابدأ بتوثيق عملياتك التجارية
-              </p>
-            </div>
-          ) : (
-            filteredProcesses.map((process) => (
-              <KnowledgeCard
-                key={process.id}
-                process={process}
-                onView={handleViewProcess}
-                onDelete={(id) => deleteProcessMutation.mutate(id)}
+          <TabsContent value="all">
+            <div className="flex gap-3 mb-6" dir="rtl">
+              <Input
+                placeholder="البحث في قاعدة المعرفة..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                data-testid="input-search-knowledge"
+                dir="auto"
               />
-            ))
-          )}
-        </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as KnowledgeStatus | "all")}>
+                <SelectTrigger className="w-44" data-testid="select-knowledge-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">كل الحالات</SelectItem>
+                  {knowledgeStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>{knowledgeStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {renderCards(filteredProcesses, "لا توجد إدخالات معرفة بعد", "ابدأ بتوثيق عملياتك التجارية")}
+          </TabsContent>
 
-        <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+          <TabsContent value="review">
+            {renderCards(reviewQueue, "لا توجد إدخالات بانتظار المراجعة", "تظهر هنا الإدخالات المرسلة إليك للمراجعة")}
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={isViewDialogOpen} onOpenChange={handleViewDialogChange}>
           <DialogContent className="max-w-4xl max-h-[80vh]" dir="rtl">
             <DialogHeader>
               <DialogTitle dir="auto">{selectedProcess?.title}</DialogTitle>
               <DialogDescription dir="auto">{selectedProcess?.description}</DialogDescription>
             </DialogHeader>
-            <ScrollArea className="h-[500px] pr-4">
-              <div className="space-y-4">
-                <div className="flex gap-2">
-                  <Badge variant="outline" dir="auto">{selectedProcess?.category}</Badge>
-                  {selectedProcess?.tags?.map((tag) => (
-                    <Badge key={tag} variant="secondary" dir="auto">
-                      {tag}
-                    </Badge>
-                  ))}
-                </div>
-                <div className="prose dark:prose-invert max-w-none">
-                  <p className="whitespace-pre-wrap" dir="auto">{selectedProcess?.content}</p>
-                </div>
-                <div className="text-xs text-muted-foreground pt-4 border-t">
-                  آخر تحديث: {selectedProcess && new Date(selectedProcess.updatedAt).toLocaleString('ar-SA')}
-                </div>
+            <Tabs value={viewTab} onValueChange={setViewTab} dir="rtl">
+              <div className="flex items-center justify-between">
+                <TabsList>
+                  <TabsTrigger value="details" data-testid="tab-knowledge-details">التفاصيل</TabsTrigger>
+                  <TabsTrigger value="history" data-testid="tab-knowledge-history">السجل</TabsTrigger>
+                  <TabsTrigger value="review" data-testid="tab-knowledge-review">المراجعة</TabsTrigger>
+                </TabsList>
+                {viewTab === "details" && !isEditing && selectedProcess && canEditKnowledge(user?.role, selectedProcess) && (
+                  <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-knowledge">
+                    <Pencil className="w-3 h-3 ml-1" />
+                    تعديل
+                  </Button>
+                )}
               </div>
-            </ScrollArea>
+              <TabsContent value="details">
+                <ScrollArea className="h-[500px] pr-4">
+                  {selectedProcess && isEditing ? (
+                    <KnowledgeEditForm
+                      key={selectedProcess.id}
+                      process={selectedProcess}
+                      canChangeVisibility={selectedProcess.userId === user?.id}
+                      onSaved={(process) => {
+                        setSelectedProcess(process);
+                        setIsEditing(false);
+                      }}
+                      onCancel={() => setIsEditing(false)}
+                    />
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="flex gap-2">
+                        <Badge variant="outline" dir="auto">{selectedProcess?.category}</Badge>
+                        {selectedProcess?.tags?.map((tag) => (
+                          <Badge key={tag} variant="secondary" dir="auto">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                      <div className="prose dark:prose-invert max-w-none">
+                        <p className="whitespace-pre-wrap" dir="auto">{selectedProcess?.content}</p>
+                      </div>
+                      <div className="text-xs text-muted-foreground pt-4 border-t">
+                        آخر تحديث: {selectedProcess && new Date(selectedProcess.updatedAt).toLocaleString('ar-SA')}
+                      </div>
+                    </div>
+                  )}
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="history">
+                <ScrollArea className="h-[500px] pr-4">
+                  {selectedProcess && (
+                    <KnowledgeHistory
+                      processId={selectedProcess.id}
+                      onRestored={(process) => {
+                        setSelectedProcess(process);
+                        setIsEditing(false);
+                      }}
+                    />
+                  )}
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="review">
+                <ScrollArea className="h-[500px] pr-4">
+                  {selectedProcess && (
+                    <KnowledgeReviewPanel
+                      key={selectedProcess.id}
+                      process={selectedProcess}
+                      onChanged={(process) => {
+                        setSelectedProcess(process);
+                        setIsEditing(false);
+                      }}
+                    />
+                  )}
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
           </DialogContent>
         </Dialog>
       </div>
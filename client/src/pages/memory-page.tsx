@@ -0,0 +1,301 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Brain, Loader2, MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { memoryCategories, type Memory, type MemoryCategory } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { onServerEvent } from "@/lib/websocket";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  person: "أشخاص",
+  preference: "تفضيلات",
+  supplier: "موردون",
+  decision: "قرارات",
+  fact: "معلومات",
+};
+
+type MemoryListItem = Omit<Memory, "embedding">;
+
+interface MemoryForm {
+  content: string;
+  category: MemoryCategory;
+}
+
+const EMPTY_FORM: MemoryForm = { content: "", category: "fact" };
+
+export default function MemoryPage() {
+  const { toast } = useToast();
+  const [categoryFilter, setCategoryFilter] = useState<MemoryCategory | "all">("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // null while adding a new memory
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MemoryForm>(EMPTY_FORM);
+
+  const { data: memories = [], isLoading } = useQuery<MemoryListItem[]>({
+    queryKey: ["/api/memories"],
+  });
+
+  // Memories extracted in the background appear without a reload
+  useEffect(() => {
+    return onServerEvent(({ type }) => {
+      if (type === "memory_created") {
+        queryClient.invalidateQueries({ queryKey: ["/api/memories"] });
+      }
+    });
+  }, []);
+
+  const filteredMemories = memories.filter((memory) =>
+    (categoryFilter === "all" || memory.category === categoryFilter) &&
+    memory.content.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveMemoryMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: MemoryForm }) => {
+      return id
+        ? await apiRequest("PATCH", `/api/memories/${id}`, data)
+        : await apiRequest("POST", "/api/memories", data);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/memories"] });
+      closeDialog();
+      toast({
+        title: "نجاح",
+        description: id ? "تم تحديث الذكرى بنجاح" : "تمت إضافة الذكرى بنجاح",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حفظ الذكرى",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMemoryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/memories/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/memories"] });
+      toast({
+        title: "نجاح",
+        description: "تم حذف الذكرى بنجاح",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في حذف الذكرى",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (memory: MemoryListItem) => {
+    setEditingId(memory.id);
+    setForm({ content: memory.content, category: memory.category as MemoryCategory });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (form.content.trim()) {
+      saveMemoryMutation.mutate({ id: editingId, data: { ...form, content: form.content.trim() } });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-auto">
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-6" dir="rtl">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">الذاكرة</h1>
+            <p className="text-muted-foreground">
+              ما يتذكره المساعد من محادثاتك السابقة
+            </p>
+          </div>
+          <Button onClick={handleAdd} data-testid="button-create-memory">
+            <Plus className="w-4 h-4 ml-2" />
+            <span dir="rtl">إضافة ذكرى</span>
+          </Button>
+        </div>
+
+        <div className="space-y-4 mb-6" dir="rtl">
+          <Input
+            placeholder="البحث في الذاكرة..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            data-testid="input-search-memories"
+            dir="auto"
+          />
+          <Tabs value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as MemoryCategory | "all")}>
+            <TabsList>
+              <TabsTrigger value="all" data-testid="tab-memory-all">الكل</TabsTrigger>
+              {memoryCategories.map((category) => (
+                <TabsTrigger key={category} value={category} data-testid={`tab-memory-${category}`}>
+                  {CATEGORY_LABELS[category]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-3">
+          {filteredMemories.length === 0 ? (
+            <div className="text-center py-12" dir="rtl">
+              <div className="w-16 h-16 rounded-full bg-muted mx-auto mb-4 flex items-center justify-center">
+                <Brain className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">لا توجد ذكريات بعد</h3>
+              <p className="text-muted-foreground">
+                سيتذكر المساعد الأشخاص والتفضيلات والقرارات المهمة من محادثاتك تلقائيًا
+              </p>
+            </div>
+          ) : (
+            filteredMemories.map((memory) => (
+              <Card key={memory.id} data-testid={`card-memory-${memory.id}`}>
+                <CardContent className="p-4 flex items-start gap-3" dir="rtl">
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <p className="whitespace-pre-wrap" dir="auto">{memory.content}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="secondary">
+                        {CATEGORY_LABELS[memory.category as MemoryCategory] ?? memory.category}
+                      </Badge>
+                      <span>{new Date(memory.updatedAt).toLocaleDateString('ar-SA')}</span>
+                      {memory.sourceConversationId && (
+                        <Link
+                          href={`/chat/${memory.sourceConversationId}`}
+                          className="inline-flex items-center gap-1 hover:text-foreground"
+                          data-testid={`link-memory-source-${memory.id}`}
+                        >
+                          <MessageSquare className="w-3 h-3" />
+                          المحادثة المصدر
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(memory)}
+                      data-testid={`button-edit-memory-${memory.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMemoryMutation.mutate(memory.id)}
+                      data-testid={`button-delete-memory-${memory.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+          <DialogContent dir="rtl">
+            <DialogHeader>
+              <DialogTitle>{editingId ? "تعديل الذكرى" : "إضافة ذكرى"}</DialogTitle>
+              <DialogDescription>
+                معلومة دائمة يجب أن يتذكرها المساعد في المحادثات القادمة
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 mt-4">
+              <div>
+                <Label htmlFor="memory-content">المحتوى</Label>
+                <Textarea
+                  id="memory-content"
+                  placeholder="مثال: المورد الرئيسي للورق هو شركة النور..."
+                  value={form.content}
+                  onChange={(e) => setForm({ ...form, content: e.target.value })}
+                  rows={4}
+                  data-testid="input-memory-content"
+                  dir="auto"
+                />
+              </div>
+              <div>
+                <Label htmlFor="memory-category">الفئة</Label>
+                <Select
+                  value={form.category}
+                  onValueChange={(value) => setForm({ ...form, category: value as MemoryCategory })}
+                >
+                  <SelectTrigger id="memory-category" data-testid="select-memory-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {memoryCategories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleSave}
+                disabled={!form.content.trim() || saveMemoryMutation.isPending}
+                className="w-full"
+                data-testid="button-submit-memory"
+              >
+                {saveMemoryMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  "حفظ"
+                )}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -9,37 +9,113 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Loader2, Settings as SettingsIcon, Save } from "lucide-react";
-import type { Settings } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Settings as SettingsIcon, Save, ShieldAlert } from "lucide-react";
+import { TimeZoneSelect } from "@/components/time-zone-select";
+import { useAuth } from "@/hooks/use-auth";
+import { llmProviderIds, embeddingProviderIds, hasPermission, isWorkspaceSetting, type Settings, type LLMProviderId } from "@shared/schema";
+
+const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  openai: "OpenAI-compatible",
+  anthropic: "Anthropic",
+  ollama: "Ollama (local)",
+  fake: "Fake (offline, deterministic)",
+};
+
+interface LLMProvidersInfo {
+  override: string | null;
+  providers: Array<{
+    id: LLMProviderId;
+    defaultModel: string;
+    defaultEmbeddingModel: string | null;
+  }>;
+}
+
+// Sunday first, matching the numbering the server uses
+const WEEKDAY_LABELS = ["الأحد / Sun", "الاثنين / Mon", "الثلاثاء / Tue", "الأربعاء / Wed", "الخميس / Thu", "الجمعة / Fri", "السبت / Sat"];
 
 const settingsFormSchema = z.object({
   assistantName: z.string().min(1, "اسم المساعد مطلوب / Assistant name is required").max(50, "الاسم طويل جداً / Name is too long"),
   systemInstructions: z.string().min(10, "التوجيهات يجب أن تكون 10 أحرف على الأقل / Instructions must be at least 10 characters").max(2000, "التوجيهات طويلة جداً / Instructions are too long"),
+  maxAgentSteps: z.coerce.number().int().min(1, "خطوة واحدة على الأقل / At least 1 step").max(20, "20 خطوة كحد أقصى / At most 20 steps"),
+  contextTokenBudget: z.coerce.number().int().min(2000, "2000 رمز على الأقل / At least 2000 tokens").max(200000, "200000 رمز كحد أقصى / At most 200000 tokens"),
+  llmProvider: z.enum(llmProviderIds),
+  llmModel: z.string().max(200),
+  embeddingProvider: z.enum(embeddingProviderIds),
+  embeddingModel: z.string().max(200),
+  autoExtractTasks: z.boolean(),
+  organizationTimeZone: z.string().min(1),
+  workingDays: z.array(z.number().int().min(0).max(6)),
+  workdayStart: z.string().regex(/^\d{2}:\d{2}$/, "الوقت مطلوب / Time is required"),
+  workdayEnd: z.string().regex(/^\d{2}:\d{2}$/, "الوقت مطلوب / Time is required"),
+  prayerBreakMinutes: z.coerce.number().int().min(0, "0 على الأقل / At least 0").max(60, "60 دقيقة كحد أقصى / At most 60 minutes"),
+  prayerLatitude: z.coerce.number().min(-90).max(90),
+  prayerLongitude: z.coerce.number().min(-180).max(180),
+}).refine((values) => values.workdayStart < values.workdayEnd, {
+  message: "يجب أن ينتهي يوم العمل بعد بدايته / The working day must end after it starts",
+  path: ["workdayEnd"],
 });
 
 type SettingsFormValues = z.infer<typeof settingsFormSchema>;
 
 export default function SettingsPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canManageSettings = hasPermission(user?.role, "settings:manage");
 
   const { data: settings, isLoading } = useQuery<Settings>({
     queryKey: ["/api/settings"],
   });
 
+  const { data: llmProviders } = useQuery<LLMProvidersInfo>({
+    queryKey: ["/api/llm/providers"],
+  });
+
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsFormSchema),
     defaultValues: {
       assistantName: settings?.assistantName || "Modern",
       systemInstructions: settings?.systemInstructions || "أنت مساعد ذكي متخصص في مساعدة الشركات. تتعلم من المحادثات السابقة وتتذكر كل شيء. ساعد المستخدم بطريقة احترافية ومنظمة.",
+      maxAgentSteps: settings?.maxAgentSteps ?? 6,
+      contextTokenBudget: settings?.contextTokenBudget ?? 16000,
+      llmProvider: "openai",
+      llmModel: "",
+      embeddingProvider: "openai",
+      embeddingModel: "",
+      autoExtractTasks: false,
+      organizationTimeZone: "Asia/Riyadh",
+      workingDays: [0, 1, 2, 3, 4],
+      workdayStart: "09:00",
+      workdayEnd: "17:00",
+      prayerBreakMinutes: 20,
+      prayerLatitude: 24.7136,
+      prayerLongitude: 46.6753,
     },
     values: settings ? {
       assistantName: settings.assistantName,
       systemInstructions: settings.systemInstructions,
+      maxAgentSteps: settings.maxAgentSteps,
+      contextTokenBudget: settings.contextTokenBudget,
+      llmProvider: settings.llmProvider as SettingsFormValues["llmProvider"],
+      llmModel: settings.llmModel ?? "",
+      embeddingProvider: settings.embeddingProvider as SettingsFormValues["embeddingProvider"],
+      embeddingModel: settings.embeddingModel ?? "",
+      autoExtractTasks: settings.autoExtractTasks,
+      organizationTimeZone: settings.organizationTimeZone,
+      workingDays: settings.workingDays,
+      workdayStart: settings.workdayStart,
+      workdayEnd: settings.workdayEnd,
+      prayerBreakMinutes: settings.prayerBreakMinutes,
+      prayerLatitude: settings.prayerLatitude,
+      prayerLongitude: settings.prayerLongitude,
     } : undefined,
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (data: SettingsFormValues) => {
+    mutationFn: async (data: Partial<SettingsFormValues>) => {
       return await apiRequest("PATCH", "/api/settings", data);
     },
     onSuccess: () => {
@@ -58,8 +134,36 @@ export default function SettingsPage() {
     },
   });
 
+  const updateTimeZoneMutation = useMutation({
+    mutationFn: async (timeZone: string | null) => {
+      return await apiRequest("PATCH", "/api/settings/time-zone", { timeZone });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "تم الحفظ بنجاح / Saved Successfully",
+        description: "تم تحديث منطقتك الزمنية / Your time zone has been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ / Error",
+        description: error.message || "فشل في حفظ المنطقة الزمنية / Failed to save the time zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const providerInfo = (id: string) => llmProviders?.providers.find((provider) => provider.id === id);
+  const selectedProvider = providerInfo(form.watch("llmProvider"));
+  const selectedEmbeddingProvider = providerInfo(form.watch("embeddingProvider"));
+
+  // Only administrators send the workspace-wide settings; everyone else
+  // saves just their own
   const onSubmit = (data: SettingsFormValues) => {
-    updateSettingsMutation.mutate(data);
+    updateSettingsMutation.mutate(canManageSettings
+      ? data
+      : Object.fromEntries(Object.entries(data).filter(([key]) => !isWorkspaceSetting(key))) as Partial<SettingsFormValues>);
   };
 
   if (isLoading) {
@@ -84,6 +188,35 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {!canManageSettings && (
+          <Alert className="mb-6" data-testid="alert-settings-read-only">
+            <ShieldAlert className="w-4 h-4" />
+            <AlertDescription dir="auto">
+              يمكن للمسؤولين فقط تعديل اسم المساعد وتوجيهاته وإعدادات المؤسسة / Only administrators can change the assistant's name and instructions and the organisation-wide settings
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle dir="auto">منطقتي الزمنية / My Time Zone</CardTitle>
+            <CardDescription dir="auto">
+              تُعرض المواعيد وتُفهم الأوقات التي تكتبها للمساعد (مثل "غدًا الساعة 10") بهذه المنطقة
+              <br />
+              Event times are shown in this zone, and times you give the assistant (like "tomorrow at 10") are read in it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TimeZoneSelect
+              value={settings?.timeZone ?? null}
+              onChange={(timeZone) => updateTimeZoneMutation.mutate(timeZone)}
+              inheritedTimeZone={settings?.organizationTimeZone}
+              disabled={updateTimeZoneMutation.isPending}
+              data-testid="select-user-time-zone"
+            />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>إعدادات المساعد / Assistant Settings</CardTitle>
@@ -95,81 +228,400 @@ export default function SettingsPage() {
           </CardHeader>
           <CardContent>
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                <FormField
-                  control={form.control}
-                  name="assistantName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel dir="auto">اسم المساعد / Assistant Name</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Modern"
-                          data-testid="input-assistant-name"
-                          dir="auto"
-                          {...field}
+              <form onSubmit={form.handleSubmit(onSubmit)}>
+                <div className="space-y-6">
+                  <fieldset disabled={!canManageSettings} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="assistantName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">اسم المساعد / Assistant Name</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="Modern"
+                              data-testid="input-assistant-name"
+                              dir="auto"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription dir="auto">
+                            الاسم الذي سيستخدمه المساعد لتقديم نفسه / The name your assistant will use to introduce itself
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="systemInstructions"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">التوجيهات الأولية / Initial Instructions</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="أنت مساعد ذكي متخصص في مساعدة الشركات..."
+                              className="min-h-[200px] resize-none"
+                              data-testid="input-system-instructions"
+                              dir="auto"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription dir="auto">
+                            التوجيهات التي ستوجه سلوك المساعد وشخصيته. استخدم لغة واضحة لوصف كيف يجب أن يتصرف المساعد.
+                            <br />
+                            Instructions that will guide your assistant's behavior and personality. Use clear language to describe how your assistant should behave.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="maxAgentSteps"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">الحد الأقصى لخطوات الأدوات / Max Tool Steps</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={20}
+                              className="w-32"
+                              data-testid="input-max-agent-steps"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription dir="auto">
+                            عدد المرات التي يمكن للمساعد فيها استدعاء الأدوات (البريد، التقويم، المهام) قبل أن يجيب.
+                            <br />
+                            How many rounds of tool calls (email, calendar, tasks) the assistant may make before it must answer.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </fieldset>
+
+                  <FormField
+                    control={form.control}
+                    name="contextTokenBudget"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel dir="auto">ميزانية سياق المحادثة (رموز) / Conversation Context Budget (tokens)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={2000}
+                            max={200000}
+                            step={1000}
+                            className="w-40"
+                            data-testid="input-context-token-budget"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription dir="auto">
+                          عندما تتجاوز المحادثة هذا الحد، تُلخَّص الرسائل الأقدم تلقائيًا ويُرسل الملخص بدلًا منها.
+                          <br />
+                          When a conversation exceeds this many tokens, older messages are automatically summarized and the summary is sent in their place.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <fieldset disabled={!canManageSettings} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="organizationTimeZone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">المنطقة الزمنية للمؤسسة / Organisation Time Zone</FormLabel>
+                          <FormControl>
+                            <TimeZoneSelect
+                              value={field.value}
+                              onChange={(timeZone) => timeZone && field.onChange(timeZone)}
+                              data-testid="select-organization-time-zone"
+                            />
+                          </FormControl>
+                          <FormDescription dir="auto">
+                            تُستخدم لمن لم يختر منطقته الزمنية بنفسه
+                            <br />
+                            Used for everyone who has not chosen their own time zone
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="space-y-4 rounded-md border p-4">
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium" dir="auto">أوقات العمل / Working Hours</p>
+                        <p className="text-sm text-muted-foreground" dir="auto">
+                          يقترح المساعد مواعيد الاجتماعات ضمن أيام وساعات العمل بتوقيت المؤسسة، بعيدًا عن أوقات الصلاة
+                          <br />
+                          Meeting times are suggested within these days and hours, in the organisation's time zone, clear of prayer times
+                        </p>
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name="workingDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel dir="auto">أيام العمل / Working Days</FormLabel>
+                            <div className="flex flex-wrap gap-4">
+                              {WEEKDAY_LABELS.map((label, day) => (
+                                <label key={day} className="flex items-center gap-2 text-sm">
+                                  <Checkbox
+                                    checked={field.value.includes(day)}
+                                    onCheckedChange={(checked) => field.onChange(
+                                      checked ? [...field.value, day].sort((a, b) => a - b) : field.value.filter((value) => value !== day),
+                                    )}
+                                    data-testid={`checkbox-working-day-${day}`}
+                                  />
+                                  {label}
+                                </label>
+                              ))}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="grid gap-6 sm:grid-cols-3">
+                        <FormField
+                          control={form.control}
+                          name="workdayStart"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel dir="auto">بداية الدوام / Starts</FormLabel>
+                              <FormControl>
+                                <Input type="time" data-testid="input-workday-start" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
                         />
-                      </FormControl>
-                      <FormDescription dir="auto">
-                        الاسم الذي سيستخدمه المساعد لتقديم نفسه / The name your assistant will use to introduce itself
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="systemInstructions"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel dir="auto">التوجيهات الأولية / Initial Instructions</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="أنت مساعد ذكي متخصص في مساعدة الشركات..."
-                          className="min-h-[200px] resize-none"
-                          data-testid="input-system-instructions"
-                          dir="auto"
-                          {...field}
+                        <FormField
+                          control={form.control}
+                          name="workdayEnd"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel dir="auto">نهاية الدوام / Ends</FormLabel>
+                              <FormControl>
+                                <Input type="time" data-testid="input-workday-end" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
                         />
-                      </FormControl>
-                      <FormDescription dir="auto">
-                        التوجيهات التي ستوجه سلوك المساعد وشخصيته. استخدم لغة واضحة لوصف كيف يجب أن يتصرف المساعد.
+                        <FormField
+                          control={form.control}
+                          name="prayerBreakMinutes"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel dir="auto">وقت الصلاة (دقائق) / Prayer Break (min)</FormLabel>
+                              <FormControl>
+                                <Input type="number" min={0} max={60} data-testid="input-prayer-break-minutes" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid gap-6 sm:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="prayerLatitude"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel dir="auto">خط العرض / Latitude</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.0001" min={-90} max={90} data-testid="input-prayer-latitude" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="prayerLongitude"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel dir="auto">خط الطول / Longitude</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.0001" min={-180} max={180} data-testid="input-prayer-longitude" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <p className="text-sm text-muted-foreground" dir="auto">
+                        تُحسب أوقات الصلاة لهذا الموقع وفق تقويم أم القرى؛ اجعل وقت الصلاة 0 لتجاهلها
                         <br />
-                        Instructions that will guide your assistant's behavior and personality. Use clear language to describe how your assistant should behave.
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="flex justify-end gap-3">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => form.reset()}
-                    disabled={updateSettingsMutation.isPending}
-                    data-testid="button-reset"
-                  >
-                    إعادة تعيين / Reset
-                  </Button>
-                  <Button
-                    type="submit"
-                    disabled={updateSettingsMutation.isPending}
-                    data-testid="button-save-settings"
-                  >
-                    {updateSettingsMutation.isPending ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        جاري الحفظ... / Saving...
-                      </>
-                    ) : (
-                      <>
-                        <Save className="w-4 h-4" />
-                        حفظ التغييرات / Save Changes
-                      </>
+                        Prayer times are calculated for this location with the Umm al-Qura method; set the break to 0 to ignore them
+                      </p>
+                    </div>
+                  </fieldset>
+
+                  <FormField
+                    control={form.control}
+                    name="autoExtractTasks"
+                    render={({ field }) => (
+                      <FormItem className="flex items-start justify-between gap-4 rounded-md border p-4">
+                        <div className="space-y-1">
+                          <FormLabel dir="auto">اقتراح المهام تلقائيًا / Suggest Tasks Automatically</FormLabel>
+                          <FormDescription dir="auto">
+                            بعد كل رد، يبحث المساعد عن بنود العمل في الحوار ويعرضها في المحادثة لتأكيدها كمهام.
+                            <br />
+                            After each reply, the assistant looks for action items in the exchange and offers them in the chat for you to confirm as tasks.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-auto-extract-tasks"
+                          />
+                        </FormControl>
+                      </FormItem>
                     )}
-                  </Button>
+                  />
+
+                  {llmProviders?.override && (
+                    <p className="text-sm text-muted-foreground rounded-md border border-dashed p-3" dir="auto">
+                      يتم تجاوز مزود النموذج بواسطة متغير البيئة LLM_PROVIDER={llmProviders.override}
+                      <br />
+                      The model provider is overridden by the LLM_PROVIDER={llmProviders.override} environment variable
+                    </p>
+                  )}
+
+                  <div className="grid gap-6 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="llmProvider"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">مزود النموذج / Model Provider</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-llm-provider">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {llmProviderIds.map((id) => (
+                                <SelectItem key={id} value={id}>{PROVIDER_LABELS[id]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="llmModel"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">النموذج / Model</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={selectedProvider?.defaultModel}
+                              data-testid="input-llm-model"
+                              dir="ltr"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription dir="auto">
+                            اتركه فارغًا لاستخدام النموذج الافتراضي / Leave empty for the provider's default
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="embeddingProvider"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">مزود التضمين / Embedding Provider</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={!canManageSettings}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-embedding-provider">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {embeddingProviderIds.map((id) => (
+                                <SelectItem key={id} value={id}>{PROVIDER_LABELS[id]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription dir="auto">
+                            يسري على جميع المستخدمين، وتغييره يعيد فهرسة قاعدة المعرفة والذاكرة / Applies to all users; changing it re-indexes the knowledge base and memories
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="embeddingModel"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel dir="auto">نموذج التضمين / Embedding Model</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={selectedEmbeddingProvider?.defaultEmbeddingModel ?? undefined}
+                              disabled={!canManageSettings}
+                              data-testid="input-embedding-model"
+                              dir="ltr"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => form.reset()}
+                      disabled={updateSettingsMutation.isPending}
+                      data-testid="button-reset"
+                    >
+                      إعادة تعيين / Reset
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={updateSettingsMutation.isPending}
+                      data-testid="button-save-settings"
+                    >
+                      {updateSettingsMutation.isPending ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          جاري الحفظ... / Saving...
+                        </>
+                      ) : (
+                        <>
+                          <Save className="w-4 h-4" />
+                          حفظ التغييرات / Save Changes
+                        </>
+                      )}
+                    </Button>
+                  </div>
                 </div>
               </form>
             </Form>
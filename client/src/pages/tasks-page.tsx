@@ -1,73 +1,170 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { TaskCard } from "@/components/task-card";
+import { TaskDialog } from "@/components/task-dialog";
+import { TaskBoard, columnIdOf, byBoardOrder, type TaskMove } from "@/components/task-board";
+import { TaskColumnsDialog } from "@/components/task-columns-dialog";
+import { CalendarSyncRules } from "@/components/calendar-sync-rules";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Plus, Loader2, Download } from "lucide-react";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Plus, Loader2, Download, Columns3, CalendarClock } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Label } from "@/components/ui/label";
-import type { Task } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { hasPermission, taskPriorities, type PublicUser, type Task, type TaskCalendarLink, type TaskColumn } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaskEvents } from "@/hooks/use-task-events";
+import { useMemo, useState } from "react";
 import { exportTasksToJSON, exportTasksToCSV, exportTasksToMarkdown } from "@/lib/export";
+import { isOverdue, taskPriorityLabels } from "@/lib/tasks";
+
+const ALL = "all";
+
+interface TaskFilterState {
+  priority: string;
+  assigneeId: string;
+  label: string;
+  due: string;
+}
+
+const defaultFilters: TaskFilterState = { priority: ALL, assigneeId: ALL, label: ALL, due: ALL };
+
+// Turns the filter bar into the query params GET /api/tasks understands
+function toQueryString(filters: TaskFilterState): string {
+  const params = new URLSearchParams();
+  if (filters.priority !== ALL) params.set("priority", filters.priority);
+  if (filters.assigneeId !== ALL) params.set("assigneeId", filters.assigneeId);
+  if (filters.label !== ALL) params.set("label", filters.label);
+  if (filters.due === "overdue") {
+    params.set("dueBefore", new Date().toISOString());
+  } else if (filters.due === "week") {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+    params.set("dueAfter", start.toISOString());
+    params.set("dueBefore", end.toISOString());
+  }
+  return params.toString();
+}
 
 export default function TasksPage() {
   const { toast } = useToast();
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [newTask, setNewTask] = useState({ title: "", description: "" });
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<TaskFilterState>(defaultFilters);
+  const [dialog, setDialog] = useState<{ open: boolean; task?: Task; parentId?: string; column?: TaskColumn }>({ open: false });
+  const [isColumnsDialogOpen, setIsColumnsDialogOpen] = useState(false);
+  useTaskEvents();
+
+  const { data: results = [], isLoading } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", filters],
+    queryFn: async () => {
+      const query = toQueryString(filters);
+      const res = await apiRequest("GET", query ? `/api/tasks?${query}` : "/api/tasks");
+      return await res.json();
+    },
+  });
 
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
+  const { data: columns = [], isLoading: isLoadingColumns } = useQuery<TaskColumn[]>({
+    queryKey: ["/api/task-columns"],
   });
 
-  const createTaskMutation = useMutation({
-    mutationFn: async (task: { title: string; description: string }) => {
-      return await apiRequest("POST", "/api/tasks", task);
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users/directory"],
+  });
+
+  const { data: calendarLinks = [] } = useQuery<TaskCalendarLink[]>({
+    queryKey: ["/api/task-calendar-links"],
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return await apiRequest("PATCH", `/api/tasks/${id}`, { status });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      setIsDialogOpen(false);
-      setNewTask({ title: "", description: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تحديث المهمة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Shows the card in its new place right away and puts it back if the
+  // server refuses the move (e.g. the column is at its WIP limit)
+  const moveTaskMutation = useMutation({
+    mutationFn: async ({ taskId, columnId, beforeId }: TaskMove) => {
+      return await apiRequest("POST", `/api/tasks/${taskId}/move`, { columnId, beforeId });
+    },
+    onMutate: async (move) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/tasks"] });
+      const previous = queryClient.getQueriesData<Task[]>({ queryKey: ["/api/tasks"] });
+      const column = columns.find((c) => c.id === move.columnId);
+      queryClient.setQueriesData<Task[]>({ queryKey: ["/api/tasks"] }, (current) =>
+        current?.map((task) =>
+          task.id === move.taskId
+            ? { ...task, columnId: move.columnId, status: column?.status ?? task.status, position: move.position }
+            : task
+        )
+      );
+      return { previous };
+    },
+    onError: (error: Error, _move, context) => {
+      context?.previous.forEach(([key, data]) => queryClient.setQueryData<Task[]>(key, data));
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في نقل المهمة",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const recurrenceMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "skip" | "pause" | "resume" }) => {
+      return await apiRequest("POST", `/api/tasks/${id}/recurrence/${action}`, undefined);
+    },
+    onSuccess: (_task, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({
         title: "نجاح",
-        description: "تم إنشاء المهمة بنجاح",
+        description: action === "skip" ? "تم تخطي الموعد" : action === "pause" ? "تم إيقاف التكرار مؤقتاً" : "تم استئناف التكرار",
       });
     },
     onError: (error: Error) => {
       toast({
         title: "خطأ",
-        description: error.message || "فشل في إنشاء المهمة",
+        description: error.message || "فشل في تحديث التكرار",
         variant: "destructive",
       });
     },
   });
 
-  const updateTaskMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/tasks/${id}`, { status });
+  const calendarMutation = useMutation({
+    mutationFn: async ({ id, onCalendar }: { id: string; onCalendar: boolean }) => {
+      return await apiRequest(onCalendar ? "POST" : "DELETE", `/api/tasks/${id}/calendar`, undefined);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    onSuccess: (_result, { onCalendar }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/task-calendar-links"] });
+      toast({
+        title: "نجاح",
+        description: onCalendar ? "تمت إضافة المهمة إلى التقويم" : "تمت إزالة المهمة من التقويم",
+      });
     },
     onError: (error: Error) => {
       toast({
         title: "خطأ",
-        description: error.message || "فشل في تحديث المهمة",
+        description: error.message || "فشل في تحديث التقويم",
         variant: "destructive",
       });
     },
@@ -93,27 +190,63 @@ export default function TasksPage() {
     },
   });
 
-  const pendingTasks = tasks.filter((t) => t.status === "pending");
-  const inProgressTasks = tasks.filter((t) => t.status === "in_progress");
-  const completedTasks = tasks.filter((t) => t.status === "completed");
+  // "Overdue" also excludes completed tasks, which the API filter can't express
+  const tasks = filters.due === "overdue" ? results.filter(isOverdue) : results;
 
-  const handleCreateTask = () => {
-    if (newTask.title.trim()) {
-      createTaskMutation.mutate(newTask);
+  // Subtasks are shown under their parent when it is in the results, and on
+  // their own otherwise
+  const { topLevel, subtasksOf } = useMemo(() => {
+    const ids = new Set(tasks.map((t) => t.id));
+    const subtasksOf = new Map<string, Task[]>();
+    const topLevel: Task[] = [];
+    for (const task of tasks) {
+      if (task.parentId && ids.has(task.parentId)) {
+        subtasksOf.set(task.parentId, [...(subtasksOf.get(task.parentId) ?? []), task]);
+      } else {
+        topLevel.push(task);
+      }
     }
-  };
+    return { topLevel, subtasksOf };
+  }, [tasks]);
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <Loader2 className="w-8 h-8 animate-spin text-primary" />
-      </div>
-    );
-  }
+  const labels = useMemo(() => {
+    const all = new Set(results.flatMap((t) => t.labels));
+    if (filters.label !== ALL) all.add(filters.label);
+    return Array.from(all).sort();
+  }, [results, filters.label]);
+
+  const userNames = new Map(users.map((u) => [u.id, u.username]));
+  const linksByTask = new Map(calendarLinks.map((link) => [link.taskId, link]));
+
+  // Exports follow the board: column by column, in card order
+  const boardOrdered = useMemo(
+    () => columns.flatMap((column) => tasks.filter((t) => columnIdOf(t, columns) === column.id).sort(byBoardOrder)),
+    [tasks, columns],
+  );
+
+  const editingSubtasks = dialog.task ? tasks.filter((t) => t.parentId === dialog.task!.id) : [];
+
+  const renderCard = (task: Task) => (
+    <TaskCard
+      task={task}
+      subtasks={subtasksOf.get(task.id)}
+      assigneeName={task.assigneeId ? userNames.get(task.assigneeId) : undefined}
+      canDelete={task.userId === user?.id}
+      onStatusChange={(id, status) => updateTaskMutation.mutate({ id, status })}
+      onEdit={(task) => setDialog({ open: true, task })}
+      onAddSubtask={(task) => setDialog({ open: true, parentId: task.id })}
+      onRecurrenceAction={(id, action) => recurrenceMutation.mutate({ id, action })}
+      calendarLink={linksByTask.get(task.id)}
+      onCalendarChange={(id, onCalendar) => calendarMutation.mutate({ id, onCalendar })}
+      onDelete={(id) => deleteTaskMutation.mutate(id)}
+    />
+  );
+
+  const isFiltered = Object.values(filters).some((value) => value !== ALL);
 
   return (
     <div className="h-full overflow-auto">
-      <div className="max-w-6xl mx-auto p-6">
+      <div className="max-w-7xl mx-auto p-6">
         <div className="flex items-center justify-between mb-6" dir="rtl">
           <div>
             <h1 className="text-4xl font-bold mb-2">المهام</h1>
@@ -122,6 +255,16 @@ export default function TasksPage() {
             </p>
           </div>
           <div className="flex gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="icon" title="مزامنة التقويم" data-testid="button-calendar-sync-rules">
+                  <CalendarClock className="w-4 h-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80">
+                <CalendarSyncRules />
+              </PopoverContent>
+            </Popover>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" data-testid="button-export-tasks">
@@ -130,164 +273,120 @@ export default function TasksPage() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent>
-                <DropdownMenuItem onClick={() => exportTasksToJSON(tasks)}>
+                <DropdownMenuItem onClick={() => exportTasksToJSON(boardOrdered)}>
                   <span dir="rtl">تصدير بصيغة JSON</span>
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => exportTasksToCSV(tasks)}>
+                <DropdownMenuItem onClick={() => exportTasksToCSV(boardOrdered)}>
                   <span dir="rtl">تصدير بصيغة CSV</span>
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => exportTasksToMarkdown(tasks)}>
+                <DropdownMenuItem onClick={() => exportTasksToMarkdown(boardOrdered, columns)}>
                   <span dir="rtl">تصدير بصيغة Markdown</span>
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
-            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-create-task">
-                  <Plus className="w-4 h-4 ml-2" />
-                  <span dir="rtl">مهمة جديدة</span>
-                </Button>
-              </DialogTrigger>
-              <DialogContent dir="rtl">
-              <DialogHeader>
-                <DialogTitle>إنشاء مهمة جديدة</DialogTitle>
-                <DialogDescription>
-                  أضف مهمة جديدة لتتبع عملك
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 mt-4">
-                <div>
-                  <Label htmlFor="title">العنوان</Label>
-                  <Input
-                    id="title"
-                    placeholder="عنوان المهمة..."
-                    value={newTask.title}
-                    onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
-                    data-testid="input-task-title"
-                    dir="auto"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="description">الوصف (اختياري)</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="وصف المهمة..."
-                    value={newTask.description}
-                    onChange={(e) => setNewTask({ ...newTask, description: e.target.value })}
-                    rows={3}
-                    data-testid="input-task-description"
-                    dir="auto"
-                  />
-                </div>
-                <Button
-                  onClick={handleCreateTask}
-                  disabled={!newTask.title.trim() || createTaskMutation.isPending}
-                  className="w-full"
-                  data-testid="button-submit-task"
-                >
-                  {createTaskMutation.isPending ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    "إنشاء المهمة"
-                  )}
-                </Button>
-              </div>
-            </DialogContent>
-            </Dialog>
+            {hasPermission(user?.role, "board:manage") && (
+              <Button variant="outline" onClick={() => setIsColumnsDialogOpen(true)} data-testid="button-manage-columns">
+                <Columns3 className="w-4 h-4 ml-2" />
+                <span dir="rtl">الأعمدة</span>
+              </Button>
+            )}
+            <Button onClick={() => setDialog({ open: true })} data-testid="button-create-task">
+              <Plus className="w-4 h-4 ml-2" />
+              <span dir="rtl">مهمة جديدة</span>
+            </Button>
           </div>
         </div>
 
-        <Tabs defaultValue="all" className="w-full" dir="rtl">
-          <TabsList>
-            <TabsTrigger value="all" data-testid="tab-all-tasks">
-              الكل ({tasks.length})
-            </TabsTrigger>
-            <TabsTrigger value="pending" data-testid="tab-pending-tasks">
-              قيد الانتظار ({pendingTasks.length})
-            </TabsTrigger>
-            <TabsTrigger value="in_progress" data-testid="tab-inprogress-tasks">
-              قيد التنفيذ ({inProgressTasks.length})
-            </TabsTrigger>
-            <TabsTrigger value="completed" data-testid="tab-completed-tasks">
-              مكتملة ({completedTasks.length})
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="all" className="mt-6 space-y-4">
-            {tasks.length === 0 ? (
-              <div className="text-center py-12" dir="rtl">
-                <div className="w-16 h-16 rounded-full bg-muted mx-auto mb-4 flex items-center justify-center">
-                  <Plus className="w-8 h-8 text-muted-foreground" />
-                </div>
-                <h3 className="text-lg font-semibold mb-2">لا توجد مهام بعد</h3>
-                <p className="text-muted-foreground mb-4">
-                  أنشئ مهمتك الأولى للبدء
-                </p>
-              </div>
-            ) : (
-              tasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onStatusChange={(id, status) => updateTaskMutation.mutate({ id, status })}
-                  onDelete={(id) => deleteTaskMutation.mutate(id)}
-                />
-              ))
-            )}
-          </TabsContent>
+        <div className="flex flex-wrap items-center gap-2 mb-6" dir="rtl">
+          <Select value={filters.priority} onValueChange={(priority) => setFilters({ ...filters, priority })}>
+            <SelectTrigger className="w-36" data-testid="select-filter-priority">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>كل الأولويات</SelectItem>
+              {taskPriorities.map((priority) => (
+                <SelectItem key={priority} value={priority}>{taskPriorityLabels[priority]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.assigneeId} onValueChange={(assigneeId) => setFilters({ ...filters, assigneeId })}>
+            <SelectTrigger className="w-40" data-testid="select-filter-assignee">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>كل المكلَّفين</SelectItem>
+              <SelectItem value="me">مهامي المكلَّف بها</SelectItem>
+              <SelectItem value="none">غير مكلَّفة</SelectItem>
+              {users.map((u) => (
+                <SelectItem key={u.id} value={u.id}>{u.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.label} onValueChange={(label) => setFilters({ ...filters, label })}>
+            <SelectTrigger className="w-36" data-testid="select-filter-label">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>كل التصنيفات</SelectItem>
+              {labels.map((label) => (
+                <SelectItem key={label} value={label}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.due} onValueChange={(due) => setFilters({ ...filters, due })}>
+            <SelectTrigger className="w-40" data-testid="select-filter-due">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>كل المواعيد</SelectItem>
+              <SelectItem value="overdue">متأخرة</SelectItem>
+              <SelectItem value="week">مستحقة خلال أسبوع</SelectItem>
+            </SelectContent>
+          </Select>
+          {isFiltered && (
+            <Button variant="ghost" onClick={() => setFilters(defaultFilters)} data-testid="button-clear-task-filters">
+              مسح الفلاتر
+            </Button>
+          )}
+        </div>
 
-          <TabsContent value="pending" className="mt-6 space-y-4">
-            {pendingTasks.length === 0 ? (
-              <div className="text-center py-12" dir="rtl">
-                <p className="text-muted-foreground">لا توجد مهام قيد الانتظار</p>
-              </div>
-            ) : (
-              pendingTasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onStatusChange={(id, status) => updateTaskMutation.mutate({ id, status })}
-                  onDelete={(id) => deleteTaskMutation.mutate(id)}
-                />
-              ))
+        {isLoading || isLoadingColumns ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {topLevel.length === 0 && (
+              <p className="mb-4 text-center text-muted-foreground" dir="rtl">
+                {isFiltered ? "لا توجد مهام تطابق الفلاتر" : "لا توجد مهام بعد، أنشئ مهمتك الأولى للبدء"}
+              </p>
             )}
-          </TabsContent>
+            <TaskBoard
+              columns={columns}
+              tasks={topLevel}
+              renderCard={renderCard}
+              onMove={(move) => moveTaskMutation.mutate(move)}
+              onAddTask={(column) => setDialog({ open: true, column })}
+            />
+          </>
+        )}
+      </div>
 
-          <TabsContent value="in_progress" className="mt-6 space-y-4">
-            {inProgressTasks.length === 0 ? (
-              <div className="text-center py-12" dir="rtl">
-                <p className="text-muted-foreground">لا توجد مهام قيد التنفيذ</p>
-              </div>
-            ) : (
-              inProgressTasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onStatusChange={(id, status) => updateTaskMutation.mutate({ id, status })}
-                  onDelete={(id) => deleteTaskMutation.mutate(id)}
-                />
-              ))
-            )}
-          </TabsContent>
+      <TaskDialog
+        open={dialog.open}
+        onOpenChange={(open) => setDialog(open ? dialog : { open: false })}
+        task={dialog.task}
+        parentId={dialog.parentId}
+        column={dialog.column}
+        subtasks={editingSubtasks}
+        users={users}
+      />
 
-          <TabsContent value="completed" className="mt-6 space-y-4">
-            {completedTasks.length === 0 ? (
-              <div className="text-center py-12" dir="rtl">
-                <p className="text-muted-foreground">لا توجد مهام مكتملة</p>
-              </div>
-            ) : (
-              completedTasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onStatusChange={(id, status) => updateTaskMutation.mutate({ id, status })}
-                  onDelete={(id) => deleteTaskMutation.mutate(id)}
-                />
-              ))
-            )}
-          </TabsContent>
-        </Tabs>
-      </div>
+      <TaskColumnsDialog
+        open={isColumnsDialogOpen}
+        onOpenChange={setIsColumnsDialogOpen}
+        columns={columns}
+      />
     </div>
   );
 }
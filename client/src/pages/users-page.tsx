@@ -0,0 +1,256 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, Users } from "lucide-react";
+import { Redirect } from "wouter";
+import { hasPermission, userRoles, type PublicUser, type UserRole } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ROLE_LABELS } from "@/lib/roles";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useState } from "react";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: "كل الصلاحيات، بما فيها الإعدادات وإدارة المستخدمين",
+  manager: "مراجعة المعرفة ونشرها وحذفها وإرسال البريد من الصندوق المشترك وإدارة أعمدة لوحة المهام",
+  staff: "المحادثة والمهام والمعرفة دون العمليات الحساسة",
+};
+
+interface NewUserForm {
+  username: string;
+  displayName: string;
+  password: string;
+  role: UserRole;
+}
+
+const EMPTY_FORM: NewUserForm = { username: "", displayName: "", password: "", role: "staff" };
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<NewUserForm>(EMPTY_FORM);
+  const canManageUsers = hasPermission(currentUser?.role, "users:manage");
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: canManageUsers,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      return await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "نجاح",
+        description: "تم تحديث الدور",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تحديث الدور",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: NewUserForm) => {
+      return await apiRequest("POST", "/api/register", {
+        ...data,
+        displayName: data.displayName.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsDialogOpen(false);
+      setForm(EMPTY_FORM);
+      toast({
+        title: "نجاح",
+        description: "تم إنشاء الحساب",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في إنشاء الحساب",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManageUsers) {
+    return <Redirect to="/" />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-auto">
+      <div className="max-w-5xl mx-auto p-6" dir="rtl">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <Users className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-4xl font-bold mb-1">المستخدمون</h1>
+              <p className="text-muted-foreground">الحسابات وأدوار الصلاحيات</p>
+            </div>
+          </div>
+          <Button onClick={() => setIsDialogOpen(true)} data-testid="button-create-user">
+            <Plus className="w-4 h-4 ml-2" />
+            إضافة مستخدم
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+          {userRoles.map((role) => (
+            <Card key={role} className="p-4">
+              <Badge variant="outline" className="mb-2">{ROLE_LABELS[role]}</Badge>
+              <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">المستخدم</TableHead>
+                <TableHead className="text-right">تاريخ الإنشاء</TableHead>
+                <TableHead className="text-right">الدور</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                  <TableCell>
+                    <div className="font-medium" dir="auto">{user.displayName || user.username}</div>
+                    <div className="text-xs text-muted-foreground" dir="ltr">@{user.username}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(user.createdAt).toLocaleDateString("ar-SA")}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+                      disabled={updateRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="w-40" data-testid={`select-user-role-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userRoles.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent dir="rtl">
+            <DialogHeader>
+              <DialogTitle>إضافة مستخدم</DialogTitle>
+              <DialogDescription>إنشاء حساب لزميل وتحديد دوره</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div>
+                <Label htmlFor="new-username">اسم المستخدم</Label>
+                <Input
+                  id="new-username"
+                  value={form.username}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  dir="ltr"
+                  data-testid="input-new-username"
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-display-name">الاسم الظاهر (اختياري)</Label>
+                <Input
+                  id="new-display-name"
+                  value={form.displayName}
+                  onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                  dir="auto"
+                  data-testid="input-new-display-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-password">كلمة المرور المؤقتة</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  dir="ltr"
+                  autoComplete="new-password"
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-role">الدور</Label>
+                <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as UserRole })}>
+                  <SelectTrigger id="new-role" data-testid="select-new-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => createUserMutation.mutate(form)}
+                disabled={form.username.trim().length < 3 || form.password.length < 8 || createUserMutation.isPending}
+                className="w-full"
+                data-testid="button-submit-user"
+              >
+                {createUserMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "إنشاء الحساب"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Settings, Task } from "@shared/schema";
+import { streamAIResponse } from "./ai";
+import type { AssistantToolContext } from "./assistantTools";
+
+const mocks = vi.hoisted(() => ({
+  getSettings: vi.fn(),
+  getTasks: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storage: { getSettings: mocks.getSettings, getTasks: mocks.getTasks },
+}));
+
+const settings = {
+  assistantName: "Modern",
+  systemInstructions: "Be helpful.",
+  maxAgentSteps: 6,
+  llmProvider: "fake",
+  llmModel: null,
+  timeZone: null,
+  organizationTimeZone: "Asia/Riyadh",
+} as Settings;
+
+const toolContext: AssistantToolContext = { userId: "u1", conversationId: "c1", timeZone: "Asia/Riyadh" };
+
+const task = {
+  id: "t1",
+  title: "Send the invoice",
+  description: null,
+  status: "pending",
+  priority: "high",
+  dueDate: null,
+  labels: [],
+  parentId: null,
+  assigneeId: null,
+  createdAt: new Date("2026-10-18T07:00:00Z"),
+} as unknown as Task;
+
+function reply(content: string, options: { toolContext?: AssistantToolContext; signal?: AbortSignal } = {}) {
+  const deltas: string[] = [];
+  const onToolCall = vi.fn();
+  const result = streamAIResponse([{ role: "user", content }], {
+    userId: "u1",
+    ...options,
+    onDelta: (delta) => deltas.push(delta),
+    onToolCall,
+  });
+  return { result, deltas, onToolCall };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("LLM_PROVIDER", "");
+  mocks.getSettings.mockResolvedValue(settings);
+  mocks.getTasks.mockResolvedValue([task]);
+});
+
+describe("streamAIResponse with the fake provider", () => {
+  it("streams a plain reply as deltas", async () => {
+    const { result, deltas, onToolCall } = reply("hello there", { toolContext });
+    expect(await result).toEqual({ content: "Echo: hello there", cancelled: false, toolCalls: [], citations: [] });
+    expect(deltas.join("")).toBe("Echo: hello there");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(onToolCall).not.toHaveBeenCalled();
+  });
+
+  it("runs a tool call, feeds its result back and ends with the answer", async () => {
+    const { result, deltas, onToolCall } = reply('/tool list_tasks {"status":"pending"}', { toolContext });
+    const { content, toolCalls } = await result;
+
+    expect(mocks.getTasks).toHaveBeenCalledWith("u1", { status: "pending", priority: undefined, label: undefined });
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0]).toMatchObject({
+      id: "fake_call_1",
+      name: "list_tasks",
+      arguments: { status: "pending" },
+      step: 1,
+      result: [expect.objectContaining({ id: "t1", title: "Send the invoice" })],
+    });
+    expect(toolCalls[0].error).toBeUndefined();
+    expect(onToolCall).toHaveBeenCalledWith(toolCalls[0]);
+    // The second round reports the tool output back as text
+    expect(content).toMatch(/^Tool results:\n\[\{"id":"t1","title":"Send the invoice"/);
+    expect(deltas.join("")).toBe(content);
+  });
+
+  it("reports a tool failure to the model instead of throwing", async () => {
+    const { result } = reply("/tool list_tasks {not json", { toolContext });
+    const { content, toolCalls } = await result;
+
+    expect(mocks.getTasks).not.toHaveBeenCalled();
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0].error).toBeTruthy();
+    expect(content).toContain('{"error":');
+  });
+
+  it("offers no tools without a tool context", async () => {
+    const { result } = reply("/tool list_tasks {}");
+    const { content, toolCalls } = await result;
+
+    expect(content).toBe("Echo: /tool list_tasks {}");
+    expect(toolCalls).toEqual([]);
+  });
+
+  it("returns what was generated so far when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { result, deltas } = reply("hello", { toolContext, signal: controller.signal });
+
+    expect(await result).toEqual({ content: "", cancelled: true, toolCalls: [], citations: [] });
+    expect(deltas).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import type { Citation, Memory, Settings, ToolCallRecord } from "@shared/schema";
+import type { RetrievedKnowledge } from "./knowledgeBase";
+import { storage } from "./storage";
+import { describeNow } from "./timeZone";
+import { assistantTools, executeAssistantTool, type AssistantToolContext } from "./assistantTools";
+import { resolveChatModel, resolveEmbeddingModel, type LLMImage, type LLMMessage, type LLMToolCall } from "./llm";
+
+// Embeds texts in order with the embedding provider selected in the
+// workspace settings, so every vector in the shared index is comparable
+export async function createEmbeddings(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+  const { provider, model } = resolveEmbeddingModel(await storage.getWorkspaceSettings());
+  return await provider.embed(texts, model);
+}
+
+export interface CompleteChatOptions {
+  // Whose chat provider and model to use; the workspace settings otherwise
+  userId?: string | null;
+  maxTokens?: number;
+  responseFormat?: "text" | "json";
+}
+
+// A single non-streaming completion with the provider selected in settings,
+// for background work such as summaries and memory extraction
+export async function completeChat(messages: LLMMessage[], options: CompleteChatOptions = {}): Promise<string> {
+  const { userId, ...request } = options;
+  const settings = userId ? await storage.getSettings(userId) : await storage.getWorkspaceSettings();
+  const { provider, model } = resolveChatModel(settings);
+  const response = await provider.chat({ model, messages, ...request });
+  return response.content;
+}
+
+// Detect if text contains Arabic characters
+function containsArabic(text: string): boolean {
+  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+  return arabicRegex.test(text);
+}
+
+function buildSystemMessage(
+  messages: Array<{ role: string; content: string }>,
+  settings: Settings,
+  systemContext?: string
+): string {
+  // Get the latest user message for language detection
+  const latestUserMessage = messages.filter(m => m.role === 'user').slice(-1)[0]?.content || '';
+  
+  // Detect if the user is writing in Arabic
+  const isArabic = containsArabic(latestUserMessage);
+  
+  // Use custom system instructions from settings or default
+  const customInstructions = settings.systemInstructions || (isArabic
+    ? `أنت مساعد ذكي متخصص في مساعدة الشركات. تتعلم من المحادثات السابقة وتتذكر كل شيء. ساعد المستخدم بطريقة احترافية ومنظمة.`
+    : `You are an intelligent assistant specialized in helping businesses. You learn from previous conversations and remember everything. Help the user in a professional and organized manner.`);
+  
+  const assistantName = settings.assistantName || "Modern";
+  
+  const baseSystemMessage = isArabic
+    ? `أنت ${assistantName}، مساعد ذكاء اصطناعي ذكي يعمل لدى شركة أبو خالد.
+    
+توجيهاتك الأولية:
+${customInstructions}
+
+قدراتك:
+- المساعدة في العمليات التجارية والمهام
+- تذكر جميع المعلومات المشاركة معك
+- اتباع التعليمات والأوامر
+- أن تكون محترفًا ومفيدًا واستباقيًا
+- تعلم وفهم سياق العمل
+- اقتراح التحسينات وتتبع المهام عند الاقتضاء
+- إنشاء المهام وتحديثها وإكمالها مباشرة باستخدام أدوات المهام المتاحة لك
+- الوصول إلى البيانات من الأنظمة التجارية المتصلة (Gmail، Google Calendar، إلخ) واستخدامها عبر الأدوات المتاحة لك؛ ابحث واقرأ بنفسك بدلًا من التخمين
+- إيجاد مواعيد اجتماعات تناسب الجميع وحجز الموعد الذي يختاره المستخدم
+
+دائمًا استجب بطريقة مفيدة ومهنية وتذكر السياق من الرسائل السابقة.
+
+مهم جدًا: يجب أن تستجيب دائمًا باللغة العربية عندما يكتب المستخدم بالعربية، وبالإنجليزية عندما يكتب بالإنجليزية.`
+    : `You are ${assistantName}, an intelligent AI assistant working for AbuKhalid's company.
+    
+Your Initial Instructions:
+${customInstructions}
+
+Your Capabilities:
+- Help with business processes and tasks
+- Remember all information shared with you
+- Follow instructions and orders
+- Be professional, helpful, and proactive
+- Learn and understand the business context
+- Suggest improvements and track tasks when appropriate
+- Create, update and complete tasks directly using the task tools available to you
+- Access and use data from connected business systems (Gmail, Google Calendar, etc.) through the tools available to you; search and read for yourself instead of guessing
+- Find meeting times that suit everyone and book the one the user chooses
+
+Always respond in a helpful, professional manner and remember context from previous messages.
+
+Important: Always respond in the same language as the user. If they write in Arabic, respond in Arabic. If they write in English, respond in English.`;
+  
+  const systemMessage = systemContext || baseSystemMessage;
+  return `${systemMessage}\n\nCurrent local date and time: ${describeNow(settings)}. Read dates and times the user gives without a zone ("tomorrow at 10") as local time, pass them to tools without an offset, and show times to the user in local time.`;
+}
+
+function describeAIError(error: any): string {
+  if (error.message?.includes('429') || error.message?.includes('rate limit')) {
+    return "I'm experiencing high demand right now. Please try again in a moment.";
+  }
+  
+  if (error.message?.includes('timeout') || error.message?.includes('ECONNREFUSED')) {
+    return "I'm having trouble connecting to my AI service. Please try again shortly.";
+  }
+  
+  return "I apologize, but I encountered an error while processing your request. Please try again.";
+}
+
+const CITATION_EXCERPT_LENGTH = 280;
+
+// Appends retrieved knowledge base passages, numbered for citation
+function buildKnowledgeContext(knowledge: RetrievedKnowledge[]): string {
+  const passages = knowledge
+    .map((item, i) => `[${i + 1}] ${item.title}\n${item.content}`)
+    .join("\n\n---\n\n");
+
+  return `Company knowledge base excerpts relevant to the user's question are listed below. These are the company's own documented procedures: prefer them over general knowledge, and do not invent company procedures that are not documented here. When you use an excerpt, cite it inline with its number in square brackets, e.g. [1]. If the excerpts do not answer the question, say so.
+
+${passages}`;
+}
+
+// Stands in for the earlier turns that no longer fit the context budget
+function buildSummaryContext(summary: string): string {
+  return `Summary of the earlier part of this conversation (older messages are not shown to you verbatim):
+
+${summary}`;
+}
+
+// Appends facts remembered from earlier conversations
+function buildMemoryContext(memories: Memory[]): string {
+  const facts = memories.map(memory => `- ${memory.content}`).join("\n");
+
+  return `Facts you remember from earlier conversations with this company. Use them when relevant and do not ask the user for information already listed here; if the user contradicts one, trust the user.
+
+${facts}`;
+}
+
+// Keeps only the excerpts the reply actually cites
+function extractCitations(content: string, knowledge: RetrievedKnowledge[]): Citation[] {
+  const cited = new Set(Array.from(content.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+
+  return knowledge.flatMap((item, i) => {
+    const index = i + 1;
+    if (!cited.has(index)) {
+      return [];
+    }
+    // Drop the title/description header that every chunk is indexed with
+    const passage = item.content.split("\n\n").slice(1).join("\n\n") || item.content;
+    return [{
+      index,
+      processId: item.processId,
+      title: item.title,
+      excerpt: passage.length > CITATION_EXCERPT_LENGTH ? `${passage.slice(0, CITATION_EXCERPT_LENGTH)}…` : passage,
+    }];
+  });
+}
+
+export interface StreamAIResponseOptions {
+  // The user the reply is for; their settings pick the model and prompt
+  userId: string;
+  systemContext?: string;
+  summary?: string | null;
+  knowledge?: RetrievedKnowledge[];
+  memories?: Memory[];
+  signal?: AbortSignal;
+  toolContext?: AssistantToolContext;
+  onDelta: (delta: string) => void;
+  onToolCall?: (toolCall: ToolCallRecord) => void;
+}
+
+export interface StreamAIResponseResult {
+  content: string;
+  cancelled: boolean;
+  toolCalls: ToolCallRecord[];
+  citations: Citation[];
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+  const parsed = JSON.parse(raw);
+  return parsed && typeof parsed === "object" ? parsed : {};
+}
+
+// Streams the completion through onDelta as it arrives. When tools are
+// available this runs an agent loop: the model may call tools over several
+// steps (capped by settings.maxAgentSteps), each result is fed back, and the
+// loop ends once it answers in text. When the signal is aborted the partial
+// content generated so far is returned with cancelled set.
+export async function streamAIResponse(
+  messages: Array<{ role: string; content: string; images?: LLMImage[] }>,
+  options: StreamAIResponseOptions
+): Promise<StreamAIResponseResult> {
+  const { userId, systemContext, summary, knowledge = [], memories = [], signal, toolContext, onDelta, onToolCall } = options;
+  const settings = await storage.getSettings(userId);
+  const fullSystemMessage = [
+    buildSystemMessage(messages, settings, systemContext),
+    summary ? buildSummaryContext(summary) : "",
+    memories.length > 0 ? buildMemoryContext(memories) : "",
+    knowledge.length > 0 ? buildKnowledgeContext(knowledge) : "",
+  ].filter(Boolean).join("\n\n");
+  const { provider, model } = resolveChatModel(settings);
+  const maxSteps = settings.maxAgentSteps;
+  const toolCalls: ToolCallRecord[] = [];
+  let content = "";
+
+  // Models without vision are told an image was attached instead of seeing it
+  const acceptsImages = provider.supportsImages(model);
+  const conversation: LLMMessage[] = [
+    { role: "system", content: fullSystemMessage },
+    ...messages.map((m): LLMMessage => {
+      if (m.role !== "user" || !m.images?.length) {
+        return { role: m.role as "user" | "assistant", content: m.content };
+      }
+      return acceptsImages
+        ? { role: "user", content: m.content, images: m.images }
+        : { role: "user", content: `${m.content}\n\n(The current model cannot view images, so the attached images are not shown to you.)` };
+    })
+  ];
+
+  try {
+    for (let step = 1; step <= maxSteps + 1; step++) {
+      // Once the step budget is spent tools are withheld so the model has to answer
+      const tools = toolContext && step <= maxSteps ? assistantTools : undefined;
+      let roundContent = "";
+      const pendingCalls: LLMToolCall[] = [];
+
+      for await (const event of provider.stream({ model, messages: conversation, tools, maxTokens: 8192, signal })) {
+        if (event.type === "delta") {
+          roundContent += event.content;
+          content += event.content;
+          onDelta(event.content);
+        } else {
+          pendingCalls.push(event.toolCall);
+        }
+      }
+
+      if (pendingCalls.length === 0 || !toolContext) {
+        break;
+      }
+
+      conversation.push({ role: "assistant", content: roundContent || null, toolCalls: pendingCalls });
+
+      for (const call of pendingCalls) {
+        const record: ToolCallRecord = { id: call.id, name: call.name, arguments: {}, step };
+        const startedAt = Date.now();
+        try {
+          record.arguments = parseToolArguments(call.arguments);
+          record.result = await executeAssistantTool(call.name, record.arguments, toolContext);
+        } catch (toolError: any) {
+          record.error = toolError.message || String(toolError);
+        }
+        record.durationMs = Date.now() - startedAt;
+        toolCalls.push(record);
+        onToolCall?.(record);
+        conversation.push({
+          role: "tool",
+          toolCallId: call.id,
+          content: JSON.stringify(record.error ? { error: record.error } : record.result ?? null),
+        });
+      }
+    }
+
+    return {
+      content: content || (toolCalls.length > 0 ? "" : "I apologize, but I couldn't generate a response at this time."),
+      cancelled: false,
+      toolCalls,
+      citations: extractCitations(content, knowledge),
+    };
+  } catch (error: any) {
+    if (signal?.aborted) {
+      return { content, cancelled: true, toolCalls, citations: extractCitations(content, knowledge) };
+    }
+
+    console.error('LLM API error:', error);
+    const errorMessage = describeAIError(error);
+    onDelta(content ? `\n\n${errorMessage}` : errorMessage);
+    return {
+      content: content ? `${content}\n\n${errorMessage}` : errorMessage,
+      cancelled: false,
+      toolCalls,
+      citations: extractCitations(content, knowledge),
+    };
+  }
+}
@@ -0,0 +1,437 @@
+import { bookMeetingSlotSchema, suggestMeetingSlotsSchema, taskPriorities, taskStatuses, MAX_MEETING_ATTENDEES, type Task, type TaskPriority, type TaskStatus } from "@shared/schema";
+import type { z } from "zod";
+import { storage } from "./storage";
+import { GmailService } from "./gmail";
+import { GoogleCalendarService } from "./googleCalendar";
+import { bookMeetingSlot, suggestMeetingSlots } from "./meetingScheduler";
+import { parseInZone } from "./timeZone";
+import type { LLMToolDefinition } from "./llm";
+
+// Email bodies can be long; cap what is handed back to the model
+const MAX_EMAIL_BODY_LENGTH = 8000;
+
+const CALENDAR_ID_PARAMETER = { type: "string", description: "From list_calendars; defaults to the primary calendar" };
+
+export interface AssistantToolContext {
+  // Tools act on this user's data only
+  userId: string;
+  conversationId: string;
+  // The user's time zone; dates and times without an offset are read in it
+  timeZone: string;
+  onTaskChange?: (type: "task_created" | "task_updated" | "task_deleted", task: Task) => void;
+}
+
+interface AssistantTool {
+  definition: LLMToolDefinition;
+  // Returns a JSON-serialisable result for the model. Thrown errors are
+  // reported back to the model as the tool output.
+  execute: (args: Record<string, unknown>, context: AssistantToolContext) => Promise<unknown>;
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${key} is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function optionalNumber(args: Record<string, unknown>, key: string, min: number, max: number): number | undefined {
+  const value = args[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`);
+  }
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+function parseEnum<T extends string>(value: unknown, key: string, allowed: readonly T[]): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || !(allowed as readonly string[]).includes(value)) {
+    throw new Error(`${key} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function parseStatus(value: unknown): TaskStatus | undefined {
+  return parseEnum(value, "status", taskStatuses);
+}
+
+function parsePriority(value: unknown): TaskPriority | undefined {
+  return parseEnum(value, "priority", taskPriorities);
+}
+
+// An ISO date or date-time, local to the user unless it has an offset; null
+// clears the due date
+function parseDueDate(value: unknown, timeZone: string): Date | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const date = typeof value === "string" ? parseInZone(value, timeZone) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error("dueDate must be an ISO 8601 date");
+  }
+  return date;
+}
+
+function parseLabels(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((label) => typeof label !== "string")) {
+    throw new Error("labels must be an array of strings");
+  }
+  return Array.from(new Set(value.map((label: string) => label.trim()).filter(Boolean)));
+}
+
+// Arguments checked against a request schema, with its issues in one line
+function parseArgs<T extends z.ZodTypeAny>(schema: T, args: Record<string, unknown>): z.infer<T> {
+  const parsed = schema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; "));
+  }
+  return parsed.data;
+}
+
+// The task fields the model works with
+function summarizeTask({ id, title, description, status, priority, dueDate, labels, parentId, assigneeId, createdAt }: Task) {
+  return { id, title, description, status, priority, dueDate, labels, parentId, assigneeId, createdAt };
+}
+
+async function requireTask(userId: string, id: string): Promise<Task> {
+  const task = await storage.getTask(userId, id);
+  if (!task) {
+    throw new Error(`Task ${id} not found`);
+  }
+  return task;
+}
+
+function defineTool(
+  name: string,
+  description: string,
+  parameters: Record<string, unknown>,
+  execute: AssistantTool["execute"],
+): AssistantTool {
+  return {
+    definition: { name, description, parameters },
+    execute,
+  };
+}
+
+const tools: AssistantTool[] = [
+  // Tasks
+  defineTool(
+    "list_tasks",
+    "List the user's tasks, optionally filtered by status, priority or label. Use this to find a task id before updating, completing or deleting it.",
+    {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: [...taskStatuses] },
+        priority: { type: "string", enum: [...taskPriorities] },
+        label: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const tasks = await storage.getTasks(context.userId, {
+        status: parseStatus(args.status),
+        priority: parsePriority(args.priority),
+        label: optionalString(args, "label"),
+      });
+      return tasks.map(summarizeTask);
+    },
+  ),
+  defineTool(
+    "create_task",
+    "Create a task the user wants to track, e.g. a reminder or follow-up. Set dueDate when the user gives a specific date; otherwise put timing details such as 'tomorrow' in the description.",
+    {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Short task title in the user's language" },
+        description: { type: "string" },
+        priority: { type: "string", enum: [...taskPriorities] },
+        dueDate: { type: "string", description: "ISO 8601 date or local date-time" },
+        labels: { type: "array", items: { type: "string" } },
+      },
+      required: ["title"],
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const task = await storage.createTask(context.userId, {
+        conversationId: context.conversationId,
+        title: requireString(args, "title"),
+        description: optionalString(args, "description"),
+        priority: parsePriority(args.priority),
+        dueDate: parseDueDate(args.dueDate, context.timeZone),
+        labels: parseLabels(args.labels),
+      });
+      context.onTaskChange?.("task_created", task);
+      return task;
+    },
+  ),
+  defineTool(
+    "update_task",
+    "Change the title, description, status, priority, due date or labels of an existing task. Labels replace the current ones.",
+    {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        title: { type: "string" },
+        description: { type: "string" },
+        status: { type: "string", enum: [...taskStatuses] },
+        priority: { type: "string", enum: [...taskPriorities] },
+        dueDate: { type: ["string", "null"], description: "ISO 8601 date or local date-time; null removes the due date" },
+        labels: { type: "array", items: { type: "string" } },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const id = requireString(args, "id");
+      await requireTask(context.userId, id);
+      const updates: Partial<Task> = {};
+      const title = optionalString(args, "title");
+      const description = optionalString(args, "description");
+      const status = parseStatus(args.status);
+      const priority = parsePriority(args.priority);
+      const dueDate = parseDueDate(args.dueDate, context.timeZone);
+      const labels = parseLabels(args.labels);
+      if (title) updates.title = title;
+      if (description !== undefined) updates.description = description;
+      if (status) updates.status = status;
+      if (priority) updates.priority = priority;
+      if (dueDate !== undefined) updates.dueDate = dueDate;
+      if (labels) updates.labels = labels;
+
+      const task = await storage.updateTask(context.userId, id, updates);
+      if (task) context.onTaskChange?.("task_updated", task);
+      return task;
+    },
+  ),
+  defineTool(
+    "complete_task",
+    "Mark an existing task as completed.",
+    {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const id = requireString(args, "id");
+      await requireTask(context.userId, id);
+      const task = await storage.updateTask(context.userId, id, { status: "completed" });
+      if (task) context.onTaskChange?.("task_updated", task);
+      return task;
+    },
+  ),
+  defineTool(
+    "delete_task",
+    "Delete a task. Only use this when the user explicitly asks to remove it.",
+    {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const task = await requireTask(context.userId, requireString(args, "id"));
+      if (task.userId !== context.userId) {
+        throw new Error("Only the task's owner can delete it");
+      }
+      await storage.deleteTask(context.userId, task.id);
+      context.onTaskChange?.("task_deleted", task);
+      return { deleted: true, task };
+    },
+  ),
+
+  // Gmail
+  defineTool(
+    "search_emails",
+    "Search the user's Gmail mailbox. Accepts Gmail search syntax, e.g. 'from:supplier@example.com newer_than:7d' or 'is:unread'. Returns headers and snippets; use get_email for the full body.",
+    {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Gmail search query; empty for the most recent messages" },
+        maxResults: { type: "number", description: "1-25, defaults to 10" },
+      },
+      additionalProperties: false,
+    },
+    async (args) => {
+      const gmailService = new GmailService();
+      const maxResults = optionalNumber(args, "maxResults", 1, 25) ?? 10;
+      return gmailService.searchMessages(optionalString(args, "query") ?? "", maxResults);
+    },
+  ),
+  defineTool(
+    "get_email",
+    "Read a single email including its plain-text body.",
+    {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Message id from search_emails" },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+    async (args) => {
+      const gmailService = new GmailService();
+      const message = await gmailService.getMessage(requireString(args, "id"));
+      if (!message) {
+        throw new Error("Email not found");
+      }
+      if (message.body && message.body.length > MAX_EMAIL_BODY_LENGTH) {
+        message.body = `${message.body.slice(0, MAX_EMAIL_BODY_LENGTH)}…`;
+      }
+      return message;
+    },
+  ),
+  defineTool(
+    "get_unread_email_count",
+    "Get the number of unread emails in the inbox.",
+    { type: "object", properties: {}, additionalProperties: false },
+    async () => {
+      const gmailService = new GmailService();
+      return { count: await gmailService.getUnreadCount() };
+    },
+  ),
+
+  // Google Calendar
+  defineTool(
+    "list_calendars",
+    "List the user's calendars (their own, shared and subscribed ones) with their ids and access.",
+    {
+      type: "object",
+      properties: {},
+      additionalProperties: false,
+    },
+    async (_args, context) => {
+      const calendarService = new GoogleCalendarService(context.timeZone);
+      return calendarService.listCalendars();
+    },
+  ),
+  defineTool(
+    "list_calendar_events",
+    "List calendar events starting from a point in time, ordered by start time.",
+    {
+      type: "object",
+      properties: {
+        timeMin: { type: "string", description: "ISO 8601 start of the range, local time unless it has an offset; defaults to now" },
+        maxResults: { type: "number", description: "1-50, defaults to 20" },
+        calendarId: CALENDAR_ID_PARAMETER,
+      },
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const calendarService = new GoogleCalendarService(context.timeZone, optionalString(args, "calendarId") || undefined);
+      const maxResults = optionalNumber(args, "maxResults", 1, 50) ?? 20;
+      const timeMin = optionalString(args, "timeMin");
+      return calendarService.listEvents(maxResults, timeMin ? parseInZone(timeMin, context.timeZone).toISOString() : undefined);
+    },
+  ),
+  defineTool(
+    "get_upcoming_events",
+    "List calendar events from now until the given number of days ahead.",
+    {
+      type: "object",
+      properties: {
+        days: { type: "number", description: "1-60, defaults to 7" },
+        calendarId: CALENDAR_ID_PARAMETER,
+      },
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const calendarService = new GoogleCalendarService(context.timeZone, optionalString(args, "calendarId") || undefined);
+      return calendarService.getUpcomingEvents(optionalNumber(args, "days", 1, 60) ?? 7);
+    },
+  ),
+  defineTool(
+    "get_calendar_event",
+    "Get the details of a single calendar event, including each attendee's response, the organizer and, for a recurring event, its rules or series.",
+    {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        calendarId: CALENDAR_ID_PARAMETER,
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+    async (args, context) => {
+      const calendarService = new GoogleCalendarService(context.timeZone, optionalString(args, "calendarId") || undefined);
+      const event = await calendarService.getEvent(requireString(args, "id"));
+      if (!event) {
+        throw new Error("Event not found");
+      }
+      return event;
+    },
+  ),
+  defineTool(
+    "suggest_meeting_slots",
+    "Find times when the user and the attendees are all free, within the organisation's working hours and clear of prayer times and the weekend. Returns ranked slots, best first. Present a few to the user and let them choose; do not book without their choice.",
+    {
+      type: "object",
+      properties: {
+        attendees: {
+          type: "array",
+          items: { type: "string" },
+          maxItems: MAX_MEETING_ATTENDEES,
+          description: "Email addresses, or names of workspace members. When a name is not found, look the address up in email or ask the user.",
+        },
+        durationMinutes: { type: "number", description: "15-480, defaults to 60" },
+        from: { type: "string", description: "ISO 8601 date or local date-time to search from; defaults to now" },
+        to: { type: "string", description: "ISO 8601 date (included) or local date-time to search until; defaults to a week after from" },
+        maxSlots: { type: "number", description: "1-20, defaults to 5" },
+      },
+      additionalProperties: false,
+    },
+    async (args, context) => suggestMeetingSlots(context.userId, parseArgs(suggestMeetingSlotsSchema, args)),
+  ),
+  defineTool(
+    "book_meeting",
+    "Book a meeting the user has chosen, usually one of the suggested slots, and email the attendees an invitation. Fails if someone is no longer free.",
+    {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "Meeting title in the user's language" },
+        description: { type: "string" },
+        location: { type: "string" },
+        start: { type: "string", description: "ISO 8601 date-time, as returned by suggest_meeting_slots" },
+        end: { type: "string", description: "ISO 8601 date-time" },
+        attendees: { type: "array", items: { type: "string" }, maxItems: MAX_MEETING_ATTENDEES },
+      },
+      required: ["summary", "start", "end"],
+      additionalProperties: false,
+    },
+    async (args, context) => bookMeetingSlot(context.userId, parseArgs(bookMeetingSlotSchema, args)),
+  ),
+];
+
+const toolsByName = new Map(tools.map((tool) => [tool.definition.name, tool]));
+
+export const assistantTools: LLMToolDefinition[] = tools.map((tool) => tool.definition);
+
+export async function executeAssistantTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: AssistantToolContext,
+): Promise<unknown> {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  return tool.execute(args, context);
+}
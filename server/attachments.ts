@@ -0,0 +1,145 @@
+import { MAX_ATTACHMENT_BYTES, type AttachmentKind, type AttachmentUpload, type Message, type MessageAttachment } from "@shared/schema";
+import { ObjectStorageService } from "./objectStorage";
+import { ObjectPermission } from "./objectAcl";
+import { extractDocumentText, isExtractable, readObject, resolveContentType } from "./documentText";
+import type { LLMImage } from "./llm";
+import { truncateToTokens } from "./tokens";
+
+// The largest image the vision APIs accept
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Share of the context token budget the current turn's documents may take
+const ATTACHMENT_SHARE = 0.5;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// A problem with what the client attached, reported back as a 400
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+    Object.setPrototypeOf(this, AttachmentError.prototype);
+  }
+}
+
+function attachmentKind(contentType: string): AttachmentKind {
+  if (IMAGE_TYPES.includes(contentType)) {
+    return "image";
+  }
+  return isExtractable(contentType) ? "text" : "file";
+}
+
+// Checks that the user may read each uploaded object and records what the
+// assistant needs from it: documents have their text extracted once, here,
+// so later turns do not download them again.
+export async function resolveAttachments(userId: string, uploads: AttachmentUpload[]): Promise<MessageAttachment[]> {
+  const objectStorageService = new ObjectStorageService();
+
+  return Promise.all(uploads.map(async (upload) => {
+    const objectFile = await objectStorageService.getObjectEntityFile(upload.objectPath);
+    const canRead = await objectStorageService.canAccessObjectEntity({
+      userId,
+      objectFile,
+      requestedPermission: ObjectPermission.READ,
+    });
+    if (!canRead) {
+      throw new AttachmentError(`You do not have access to ${upload.name}`);
+    }
+
+    const metadata = await objectFile.getMetadata();
+    const contentType = resolveContentType(metadata.contentType, upload.name);
+    const size = metadata.size ?? 0;
+    const kind = attachmentKind(contentType);
+    if (size > MAX_ATTACHMENT_BYTES) {
+      throw new AttachmentError(`${upload.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+    }
+    if (kind === "image" && size > MAX_IMAGE_BYTES) {
+      throw new AttachmentError(`Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB; ${upload.name} is larger`);
+    }
+
+    const attachment: MessageAttachment = { objectPath: upload.objectPath, name: upload.name, contentType, size, kind };
+    if (kind === "text") {
+      try {
+        attachment.extractedText = await extractDocumentText(await readObject(objectFile), contentType);
+      } catch (error: any) {
+        console.error(`Text extraction error for ${upload.name}:`, error);
+        attachment.extractionError = error.message || "The file could not be read";
+      }
+    }
+    return attachment;
+  }));
+}
+
+// A user or assistant turn as the model receives it
+export interface ModelTurn {
+  role: string;
+  content: string;
+  images?: LLMImage[];
+}
+
+// File names and content types come from the user; escaped, they cannot
+// close the <attachment> tag and pass their own text off as instructions
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/[\r\n]+/g, " ");
+}
+
+function describeAttachment(attachment: MessageAttachment): string {
+  return `${attachment.name} (${attachment.contentType})`;
+}
+
+// The turn that carries the attachments gets their text (within the token
+// budget, shared equally) and images; earlier turns only name their files
+// so the history stays within the context budget.
+async function expandAttachments(message: Message, tokenBudget: number): Promise<ModelTurn> {
+  const attachments = message.attachments ?? [];
+  const documents = attachments.filter((attachment) => attachment.kind === "text");
+  const perDocumentTokens = Math.floor(tokenBudget / Math.max(documents.length, 1));
+  const sections: string[] = [];
+  const images: LLMImage[] = [];
+  const objectStorageService = new ObjectStorageService();
+
+  for (const attachment of attachments) {
+    if (attachment.kind === "text" && attachment.extractedText !== undefined) {
+      const { text, truncated } = truncateToTokens(attachment.extractedText, perDocumentTokens);
+      sections.push(`<attachment name="${escapeAttribute(attachment.name)}" type="${escapeAttribute(attachment.contentType)}"${truncated ? ' truncated="true"' : ""}>\n${text}\n</attachment>`);
+    } else if (attachment.kind === "image") {
+      try {
+        const data = await readObject(await objectStorageService.getObjectEntityFile(attachment.objectPath));
+        images.push({ mediaType: attachment.contentType, data: data.toString("base64") });
+        sections.push(`[Image attached: ${describeAttachment(attachment)}]`);
+      } catch (error) {
+        console.error(`Error loading image ${attachment.name}:`, error);
+        sections.push(`[Image attached but could not be loaded: ${describeAttachment(attachment)}]`);
+      }
+    } else if (attachment.extractionError) {
+      sections.push(`[File attached but its text could not be extracted: ${describeAttachment(attachment)}]`);
+    } else {
+      sections.push(`[File attached, content not readable: ${describeAttachment(attachment)}]`);
+    }
+  }
+
+  return {
+    role: message.role,
+    content: [message.content, ...sections].filter(Boolean).join("\n\n"),
+    images: images.length > 0 ? images : undefined,
+  };
+}
+
+export async function toModelTurns(messages: Message[], contextTokenBudget: number): Promise<ModelTurn[]> {
+  const latestUser = messages.map((message) => message.role).lastIndexOf("user");
+
+  return Promise.all(messages.map(async (message, index) => {
+    if (!message.attachments?.length) {
+      return { role: message.role, content: message.content };
+    }
+    if (index === latestUser) {
+      return expandAttachments(message, Math.floor(contextTokenBudget * ATTACHMENT_SHARE));
+    }
+    const names = message.attachments.map((attachment) => attachment.name).join(", ");
+    return { role: message.role, content: `${message.content}\n\n[Attached earlier: ${names}]`.trim() };
+  }));
+}
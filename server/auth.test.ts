@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { IncomingMessage, Server } from "http";
+import type { AddressInfo } from "net";
+import { getSessionUserId, hashPassword, requirePermission, setupAuth } from "./auth";
+import { storage } from "./storage";
+import { resetDatabase } from "./testDatabase";
+
+vi.mock("./db", () => import("./testDatabase"));
+// Sessions live in memory rather than in the database's session table
+vi.mock("connect-pg-simple", () => ({ default: (session: any) => session.MemoryStore }));
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  vi.stubEnv("SESSION_SECRET", "test-secret");
+  await resetDatabase();
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  app.get("/api/users", requirePermission("users:manage"), (_req, res) => res.json([]));
+  app.get("/api/tasks", (_req, res) => res.json([]));
+  server = app.listen(0);
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  vi.unstubAllEnvs();
+});
+
+beforeEach(async () => {
+  await resetDatabase();
+  vi.stubEnv("ALLOW_REGISTRATION", "");
+});
+
+async function request(method: string, path: string, options: { body?: unknown; cookie?: string } = {}) {
+  const response = await fetch(`${base}${path}`, {
+    method,
+    headers: {
+      ...(options.body !== undefined ? { "content-type": "application/json" } : {}),
+      ...(options.cookie ? { cookie: options.cookie } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+  const cookie = response.headers.get("set-cookie")?.split(";")[0];
+  const json = response.headers.get("content-type")?.includes("application/json");
+  return { status: response.status, body: json ? await response.json() : undefined, cookie };
+}
+
+function register(username: string, extra: Record<string, unknown> = {}, cookie?: string) {
+  return request("POST", "/api/register", { body: { username, password: "correct horse", ...extra }, cookie });
+}
+
+describe("registration", () => {
+  it("makes the first account an administrator and signs it in", async () => {
+    const { status, body, cookie } = await register("owner");
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ username: "owner", role: "admin" });
+    expect(body.password).toBeUndefined();
+
+    expect((await request("GET", "/api/user", { cookie })).body).toMatchObject({ username: "owner" });
+    const stored = await storage.getUserByUsername("owner");
+    expect(stored?.password).not.toContain("correct horse");
+  });
+
+  it("is closed after the first account unless a user manager adds the colleague", async () => {
+    const owner = await register("owner");
+    expect((await register("stranger")).status).toBe(403);
+
+    const added = await register("colleague", { role: "manager" }, owner.cookie);
+    expect(added.status).toBe(201);
+    expect(added.body.role).toBe("manager");
+    // The administrator stays signed in as themselves
+    expect((await request("GET", "/api/user", { cookie: owner.cookie })).body.username).toBe("owner");
+  });
+
+  it("starts self-registered accounts as staff when registration is open", async () => {
+    await register("owner");
+    vi.stubEnv("ALLOW_REGISTRATION", "true");
+    const { status, body } = await register("newcomer", { role: "admin" });
+    expect(status).toBe(201);
+    expect(body.role).toBe("staff");
+  });
+
+  it("lets only one of two simultaneous first sign-ups become the administrator", async () => {
+    const results = await Promise.all([register("first"), register("second")]);
+    expect(results.map((result) => result.status).sort()).toEqual([201, 403]);
+    expect(await storage.countUsers()).toBe(1);
+    expect(await storage.countUsers("admin")).toBe(1);
+  });
+
+  it("refuses a username that is taken", async () => {
+    const owner = await register("owner");
+    expect((await register("owner", {}, owner.cookie)).status).toBe(400);
+  });
+});
+
+describe("login and access", () => {
+  beforeEach(async () => {
+    await storage.createUser({ username: "staffer", password: await hashPassword("correct horse") });
+  });
+
+  it("checks the password", async () => {
+    expect((await request("POST", "/api/login", { body: { username: "staffer", password: "wrong password" } })).status).toBe(401);
+    expect((await request("POST", "/api/login", { body: { username: "nobody", password: "correct horse" } })).status).toBe(401);
+    const { status, body } = await request("POST", "/api/login", { body: { username: "staffer", password: "correct horse" } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ username: "staffer", role: "staff" });
+  });
+
+  it("guards the API behind a session and roles behind permissions", async () => {
+    expect((await request("GET", "/api/tasks")).status).toBe(401);
+
+    const { cookie } = await request("POST", "/api/login", { body: { username: "staffer", password: "correct horse" } });
+    expect((await request("GET", "/api/tasks", { cookie })).status).toBe(200);
+    expect((await request("GET", "/api/users", { cookie })).status).toBe(403);
+
+    await request("POST", "/api/logout", { cookie });
+    expect((await request("GET", "/api/tasks", { cookie })).status).toBe(401);
+  });
+
+  it("finds the signed-in user of a raw request, as for the /ws upgrade", async () => {
+    const { cookie } = await request("POST", "/api/login", { body: { username: "staffer", password: "correct horse" } });
+    const user = await storage.getUserByUsername("staffer");
+    const upgrade = (cookie?: string) => ({ url: "/ws", method: "GET", headers: cookie ? { cookie } : {} }) as IncomingMessage;
+
+    expect(await getSessionUserId(upgrade(cookie))).toBe(user!.id);
+    expect(await getSessionUserId(upgrade())).toBeNull();
+  });
+});
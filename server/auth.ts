@@ -0,0 +1,216 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { hasPermission, insertUserSchema, updateUserRoleSchema, type Permission, type PublicUser, type User as SelectUser, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set by passport.session() once the user has signed in
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser({ password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// The first account can always be created; after that, self-registration is
+// only open when ALLOW_REGISTRATION=true and otherwise needs a user manager.
+function canRegister(req: Request): boolean {
+  return process.env.ALLOW_REGISTRATION === "true"
+    || (req.isAuthenticated() && hasPermission(req.user.role, "users:manage"));
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+// Lets the request through only when the user's role grants the permission
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+// Resolves the signed-in user id for a raw HTTP request (the /ws upgrade),
+// which does not pass through the Express middleware stack.
+export function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(null);
+    }
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, () => {
+      const userId = request.session?.passport?.user;
+      resolve(typeof userId === "string" ? userId : null);
+    });
+  });
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+
+  storage.ensureAdmin()
+    .then((user) => {
+      if (user) console.log(`Promoted ${user.username} to administrator: no account held the role`);
+    })
+    .catch((error) => console.error('Failed to check for an administrator:', error));
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const data = insertUserSchema.parse(req.body);
+      const account = { ...data, password: await hashPassword(data.password) };
+
+      // Whoever sets the app up administers it and takes over conversations,
+      // tasks and the rest from before accounts existed
+      let user = (await storage.countUsers()) === 0 ? await storage.createFirstUser(account) : undefined;
+      if (!user) {
+        if (!canRegister(req)) {
+          return res.status(403).json({ error: "Registration is closed; ask an administrator to create your account" });
+        }
+        if (await storage.getUserByUsername(data.username)) {
+          return res.status(400).json({ error: "Username already exists" });
+        }
+
+        // User managers may pick the role of accounts they create, everyone
+        // else starts as staff
+        let role: UserRole | undefined;
+        if (req.isAuthenticated() && hasPermission(req.user.role, "users:manage") && req.body.role !== undefined) {
+          role = updateUserRoleSchema.parse(req.body).role;
+        }
+        user = await storage.createUser(account, role);
+      }
+
+      // An existing user adding a colleague stays signed in as themselves
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toPublicUser(user));
+      }
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: any, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // Passport regenerates the session id on login, preventing fixation
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Every API route registered after this point requires a signed-in user
+  app.use("/api", requireAuth);
+}
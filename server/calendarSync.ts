@@ -0,0 +1,288 @@
+import type { Task, TaskCalendarLink } from "@shared/schema";
+import { storage } from "./storage";
+import { GoogleCalendarService, type CalendarEvent, type CreateEventOptions } from "./googleCalendar";
+import { dateInZone, formatInZone, getUserTimeZone, isMidnightInZone, parseInZone, startOfDayInZone } from "./timeZone";
+
+// How often linked events are checked for changes made on the calendar
+const SYNC_INTERVAL_MS = 5 * 60_000;
+
+// Tasks only have a due time, so their events get this length
+const TASK_EVENT_MINUTES = 30;
+
+const DAY_MS = 86_400_000;
+
+// Allowance for the difference between our clock and Google's when asking
+// for events changed since the last check
+const CLOCK_SKEW_MS = 60_000;
+
+// A link that cannot be made, reported back as a 400
+export class CalendarSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarSyncError";
+    Object.setPrototypeOf(this, CalendarSyncError.prototype);
+  }
+}
+
+const calendar = new GoogleCalendarService();
+
+// Set after each successful check so the next one only fetches newer changes
+let lastCheckedAt: Date | undefined;
+
+function isGone(error: any): boolean {
+  const status = error?.code ?? error?.response?.status;
+  return status === 404 || status === 410;
+}
+
+function updatedAt(event: CalendarEvent): Date {
+  return event.updated ? new Date(event.updated) : new Date();
+}
+
+// Task times are read in their owner's zone
+async function taskTimeZone(task: Task): Promise<string> {
+  return task.userId
+    ? await getUserTimeZone(task.userId)
+    : (await storage.getWorkspaceSettings()).organizationTimeZone;
+}
+
+// A task due at midnight is due on a day, so its event is an all-day one.
+// The event keeps its length when the task's due date moves.
+function eventTimes(
+  dueDate: Date,
+  timeZone: string,
+  current?: CalendarEvent,
+): Pick<CreateEventOptions, "start" | "end" | "allDay" | "timeZone"> {
+  if (isMidnightInZone(dueDate, timeZone)) {
+    const days = current?.allDay ? Math.round((Date.parse(current.end) - Date.parse(current.start)) / DAY_MS) : 0;
+    return {
+      start: dateInZone(dueDate, timeZone),
+      end: dateInZone(startOfDayInZone(dueDate, timeZone, days), timeZone),
+      allDay: true,
+    };
+  }
+  const length = current && !current.allDay
+    ? Date.parse(current.end) - Date.parse(current.start)
+    : TASK_EVENT_MINUTES * 60_000;
+  return {
+    start: formatInZone(dueDate, timeZone),
+    end: formatInZone(new Date(dueDate.getTime() + length), timeZone),
+    allDay: false,
+    timeZone,
+  };
+}
+
+async function deleteEvent(eventId: string): Promise<void> {
+  try {
+    await calendar.deleteEvent(eventId);
+  } catch (error) {
+    if (!isGone(error)) throw error;
+  }
+}
+
+async function recordFailure(link: TaskCalendarLink, error: any): Promise<void> {
+  console.error(`Failed to sync task ${link.taskId} with calendar event ${link.eventId}:`, error);
+  await storage.updateTaskCalendarLink(link.id, { lastError: error?.message ?? String(error) });
+}
+
+// Carries the task's title, description and due date over to its event.
+// A task without a due date has no place on the calendar, so its event goes.
+async function pushTask(link: TaskCalendarLink, task: Task): Promise<void> {
+  if (!task.dueDate) {
+    await deleteEvent(link.eventId);
+    await storage.deleteTaskCalendarLink(link.id);
+    return;
+  }
+  try {
+    const current = await calendar.getEvent(link.eventId);
+    const event = await calendar.updateEvent(link.eventId, {
+      summary: task.title,
+      description: task.description ?? "",
+      ...eventTimes(task.dueDate, await taskTimeZone(task), current ?? undefined),
+    });
+    await storage.updateTaskCalendarLink(link.id, {
+      eventUpdatedAt: updatedAt(event),
+      taskUpdatedAt: task.updatedAt,
+      lastError: null,
+      syncedAt: new Date(),
+    });
+  } catch (error) {
+    if (!isGone(error)) throw error;
+    await storage.deleteTaskCalendarLink(link.id);
+  }
+}
+
+// Carries the event's title, description and start over to its task. An
+// all-day event makes the task due at the start of its first day.
+async function pullEvent(link: TaskCalendarLink, task: Task, event: CalendarEvent): Promise<Task | undefined> {
+  const pulled = task.userId
+    ? await storage.updateTask(task.userId, task.id, {
+        title: event.summary,
+        description: event.description ?? null,
+        ...(event.start ? { dueDate: parseInZone(event.start, await taskTimeZone(task)) } : {}),
+      })
+    : undefined;
+  await storage.updateTaskCalendarLink(link.id, {
+    eventUpdatedAt: updatedAt(event),
+    taskUpdatedAt: pulled?.updatedAt ?? task.updatedAt,
+    lastError: null,
+    syncedAt: new Date(),
+  });
+  return pulled;
+}
+
+// Puts a task with a due date on the calendar, or returns its existing link
+export async function linkTaskToCalendar(task: Task): Promise<TaskCalendarLink> {
+  const existing = await storage.getTaskCalendarLink(task.id);
+  if (existing) {
+    return existing;
+  }
+  if (!task.dueDate) {
+    throw new CalendarSyncError("Only tasks with a due date can be added to the calendar");
+  }
+  const event = await calendar.createEvent({
+    summary: task.title,
+    description: task.description ?? undefined,
+    ...eventTimes(task.dueDate, await taskTimeZone(task)),
+  });
+  return await storage.createTaskCalendarLink({
+    taskId: task.id,
+    eventId: event.id,
+    eventUpdatedAt: updatedAt(event),
+    taskUpdatedAt: task.updatedAt,
+  });
+}
+
+// Takes a task off the calendar, deleting its event
+export async function unlinkTaskFromCalendar(link: TaskCalendarLink): Promise<void> {
+  await deleteEvent(link.eventId);
+  await storage.deleteTaskCalendarLink(link.id);
+}
+
+// Creates a task for a calendar event (e.g. to follow up on a meeting),
+// linked to it from the start
+export async function createTaskFromEvent(userId: string, eventId: string): Promise<Task> {
+  if (await storage.getTaskCalendarLinkByEvent(eventId)) {
+    throw new CalendarSyncError("The event is already linked to a task");
+  }
+  const event = await calendar.getEvent(eventId);
+  if (!event) {
+    throw new CalendarSyncError("Event not found");
+  }
+  const task = await storage.createTask(userId, {
+    title: event.summary,
+    description: event.description ?? null,
+    dueDate: event.start ? parseInZone(event.start, await getUserTimeZone(userId)) : null,
+  });
+  await storage.createTaskCalendarLink({
+    taskId: task.id,
+    eventId: event.id,
+    eventUpdatedAt: updatedAt(event),
+    taskUpdatedAt: task.updatedAt,
+  });
+  return task;
+}
+
+// Sends a change made to a task to its event straight away. Failures are
+// kept on the link and the next background sync tries again.
+export async function pushTaskToCalendar(task: Task): Promise<void> {
+  const link = await storage.getTaskCalendarLink(task.id);
+  if (!link || task.updatedAt <= link.taskUpdatedAt) {
+    return;
+  }
+  try {
+    await pushTask(link, task);
+  } catch (error) {
+    await recordFailure(link, error);
+  }
+}
+
+// A new occurrence of a recurring task goes on the calendar when the one it
+// follows was there
+export async function carryCalendarLink(previous: Task, next: Task): Promise<void> {
+  try {
+    if (await storage.getTaskCalendarLink(previous.id)) {
+      await linkTaskToCalendar(next);
+    }
+  } catch (error) {
+    console.error(`Failed to add task ${next.id} to the calendar:`, error);
+  }
+}
+
+// Removes the events of deleted tasks
+export async function releaseDeletedTasks(): Promise<void> {
+  for (const { link, task } of await storage.getAllTaskCalendarLinks()) {
+    if (task) continue;
+    try {
+      await unlinkTaskFromCalendar(link);
+    } catch (error) {
+      await recordFailure(link, error);
+    }
+  }
+}
+
+// Brings every link up to date and returns the tasks changed from the
+// calendar. When both sides changed since the last sync the more recent
+// change wins. A deleted task takes its event with it; a deleted event only
+// unlinks its task.
+export async function reconcileCalendarLinks(now = new Date()): Promise<Task[]> {
+  const links = await storage.getAllTaskCalendarLinks();
+  if (links.length === 0) {
+    lastCheckedAt = now;
+    return [];
+  }
+
+  const since = lastCheckedAt ?? new Date(Math.min(...links.map(({ link }) => link.syncedAt.getTime())));
+  const changed = new Map(
+    (await calendar.listChangedEvents(new Date(since.getTime() - CLOCK_SKEW_MS).toISOString()))
+      .map((event) => [event.id, event]),
+  );
+  lastCheckedAt = now;
+
+  const pulled: Task[] = [];
+  for (const { link, task } of links) {
+    const event = changed.get(link.eventId);
+    try {
+      if (!task) {
+        await unlinkTaskFromCalendar(link);
+      } else if (event?.cancelled) {
+        await storage.deleteTaskCalendarLink(link.id);
+      } else {
+        const eventChanged = event !== undefined && updatedAt(event) > link.eventUpdatedAt;
+        const taskChanged = task.updatedAt > link.taskUpdatedAt;
+        if (eventChanged && (!taskChanged || updatedAt(event) >= task.updatedAt)) {
+          const updated = await pullEvent(link, task, event);
+          if (updated) pulled.push(updated);
+        } else if (taskChanged) {
+          await pushTask(link, task);
+        }
+      }
+    } catch (error) {
+      await recordFailure(link, error);
+    }
+  }
+  return pulled;
+}
+
+// Runs in the background for the life of the server, picking up changes
+// made on the calendar. Task changes are sent as they happen (see the task
+// routes) and retried here when that failed.
+export function startCalendarSync(onTaskUpdated: (task: Task) => void): void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const task of await reconcileCalendarLinks()) {
+        onTaskUpdated(task);
+      }
+    } catch (error) {
+      console.error("Calendar sync failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(tick, SYNC_INTERVAL_MS).unref();
+  void tick();
+}
@@ -0,0 +1,114 @@
+import type { Conversation, Message } from "@shared/schema";
+import { storage } from "./storage";
+import { completeChat } from "./ai";
+import { countMessageTokens, countTokens } from "./tokens";
+
+// After summarizing, recent turns are kept verbatim up to this share of the
+// budget so the next few turns fit without summarizing again
+const RECENT_SHARE = 0.6;
+// The summary itself may take up to this share of the budget
+const SUMMARY_SHARE = 0.2;
+// Always kept verbatim, however long they are
+const MIN_RECENT_MESSAGES = 4;
+
+export interface ConversationContext {
+  // Summary of the turns that are not sent verbatim
+  summary: string | null;
+  // The turns sent to the model as they are
+  messages: Message[];
+  // Set when the summary was rolled forward for this turn
+  summaryUpdated: Conversation | null;
+}
+
+function unsummarizedMessages(conversation: Conversation, messages: Message[]): Message[] {
+  const until = conversation.summarizedUntil;
+  return until ? messages.filter((message) => message.createdAt > until) : messages;
+}
+
+// Newest turns that fit in the given number of tokens, oldest first
+function selectRecentMessages(messages: Message[], maxTokens: number): Message[] {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const tokens = countMessageTokens(messages[start - 1]);
+    if (messages.length - start >= MIN_RECENT_MESSAGES && used + tokens > maxTokens) {
+      break;
+    }
+    used += tokens;
+    start--;
+  }
+  return messages.slice(start);
+}
+
+async function summarizeTurns(
+  userId: string | null,
+  previousSummary: string | null,
+  turns: Message[],
+  maxTokens: number,
+): Promise<string> {
+  const transcript = turns
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n\n");
+
+  const response = await completeChat([
+    {
+      role: "system",
+      content: `You keep a running summary of a long conversation between a user and a business assistant, so the assistant can continue it without the full transcript.
+
+Merge the previous summary and the new turns into one updated summary. Keep names, figures, dates, decisions, commitments, open questions and pending tasks; drop pleasantries and repetition. Write in the language the conversation is mostly in, as compact prose or bullet points, in at most ${Math.floor(maxTokens * 0.75)} words.`,
+    },
+    {
+      role: "user",
+      content: `Previous summary:\n${previousSummary || "(none)"}\n\nNew turns:\n${transcript}`,
+    },
+  ], { userId, maxTokens: 8192 });
+
+  const summary = response.trim();
+  if (!summary) {
+    throw new Error("Summarization returned no content");
+  }
+  return summary;
+}
+
+// Fits the conversation into the token budget. While it fits, the stored
+// summary (if any) and every later turn are sent as they are. Once it does
+// not, the oldest unsummarized turns are folded into the stored summary and
+// only the most recent ones are kept verbatim. If summarizing fails the
+// oldest turns are dropped for this request instead.
+export async function prepareConversationContext(
+  conversation: Conversation,
+  messages: Message[],
+  tokenBudget: number,
+): Promise<ConversationContext> {
+  const pending = unsummarizedMessages(conversation, messages);
+  const summaryTokens = conversation.summary ? countTokens(conversation.summary) : 0;
+  const pendingTokens = pending.reduce((total, message) => total + countMessageTokens(message), 0);
+
+  if (summaryTokens + pendingTokens <= tokenBudget) {
+    return { summary: conversation.summary, messages: pending, summaryUpdated: null };
+  }
+
+  const recent = selectRecentMessages(pending, tokenBudget * RECENT_SHARE);
+  const folded = pending.slice(0, pending.length - recent.length);
+  if (folded.length === 0) {
+    return { summary: conversation.summary, messages: recent, summaryUpdated: null };
+  }
+
+  try {
+    const summary = await summarizeTurns(
+      conversation.userId,
+      conversation.summary,
+      folded,
+      Math.floor(tokenBudget * SUMMARY_SHARE),
+    );
+    const updated = await storage.updateConversationSummary(
+      conversation.id,
+      summary,
+      folded[folded.length - 1].createdAt,
+    );
+    return { summary, messages: recent, summaryUpdated: updated ?? null };
+  } catch (error) {
+    console.error("Conversation summarization error:", error);
+    return { summary: conversation.summary, messages: recent, summaryUpdated: null };
+  }
+}
@@ -0,0 +1,167 @@
+import path from "path";
+import mammoth from "mammoth";
+import * as XLSX from "xlsx";
+import { PDFParse } from "pdf-parse";
+import type { StoredObject } from "./objectBackends";
+
+// Extracted text kept per document; callers cut it further to fit prompts
+const MAX_EXTRACTED_CHARS = 200_000;
+
+const PDF_TYPE = "application/pdf";
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const HTML_TYPE = "text/html";
+const MARKDOWN_TYPE = "text/markdown";
+const SPREADSHEET_TYPES = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+];
+const PLAIN_TEXT_TYPES = ["application/json", "application/xml", "application/csv"];
+
+// Browsers often upload with an empty or generic type
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  ".pdf": PDF_TYPE,
+  ".docx": DOCX_TYPE,
+  ".xlsx": SPREADSHEET_TYPES[0],
+  ".xls": SPREADSHEET_TYPES[1],
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".md": MARKDOWN_TYPE,
+  ".markdown": MARKDOWN_TYPE,
+  ".html": HTML_TYPE,
+  ".htm": HTML_TYPE,
+  ".json": "application/json",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+export function resolveContentType(storedType: string | undefined, name: string): string {
+  const type = storedType?.split(";")[0].trim().toLowerCase();
+  if (type && type !== "application/octet-stream") {
+    return type;
+  }
+  return TYPES_BY_EXTENSION[path.extname(name).toLowerCase()] ?? "application/octet-stream";
+}
+
+export function isExtractable(contentType: string): boolean {
+  return contentType.startsWith("text/")
+    || contentType === PDF_TYPE
+    || contentType === DOCX_TYPE
+    || SPREADSHEET_TYPES.includes(contentType)
+    || PLAIN_TEXT_TYPES.includes(contentType);
+}
+
+export async function readObject(file: StoredObject): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of file.createReadStream()) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+};
+
+// Readable text from an HTML page: scripts and styles are dropped, block
+// elements become line breaks and list items keep a bullet
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<(br|hr)[^>]*>/gi, "\n")
+    .replace(/<\/(p|div|section|article|h[1-6]|li|tr|table|ul|ol|blockquote|pre)>/gi, "\n\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith("#x") || code.startsWith("#X")) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith("#")) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+const ARABIC_PATTERN = /[\u0600-\u06FF]/;
+const NON_ARABIC_RUN_PATTERN = /[^\u0600-\u06FF\s]+/g;
+// Arabic presentation forms A and B: the shaped glyphs some PDFs and older
+// Word files contain instead of ordinary letters
+const PRESENTATION_FORMS_PATTERN = /[\uFB50-\uFDFF\uFE70-\uFEFE]+/g;
+
+// Some PDFs store Arabic in visual order, so each extracted line reads
+// backwards ("ةكرشلا" for "الشركة"). The definite article gives it away:
+// reversed text has far more words ending in "لا" than starting with "ال".
+function looksVisuallyOrdered(text: string): boolean {
+  const words = text.split(/\s+/).filter((word) => word.length >= 4 && ARABIC_PATTERN.test(word));
+  const forward = words.filter((word) => word.startsWith("ال")).length;
+  const reversed = words.filter((word) => word.endsWith("لا")).length;
+  return reversed >= 3 && reversed > forward * 2;
+}
+
+// Reverses each line that contains Arabic, then flips embedded Latin words
+// and numbers back so only the Arabic is reordered
+function restoreLogicalOrder(text: string): string {
+  return text.split("\n").map((line) => {
+    if (!ARABIC_PATTERN.test(line)) {
+      return line;
+    }
+    const reversed = Array.from(line).reverse().join("");
+    return reversed.replace(NON_ARABIC_RUN_PATTERN, (run) => Array.from(run).reverse().join(""));
+  }).join("\n");
+}
+
+function unshapeArabic(text: string): string {
+  return text.replace(PRESENTATION_FORMS_PATTERN, (run) => run.normalize("NFKC"));
+}
+
+// Shaped glyphs become ordinary letters so the text can be searched and
+// embedded. Reordering happens before unshaping so that ligatures such as
+// lam-alef, a single glyph, keep their letters in the right order.
+function normalizeArabic(text: string): string {
+  const unshaped = unshapeArabic(text);
+  return looksVisuallyOrdered(unshaped) ? unshapeArabic(restoreLogicalOrder(text)) : unshaped;
+}
+
+function cleanText(text: string): string {
+  const cleaned = normalizeArabic(text.replace(/\u0000/g, ""))
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return cleaned.length > MAX_EXTRACTED_CHARS ? cleaned.slice(0, MAX_EXTRACTED_CHARS) : cleaned;
+}
+
+// Plain text of a PDF, Word, spreadsheet, HTML or text document
+export async function extractDocumentText(buffer: Buffer, contentType: string): Promise<string> {
+  if (contentType === PDF_TYPE) {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+      return cleanText((await parser.getText()).text);
+    } finally {
+      await parser.destroy();
+    }
+  }
+  if (contentType === DOCX_TYPE) {
+    return cleanText((await mammoth.extractRawText({ buffer })).value);
+  }
+  if (SPREADSHEET_TYPES.includes(contentType)) {
+    // One CSV block per sheet, headed by the sheet name
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+    return cleanText(workbook.SheetNames
+      .map((sheetName) => `## ${sheetName}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { blankrows: false })}`)
+      .join("\n\n"));
+  }
+  if (contentType === HTML_TYPE) {
+    return cleanText(htmlToText(buffer.toString("utf8")));
+  }
+  return cleanText(buffer.toString("utf8"));
+}
@@ -1,4 +1,5 @@
-import { google } from 'googleapis';
+import { google, type calendar_v3 } from 'googleapis';
+import { isDateOnly, parseInZone, startOfDayInZone, toZonedISOString } from './timeZone';
 
 let connectionSettings: any;
 
@@ -47,58 +48,217 @@ async function getUncachableGoogleCalendarClient() {
   return google.calendar({ version: 'v3', auth: oauth2Client });
 }
 
+// A request the calendar cannot carry out as given, reported back as a 400
+export class CalendarEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarEventError';
+    Object.setPrototypeOf(this, CalendarEventError.prototype);
+  }
+}
+
+export interface CalendarInfo {
+  id: string;
+  summary: string;
+  description?: string;
+  primary: boolean;
+  // owner, writer, reader or freeBusyReader
+  accessRole: string;
+  backgroundColor?: string;
+  timeZone?: string;
+}
+
+export type AttendeeResponse = 'needsAction' | 'declined' | 'tentative' | 'accepted';
+
+export interface CalendarAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus: AttendeeResponse;
+  organizer: boolean;
+  optional: boolean;
+  // The connected account
+  self: boolean;
+}
+
+// Whether a change to an occurrence of a recurring event applies to it
+// alone or to every occurrence
+export type EventEditScope = 'occurrence' | 'series';
+
 export interface CalendarEvent {
   id: string;
+  calendarId: string;
   summary: string;
   description?: string;
+  // Date-times with their offset; for all-day events the first and last day
+  // (YYYY-MM-DD), both inclusive
   start: string;
   end: string;
+  allDay: boolean;
+  // The zone the event was created in, when it has one
+  timeZone?: string;
   location?: string;
-  attendees?: string[];
+  attendees?: CalendarAttendee[];
+  organizer?: { email: string; displayName?: string; self: boolean };
+  // RRULE, EXRULE, RDATE and EXDATE lines of a recurring series
+  recurrence?: string[];
+  // Set on an occurrence of a recurring event: the series it belongs to and
+  // when it was scheduled before any change made to it alone
+  recurringEventId?: string;
+  originalStart?: string;
   htmlLink?: string;
+  // When the event was last changed
+  updated?: string;
+}
+
+// Moves a YYYY-MM-DD date by whole days
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function toCalendarEvent(event: calendar_v3.Schema$Event, calendarId: string): CalendarEvent {
+  const allDay = !event.start?.dateTime && !!event.start?.date;
+  return {
+    id: event.id!,
+    calendarId,
+    summary: event.summary || 'Untitled Event',
+    description: event.description || undefined,
+    start: event.start?.dateTime || event.start?.date || '',
+    // Google's all-day end is the day after the event
+    end: allDay && event.end?.date ? addDays(event.end.date, -1) : event.end?.dateTime || event.end?.date || '',
+    allDay,
+    timeZone: event.start?.timeZone || undefined,
+    location: event.location || undefined,
+    attendees: event.attendees?.filter(a => a.email).map(a => ({
+      email: a.email!,
+      displayName: a.displayName || undefined,
+      responseStatus: (a.responseStatus || 'needsAction') as AttendeeResponse,
+      organizer: !!a.organizer,
+      optional: !!a.optional,
+      self: !!a.self,
+    })),
+    organizer: event.organizer?.email
+      ? { email: event.organizer.email, displayName: event.organizer.displayName || undefined, self: !!event.organizer.self }
+      : undefined,
+    recurrence: event.recurrence || undefined,
+    recurringEventId: event.recurringEventId || undefined,
+    originalStart: event.originalStartTime?.dateTime || event.originalStartTime?.date || undefined,
+    htmlLink: event.htmlLink || undefined,
+    updated: event.updated || undefined,
+  };
 }
 
 export interface CreateEventOptions {
   summary: string;
   description?: string;
+  // ISO 8601. A date-time without an offset is wall-clock time in the
+  // event's zone. All-day events take dates, the end day included.
   start: string;
   end: string;
+  // Defaults to whether start is a bare date
+  allDay?: boolean;
+  // Defaults to the service's zone
+  timeZone?: string;
   location?: string;
   attendees?: string[];
+  // Email the attendees an invitation
+  notifyAttendees?: boolean;
+  // Makes the event recurring: RRULE lines (a bare "FREQ=WEEKLY;BYDAY=SU"
+  // is taken as one) and optionally EXRULE, RDATE and EXDATE lines. Setting
+  // it on an occurrence changes its series.
+  recurrence?: string[];
+}
+
+const RECURRENCE_LINE = /^(RRULE|EXRULE|RDATE|EXDATE)[:;]/i;
+
+function normalizeRecurrence(lines: string[]): string[] {
+  const normalized = lines.map(line => line.trim()).filter(Boolean).map(line => (/^FREQ=/i.test(line) ? `RRULE:${line}` : line));
+  const invalid = normalized.find(line => !RECURRENCE_LINE.test(line));
+  if (invalid) {
+    throw new CalendarEventError(`Not a recurrence rule: ${invalid}`);
+  }
+  if (normalized.length > 0 && !normalized.some(line => /^RRULE:/i.test(line) || /^RDATE[:;]/i.test(line))) {
+    throw new CalendarEventError('A recurring event needs an RRULE or RDATE line');
+  }
+  return normalized;
+}
+
+export interface BusyPeriod {
+  start: string;
+  end: string;
+}
+
+export interface FreeBusy {
+  busy: BusyPeriod[];
+  // Set when the calendar could not be read, e.g. it is not shared with us
+  error?: string;
 }
 
 export class GoogleCalendarService {
+  // Event times are read in and listed in this zone, and events are read from
+  // and written to this calendar
+  constructor(
+    private readonly timeZone: string = 'UTC',
+    private readonly calendarId: string = 'primary',
+  ) {}
+
+  // Every calendar the connected account has in its list
+  async listCalendars(): Promise<CalendarInfo[]> {
+    const calendar = await getUncachableGoogleCalendarClient();
+    const calendars: CalendarInfo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await calendar.calendarList.list({ maxResults: 250, pageToken });
+      for (const entry of response.data.items || []) {
+        calendars.push({
+          id: entry.id!,
+          summary: entry.summaryOverride || entry.summary || entry.id!,
+          description: entry.description || undefined,
+          primary: !!entry.primary,
+          accessRole: entry.accessRole || 'reader',
+          backgroundColor: entry.backgroundColor || undefined,
+          timeZone: entry.timeZone || undefined,
+        });
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return calendars;
+  }
+
+  private eventTime(value: string, allDay: boolean, timeZone: string | undefined, isEnd = false): calendar_v3.Schema$EventDateTime {
+    if (allDay) {
+      const date = value.slice(0, 10);
+      return { date: isEnd ? addDays(date, 1) : date };
+    }
+    return { dateTime: value, timeZone: timeZone || this.timeZone };
+  }
+
   async listEvents(maxResults: number = 20, timeMin?: string): Promise<CalendarEvent[]> {
     const calendar = await getUncachableGoogleCalendarClient();
     
     const response = await calendar.events.list({
-      calendarId: 'primary',
+      calendarId: this.calendarId,
       maxResults,
       timeMin: timeMin || new Date().toISOString(),
+      timeZone: this.timeZone,
       singleEvents: true,
       orderBy: 'startTime',
     });
 
     const events = response.data.items || [];
     
-    return events.map(event => ({
-      id: event.id!,
-      summary: event.summary || 'Untitled Event',
-      description: event.description || undefined,
-      start: event.start?.dateTime || event.start?.date || '',
-      end: event.end?.dateTime || event.end?.date || '',
-      location: event.location || undefined,
-      attendees: event.attendees?.map(a => a.email!).filter(Boolean),
-      htmlLink: event.htmlLink || undefined,
-    }));
+    return events.map(event => toCalendarEvent(event, this.calendarId));
   }
 
   async getEvent(eventId: string): Promise<CalendarEvent | null> {
     const calendar = await getUncachableGoogleCalendarClient();
     
     const response = await calendar.events.get({
-      calendarId: 'primary',
+      calendarId: this.calendarId,
       eventId,
+      timeZone: this.timeZone,
     });
 
     if (!response.data) {
@@ -106,116 +266,176 @@ export class GoogleCalendarService {
     }
 
     const event = response.data;
-    return {
-      id: event.id!,
-      summary: event.summary || 'Untitled Event',
-      description: event.description || undefined,
-      start: event.start?.dateTime || event.start?.date || '',
-      end: event.end?.dateTime || event.end?.date || '',
-      location: event.location || undefined,
-      attendees: event.attendees?.map(a => a.email!).filter(Boolean),
-      htmlLink: event.htmlLink || undefined,
-    };
+    return toCalendarEvent(event, this.calendarId);
   }
 
   async createEvent(options: CreateEventOptions): Promise<CalendarEvent> {
     const calendar = await getUncachableGoogleCalendarClient();
+    const allDay = options.allDay ?? isDateOnly(options.start);
     
     const response = await calendar.events.insert({
-      calendarId: 'primary',
+      calendarId: this.calendarId,
+      sendUpdates: options.notifyAttendees ? 'all' : undefined,
       requestBody: {
         summary: options.summary,
         description: options.description,
-        start: {
-          dateTime: options.start,
-          timeZone: 'UTC',
-        },
-        end: {
-          dateTime: options.end,
-          timeZone: 'UTC',
-        },
+        start: this.eventTime(options.start, allDay, options.timeZone),
+        end: this.eventTime(options.end, allDay, options.timeZone, true),
         location: options.location,
         attendees: options.attendees?.map(email => ({ email })),
+        recurrence: options.recurrence ? normalizeRecurrence(options.recurrence) : undefined,
       },
     });
 
     const event = response.data;
-    return {
-      id: event.id!,
-      summary: event.summary || 'Untitled Event',
-      description: event.description || undefined,
-      start: event.start?.dateTime || event.start?.date || '',
-      end: event.end?.dateTime || event.end?.date || '',
-      location: event.location || undefined,
-      attendees: event.attendees?.map(a => a.email!).filter(Boolean),
-      htmlLink: event.htmlLink || undefined,
-    };
-  }
-
-  async updateEvent(eventId: string, options: Partial<CreateEventOptions>): Promise<CalendarEvent> {
+    return toCalendarEvent(event, this.calendarId);
+  }
+
+  // Moves a start or end given for an occurrence onto its series: the series
+  // keeps its own first date and moves by as much as the occurrence did
+  private shiftToSeries(value: string, allDay: boolean, occurrence: string, series: string, timeZone?: string): string {
+    if (allDay) {
+      const days = Math.round((Date.parse(value.slice(0, 10)) - Date.parse(occurrence.slice(0, 10))) / 86_400_000);
+      return addDays(series.slice(0, 10), days);
+    }
+    const zone = timeZone || this.timeZone;
+    const delta = parseInZone(value, zone).getTime() - Date.parse(occurrence);
+    return toZonedISOString(new Date(Date.parse(series) + delta), zone);
+  }
+
+  // Changes to an occurrence of a recurring event apply to it alone unless
+  // scope is 'series'; a new recurrence always applies to the series.
+  // Attendees who stay keep their responses.
+  async updateEvent(eventId: string, options: Partial<CreateEventOptions>, scope: EventEditScope = 'occurrence'): Promise<CalendarEvent> {
     const calendar = await getUncachableGoogleCalendarClient();
+    const toSeries = scope === 'series' || options.recurrence !== undefined;
+    let current = toSeries || options.attendees ? await this.getEvent(eventId) : null;
+    let target = eventId;
+    let { start, end } = options;
+
+    if (toSeries && current?.recurringEventId) {
+      const series = await this.getEvent(current.recurringEventId);
+      if (!series) {
+        throw new CalendarEventError('The series of this occurrence no longer exists');
+      }
+      if (start) start = this.shiftToSeries(start, options.allDay ?? isDateOnly(start), current.start, series.start, options.timeZone);
+      if (end) end = this.shiftToSeries(end, options.allDay ?? isDateOnly(end), current.end, series.end, options.timeZone);
+      target = series.id;
+      current = series;
+    }
     
     const updateBody: any = {};
     if (options.summary) updateBody.summary = options.summary;
-    if (options.description) updateBody.description = options.description;
-    if (options.start) updateBody.start = { dateTime: options.start, timeZone: 'UTC' };
-    if (options.end) updateBody.end = { dateTime: options.end, timeZone: 'UTC' };
+    if (options.description !== undefined) updateBody.description = options.description;
+    if (start) updateBody.start = this.eventTime(start, options.allDay ?? isDateOnly(start), options.timeZone);
+    if (end) updateBody.end = this.eventTime(end, options.allDay ?? isDateOnly(end), options.timeZone, true);
     if (options.location) updateBody.location = options.location;
-    if (options.attendees) updateBody.attendees = options.attendees.map(email => ({ email }));
+    if (options.attendees) {
+      const existing = new Map((current?.attendees ?? []).map(attendee => [attendee.email.toLowerCase(), attendee]));
+      updateBody.attendees = options.attendees.map(email => {
+        const attendee = existing.get(email.toLowerCase());
+        return attendee
+          ? { email: attendee.email, displayName: attendee.displayName, responseStatus: attendee.responseStatus, optional: attendee.optional }
+          : { email };
+      });
+    }
+    if (options.recurrence !== undefined) updateBody.recurrence = normalizeRecurrence(options.recurrence);
 
     const response = await calendar.events.patch({
-      calendarId: 'primary',
-      eventId,
+      calendarId: this.calendarId,
+      eventId: target,
+      sendUpdates: options.notifyAttendees ? 'all' : undefined,
       requestBody: updateBody,
     });
 
     const event = response.data;
-    return {
-      id: event.id!,
-      summary: event.summary || 'Untitled Event',
-      description: event.description || undefined,
-      start: event.start?.dateTime || event.start?.date || '',
-      end: event.end?.dateTime || event.end?.date || '',
-      location: event.location || undefined,
-      attendees: event.attendees?.map(a => a.email!).filter(Boolean),
-      htmlLink: event.htmlLink || undefined,
-    };
-  }
-
-  async deleteEvent(eventId: string): Promise<void> {
+    return toCalendarEvent(event, this.calendarId);
+  }
+
+  // Deleting an occurrence of a recurring event cancels it alone unless
+  // scope is 'series'. Returns the id of the event actually deleted, which
+  // for a series is its recurring master.
+  async deleteEvent(eventId: string, scope: EventEditScope = 'occurrence'): Promise<string> {
     const calendar = await getUncachableGoogleCalendarClient();
+    const target = scope === 'series' ? (await this.getEvent(eventId))?.recurringEventId ?? eventId : eventId;
     
     await calendar.events.delete({
-      calendarId: 'primary',
-      eventId,
+      calendarId: this.calendarId,
+      eventId: target,
     });
+    return target;
   }
 
+  // From now until the end of the last of the next `days` days, days running
+  // from midnight to midnight in the calendar's time zone
   async getUpcomingEvents(days: number = 7): Promise<CalendarEvent[]> {
-    const timeMin = new Date().toISOString();
-    const timeMax = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    const now = new Date();
+    const timeMin = now.toISOString();
+    const timeMax = startOfDayInZone(now, this.timeZone, days + 1).toISOString();
 
     const calendar = await getUncachableGoogleCalendarClient();
     
     const response = await calendar.events.list({
-      calendarId: 'primary',
+      calendarId: this.calendarId,
       timeMin,
       timeMax,
+      timeZone: this.timeZone,
       singleEvents: true,
       orderBy: 'startTime',
     });
 
     const events = response.data.items || [];
     
-    return events.map(event => ({
-      id: event.id!,
-      summary: event.summary || 'Untitled Event',
-      description: event.description || undefined,
-      start: event.start?.dateTime || event.start?.date || '',
-      end: event.end?.dateTime || event.end?.date || '',
-      location: event.location || undefined,
-      attendees: event.attendees?.map(a => a.email!).filter(Boolean),
-      htmlLink: event.htmlLink || undefined,
-    }));
+    return events.map(event => toCalendarEvent(event, this.calendarId));
+  }
+
+  // The busy periods of calendars between two instants: "primary" for the
+  // connected calendar, email addresses for other people's
+  async queryFreeBusy(calendarIds: string[], timeMin: string, timeMax: string): Promise<Record<string, FreeBusy>> {
+    const calendar = await getUncachableGoogleCalendarClient();
+
+    const response = await calendar.freebusy.query({
+      requestBody: {
+        timeMin,
+        timeMax,
+        timeZone: this.timeZone,
+        items: calendarIds.map(id => ({ id })),
+      },
+    });
+
+    const result: Record<string, FreeBusy> = {};
+    for (const id of calendarIds) {
+      const entry = response.data.calendars?.[id];
+      result[id] = {
+        busy: (entry?.busy || []).map(period => ({ start: period.start!, end: period.end! })),
+        error: entry ? entry.errors?.[0]?.reason || undefined : 'notFound',
+      };
+    }
+    return result;
+  }
+
+  // Events changed since the given time, including ones that were deleted
+  // (marked cancelled), for keeping linked tasks in step
+  async listChangedEvents(updatedMin: string): Promise<(CalendarEvent & { cancelled: boolean })[]> {
+    const calendar = await getUncachableGoogleCalendarClient();
+    const changed: (CalendarEvent & { cancelled: boolean })[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await calendar.events.list({
+        calendarId: this.calendarId,
+        updatedMin,
+        timeZone: this.timeZone,
+        showDeleted: true,
+        maxResults: 250,
+        pageToken,
+      });
+      for (const event of response.data.items || []) {
+        changed.push({ ...toCalendarEvent(event, this.calendarId), cancelled: event.status === 'cancelled' });
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return changed;
   }
 }
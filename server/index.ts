@@ -1,5 +1,6 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express, { type Request, Response, NextFunction, RequestHandler } from "express";
 import { registerRoutes } from "./routes";
+import { LOCAL_UPLOAD_ROUTE_PREFIX } from "./objectBackends";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -9,12 +10,18 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
+
+// Uploads to the local-disk backend are streamed to disk by their own route,
+// whatever their content type, so the body parsers leave them alone
+const skipLocalUploads = (parser: RequestHandler): RequestHandler => (req, res, next) =>
+  req.path.startsWith(`${LOCAL_UPLOAD_ROUTE_PREFIX}/`) ? next() : parser(req, res, next);
+
+app.use(skipLocalUploads(express.json({
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
-}));
-app.use(express.urlencoded({ extended: false }));
+})));
+app.use(skipLocalUploads(express.urlencoded({ extended: false })));
 
 app.use((req, res, next) => {
   const start = Date.now();
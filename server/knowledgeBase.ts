@@ -0,0 +1,185 @@
+import type { BusinessProcess, KnowledgeChunk } from "@shared/schema";
+import { storage } from "./storage";
+import { createEmbeddings } from "./ai";
+
+const CHUNK_MAX_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const DEFAULT_TOP_K = 4;
+// Below this cosine similarity a passage is treated as unrelated
+const MIN_SIMILARITY = 0.3;
+
+export interface RetrievedKnowledge {
+  processId: string;
+  title: string;
+  content: string;
+  score: number;
+}
+
+// In-process vector index, loaded from knowledge_chunks on first use and
+// dropped whenever an entry is (re)indexed or deleted.
+let chunkCache: KnowledgeChunk[] | null = null;
+let missingIndexCheck: Promise<void> | null = null;
+
+// Splits on paragraph and sentence boundaries (Latin and Arabic punctuation)
+// into passages of at most CHUNK_MAX_CHARS, overlapping by CHUNK_OVERLAP_CHARS
+// so a fact spanning a boundary survives in at least one chunk.
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const sentences = normalized
+    .split(/\n{2,}|(?<=[.!?؟۔])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > CHUNK_MAX_CHARS) {
+      chunks.push(current);
+      current = current.slice(-CHUNK_OVERLAP_CHARS);
+    }
+
+    if (sentence.length > CHUNK_MAX_CHARS) {
+      for (let i = 0; i < sentence.length; i += CHUNK_MAX_CHARS - CHUNK_OVERLAP_CHARS) {
+        chunks.push(sentence.slice(i, i + CHUNK_MAX_CHARS));
+      }
+      current = "";
+      continue;
+    }
+
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  // Vectors from different embedding models are not comparable
+  if (a.length !== b.length) {
+    return 0;
+  }
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+export async function indexBusinessProcess(process: BusinessProcess): Promise<void> {
+  // The title and description go into every chunk so each passage carries
+  // enough context to match questions phrased around the procedure's name.
+  const header = `${process.title}\n${process.description}`;
+  const passages = chunkText(process.content).map((passage) => `${header}\n\n${passage}`);
+  const embeddings = passages.length > 0 ? await createEmbeddings(passages) : [];
+
+  await storage.replaceKnowledgeChunks(
+    process.id,
+    passages.map((content, chunkIndex) => ({
+      processId: process.id,
+      chunkIndex,
+      content,
+      embedding: embeddings[chunkIndex],
+    })),
+  );
+  chunkCache = null;
+}
+
+export function invalidateKnowledgeIndex(): void {
+  chunkCache = null;
+}
+
+// Re-embeds every entry, e.g. after the embedding provider or model changed
+export async function reindexKnowledgeBase(): Promise<void> {
+  const processes = await storage.getAllBusinessProcesses();
+  for (const process of processes) {
+    try {
+      await indexBusinessProcess(process);
+    } catch (error) {
+      console.error(`Failed to index knowledge entry ${process.id}:`, error);
+    }
+  }
+}
+
+// Indexes entries created before retrieval existed, or whose indexing failed
+// in an earlier run of the server.
+async function indexMissingProcesses(chunks: KnowledgeChunk[]): Promise<void> {
+  const indexed = new Set(chunks.map((chunk) => chunk.processId));
+  const processes = await storage.getAllBusinessProcesses();
+  for (const process of processes.filter((p) => !indexed.has(p.id))) {
+    try {
+      await indexBusinessProcess(process);
+    } catch (error) {
+      console.error(`Failed to index knowledge entry ${process.id}:`, error);
+    }
+  }
+}
+
+async function loadChunks(): Promise<KnowledgeChunk[]> {
+  if (!missingIndexCheck) {
+    missingIndexCheck = storage.getKnowledgeChunks().then(indexMissingProcesses).catch((error) => {
+      missingIndexCheck = null;
+      throw error;
+    });
+  }
+  await missingIndexCheck;
+
+  if (!chunkCache) {
+    chunkCache = await storage.getKnowledgeChunks();
+  }
+  return chunkCache;
+}
+
+// Returns the passages most similar to the query among the published entries
+// the user can see, at most one per entry so a single long procedure cannot
+// crowd out the others. Drafts and entries awaiting review are not yet
+// authoritative, and archived ones no longer are.
+export async function retrieveRelevantKnowledge(
+  userId: string,
+  query: string,
+  topK: number = DEFAULT_TOP_K,
+): Promise<RetrievedKnowledge[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const [allChunks, processes] = await Promise.all([loadChunks(), storage.getBusinessProcesses(userId)]);
+  const titles = new Map(processes
+    .filter((process) => process.status === "published")
+    .map((process) => [process.id, process.title]));
+  const chunks = allChunks.filter((chunk) => titles.has(chunk.processId));
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const [queryEmbedding] = await createEmbeddings([query]);
+  const bestByProcess = new Map<string, { chunk: KnowledgeChunk; score: number }>();
+  for (const chunk of chunks) {
+    const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+    const best = bestByProcess.get(chunk.processId);
+    if (score >= MIN_SIMILARITY && (!best || score > best.score)) {
+      bestByProcess.set(chunk.processId, { chunk, score });
+    }
+  }
+
+  const ranked = Array.from(bestByProcess.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+  return ranked.map(({ chunk, score }) => ({
+    processId: chunk.processId,
+    title: titles.get(chunk.processId)!,
+    content: chunk.content,
+    score,
+  }));
+}
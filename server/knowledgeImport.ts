@@ -0,0 +1,116 @@
+import path from "path";
+import type { AttachmentUpload, KnowledgeImportDraft } from "@shared/schema";
+import { storage } from "./storage";
+import { completeChat } from "./ai";
+import { resolveAttachments } from "./attachments";
+import { truncateToTokens } from "./tokens";
+
+// The model sees the start of each document, which is where titles and
+// purpose statements are
+const ANALYSIS_EXCERPT_TOKENS = 6000;
+const MAX_TAGS = 6;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+interface ProposedMetadata {
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+}
+
+function parseProposal(raw: string): Partial<ProposedMetadata> {
+  const json = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+  const parsed = json ? JSON.parse(json) : {};
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  return {
+    title: text(parsed?.title),
+    description: text(parsed?.description).slice(0, MAX_DESCRIPTION_LENGTH),
+    category: text(parsed?.category),
+    tags: Array.isArray(parsed?.tags)
+      ? Array.from(new Set<string>(parsed.tags.map(text).filter(Boolean))).slice(0, MAX_TAGS)
+      : [],
+  };
+}
+
+// Used when the model is unavailable or leaves a field empty: the file name
+// for the title and the opening paragraph for the description
+function fallbackMetadata(sourceName: string, content: string): ProposedMetadata {
+  const firstParagraph = content.split(/\n\s*\n/).find((paragraph) => paragraph.trim())?.trim() ?? "";
+  return {
+    title: path.basename(sourceName, path.extname(sourceName)),
+    description: firstParagraph.replace(/\s+/g, " ").slice(0, MAX_DESCRIPTION_LENGTH),
+    category: "",
+    tags: [],
+  };
+}
+
+async function proposeMetadata(
+  userId: string,
+  sourceName: string,
+  content: string,
+  existingCategories: string[],
+): Promise<ProposedMetadata> {
+  const fallback = fallbackMetadata(sourceName, content);
+  try {
+    const response = await completeChat([
+      {
+        role: "system",
+        content: `You catalogue company documents (procedures, policies, guides) for a business knowledge base. For the document below, propose:
+- title: a short, specific title
+- description: one sentence saying what the document covers
+- category: one or two words; reuse one of the existing categories when it fits
+- tags: up to ${MAX_TAGS} short keywords
+
+Write every field in the language the document is written in (Arabic documents get Arabic metadata). Respond with JSON only: {"title": "...", "description": "...", "category": "...", "tags": ["..."]}
+
+Existing categories: ${existingCategories.length > 0 ? existingCategories.join(", ") : "(none)"}`,
+      },
+      {
+        role: "user",
+        content: `File name: ${sourceName}\n\n${truncateToTokens(content, ANALYSIS_EXCERPT_TOKENS).text}`,
+      },
+    ], { userId, responseFormat: "json", maxTokens: 1024 });
+
+    const proposal = parseProposal(response);
+    return {
+      title: proposal.title || fallback.title,
+      description: proposal.description || fallback.description,
+      category: proposal.category || fallback.category,
+      tags: proposal.tags?.length ? proposal.tags : fallback.tags,
+    };
+  } catch (error) {
+    console.error(`Knowledge import analysis error for ${sourceName}:`, error);
+    return fallback;
+  }
+}
+
+// Reads each uploaded document and proposes a knowledge entry for it.
+// Nothing is saved: the user reviews and edits the drafts first. Documents
+// that cannot be read come back as drafts with an error.
+export async function analyzeKnowledgeImport(userId: string, files: AttachmentUpload[]): Promise<KnowledgeImportDraft[]> {
+  const [attachments, processes] = await Promise.all([
+    resolveAttachments(userId, files),
+    storage.getBusinessProcesses(userId),
+  ]);
+  const existingCategories = Array.from(new Set(processes.map((process) => process.category)));
+
+  const drafts: KnowledgeImportDraft[] = [];
+  // One at a time, so a large batch does not flood the LLM provider
+  for (const attachment of attachments) {
+    const empty = { sourceName: attachment.name, title: "", description: "", category: "", tags: [], content: "" };
+    if (attachment.kind !== "text") {
+      drafts.push({ ...empty, error: "Unsupported file type; upload PDF, Word, Markdown, HTML or text files" });
+      continue;
+    }
+    if (attachment.extractionError || !attachment.extractedText) {
+      drafts.push({ ...empty, error: attachment.extractionError || "No text could be found in this document" });
+      continue;
+    }
+
+    const content = attachment.extractedText;
+    const metadata = await proposeMetadata(userId, attachment.name, content, existingCategories);
+    drafts.push({ sourceName: attachment.name, ...metadata, content });
+  }
+  return drafts;
+}
@@ -0,0 +1,179 @@
+import { postJSON, readLines } from "./http";
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from "./types";
+
+const API_VERSION = "2023-06-01";
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 8192;
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: ContentBlock[];
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+// System prompts are a separate field, and tool results are content blocks of
+// a user turn. Consecutive turns of the same role are merged because the API
+// requires user and assistant turns to alternate.
+function toAnthropicRequest(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage["role"], blocks: ContentBlock[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+        system.push(message.content);
+        break;
+      case "user":
+        append("user", [
+          ...(message.images ?? []).map((image) => ({
+            type: "image" as const,
+            source: { type: "base64" as const, media_type: image.mediaType, data: image.data },
+          })),
+          { type: "text", text: message.content },
+        ]);
+        break;
+      case "assistant":
+        append("assistant", [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: parseArguments(call.arguments),
+          })),
+        ]);
+        break;
+      case "tool":
+        append("user", [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }]);
+        break;
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: converted };
+}
+
+// Anthropic Messages API, or any server that implements it
+export class AnthropicProvider implements LLMProvider {
+  readonly id = "anthropic";
+  readonly defaultModel = "claude-sonnet-4-5";
+  readonly defaultEmbeddingModel = null;
+  private baseURL: string;
+  private apiKey: string;
+
+  constructor(options: { baseURL?: string; apiKey?: string } = {}) {
+    this.baseURL = (options.baseURL ?? process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com").replace(/\/$/, "");
+    this.apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY ?? "";
+  }
+
+  // Every current Claude model accepts images
+  supportsImages(): boolean {
+    return true;
+  }
+
+  private async post(request: LLMChatRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicRequest(request.messages);
+    return await postJSON("Anthropic", `${this.baseURL}/v1/messages`, {
+      model: request.model,
+      system: system || undefined,
+      messages,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      tools: request.tools?.length
+        ? request.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+        : undefined,
+      stream,
+    }, {
+      headers: { "x-api-key": this.apiKey, "anthropic-version": API_VERSION },
+      signal: request.signal,
+    });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.post(request, false);
+    const body = await response.json() as { content: ContentBlock[] };
+
+    let content = "";
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of body.content ?? []) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+      }
+    }
+    return { content, toolCalls };
+  }
+
+  // Parses the server-sent event stream: text deltas are passed through and
+  // tool_use blocks are assembled from their partial JSON input.
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true);
+    const toolBlocks = new Map<number, LLMToolCall>();
+    const completed: LLMToolCall[] = [];
+
+    for await (const line of readLines(response)) {
+      if (!line.startsWith("data:")) {
+        continue;
+      }
+      const event = JSON.parse(line.slice(5).trim());
+
+      switch (event.type) {
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use") {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: "" });
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            yield { type: "delta", content: event.delta.text };
+          } else if (event.delta?.type === "input_json_delta") {
+            const block = toolBlocks.get(event.index);
+            if (block) block.arguments += event.delta.partial_json ?? "";
+          }
+          break;
+        case "content_block_stop": {
+          const block = toolBlocks.get(event.index);
+          if (block) {
+            completed.push(block);
+            toolBlocks.delete(event.index);
+          }
+          break;
+        }
+        case "error":
+          throw new Error(`Anthropic stream error: ${event.error?.message ?? "unknown error"}`);
+      }
+    }
+
+    for (const toolCall of completed) {
+      yield { type: "tool_call", toolCall };
+    }
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new Error("The Anthropic API does not provide embeddings; choose another embedding provider in Settings");
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { FakeProvider } from "./fakeProvider";
+
+const provider = new FakeProvider();
+
+function similarity(a: number[], b: number[]): number {
+  return a.reduce((total, x, i) => total + x * b[i], 0);
+}
+
+describe("FakeProvider", () => {
+  it("answers JSON requests with an empty object", async () => {
+    const response = await provider.chat({ model: "fake-chat", messages: [{ role: "user", content: "hi" }], responseFormat: "json" });
+    expect(response).toEqual({ content: "{}", toolCalls: [] });
+  });
+
+  it("only calls tools it was offered", async () => {
+    const messages = [{ role: "user" as const, content: "/tool list_tasks {}" }];
+    expect((await provider.chat({ model: "fake-chat", messages })).toolCalls).toEqual([]);
+
+    const tools = [{ name: "list_tasks", description: "", parameters: {} }];
+    expect((await provider.chat({ model: "fake-chat", messages, tools })).toolCalls).toEqual([
+      { id: "fake_call_1", name: "list_tasks", arguments: "{}" },
+    ]);
+  });
+
+  it("embeds texts deterministically, closer when they share normalized words", async () => {
+    const [invoice, invoiceAgain, hamza, weather] = await provider.embed(
+      ["إرسال الفاتورة للعميل", "إرسال الفاتورة للعميل", "ارسال الفاتوره", "the weather today"],
+      "fake-embedding",
+    );
+    expect(invoice).toEqual(invoiceAgain);
+    expect(similarity(invoice, invoice)).toBeCloseTo(1);
+    expect(similarity(invoice, hamza)).toBeGreaterThan(similarity(invoice, weather));
+  });
+});
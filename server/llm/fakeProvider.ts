@@ -0,0 +1,97 @@
+import { tokenizeQuery } from "../textNormalization";
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMStreamEvent } from "./types";
+
+const EMBEDDING_DIMENSIONS = 256;
+const MAX_ECHO_LENGTH = 500;
+// "/tool <name> <json arguments>" in a user message makes the fake call that tool
+const TOOL_COMMAND_PATTERN = /^\/tool\s+([\w-]+)\s*([\s\S]*)$/;
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ECHO_LENGTH ? `${text.slice(0, MAX_ECHO_LENGTH)}…` : text;
+}
+
+function respond(request: LLMChatRequest): LLMChatResponse {
+  const { messages } = request;
+  const last = messages[messages.length - 1];
+
+  // After tool calls, report their results back
+  if (last?.role === "tool") {
+    const results: string[] = [];
+    for (let i = messages.length - 1; i >= 0 && messages[i].role === "tool"; i--) {
+      results.unshift(truncate((messages[i] as Extract<LLMMessage, { role: "tool" }>).content));
+    }
+    return { content: `Tool results:\n${results.join("\n")}`, toolCalls: [] };
+  }
+
+  if (request.responseFormat === "json") {
+    return { content: "{}", toolCalls: [] };
+  }
+
+  const userMessage = [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const command = userMessage.trim().match(TOOL_COMMAND_PATTERN);
+  if (command && request.tools?.some((tool) => tool.name === command[1])) {
+    const previousCalls = messages.reduce(
+      (count, message) => count + (message.role === "assistant" ? message.toolCalls?.length ?? 0 : 0),
+      0,
+    );
+    return {
+      content: "",
+      toolCalls: [{ id: `fake_call_${previousCalls + 1}`, name: command[1], arguments: command[2].trim() || "{}" }],
+    };
+  }
+
+  return { content: `Echo: ${truncate(userMessage)}`, toolCalls: [] };
+}
+
+// Deterministic, offline provider for tests and demos. Replies echo the last
+// user message, "/tool name {json}" triggers a tool call, JSON requests get
+// "{}", and embeddings are hashed sets of normalized words so texts sharing
+// words are similar.
+export class FakeProvider implements LLMProvider {
+  readonly id = "fake";
+  readonly defaultModel = "fake-chat";
+  readonly defaultEmbeddingModel = "fake-embedding";
+
+  supportsImages(): boolean {
+    return false;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return respond(request);
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const { content, toolCalls } = respond(request);
+    for (const word of content.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      yield { type: "delta", content: word };
+    }
+    for (const toolCall of toolCalls) {
+      yield { type: "tool_call", toolCall };
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of tokenizeQuery(text)) {
+        const value = hash(word);
+        vector[value % EMBEDDING_DIMENSIONS] += value & 0x80000000 ? -1 : 1;
+      }
+      const norm = Math.sqrt(vector.reduce((total, x) => total + x * x, 0));
+      return norm ? vector.map((x) => x / norm) : vector;
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { llmProviderIds, embeddingProviderIds, type LLMProviderId, type Settings } from "@shared/schema";
+import type { LLMProvider } from "./types";
+import { OpenAICompatibleProvider } from "./openaiProvider";
+import { AnthropicProvider } from "./anthropicProvider";
+import { OllamaProvider } from "./ollamaProvider";
+import { FakeProvider } from "./fakeProvider";
+
+export * from "./types";
+
+const providerFactories: Record<LLMProviderId, () => LLMProvider> = {
+  openai: () => new OpenAICompatibleProvider(),
+  anthropic: () => new AnthropicProvider(),
+  ollama: () => new OllamaProvider(),
+  fake: () => new FakeProvider(),
+};
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = providerFactories[id]();
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+// LLM_PROVIDER (and optionally LLM_MODEL) override the settings for both
+// chat and embeddings, e.g. LLM_PROVIDER=fake for tests and offline demos.
+function getEnvironmentOverride(): LLMProviderId | null {
+  const id = process.env.LLM_PROVIDER;
+  if (!id) {
+    return null;
+  }
+  if (!(llmProviderIds as readonly string[]).includes(id)) {
+    throw new Error(`Unknown LLM_PROVIDER "${id}"; expected one of ${llmProviderIds.join(", ")}`);
+  }
+  return id as LLMProviderId;
+}
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+export function resolveChatModel(settings: Settings): ResolvedModel {
+  const override = getEnvironmentOverride();
+  const provider = getLLMProvider(override ?? (settings.llmProvider as LLMProviderId));
+  const model = override ? process.env.LLM_MODEL : settings.llmModel;
+  return { provider, model: model || provider.defaultModel };
+}
+
+export function resolveEmbeddingModel(settings: Settings): ResolvedModel {
+  const override = getEnvironmentOverride();
+  const provider = getLLMProvider(override ?? (settings.embeddingProvider as LLMProviderId));
+  const model = (override ? null : settings.embeddingModel) || provider.defaultEmbeddingModel;
+  if (!model) {
+    throw new Error(`The ${provider.id} provider does not support embeddings`);
+  }
+  return { provider, model };
+}
+
+export function describeLLMProviders() {
+  return {
+    override: process.env.LLM_PROVIDER || null,
+    providers: llmProviderIds.map((id) => {
+      const provider = getLLMProvider(id);
+      return {
+        id,
+        defaultModel: provider.defaultModel,
+        defaultEmbeddingModel: provider.defaultEmbeddingModel,
+        supportsEmbeddings: (embeddingProviderIds as readonly string[]).includes(id),
+      };
+    }),
+  };
+}
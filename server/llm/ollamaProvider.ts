@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import { postJSON, readLines } from "./http";
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from "./types";
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+interface OllamaChatChunk {
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  error?: string;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toOllamaMessage(message: LLMMessage) {
+  switch (message.role) {
+    case "user":
+      return {
+        role: "user",
+        content: message.content,
+        images: message.images?.length ? message.images.map((image) => image.data) : undefined,
+      };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content ?? "",
+        tool_calls: message.toolCalls?.map((call) => ({
+          function: { name: call.name, arguments: parseArguments(call.arguments) },
+        })),
+      };
+    case "tool":
+      return { role: "tool", content: message.content };
+    default:
+      return message;
+  }
+}
+
+// Ollama models are text-only unless they are one of the vision families
+const VISION_MODEL_PATTERN = /llava|vision|moondream|minicpm-v|qwen2\.5vl|gemma3|llama4/i;
+
+// Ollama does not assign ids to tool calls, so one is generated for each
+function fromOllamaToolCalls(calls: OllamaToolCall[] | undefined): LLMToolCall[] {
+  return (calls ?? []).map((call) => ({
+    id: `call_${randomUUID()}`,
+    name: call.function.name,
+    arguments: JSON.stringify(call.function.arguments ?? {}),
+  }));
+}
+
+// A local Ollama server (or anything implementing its /api/chat and /api/embed)
+export class OllamaProvider implements LLMProvider {
+  readonly id = "ollama";
+  readonly defaultModel = "llama3.1";
+  readonly defaultEmbeddingModel = "nomic-embed-text";
+  private baseURL: string;
+
+  constructor(options: { baseURL?: string } = {}) {
+    this.baseURL = (options.baseURL ?? process.env.OLLAMA_BASE_URL ?? "http://localhost:11434").replace(/\/$/, "");
+  }
+
+  supportsImages(model: string): boolean {
+    return VISION_MODEL_PATTERN.test(model);
+  }
+
+  private async post(request: LLMChatRequest, stream: boolean): Promise<Response> {
+    return await postJSON("Ollama", `${this.baseURL}/api/chat`, {
+      model: request.model,
+      messages: request.messages.map(toOllamaMessage),
+      tools: request.tools?.length
+        ? request.tools.map((tool) => ({
+            type: "function",
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+      format: request.responseFormat === "json" ? "json" : undefined,
+      options: request.maxTokens ? { num_predict: request.maxTokens } : undefined,
+      stream,
+    }, { signal: request.signal });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.post(request, false);
+    const body = await response.json() as OllamaChatChunk;
+    return {
+      content: body.message?.content ?? "",
+      toolCalls: fromOllamaToolCalls(body.message?.tool_calls),
+    };
+  }
+
+  // The stream is newline-delimited JSON; tool calls arrive whole
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true);
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const line of readLines(response)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const chunk = JSON.parse(line) as OllamaChatChunk;
+      if (chunk.error) {
+        throw new Error(`Ollama stream error: ${chunk.error}`);
+      }
+      if (chunk.message?.content) {
+        yield { type: "delta", content: chunk.message.content };
+      }
+      toolCalls.push(...fromOllamaToolCalls(chunk.message?.tool_calls));
+    }
+
+    for (const toolCall of toolCalls) {
+      yield { type: "tool_call", toolCall };
+    }
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await postJSON("Ollama", `${this.baseURL}/api/embed`, { model, input: texts });
+    const body = await response.json() as { embeddings: number[][] };
+    return body.embeddings;
+  }
+}
@@ -0,0 +1,141 @@
+import OpenAI from "openai";
+import type { ChatCompletionCreateParamsBase, ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from "./types";
+
+const EMBEDDING_BATCH_SIZE = 96;
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case "user":
+      if (!message.images?.length) {
+        return { role: "user", content: message.content };
+      }
+      return {
+        role: "user",
+        content: [
+          { type: "text", text: message.content },
+          ...message.images.map((image) => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+          })),
+        ],
+      };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        tool_calls: message.toolCalls?.length
+          ? message.toolCalls.map((call) => ({
+              id: call.id,
+              type: "function" as const,
+              function: { name: call.name, arguments: call.arguments },
+            }))
+          : undefined,
+      };
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return message;
+  }
+}
+
+// Any endpoint that speaks the OpenAI chat completions and embeddings API.
+// By default this is Replit's AI Integrations service, which provides
+// OpenAI-compatible API access without requiring your own OpenAI API key.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = "openai";
+  // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+  readonly defaultModel = "gpt-5";
+  readonly defaultEmbeddingModel = "text-embedding-3-small";
+  private options: { baseURL?: string; apiKey?: string };
+  private openai: OpenAI | null = null;
+
+  constructor(options: { baseURL?: string; apiKey?: string } = {}) {
+    this.options = options;
+  }
+
+  // Created on first use: the SDK throws without an API key, which offline
+  // setups using another provider do not have
+  private get client(): OpenAI {
+    this.openai ??= new OpenAI({
+      baseURL: this.options.baseURL ?? process.env.OPENAI_BASE_URL ?? process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+      apiKey: this.options.apiKey ?? process.env.OPENAI_API_KEY ?? process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+    });
+    return this.openai;
+  }
+
+  // Current OpenAI chat models all accept images; other compatible
+  // endpoints reject them if their model does not
+  supportsImages(): boolean {
+    return true;
+  }
+
+  private buildParams(request: LLMChatRequest): ChatCompletionCreateParamsBase {
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      tools: request.tools?.length
+        ? request.tools.map((tool) => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+      max_completion_tokens: request.maxTokens,
+      response_format: request.responseFormat === "json" ? { type: "json_object" } : undefined,
+    };
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.client.chat.completions.create(
+      { ...this.buildParams(request), stream: false },
+      { signal: request.signal },
+    );
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content || "",
+      toolCalls: (message?.tool_calls ?? []).flatMap((call) =>
+        call.type === "function"
+          ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+          : [],
+      ),
+    };
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.client.chat.completions.create(
+      { ...this.buildParams(request), stream: true },
+      { signal: request.signal },
+    );
+
+    // Tool call fragments arrive interleaved, keyed by index
+    const pendingCalls: LLMToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        yield { type: "delta", content: delta.content };
+      }
+      for (const call of delta?.tool_calls ?? []) {
+        const pending = pendingCalls[call.index] ??= { id: "", name: "", arguments: "" };
+        if (call.id) pending.id = call.id;
+        if (call.function?.name) pending.name += call.function.name;
+        if (call.function?.arguments) pending.arguments += call.function.arguments;
+      }
+    }
+
+    for (const toolCall of pendingCalls.filter(Boolean)) {
+      yield { type: "tool_call", toolCall };
+    }
+  }
+
+  // Embeds texts in order, batching to stay within request limits
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const response = await this.client.embeddings.create({ model, input: batch });
+      const sorted = [...response.data].sort((a, b) => a.index - b.index);
+      embeddings.push(...sorted.map((item) => item.embedding));
+    }
+    return embeddings;
+  }
+}
@@ -0,0 +1,71 @@
+// Provider-neutral chat, tool calling and embedding types. Each provider
+// translates these to and from its own wire format.
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // Raw JSON text of the arguments, as produced by the model
+  arguments: string;
+}
+
+// An image shown to the model with a user turn
+export interface LLMImage {
+  mediaType: string;
+  // Base64-encoded bytes
+  data: string;
+}
+
+export type LLMMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string; images?: LLMImage[] }
+  | { role: "assistant"; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  maxTokens?: number;
+  // "json" asks for a single JSON object where the provider supports it
+  responseFormat?: "text" | "json";
+  signal?: AbortSignal;
+}
+
+export interface LLMChatResponse {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+// Text arrives as deltas; tool calls are emitted once complete, after the
+// text of the same round.
+export type LLMStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "tool_call"; toolCall: LLMToolCall };
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly defaultModel: string;
+  // null when the provider has no embeddings API
+  readonly defaultEmbeddingModel: string | null;
+  // Whether user turns may carry images for this model
+  supportsImages(model: string): boolean;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent>;
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+// An HTTP error from a provider's API; the message includes the status code
+export class LLMProviderError extends Error {
+  constructor(provider: string, public readonly status: number, detail: string) {
+    super(`${provider} API error ${status}: ${detail}`);
+    this.name = "LLMProviderError";
+    Object.setPrototypeOf(this, LLMProviderError.prototype);
+  }
+}
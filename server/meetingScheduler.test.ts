@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Settings, SuggestMeetingSlots } from "@shared/schema";
+import { SchedulingError, bookMeetingSlot, suggestMeetingSlots } from "./meetingScheduler";
+import type { FreeBusy } from "./googleCalendar";
+
+const mocks = vi.hoisted(() => ({
+  getSettings: vi.fn(),
+  getUsers: vi.fn(),
+  queryFreeBusy: vi.fn(),
+  createEvent: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storage: { getSettings: mocks.getSettings, getUsers: mocks.getUsers },
+}));
+vi.mock("./googleCalendar", () => ({
+  GoogleCalendarService: vi.fn(() => ({ queryFreeBusy: mocks.queryFreeBusy, createEvent: mocks.createEvent })),
+}));
+
+// Riyadh, Sunday to Thursday 09:00–17:00. On Sunday 18 October 2026 Dhuhr
+// is at 11:38 and Asr at 14:57 there.
+const settings = {
+  timeZone: null,
+  organizationTimeZone: "Asia/Riyadh",
+  workingDays: [0, 1, 2, 3, 4],
+  workdayStart: "09:00",
+  workdayEnd: "17:00",
+  prayerBreakMinutes: 20,
+  prayerLatitude: 24.7136,
+  prayerLongitude: 46.6753,
+} as Settings;
+
+// 08:00 on Sunday in Riyadh
+const NOW = new Date("2026-10-18T05:00:00Z");
+
+function request(overrides: Partial<SuggestMeetingSlots> = {}): SuggestMeetingSlots {
+  return { attendees: ["sara@example.com"], durationMinutes: 60, from: "2026-10-18", to: "2026-10-18", maxSlots: 10, ...overrides };
+}
+
+// Busy periods of the connected calendar, as local Riyadh times
+function busy(...periods: [string, string][]): Record<string, FreeBusy> {
+  return {
+    primary: { busy: periods.map(([start, end]) => ({ start: `${start}+03:00`, end: `${end}+03:00` })) },
+    "sara@example.com": { busy: [] },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.getSettings.mockResolvedValue(settings);
+  mocks.getUsers.mockResolvedValue([]);
+  mocks.queryFreeBusy.mockResolvedValue(busy());
+});
+
+describe("suggestMeetingSlots", () => {
+  it("spreads suggestions over days and prefers sooner ones", async () => {
+    const { slots } = await suggestMeetingSlots("u1", request({ to: "2026-10-19", maxSlots: 5 }), NOW);
+    expect(slots.map((slot) => [slot.start, slot.score])).toEqual([
+      ["2026-10-18T09:30:00+03:00", 100],
+      ["2026-10-18T10:00:00+03:00", 100],
+      ["2026-10-19T09:30:00+03:00", 97],
+      ["2026-10-19T10:00:00+03:00", 97],
+    ]);
+  });
+
+  it("keeps clear of prayer times", async () => {
+    // Three hours fit nowhere between 09:00, Dhuhr, Asr and 17:00
+    expect((await suggestMeetingSlots("u1", request({ durationMinutes: 180 }), NOW)).slots).toEqual([]);
+
+    mocks.getSettings.mockResolvedValue({ ...settings, prayerBreakMinutes: 0 });
+    const { slots } = await suggestMeetingSlots("u1", request({ durationMinutes: 180 }), NOW);
+    expect(slots[0].start).toBe("2026-10-18T09:30:00+03:00");
+  });
+
+  it("avoids busy periods and ranks back-to-back slots lower", async () => {
+    mocks.queryFreeBusy.mockResolvedValue(busy(["2026-10-18T09:00", "2026-10-18T13:00"], ["2026-10-18T14:00", "2026-10-18T17:00"]));
+    const { slots } = await suggestMeetingSlots("u1", request(), NOW);
+    expect(slots).toEqual([{
+      start: "2026-10-18T13:00:00+03:00",
+      end: "2026-10-18T14:00:00+03:00",
+      score: 90,
+      notes: ["back-to-back with another meeting"],
+    }]);
+  });
+
+  it("ranks slots at the edge of the working day lower", async () => {
+    mocks.queryFreeBusy.mockResolvedValue(busy(["2026-10-18T09:30", "2026-10-18T16:00"]));
+    const { slots } = await suggestMeetingSlots("u1", request(), NOW);
+    expect(slots).toEqual([{
+      start: "2026-10-18T16:00:00+03:00",
+      end: "2026-10-18T17:00:00+03:00",
+      score: 85,
+      notes: ["back-to-back with another meeting", "at the edge of the working day"],
+    }]);
+  });
+
+  it("suggests nothing on the weekend", async () => {
+    const { slots } = await suggestMeetingSlots("u1", request({ from: "2026-10-23", to: "2026-10-24" }), NOW);
+    expect(slots).toEqual([]);
+  });
+
+  it("reports attendees whose calendars could not be read", async () => {
+    mocks.queryFreeBusy.mockResolvedValue({ primary: { busy: [] }, "sara@example.com": { busy: [], error: "notFound" } });
+    const { unavailable } = await suggestMeetingSlots("u1", request(), NOW);
+    expect(unavailable).toEqual(["sara@example.com"]);
+  });
+
+  it("finds members' email addresses by name", async () => {
+    mocks.getUsers.mockResolvedValue([{ username: "ahmed@example.com", displayName: "Ahmed Ali" }]);
+    const { attendees } = await suggestMeetingSlots("u1", request({ attendees: ["Ahmed", "Sara@Example.com"] }), NOW);
+    expect(attendees).toEqual(["ahmed@example.com", "sara@example.com"]);
+    expect(mocks.queryFreeBusy).toHaveBeenCalledWith(["primary", "ahmed@example.com", "sara@example.com"], expect.any(String), expect.any(String));
+  });
+
+  it("refuses attendees it cannot find and ranges that have passed", async () => {
+    await expect(suggestMeetingSlots("u1", request({ attendees: ["Khalid"] }), NOW)).rejects.toThrow(SchedulingError);
+    await expect(suggestMeetingSlots("u1", request({ from: "2026-10-01", to: "2026-10-02" }), NOW)).rejects.toThrow("already passed");
+  });
+});
+
+describe("bookMeetingSlot", () => {
+  const booking = {
+    summary: "Planning",
+    attendees: ["sara@example.com"],
+    start: "2026-10-18T13:00",
+    end: "2026-10-18T14:00",
+  };
+
+  it("books a slot that is still free and invites the attendees", async () => {
+    mocks.createEvent.mockResolvedValue({ id: "event-1" });
+    await expect(bookMeetingSlot("u1", booking)).resolves.toEqual({ id: "event-1" });
+    expect(mocks.createEvent).toHaveBeenCalledWith(expect.objectContaining({
+      start: "2026-10-18T13:00:00+03:00",
+      end: "2026-10-18T14:00:00+03:00",
+      attendees: ["sara@example.com"],
+      notifyAttendees: true,
+    }));
+  });
+
+  it("refuses a slot that has been taken since it was suggested", async () => {
+    mocks.queryFreeBusy.mockResolvedValue(busy(["2026-10-18T13:30", "2026-10-18T14:30"]));
+    await expect(bookMeetingSlot("u1", booking)).rejects.toThrow("no longer free");
+    expect(mocks.createEvent).not.toHaveBeenCalled();
+  });
+});
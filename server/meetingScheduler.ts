@@ -0,0 +1,231 @@
+import { settingsTimeZone, type BookMeetingSlot, type MeetingSlot, type MeetingSlotSuggestions, type Settings, type SuggestMeetingSlots } from "@shared/schema";
+import { storage } from "./storage";
+import { GoogleCalendarService, type CalendarEvent } from "./googleCalendar";
+import { prayerTimes } from "./prayerTimes";
+import { dateInZone, isDateOnly, parseInZone, startOfDayInZone, toZonedISOString } from "./timeZone";
+
+// Candidate meetings start on these boundaries from the start of the workday
+const SLOT_STEP_MINUTES = 30;
+const DEFAULT_SEARCH_DAYS = 7;
+// Google answers free/busy queries for a limited range
+const MAX_SEARCH_DAYS = 31;
+// Suggestions are spread over several days rather than filling the first
+const MAX_SLOTS_PER_DAY = 2;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A request that cannot be scheduled as asked, reported back as a 400
+export class SchedulingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchedulingError";
+    Object.setPrototypeOf(this, SchedulingError.prototype);
+  }
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Turns each attendee into an email address. Names are looked up among the
+// workspace's members, whose usernames may be email addresses.
+async function resolveAttendees(attendees: string[]): Promise<string[]> {
+  const emails = new Set<string>();
+  const unresolved: string[] = [];
+  const users = attendees.some((attendee) => !EMAIL_PATTERN.test(attendee)) ? await storage.getUsers() : [];
+
+  for (const attendee of attendees) {
+    if (EMAIL_PATTERN.test(attendee)) {
+      emails.add(attendee.toLowerCase());
+      continue;
+    }
+    const name = attendee.toLowerCase();
+    const matches = users.filter((user) =>
+      user.username.toLowerCase() === name
+      || user.displayName?.toLowerCase() === name
+      || user.displayName?.toLowerCase().split(/\s+/).includes(name),
+    );
+    if (matches.length === 1 && EMAIL_PATTERN.test(matches[0].username)) {
+      emails.add(matches[0].username.toLowerCase());
+    } else {
+      unresolved.push(matches.length > 1 ? `${attendee} (matches ${matches.length} people)` : attendee);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new SchedulingError(`No email address found for: ${unresolved.join(", ")}. Give their email addresses instead.`);
+  }
+  return Array.from(emails);
+}
+
+// The busy periods of the connected calendar and every attendee's, plus the
+// attendees whose calendars could not be read
+async function findBusy(
+  calendar: GoogleCalendarService,
+  emails: string[],
+  range: Interval,
+): Promise<{ busy: Interval[]; unavailable: string[] }> {
+  const calendars = await calendar.queryFreeBusy(
+    ["primary", ...emails],
+    new Date(range.start).toISOString(),
+    new Date(range.end).toISOString(),
+  );
+  const busy: Interval[] = [];
+  const unavailable: string[] = [];
+  for (const [id, { busy: periods, error }] of Object.entries(calendars)) {
+    if (error) {
+      if (id !== "primary") unavailable.push(id);
+      continue;
+    }
+    for (const period of periods) {
+      busy.push({ start: Date.parse(period.start), end: Date.parse(period.end) });
+    }
+  }
+  return { busy, unavailable };
+}
+
+// The working hours of a day (YYYY-MM-DD in the organisation's zone) and
+// the prayer breaks within them; none on the weekend
+function workingDay(date: string, settings: Settings): { hours: Interval; breaks: Interval[] } | undefined {
+  const [year, month, day] = date.split("-").map(Number);
+  if (!settings.workingDays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay())) {
+    return undefined;
+  }
+  const timeZone = settings.organizationTimeZone;
+  const hours = {
+    start: parseInZone(`${date}T${settings.workdayStart}`, timeZone).getTime(),
+    end: parseInZone(`${date}T${settings.workdayEnd}`, timeZone).getTime(),
+  };
+  const breaks = settings.prayerBreakMinutes > 0
+    ? prayerTimes(date, settings.prayerLatitude, settings.prayerLongitude).map(({ time }) => ({
+        start: time.getTime(),
+        end: time.getTime() + settings.prayerBreakMinutes * MINUTE_MS,
+      }))
+    : [];
+  return { hours, breaks };
+}
+
+// Sooner is better, and so is leaving room around other meetings and the
+// ends of the day
+function scoreSlot(slot: Interval, dayIndex: number, hours: Interval, busy: Interval[]): { score: number; notes: string[] } {
+  let score = 100 - dayIndex * 3;
+  const notes: string[] = [];
+  if (busy.some((period) => period.end === slot.start || period.start === slot.end)) {
+    score -= 10;
+    notes.push("back-to-back with another meeting");
+  }
+  if (slot.start === hours.start || slot.end === hours.end) {
+    score -= 5;
+    notes.push("at the edge of the working day");
+  }
+  return { score, notes };
+}
+
+// The range to search: from the given time (never the past) to the given
+// one, a bare end date including that day
+function searchRange(request: SuggestMeetingSlots, timeZone: string, now: Date): Interval {
+  const from = request.from ? parseInZone(request.from, timeZone) : now;
+  const start = Math.max(from.getTime(), now.getTime());
+  let end = start + DEFAULT_SEARCH_DAYS * DAY_MS;
+  if (request.to) {
+    const to = parseInZone(request.to, timeZone);
+    end = isDateOnly(request.to) ? startOfDayInZone(to, timeZone, 1).getTime() : to.getTime();
+  }
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    throw new SchedulingError("from and to must be ISO 8601 dates or date-times");
+  }
+  if (end <= start) {
+    throw new SchedulingError("The search range has already passed or ends before it starts");
+  }
+  return { start, end: Math.min(end, start + MAX_SEARCH_DAYS * DAY_MS) };
+}
+
+// Ranked meeting times within the organisation's working hours, clear of
+// prayer times and of everyone's busy periods
+export async function suggestMeetingSlots(
+  userId: string,
+  request: SuggestMeetingSlots,
+  now = new Date(),
+): Promise<MeetingSlotSuggestions> {
+  const settings = await storage.getSettings(userId);
+  const timeZone = settingsTimeZone(settings);
+  const range = searchRange(request, timeZone, now);
+  const emails = await resolveAttendees(request.attendees);
+  const calendar = new GoogleCalendarService(timeZone);
+  const { busy, unavailable } = await findBusy(calendar, emails, range);
+  const duration = request.durationMinutes * MINUTE_MS;
+
+  const candidates: (MeetingSlot & { day: string; at: number })[] = [];
+  const organizationZone = settings.organizationTimeZone;
+  let dayIndex = 0;
+  for (let day = startOfDayInZone(new Date(range.start), organizationZone); day.getTime() < range.end; day = startOfDayInZone(day, organizationZone, 1)) {
+    const date = dateInZone(day, organizationZone);
+    const working = workingDay(date, settings);
+    if (!working) continue;
+
+    for (let start = working.hours.start; start + duration <= working.hours.end; start += SLOT_STEP_MINUTES * MINUTE_MS) {
+      const slot = { start, end: start + duration };
+      if (slot.start < range.start || slot.end > range.end) continue;
+      if (working.breaks.some((period) => overlaps(slot, period))) continue;
+      if (busy.some((period) => overlaps(slot, period))) continue;
+      candidates.push({
+        start: toZonedISOString(new Date(slot.start), timeZone),
+        end: toZonedISOString(new Date(slot.end), timeZone),
+        ...scoreSlot(slot, dayIndex, working.hours, busy),
+        day: date,
+        at: slot.start,
+      });
+    }
+    dayIndex++;
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.at - b.at);
+  const perDay = new Map<string, number>();
+  const slots: MeetingSlot[] = [];
+  for (const { day, at, ...slot } of candidates) {
+    if (slots.length >= request.maxSlots) break;
+    if ((perDay.get(day) ?? 0) >= MAX_SLOTS_PER_DAY) continue;
+    perDay.set(day, (perDay.get(day) ?? 0) + 1);
+    slots.push(slot);
+  }
+
+  return { timeZone, attendees: emails, slots, unavailable };
+}
+
+// Books a chosen slot with the attendees invited, after checking that it is
+// still free for everyone
+export async function bookMeetingSlot(userId: string, request: BookMeetingSlot): Promise<CalendarEvent> {
+  const timeZone = settingsTimeZone(await storage.getSettings(userId));
+  const slot = {
+    start: parseInZone(request.start, timeZone).getTime(),
+    end: parseInZone(request.end, timeZone).getTime(),
+  };
+  if (Number.isNaN(slot.start) || Number.isNaN(slot.end) || slot.end <= slot.start) {
+    throw new SchedulingError("start and end must be ISO 8601 date-times with end after start");
+  }
+  const emails = await resolveAttendees(request.attendees);
+  const calendar = new GoogleCalendarService(timeZone);
+
+  const { busy } = await findBusy(calendar, emails, slot);
+  if (busy.some((period) => overlaps(slot, period))) {
+    throw new SchedulingError("The slot is no longer free; suggest new times");
+  }
+
+  return await calendar.createEvent({
+    summary: request.summary,
+    description: request.description,
+    location: request.location,
+    start: toZonedISOString(new Date(slot.start), timeZone),
+    end: toZonedISOString(new Date(slot.end), timeZone),
+    timeZone,
+    attendees: emails,
+    notifyAttendees: emails.length > 0,
+  });
+}
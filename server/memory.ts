@@ -0,0 +1,201 @@
+import { memoryCategories, type InsertMemory, type Memory, type MemoryCategory, type UpdateMemory } from "@shared/schema";
+import { storage } from "./storage";
+import { completeChat, createEmbeddings } from "./ai";
+import { cosineSimilarity } from "./knowledgeBase";
+
+const DEFAULT_TOP_K = 8;
+// Below this similarity a memory is treated as unrelated to the question
+const MIN_SIMILARITY = 0.25;
+// Extracted facts this close to an existing memory are duplicates
+const DUPLICATE_SIMILARITY = 0.9;
+// Existing memories shown to the extractor so it does not restate them
+const EXTRACTION_CONTEXT_SIZE = 20;
+const MAX_EXTRACTED_PER_EXCHANGE = 5;
+
+export interface ConversationExchange {
+  userMessage: string;
+  assistantMessage: string;
+}
+
+// Each user's memories with embeddings, loaded on first use and dropped on
+// any change
+const memoryCache = new Map<string, Memory[]>();
+
+// Drops one user's cached memories, or everyone's when no user is given
+export function invalidateMemoryCache(userId?: string): void {
+  if (userId) {
+    memoryCache.delete(userId);
+  } else {
+    memoryCache.clear();
+  }
+}
+
+// API responses leave out the embedding vector
+export function serializeMemory({ embedding, ...memory }: Memory): Omit<Memory, "embedding"> {
+  return memory;
+}
+
+async function embed(text: string): Promise<number[]> {
+  const [embedding] = await createEmbeddings([text]);
+  return embedding;
+}
+
+// Loads the user's memories, embedding any that were saved while embeddings
+// failed
+async function loadMemories(userId: string): Promise<Memory[]> {
+  const cached = memoryCache.get(userId);
+  if (cached) {
+    return cached;
+  }
+
+  const all = await storage.getMemories(userId);
+  const missing = all.filter((memory) => !memory.embedding);
+  if (missing.length > 0) {
+    const embeddings = await createEmbeddings(missing.map((memory) => memory.content));
+    await Promise.all(missing.map((memory, i) => {
+      memory.embedding = embeddings[i];
+      return storage.updateMemoryEmbedding(memory.id, embeddings[i]);
+    }));
+  }
+
+  memoryCache.set(userId, all);
+  return all;
+}
+
+// Re-embeds every user's memories, e.g. after the embedding provider or
+// model changed
+export async function reembedMemories(): Promise<void> {
+  const all = await storage.getAllMemories();
+  const embeddings = await createEmbeddings(all.map((memory) => memory.content));
+  await Promise.all(all.map((memory, i) => storage.updateMemoryEmbedding(memory.id, embeddings[i])));
+  invalidateMemoryCache();
+}
+
+function rankBySimilarity(memories: Memory[], embedding: number[]): Array<{ memory: Memory; score: number }> {
+  return memories
+    .map((memory) => ({ memory, score: memory.embedding ? cosineSimilarity(embedding, memory.embedding) : 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Manually added memories are embedded straight away; if that fails they are
+// still saved and picked up by loadMemories later.
+export async function addMemory(userId: string, data: InsertMemory): Promise<Memory> {
+  let embedding: number[] | null = null;
+  try {
+    embedding = await embed(data.content);
+  } catch (error) {
+    console.error("Failed to embed memory:", error);
+  }
+  const memory = await storage.createMemory(userId, data, embedding);
+  invalidateMemoryCache(userId);
+  return memory;
+}
+
+export async function editMemory(userId: string, id: string, updates: UpdateMemory): Promise<Memory | undefined> {
+  const existing = await storage.getMemory(userId, id);
+  if (!existing) {
+    return undefined;
+  }
+
+  let embedding = existing.embedding;
+  if (updates.content !== undefined && updates.content !== existing.content) {
+    try {
+      embedding = await embed(updates.content);
+    } catch (error) {
+      console.error("Failed to embed memory:", error);
+      embedding = null;
+    }
+  }
+
+  const memory = await storage.updateMemory(userId, id, { ...updates, embedding });
+  invalidateMemoryCache(userId);
+  return memory;
+}
+
+export async function retrieveRelevantMemories(
+  userId: string,
+  query: string,
+  topK: number = DEFAULT_TOP_K,
+): Promise<Memory[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const memories = await loadMemories(userId);
+  if (memories.length === 0) {
+    return [];
+  }
+
+  const queryEmbedding = await embed(query);
+  return rankBySimilarity(memories, queryEmbedding)
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .slice(0, topK)
+    .map(({ memory }) => memory);
+}
+
+// Providers without a JSON mode may wrap the object in prose or code fences
+function parseExtractedFacts(raw: string): Array<{ content: string; category: MemoryCategory }> {
+  const json = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+  const parsed = json ? JSON.parse(json) : {};
+  const facts = Array.isArray(parsed?.memories) ? parsed.memories : [];
+
+  return facts
+    .filter((fact: any) => typeof fact?.content === "string" && fact.content.trim())
+    .slice(0, MAX_EXTRACTED_PER_EXCHANGE)
+    .map((fact: any) => ({
+      content: fact.content.trim(),
+      category: memoryCategories.includes(fact.category) ? fact.category : "fact",
+    }));
+}
+
+// Asks the model for durable facts worth remembering from a completed
+// exchange and saves the ones the user's memory does not already hold.
+// Returns the new memories.
+export async function extractMemories(
+  userId: string,
+  conversationId: string,
+  exchange: ConversationExchange,
+): Promise<Memory[]> {
+  const memories = await loadMemories(userId);
+  const exchangeText = `User: ${exchange.userMessage}\n\nAssistant: ${exchange.assistantMessage}`;
+  const exchangeEmbedding = await embed(exchangeText);
+  const known = rankBySimilarity(memories, exchangeEmbedding)
+    .slice(0, EXTRACTION_CONTEXT_SIZE)
+    .map(({ memory }) => `- ${memory.content}`)
+    .join("\n");
+
+  const response = await completeChat([
+    {
+      role: "system",
+      content: `You maintain the long-term memory of a business assistant. From the exchange below, extract durable facts that will still be useful in future, unrelated conversations: people and their roles, customers and suppliers, user or company preferences, decisions that were made, and other stable business facts.
+
+Do not extract: small talk, one-off requests, questions, the assistant's own suggestions, temporary states, or anything already in the known memories. Write each fact as one short, self-contained sentence in the language the user wrote in. Extract at most ${MAX_EXTRACTED_PER_EXCHANGE} facts; most exchanges contain none.
+
+Respond with JSON only: {"memories": [{"content": "...", "category": "${memoryCategories.join('" | "')}"}]}
+
+Known memories:
+${known || "(none)"}`,
+    },
+    { role: "user", content: exchangeText },
+  ], { userId, responseFormat: "json", maxTokens: 2048 });
+
+  const facts = parseExtractedFacts(response);
+  if (facts.length === 0) {
+    return [];
+  }
+
+  const embeddings = await createEmbeddings(facts.map((fact) => fact.content));
+  const saved: Memory[] = [];
+  for (let i = 0; i < facts.length; i++) {
+    const [closest] = rankBySimilarity([...memories, ...saved], embeddings[i]);
+    if (closest && closest.score >= DUPLICATE_SIMILARITY) {
+      continue;
+    }
+    saved.push(await storage.createMemory(userId, { ...facts[i], sourceConversationId: conversationId }, embeddings[i]));
+  }
+
+  if (saved.length > 0) {
+    invalidateMemoryCache(userId);
+  }
+  return saved;
+}
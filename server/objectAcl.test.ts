@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Readable } from "stream";
+import type { StoredObject } from "./objectBackends";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  canAccessObject,
+  canSetObjectAclPolicy,
+  objectAclRequestSchema,
+  setObjectAclPolicy,
+  type ObjectAclPolicy,
+} from "./objectAcl";
+import { storage } from "./storage";
+import { resetDatabase } from "./testDatabase";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+// An uploaded object held in memory
+function storedObject(name = "uploads/report.pdf"): StoredObject {
+  let custom: Record<string, string> = {};
+  return {
+    name,
+    exists: async () => true,
+    getMetadata: async () => ({ custom }),
+    setCustomMetadata: async (changes) => {
+      custom = { ...custom, ...changes };
+    },
+    createReadStream: () => Readable.from([]),
+  };
+}
+
+async function withPolicy(policy: ObjectAclPolicy): Promise<StoredObject> {
+  const objectFile = storedObject();
+  await setObjectAclPolicy(objectFile, policy);
+  return objectFile;
+}
+
+let owner: string;
+let manager: string;
+let staff: string;
+
+beforeEach(async () => {
+  await resetDatabase();
+  owner = (await storage.createUser({ username: "owner", password: "hashed.salt" }, "staff")).id;
+  manager = (await storage.createUser({ username: "manager", password: "hashed.salt" }, "manager")).id;
+  staff = (await storage.createUser({ username: "staff", password: "hashed.salt" }, "staff")).id;
+});
+
+describe("canAccessObject", () => {
+  const read = (objectFile: StoredObject, userId?: string) => canAccessObject({ userId, objectFile, requestedPermission: ObjectPermission.READ });
+  const write = (objectFile: StoredObject, userId?: string) => canAccessObject({ userId, objectFile, requestedPermission: ObjectPermission.WRITE });
+
+  it("refuses everyone an object without a policy", async () => {
+    expect(await read(storedObject(), owner)).toBe(false);
+  });
+
+  it("lets anyone read a public object but only its owner write it", async () => {
+    const objectFile = await withPolicy({ owner, visibility: "public" });
+    expect(await read(objectFile)).toBe(true);
+    expect(await write(objectFile, staff)).toBe(false);
+    expect(await write(objectFile, owner)).toBe(true);
+  });
+
+  it("keeps a private object to its owner", async () => {
+    const objectFile = await withPolicy({ owner, visibility: "private" });
+    expect(await read(objectFile)).toBe(false);
+    expect(await read(objectFile, staff)).toBe(false);
+    expect(await read(objectFile, owner)).toBe(true);
+  });
+
+  it("grants listed users what their rule allows", async () => {
+    const objectFile = await withPolicy({
+      owner,
+      visibility: "private",
+      aclRules: [{ group: { type: ObjectAccessGroupType.USER_LIST, id: `${manager}, someone-else` }, permission: ObjectPermission.READ }],
+    });
+    expect(await read(objectFile, manager)).toBe(true);
+    expect(await write(objectFile, manager)).toBe(false);
+    expect(await read(objectFile, staff)).toBe(false);
+  });
+
+  it("grants a team by role, and write implies read", async () => {
+    const objectFile = await withPolicy({
+      owner,
+      visibility: "private",
+      aclRules: [{ group: { type: ObjectAccessGroupType.TEAM, id: "manager" }, permission: ObjectPermission.WRITE }],
+    });
+    expect(await read(objectFile, manager)).toBe(true);
+    expect(await write(objectFile, manager)).toBe(true);
+    expect(await read(objectFile, staff)).toBe(false);
+  });
+
+  it("grants whoever can open the conversation", async () => {
+    const conversation = await storage.createConversation(staff, { title: "Contracts" });
+    const objectFile = await withPolicy({
+      owner,
+      visibility: "private",
+      aclRules: [{ group: { type: ObjectAccessGroupType.CONVERSATION_PARTICIPANTS, id: conversation.id }, permission: ObjectPermission.READ }],
+    });
+    expect(await read(objectFile, staff)).toBe(true);
+    expect(await read(objectFile, manager)).toBe(false);
+  });
+});
+
+describe("canSetObjectAclPolicy", () => {
+  const objectPath = "/objects/uploads/report.pdf";
+
+  it("lets only the user who requested the upload URL claim a fresh upload", async () => {
+    await storage.recordObjectUpload(owner, objectPath);
+    const objectFile = storedObject();
+
+    expect(await canSetObjectAclPolicy({ userId: staff, objectPath, objectFile })).toBe(false);
+    expect(await canSetObjectAclPolicy({ userId: owner, objectPath, objectFile })).toBe(true);
+  });
+
+  it("lets nobody claim an upload nobody requested", async () => {
+    expect(await canSetObjectAclPolicy({ userId: owner, objectPath, objectFile: storedObject() })).toBe(false);
+  });
+
+  it("needs write access once the object has a policy, whoever uploaded it", async () => {
+    await storage.recordObjectUpload(staff, objectPath);
+    const objectFile = await withPolicy({
+      owner,
+      visibility: "private",
+      aclRules: [{ group: { type: ObjectAccessGroupType.USER_LIST, id: manager }, permission: ObjectPermission.WRITE }],
+    });
+
+    expect(await canSetObjectAclPolicy({ userId: staff, objectPath, objectFile })).toBe(false);
+    expect(await canSetObjectAclPolicy({ userId: manager, objectPath, objectFile })).toBe(true);
+    expect(await canSetObjectAclPolicy({ userId: owner, objectPath, objectFile })).toBe(true);
+  });
+});
+
+describe("objectAclRequestSchema", () => {
+  it("defaults to a private object with no rules", () => {
+    expect(objectAclRequestSchema.parse({})).toEqual({ visibility: "private", aclRules: [] });
+  });
+
+  it("refuses a team that is not a role", () => {
+    const result = objectAclRequestSchema.safeParse({
+      aclRules: [{ group: { type: "team", id: "everyone" }, permission: "read" }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -1,8 +1,18 @@
-import { File } from "@google-cloud/storage";
+import { z } from "zod";
+import { userRoles } from "@shared/schema";
+import { storage } from "./storage";
+import type { StoredObject } from "./objectBackends";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // id is a comma-separated list of user ids
+  USER_LIST = "user_list",
+  // id is a role; every user holding it is a member
+  TEAM = "team",
+  // id is a conversation id; its participants are members
+  CONVERSATION_PARTICIPANTS = "conversation_participants",
+}
 
 export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
@@ -25,6 +35,29 @@ export interface ObjectAclPolicy {
   aclRules?: Array<ObjectAclRule>;
 }
 
+// What a client may ask for when finalizing an upload; the owner always comes
+// from the session
+export const objectAclRequestSchema = z.object({
+  visibility: z.enum(["public", "private"]).default("private"),
+  aclRules: z.array(z.object({
+    group: z.object({
+      type: z.nativeEnum(ObjectAccessGroupType),
+      id: z.string().min(1),
+    }),
+    permission: z.nativeEnum(ObjectPermission),
+  })).default([]),
+}).superRefine((policy, ctx) => {
+  policy.aclRules.forEach((rule, index) => {
+    if (rule.group.type === ObjectAccessGroupType.TEAM && !(userRoles as readonly string[]).includes(rule.group.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["aclRules", index, "group", "id"],
+        message: `Team must be one of: ${userRoles.join(", ")}`,
+      });
+    }
+  });
+});
+
 function isPermissionAllowed(
   requested: ObjectPermission,
   granted: ObjectPermission,
@@ -44,40 +77,76 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class UserListAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.USER_LIST, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return this.id.split(",").map((member) => member.trim()).includes(userId);
+  }
+}
+
+class TeamAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.TEAM, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    return user?.role === this.id;
+  }
+}
+
+// A conversation has a single owner today, so its participants are whoever
+// can open it
+class ConversationParticipantsAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.CONVERSATION_PARTICIPANTS, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return (await storage.getConversation(userId, this.id)) !== undefined;
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
+    case ObjectAccessGroupType.USER_LIST:
+      return new UserListAccessGroup(group.id);
+    case ObjectAccessGroupType.TEAM:
+      return new TeamAccessGroup(group.id);
+    case ObjectAccessGroupType.CONVERSATION_PARTICIPANTS:
+      return new ConversationParticipantsAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
 }
 
 export async function setObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
   aclPolicy: ObjectAclPolicy,
 ): Promise<void> {
-  const [exists] = await objectFile.exists();
-  if (!exists) {
+  if (!(await objectFile.exists())) {
     throw new Error(`Object not found: ${objectFile.name}`);
   }
 
-  await objectFile.setMetadata({
-    metadata: {
-      [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
-    },
+  await objectFile.setCustomMetadata({
+    [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
   });
 }
 
 export async function getObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
 ): Promise<ObjectAclPolicy | null> {
-  const [metadata] = await objectFile.getMetadata();
-  const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
+  const metadata = await objectFile.getMetadata();
+  const aclPolicy = metadata.custom[ACL_POLICY_METADATA_KEY];
   if (!aclPolicy) {
     return null;
   }
-  return JSON.parse(aclPolicy as string);
+  return JSON.parse(aclPolicy);
 }
 
 export async function canAccessObject({
@@ -86,7 +155,7 @@ export async function canAccessObject({
   requestedPermission,
 }: {
   userId?: string;
-  objectFile: File;
+  objectFile: StoredObject;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
   const aclPolicy = await getObjectAclPolicy(objectFile);
@@ -121,3 +190,21 @@ export async function canAccessObject({
 
   return false;
 }
+
+// Whether the user may set the object's ACL policy. A fresh upload has no
+// policy yet and is claimed by whoever requested its upload URL; after that
+// only someone with write access may change who can read it.
+export async function canSetObjectAclPolicy({
+  userId,
+  objectPath,
+  objectFile,
+}: {
+  userId: string;
+  objectPath: string;
+  objectFile: StoredObject;
+}): Promise<boolean> {
+  if (!(await getObjectAclPolicy(objectFile))) {
+    return (await storage.getObjectUploader(objectPath)) === userId;
+  }
+  return canAccessObject({ userId, objectFile, requestedPermission: ObjectPermission.WRITE });
+}
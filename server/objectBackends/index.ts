@@ -0,0 +1,31 @@
+import type { ObjectStorageBackend } from "./types";
+import { ReplitObjectStorageBackend } from "./replitBackend";
+import { LocalObjectStorageBackend } from "./localBackend";
+import { S3ObjectStorageBackend } from "./s3Backend";
+
+export * from "./types";
+export { LocalObjectStorageBackend, LocalUploadError, LOCAL_UPLOAD_ROUTE_PREFIX } from "./localBackend";
+
+export const objectStorageBackendIds = ["replit", "local", "s3"] as const;
+export type ObjectStorageBackendId = typeof objectStorageBackendIds[number];
+
+const backendFactories: Record<ObjectStorageBackendId, () => ObjectStorageBackend> = {
+  replit: () => new ReplitObjectStorageBackend(),
+  local: () => new LocalObjectStorageBackend(),
+  s3: () => new S3ObjectStorageBackend(),
+};
+
+let backend: ObjectStorageBackend | null = null;
+
+// OBJECT_STORAGE_BACKEND picks where attachments are kept; Replit Object
+// Storage unless configured otherwise.
+export function getObjectStorageBackend(): ObjectStorageBackend {
+  if (!backend) {
+    const id = process.env.OBJECT_STORAGE_BACKEND || "replit";
+    if (!(objectStorageBackendIds as readonly string[]).includes(id)) {
+      throw new Error(`Unknown OBJECT_STORAGE_BACKEND "${id}"; expected one of ${objectStorageBackendIds.join(", ")}`);
+    }
+    backend = backendFactories[id as ObjectStorageBackendId]();
+  }
+  return backend;
+}
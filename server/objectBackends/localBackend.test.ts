@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { LocalObjectStorageBackend, LocalUploadError } from "./localBackend";
+
+let rootDir: string;
+let backend: LocalObjectStorageBackend;
+
+beforeEach(async () => {
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "local-objects-"));
+  vi.stubEnv("LOCAL_OBJECT_STORAGE_DIR", rootDir);
+  vi.stubEnv("LOCAL_OBJECT_STORAGE_SECRET", "test-secret");
+  backend = new LocalObjectStorageBackend();
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+function read(stream: Readable): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk));
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString()));
+    stream.on("error", reject);
+  });
+}
+
+// The parts of an upload URL the local route hands to verifyUploadURL
+async function signedURL(objectPath: string, ttlSec = 900) {
+  const url = new URL(await backend.getUploadURL(objectPath, ttlSec), "http://localhost");
+  return {
+    objectPath: backend.objectPathFromURL(url.toString())!,
+    expires: url.searchParams.get("expires")!,
+    signature: url.searchParams.get("signature")!,
+  };
+}
+
+describe("upload URLs", () => {
+  it("round-trip through the local route and verify", async () => {
+    const url = await signedURL("/attachments/private/uploads/a b.pdf");
+    expect(url.objectPath).toBe("/attachments/private/uploads/a b.pdf");
+    expect(backend.verifyUploadURL(url.objectPath, url.expires, url.signature)).toBe(true);
+  });
+
+  it("refuse a signature for another object, a changed expiry or a forged signature", async () => {
+    const url = await signedURL("/attachments/private/uploads/a.pdf");
+    expect(backend.verifyUploadURL("/attachments/private/uploads/b.pdf", url.expires, url.signature)).toBe(false);
+    expect(backend.verifyUploadURL(url.objectPath, String(Number(url.expires) + 3600), url.signature)).toBe(false);
+    expect(backend.verifyUploadURL(url.objectPath, url.expires, "00".repeat(32))).toBe(false);
+    expect(backend.verifyUploadURL(url.objectPath, url.expires, "not hex")).toBe(false);
+    expect(backend.verifyUploadURL(url.objectPath, "soon", url.signature)).toBe(false);
+  });
+
+  it("expire", async () => {
+    const url = await signedURL("/attachments/private/uploads/a.pdf", 60);
+    vi.useFakeTimers({ now: Date.now() + 61_000 });
+    expect(backend.verifyUploadURL(url.objectPath, url.expires, url.signature)).toBe(false);
+  });
+
+  it("are signed with the configured secret", async () => {
+    const url = await signedURL("/attachments/private/uploads/a.pdf");
+    vi.stubEnv("LOCAL_OBJECT_STORAGE_SECRET", "another-secret");
+    expect(backend.verifyUploadURL(url.objectPath, url.expires, url.signature)).toBe(false);
+  });
+
+  it("are not read from other routes", () => {
+    expect(backend.objectPathFromURL("https://storage.googleapis.com/bucket/a.pdf")).toBeNull();
+  });
+});
+
+describe("object paths", () => {
+  it("stay inside the storage directory", async () => {
+    await backend.getObject("/../../escape.txt").write(Readable.from([Buffer.from("x")]), "text/plain", 1024);
+    expect(await fs.promises.readdir(rootDir)).toContain("escape.txt");
+  });
+
+  it("cannot name a metadata sidecar", () => {
+    expect(() => backend.getObject("/attachments/a.pdf.meta.json")).toThrow("Invalid object path");
+  });
+});
+
+describe("writing an upload", () => {
+  const maxBytes = 1024;
+
+  it("stores the body with its content type and no ACL policy", async () => {
+    const object = backend.getObject("/attachments/private/uploads/a.txt");
+    await object.write(Readable.from([Buffer.from("hello")]), "text/plain", maxBytes);
+
+    expect(await object.exists()).toBe(true);
+    expect(await object.getMetadata()).toEqual({ contentType: "text/plain", size: 5, custom: {} });
+    expect(await read(object.createReadStream())).toBe("hello");
+  });
+
+  it("refuses to overwrite an object, keeping its content and ACL policy", async () => {
+    const object = backend.getObject("/attachments/private/uploads/a.txt");
+    await object.write(Readable.from([Buffer.from("original")]), "text/plain", maxBytes);
+    await object.setCustomMetadata({ "custom:aclPolicy": "{\"owner\":\"u1\"}" });
+
+    const again = object.write(Readable.from([Buffer.from("replacement")]), "text/html", maxBytes);
+    await expect(again).rejects.toBeInstanceOf(LocalUploadError);
+    await expect(again).rejects.toMatchObject({ status: 409 });
+
+    expect(await read(object.createReadStream())).toBe("original");
+    expect((await object.getMetadata()).custom).toEqual({ "custom:aclPolicy": "{\"owner\":\"u1\"}" });
+  });
+
+  it("lets only one of two simultaneous uploads to the same path win", async () => {
+    const object = backend.getObject("/attachments/private/uploads/a.txt");
+    const results = await Promise.allSettled([
+      object.write(Readable.from([Buffer.from("first")]), "text/plain", maxBytes),
+      object.write(Readable.from([Buffer.from("second")]), "text/plain", maxBytes),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(["first", "second"]).toContain(await read(object.createReadStream()));
+  });
+
+  it("refuses a body over the size limit and leaves nothing behind", async () => {
+    const object = backend.getObject("/attachments/private/uploads/big.bin");
+    const body = Readable.from([Buffer.alloc(600), Buffer.alloc(600)]);
+
+    await expect(object.write(body, "application/octet-stream", maxBytes)).rejects.toMatchObject({ status: 413 });
+    expect(await object.exists()).toBe(false);
+    expect(await fs.promises.readdir(path.join(rootDir, "attachments/private/uploads"))).toEqual([]);
+  });
+});
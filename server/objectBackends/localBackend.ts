@@ -0,0 +1,183 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID, createHmac, timingSafeEqual } from "crypto";
+import { pipeline } from "stream/promises";
+import { Transform, type Readable } from "stream";
+import type { ObjectStorageBackend, StoredObject, StoredObjectMetadata } from "./types";
+
+// Upload URLs issued by this backend point at our own Express route
+export const LOCAL_UPLOAD_ROUTE_PREFIX = "/local-objects";
+
+const METADATA_SUFFIX = ".meta.json";
+
+// An upload the local route refuses, with the HTTP status to answer with
+export class LocalUploadError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "LocalUploadError";
+    Object.setPrototypeOf(this, LocalUploadError.prototype);
+  }
+}
+
+// Passes the body through until it grows past maxBytes
+function limitSize(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        callback(new LocalUploadError(`Uploads can be at most ${maxBytes / 1024 / 1024} MB`, 413));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+interface SidecarMetadata {
+  contentType?: string;
+  custom: Record<string, string>;
+}
+
+class LocalStoredObject implements StoredObject {
+  constructor(
+    public readonly name: string,
+    private readonly filePath: string,
+  ) {}
+
+  private get metadataPath(): string {
+    return `${this.filePath}${METADATA_SUFFIX}`;
+  }
+
+  async exists(): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(this.filePath)).isFile();
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async readSidecar(): Promise<SidecarMetadata> {
+    try {
+      const sidecar = JSON.parse(await fs.promises.readFile(this.metadataPath, "utf8"));
+      return { contentType: sidecar.contentType, custom: sidecar.custom ?? {} };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return { custom: {} };
+      }
+      throw error;
+    }
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const [stat, sidecar] = await Promise.all([fs.promises.stat(this.filePath), this.readSidecar()]);
+    return { contentType: sidecar.contentType, size: stat.size, custom: sidecar.custom };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    const sidecar = await this.readSidecar();
+    await writeFileAtomic(this.metadataPath, JSON.stringify({
+      ...sidecar,
+      custom: { ...sidecar.custom, ...custom },
+    }));
+  }
+
+  createReadStream(): Readable {
+    return fs.createReadStream(this.filePath);
+  }
+
+  // Stores an uploaded body; the sidecar starts with just its content type.
+  // An object is written once: a second PUT to the same signed URL would
+  // otherwise replace it and wipe its ACL policy.
+  async write(body: Readable, contentType: string | undefined, maxBytes: number): Promise<void> {
+    if (await this.exists()) {
+      throw new LocalUploadError("Object already exists", 409);
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await pipeline(body, limitSize(maxBytes), fs.createWriteStream(tempPath));
+      // Unlike rename, link fails rather than replacing a file that appeared
+      // while the body was arriving
+      await fs.promises.link(tempPath, this.filePath);
+    } catch (error: any) {
+      if (error.code === "EEXIST") {
+        throw new LocalUploadError("Object already exists", 409);
+      }
+      throw error;
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+    await writeFileAtomic(this.metadataPath, JSON.stringify({ contentType, custom: {} }));
+  }
+}
+
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.promises.writeFile(tempPath, data);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+// Objects live under LOCAL_OBJECT_STORAGE_DIR, one file per object with its
+// metadata and ACL policy in a "<file>.meta.json" sidecar. Upload URLs are
+// HMAC-signed and expire like cloud signed URLs.
+export class LocalObjectStorageBackend implements ObjectStorageBackend {
+  readonly id = "local";
+  readonly defaultPrivateObjectDir = "/attachments/private";
+  readonly defaultPublicObjectSearchPaths = ["/attachments/public"];
+
+  private readonly rootDir = path.resolve(process.env.LOCAL_OBJECT_STORAGE_DIR || "data/objects");
+
+  private get signingSecret(): string {
+    const secret = process.env.LOCAL_OBJECT_STORAGE_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error("LOCAL_OBJECT_STORAGE_SECRET or SESSION_SECRET must be set to sign upload URLs.");
+    }
+    return secret;
+  }
+
+  getObject(objectPath: string): LocalStoredObject {
+    const filePath = path.resolve(this.rootDir, `.${path.posix.normalize(`/${objectPath}`)}`);
+    if (!filePath.startsWith(`${this.rootDir}${path.sep}`) || filePath.endsWith(METADATA_SUFFIX)) {
+      throw new Error(`Invalid object path: ${objectPath}`);
+    }
+    return new LocalStoredObject(objectPath, filePath);
+  }
+
+  private sign(objectPath: string, expires: number): string {
+    return createHmac("sha256", this.signingSecret)
+      .update(`PUT\n${objectPath}\n${expires}`)
+      .digest("hex");
+  }
+
+  async getUploadURL(objectPath: string, ttlSec: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(objectPath, expires),
+    });
+    return `${LOCAL_UPLOAD_ROUTE_PREFIX}${objectPath}?${params}`;
+  }
+
+  objectPathFromURL(rawURL: string): string | null {
+    const { pathname } = new URL(rawURL, "http://localhost");
+    if (!pathname.startsWith(`${LOCAL_UPLOAD_ROUTE_PREFIX}/`)) {
+      return null;
+    }
+    return decodeURIComponent(pathname.slice(LOCAL_UPLOAD_ROUTE_PREFIX.length));
+  }
+
+  // Checks the signature and expiry of an upload URL issued by getUploadURL
+  verifyUploadURL(objectPath: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(objectPath, expiresAt), "hex");
+    const supplied = Buffer.from(signature, "hex");
+    return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+  }
+}
@@ -0,0 +1,125 @@
+import { Storage, File } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import { parseObjectPath, type ObjectStorageBackend, type StoredObject, type StoredObjectMetadata } from "./types";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+export const objectStorageClient = new Storage({
+  credentials: {
+    audience: "replit",
+    subject_token_type: "access_token",
+    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+    type: "external_account",
+    credential_source: {
+      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+      format: {
+        type: "json",
+        subject_token_field_name: "access_token",
+      },
+    },
+    universe_domain: "googleapis.com",
+  },
+  projectId: "",
+});
+
+class GcsStoredObject implements StoredObject {
+  constructor(private readonly file: File) {}
+
+  get name(): string {
+    return this.file.name;
+  }
+
+  async exists(): Promise<boolean> {
+    const [exists] = await this.file.exists();
+    return exists;
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const [metadata] = await this.file.getMetadata();
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+      if (value !== null && value !== undefined) {
+        custom[key] = String(value);
+      }
+    }
+    return {
+      contentType: metadata.contentType,
+      size: metadata.size === undefined ? undefined : Number(metadata.size),
+      custom,
+    };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    await this.file.setMetadata({ metadata: custom });
+  }
+
+  createReadStream(): Readable {
+    return this.file.createReadStream();
+  }
+}
+
+// Google Cloud Storage through the Replit sidecar, which issues credentials
+// and signs URLs. Only works when running on Replit.
+export class ReplitObjectStorageBackend implements ObjectStorageBackend {
+  readonly id = "replit";
+
+  getObject(objectPath: string): StoredObject {
+    const { bucketName, objectName } = parseObjectPath(objectPath);
+    return new GcsStoredObject(objectStorageClient.bucket(bucketName).file(objectName));
+  }
+
+  async getUploadURL(objectPath: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(objectPath);
+    return signObjectURL({
+      bucketName,
+      objectName,
+      method: "PUT",
+      ttlSec,
+    });
+  }
+
+  objectPathFromURL(rawURL: string): string | null {
+    if (!rawURL.startsWith("https://storage.googleapis.com/")) {
+      return null;
+    }
+    return new URL(rawURL).pathname;
+  }
+}
+
+async function signObjectURL({
+  bucketName,
+  objectName,
+  method,
+  ttlSec,
+}: {
+  bucketName: string;
+  objectName: string;
+  method: "GET" | "PUT" | "DELETE" | "HEAD";
+  ttlSec: number;
+}): Promise<string> {
+  const request = {
+    bucket_name: bucketName,
+    object_name: objectName,
+    method,
+    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  };
+  const response = await fetch(
+    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to sign object URL, errorcode: ${response.status}, ` +
+        `make sure you're running on Replit`
+    );
+  }
+
+  const { signed_url: signedURL } = await response.json();
+  return signedURL;
+}
@@ -0,0 +1,222 @@
+import { createHash, createHmac } from "crypto";
+import { Readable } from "stream";
+import { parseObjectPath, type ObjectStorageBackend, type StoredObject, type StoredObjectMetadata } from "./types";
+
+// S3 has no cheap way to rewrite user metadata in place, so custom metadata
+// lives in a JSON sidecar object next to the file, as in the local backend
+const METADATA_SUFFIX = ".meta.json";
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+interface S3Config {
+  endpoint: URL;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// AWS Signature Version 4, either as an Authorization header for requests we
+// make ourselves or as query parameters for presigned URLs handed to browsers.
+// Always path-style (endpoint/bucket/key) so MinIO and other S3-compatible
+// stores work without DNS-style bucket hosts.
+function signRequest(
+  config: S3Config,
+  { method, objectPath, presignTtlSec, headers = {} }: {
+    method: "GET" | "PUT" | "HEAD" | "DELETE";
+    objectPath: string;
+    presignTtlSec?: number;
+    headers?: Record<string, string>;
+  },
+): { url: string; headers: Record<string, string> } {
+  const { bucketName, objectName } = parseObjectPath(objectPath);
+  const basePath = config.endpoint.pathname.replace(/\/$/, "");
+  const canonicalUri = [basePath, bucketName, ...objectName.split("/")]
+    .map((segment, index) => (index === 0 ? segment : encodeRfc3986(segment)))
+    .join("/");
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+
+  const signedHeaderValues: Record<string, string> = { host: config.endpoint.host };
+  const query: Record<string, string> = {};
+  if (presignTtlSec !== undefined) {
+    query["X-Amz-Algorithm"] = "AWS4-HMAC-SHA256";
+    query["X-Amz-Credential"] = `${config.accessKeyId}/${scope}`;
+    query["X-Amz-Date"] = amzDate;
+    query["X-Amz-Expires"] = String(presignTtlSec);
+    query["X-Amz-SignedHeaders"] = "host";
+  } else {
+    Object.assign(signedHeaderValues, {
+      "x-amz-date": amzDate,
+      "x-amz-content-sha256": UNSIGNED_PAYLOAD,
+    });
+    for (const [name, value] of Object.entries(headers)) {
+      signedHeaderValues[name.toLowerCase()] = value;
+    }
+  }
+
+  const headerNames = Object.keys(signedHeaderValues).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${signedHeaderValues[name].trim()}\n`).join("");
+  const signedHeaders = headerNames.join(";");
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join("&");
+
+  const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, UNSIGNED_PAYLOAD].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), "s3"), "aws4_request");
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  const url = `${config.endpoint.origin}${canonicalUri}`;
+  if (presignTtlSec !== undefined) {
+    return { url: `${url}?${canonicalQuery}&X-Amz-Signature=${signature}`, headers: {} };
+  }
+
+  const { host, ...requestHeaders } = signedHeaderValues;
+  return {
+    url,
+    headers: {
+      ...requestHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+class S3StoredObject implements StoredObject {
+  constructor(
+    private readonly config: S3Config,
+    public readonly name: string,
+  ) {}
+
+  private async send(
+    method: "GET" | "PUT" | "HEAD",
+    objectPath: string,
+    options: { headers?: Record<string, string>; body?: string } = {},
+  ): Promise<Response> {
+    const request = signRequest(this.config, { method, objectPath, headers: options.headers });
+    return fetch(request.url, { method, headers: request.headers, body: options.body });
+  }
+
+  private async readSidecar(): Promise<Record<string, string>> {
+    const response = await this.send("GET", `${this.name}${METADATA_SUFFIX}`);
+    if (response.status === 404) {
+      return {};
+    }
+    if (!response.ok) {
+      throw new Error(`S3 error ${response.status} reading metadata of ${this.name}`);
+    }
+    return (await response.json()).custom ?? {};
+  }
+
+  async exists(): Promise<boolean> {
+    const response = await this.send("HEAD", this.name);
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 error ${response.status} checking ${this.name}`);
+    }
+    return true;
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const response = await this.send("HEAD", this.name);
+    if (!response.ok) {
+      throw new Error(`S3 error ${response.status} reading ${this.name}`);
+    }
+    const contentLength = response.headers.get("content-length");
+    return {
+      contentType: response.headers.get("content-type") ?? undefined,
+      size: contentLength === null ? undefined : Number(contentLength),
+      custom: await this.readSidecar(),
+    };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    const existing = await this.readSidecar();
+    const response = await this.send("PUT", `${this.name}${METADATA_SUFFIX}`, {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ custom: { ...existing, ...custom } }),
+    });
+    if (!response.ok) {
+      throw new Error(`S3 error ${response.status} writing metadata of ${this.name}`);
+    }
+  }
+
+  createReadStream(): Readable {
+    const send = () => this.send("GET", this.name);
+    const name = this.name;
+    return Readable.from((async function* () {
+      const response = await send();
+      if (!response.ok || !response.body) {
+        throw new Error(`S3 error ${response.status} downloading ${name}`);
+      }
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield Buffer.from(value);
+      }
+    })());
+  }
+}
+
+// Any S3-compatible store (AWS S3, MinIO, Cloudflare R2, ...). The first
+// segment of an object path is the bucket.
+export class S3ObjectStorageBackend implements ObjectStorageBackend {
+  readonly id = "s3";
+
+  private get config(): S3Config {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error("S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for the s3 object storage backend.");
+    }
+    const region = process.env.S3_REGION || "us-east-1";
+    return {
+      endpoint: new URL(process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`),
+      region,
+      accessKeyId,
+      secretAccessKey,
+    };
+  }
+
+  getObject(objectPath: string): StoredObject {
+    if (objectPath.endsWith(METADATA_SUFFIX)) {
+      throw new Error(`Invalid object path: ${objectPath}`);
+    }
+    return new S3StoredObject(this.config, objectPath);
+  }
+
+  async getUploadURL(objectPath: string, ttlSec: number): Promise<string> {
+    return signRequest(this.config, { method: "PUT", objectPath, presignTtlSec: ttlSec }).url;
+  }
+
+  objectPathFromURL(rawURL: string): string | null {
+    const { endpoint } = this.config;
+    if (!rawURL.startsWith(`${endpoint.origin}/`)) {
+      return null;
+    }
+    const basePath = endpoint.pathname.replace(/\/$/, "");
+    const pathname = decodeURIComponent(new URL(rawURL).pathname);
+    return pathname.startsWith(`${basePath}/`) ? pathname.slice(basePath.length) : null;
+  }
+}
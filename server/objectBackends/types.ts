@@ -0,0 +1,55 @@
+import type { Readable } from "stream";
+
+// Backend-neutral object storage types. Object paths are absolute and start
+// with a bucket, e.g. "/my-bucket/.private/uploads/<id>"; each backend maps
+// them onto its own store.
+
+export interface StoredObjectMetadata {
+  contentType?: string;
+  size?: number;
+  // Application metadata such as the ACL policy
+  custom: Record<string, string>;
+}
+
+export interface StoredObject {
+  readonly name: string;
+  exists(): Promise<boolean>;
+  getMetadata(): Promise<StoredObjectMetadata>;
+  // Merges the given keys into the object's custom metadata
+  setCustomMetadata(custom: Record<string, string>): Promise<void>;
+  createReadStream(): Readable;
+}
+
+export interface ObjectStorageBackend {
+  readonly id: string;
+  // Used when PRIVATE_OBJECT_DIR / PUBLIC_OBJECT_SEARCH_PATHS are not set
+  readonly defaultPrivateObjectDir?: string;
+  readonly defaultPublicObjectSearchPaths?: string[];
+  getObject(objectPath: string): StoredObject;
+  // A URL the browser can PUT the file body to directly
+  getUploadURL(objectPath: string, ttlSec: number): Promise<string>;
+  // The object path behind a URL issued by getUploadURL, or null when the
+  // URL does not belong to this backend
+  objectPathFromURL(rawURL: string): string | null;
+}
+
+export function parseObjectPath(path: string): {
+  bucketName: string;
+  objectName: string;
+} {
+  if (!path.startsWith("/")) {
+    path = `/${path}`;
+  }
+  const pathParts = path.split("/");
+  if (pathParts.length < 3) {
+    throw new Error("Invalid path: must contain at least a bucket name");
+  }
+
+  const bucketName = pathParts[1];
+  const objectName = pathParts.slice(2).join("/");
+
+  return {
+    bucketName,
+    objectName,
+  };
+}
@@ -0,0 +1,77 @@
+// The five daily prayer times, calculated from the sun's position with the
+// Umm al-Qura method used in Saudi Arabia: Fajr at a solar depression of
+// 18.5°, Asr when shadows reach their object's length plus the noon shadow,
+// and Isha 90 minutes after Maghrib.
+
+const FAJR_ANGLE = 18.5;
+const SUNSET_ANGLE = 0.833;
+const ISHA_MINUTES_AFTER_MAGHRIB = 90;
+
+export type PrayerName = "fajr" | "dhuhr" | "asr" | "maghrib" | "isha";
+
+export interface PrayerTime {
+  name: PrayerName;
+  time: Date;
+}
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+const fixAngle = (angle: number) => angle - 360 * Math.floor(angle / 360);
+const fixHour = (hour: number) => hour - 24 * Math.floor(hour / 24);
+
+// The sun's declination and the equation of time at a Julian date
+function sunPosition(julianDate: number): { declination: number; equation: number } {
+  const days = julianDate - 2451545.0;
+  const meanAnomaly = fixAngle(357.529 + 0.98560028 * days);
+  const meanLongitude = fixAngle(280.459 + 0.98564736 * days);
+  const longitude = fixAngle(meanLongitude + 1.915 * Math.sin(radians(meanAnomaly)) + 0.02 * Math.sin(radians(2 * meanAnomaly)));
+  const obliquity = 23.439 - 0.00000036 * days;
+  const rightAscension = degrees(Math.atan2(Math.cos(radians(obliquity)) * Math.sin(radians(longitude)), Math.cos(radians(longitude)))) / 15;
+  return {
+    declination: degrees(Math.asin(Math.sin(radians(obliquity)) * Math.sin(radians(longitude)))),
+    equation: meanLongitude / 15 - fixHour(rightAscension),
+  };
+}
+
+// Prayer times on a date (YYYY-MM-DD) at a place. Prayers that do not occur
+// there that day (far enough from the equator) are left out.
+export function prayerTimes(date: string, latitude: number, longitude: number): PrayerTime[] {
+  const [year, month, day] = date.split("-").map(Number);
+  const midnight = Date.UTC(year, month - 1, day);
+  // Julian date of local solar midnight
+  const julianDate = midnight / 86_400_000 + 2440587.5 - longitude / 360;
+
+  // Hours after midnight, local solar time, at which the sun is the given
+  // angle below the horizon (before noon when rising)
+  const noon = (hour: number) => fixHour(12 - sunPosition(julianDate + hour / 24).equation);
+  const sunAngleTime = (angle: number, hour: number, rising = false) => {
+    const { declination } = sunPosition(julianDate + hour / 24);
+    const offset = degrees(Math.acos(
+      (-Math.sin(radians(angle)) - Math.sin(radians(declination)) * Math.sin(radians(latitude)))
+      / (Math.cos(radians(declination)) * Math.cos(radians(latitude))),
+    )) / 15;
+    return noon(hour) + (rising ? -offset : offset);
+  };
+  const asrTime = (hour: number) => {
+    const { declination } = sunPosition(julianDate + hour / 24);
+    const angle = -degrees(Math.atan(1 / (1 + Math.tan(radians(Math.abs(latitude - declination))))));
+    return sunAngleTime(angle, hour);
+  };
+
+  const maghrib = sunAngleTime(SUNSET_ANGLE, 18);
+  const hours: Record<PrayerName, number> = {
+    fajr: sunAngleTime(FAJR_ANGLE, 5, true),
+    dhuhr: noon(12),
+    asr: asrTime(13),
+    maghrib,
+    isha: maghrib + ISHA_MINUTES_AFTER_MAGHRIB / 60,
+  };
+
+  return (Object.keys(hours) as PrayerName[])
+    .filter((name) => Number.isFinite(hours[name]))
+    .map((name) => ({
+      name,
+      // From local solar time to UTC, rounded to the minute
+      time: new Date(Math.round((midnight + (hours[name] - longitude / 15) * 3_600_000) / 60_000) * 60_000),
+    }));
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import type { TaskRecurrence } from "@shared/schema";
+import { RecurrenceRuleError, buildRecurrence, nextOccurrence, normalizeRule, parseRecurrenceRule } from "./recurrence";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+const RIYADH = "Asia/Riyadh";
+
+// The first `count` due dates of a series whose first task is due at `dueDate`
+function occurrences(rule: string, dueDate: string, count: number, timeZone = RIYADH): string[] {
+  const series = buildRecurrence({ rule, timeZone }, new Date(dueDate));
+  let recurrence: TaskRecurrence = series.recurrence;
+  let current = series.dueDate;
+  const dates = [current.toISOString()];
+  while (dates.length < count) {
+    const next = nextOccurrence(recurrence, current, current);
+    if (!next) break;
+    dates.push(next.dueDate.toISOString());
+    recurrence = { ...recurrence, occurrence: next.occurrence };
+    current = next.dueDate;
+  }
+  return dates;
+}
+
+describe("parseRecurrenceRule", () => {
+  it("reads the supported parts", () => {
+    const rule = parseRecurrenceRule("RRULE:FREQ=weekly;INTERVAL=2;BYDAY=SU,TU;WKST=SU;COUNT=5");
+    expect(rule).toMatchObject({
+      calendar: "gregorian",
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [{ weekday: 0 }, { weekday: 2 }],
+      count: 5,
+      weekStart: 0,
+      skipBackward: false,
+    });
+  });
+
+  it("reads RSCALE=ISLAMIC-UMALQURA as the Hijri calendar", () => {
+    expect(parseRecurrenceRule("RSCALE=ISLAMIC-UMALQURA;FREQ=YEARLY;BYMONTH=9;BYMONTHDAY=1").calendar).toBe("hijri");
+  });
+
+  it.each([
+    ["FREQ=HOURLY", "FREQ must be"],
+    ["FREQ=DAILY;BYSETPOS=1", "BYSETPOS is not supported"],
+    ["FREQ=DAILY;COUNT=3;UNTIL=20261231", "COUNT and UNTIL"],
+    ["FREQ=WEEKLY;BYMONTHDAY=1", "BYMONTHDAY cannot be used"],
+    ["FREQ=WEEKLY;BYDAY=1MO", "BYDAY ordinals need"],
+    ["FREQ=DAILY;INTERVAL=0", "INTERVAL must be between"],
+    ["RSCALE=HEBREW;FREQ=YEARLY", "RSCALE must be"],
+    ["FREQ=DAILY;UNTIL=tomorrow", "UNTIL must be a date"],
+  ])("rejects %s", (text, message) => {
+    expect(() => parseRecurrenceRule(text)).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule(text)).toThrow(message);
+  });
+
+  it("reads a UTC UNTIL as is", () => {
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20261231T120000Z", RIYADH).until?.toISOString()).toBe("2026-12-31T12:00:00.000Z");
+  });
+
+  it("reads a date-only or floating UNTIL in the rule's time zone", () => {
+    // The whole of 31 December in Riyadh, which ends at 21:00 UTC
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20261231", RIYADH).until?.toISOString()).toBe("2026-12-31T20:59:59.999Z");
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20261231T120000", RIYADH).until?.toISOString()).toBe("2026-12-31T09:00:00.000Z");
+  });
+});
+
+describe("normalizeRule", () => {
+  it("drops the RRULE prefix and uppercases", () => {
+    expect(normalizeRule(" rrule:freq=daily ")).toBe("FREQ=DAILY");
+  });
+});
+
+describe("buildRecurrence", () => {
+  it("moves the due date to the first matching day and keeps its time", () => {
+    // Sunday 18 October at 09:00 in Riyadh; the last Friday is the 30th
+    const { recurrence, dueDate } = buildRecurrence({ rule: "FREQ=MONTHLY;BYDAY=-1FR", timeZone: RIYADH }, new Date("2026-10-18T06:00:00Z"));
+    expect(dueDate.toISOString()).toBe("2026-10-30T06:00:00.000Z");
+    expect(recurrence).toEqual({
+      rule: "FREQ=MONTHLY;BYDAY=-1FR",
+      timeZone: RIYADH,
+      start: "2026-10-30T06:00:00.000Z",
+      occurrence: 1,
+      paused: false,
+    });
+  });
+
+  it("starts at local midnight today without a due date", () => {
+    const { dueDate } = buildRecurrence({ rule: "FREQ=DAILY", timeZone: RIYADH }, null, new Date("2026-10-18T07:00:00Z"));
+    expect(dueDate.toISOString()).toBe("2026-10-17T21:00:00.000Z");
+  });
+
+  it("refuses a rule that ends before the due date", () => {
+    expect(() => buildRecurrence({ rule: "FREQ=DAILY;UNTIL=20261001", timeZone: RIYADH }, new Date("2026-10-18T06:00:00Z")))
+      .toThrow("no occurrences");
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("follows weekly days until COUNT is reached", () => {
+    expect(occurrences("FREQ=WEEKLY;BYDAY=SU,TU;COUNT=3", "2026-10-18T06:00:00Z", 5)).toEqual([
+      "2026-10-18T06:00:00.000Z",
+      "2026-10-20T06:00:00.000Z",
+      "2026-10-25T06:00:00.000Z",
+    ]);
+  });
+
+  it("skips short months for a month day they lack, or moves back with SKIP=BACKWARD", () => {
+    expect(occurrences("FREQ=MONTHLY;BYMONTHDAY=31", "2026-10-31T06:00:00Z", 3)).toEqual([
+      "2026-10-31T06:00:00.000Z",
+      "2026-12-31T06:00:00.000Z",
+      "2027-01-31T06:00:00.000Z",
+    ]);
+    expect(occurrences("FREQ=MONTHLY;BYMONTHDAY=31;SKIP=BACKWARD", "2026-10-31T06:00:00Z", 3)).toEqual([
+      "2026-10-31T06:00:00.000Z",
+      "2026-11-30T06:00:00.000Z",
+      "2026-12-31T06:00:00.000Z",
+    ]);
+  });
+
+  it("falls on the first of Ramadan each Hijri year", () => {
+    expect(occurrences("RSCALE=ISLAMIC-UMALQURA;FREQ=YEARLY;BYMONTH=9;BYMONTHDAY=1", "2026-10-18T06:00:00Z", 3)).toEqual([
+      "2027-02-08T06:00:00.000Z",
+      "2028-01-28T06:00:00.000Z",
+      "2029-01-16T06:00:00.000Z",
+    ]);
+  });
+
+  it("uses the last day of 29-day Hijri months with SKIP=BACKWARD", () => {
+    // 30 Jumada I, 29 Jumada II (which has no 30th), 30 Rajab 1448
+    expect(occurrences("RSCALE=ISLAMIC-UMALQURA;FREQ=MONTHLY;BYMONTHDAY=30;SKIP=BACKWARD", "2026-10-18T06:00:00Z", 3)).toEqual([
+      "2026-11-10T06:00:00.000Z",
+      "2026-12-09T06:00:00.000Z",
+      "2027-01-08T06:00:00.000Z",
+    ]);
+  });
+
+  it("passes over missed occurrences but counts them", () => {
+    const { recurrence, dueDate } = buildRecurrence({ rule: "FREQ=WEEKLY", timeZone: RIYADH }, new Date("2026-10-18T06:00:00Z"));
+    expect(nextOccurrence(recurrence, dueDate, new Date("2026-11-05T00:00:00Z"))).toEqual({
+      dueDate: new Date("2026-11-08T06:00:00Z"),
+      occurrence: 4,
+    });
+  });
+
+  it("ends at a date-only UNTIL in the rule's time zone", () => {
+    // 00:30 in Riyadh is still the previous day in UTC; the 5th is the last
+    expect(occurrences("FREQ=DAILY;UNTIL=20260105", "2026-01-03T21:30:00Z", 5)).toEqual([
+      "2026-01-03T21:30:00.000Z",
+      "2026-01-04T21:30:00.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,384 @@
+import type { TaskRecurrence, TaskRecurrenceInput } from "@shared/schema";
+import { fromWallClock, wallClock } from "./timeZone";
+
+// Recurrence rules for tasks: the RRULE syntax of RFC 5545, plus the RSCALE
+// extension of RFC 7529 for rules on the Hijri (Umm al-Qura) calendar, e.g.
+// "RSCALE=ISLAMIC-UMALQURA;FREQ=YEARLY;BYMONTH=9;BYMONTHDAY=1" for the first
+// of Ramadan. Occurrences are matched as calendar days in the recurrence's
+// time zone and keep the time of day of the first one.
+
+export class RecurrenceRuleError extends Error {}
+
+const frequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+type Frequency = typeof frequencies[number];
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const supportedFields = new Set(["RSCALE", "FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "BYMONTH", "WKST", "SKIP"]);
+
+const DAY_MS = 86_400_000;
+// Days in one period of each frequency, for bounding the search for the next
+// occurrence; eight extra years covers rules that only fall on leap days
+const PERIOD_DAYS: Record<Frequency, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 };
+const SEARCH_SLACK_DAYS = 366 * 8;
+const MAX_INTERVAL = 100;
+
+interface WeekdayRule {
+  weekday: number;
+  // 1 for the first such weekday of the month, -1 for the last, ...
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  calendar: "gregorian" | "hijri";
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count?: number;
+  until?: Date;
+  weekStart: number;
+  // Month days past the end of a short month move to its last day instead of
+  // being dropped (SKIP=BACKWARD)
+  skipBackward: boolean;
+}
+
+// A calendar day, counted in days since 1970-01-01
+type Day = number;
+
+interface DayParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  monthLength: number;
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new RecurrenceRuleError(`${name} must be a whole number`);
+  }
+  const number = parseInt(value, 10);
+  if (number < min || number > max) {
+    throw new RecurrenceRuleError(`${name} must be between ${min} and ${max}`);
+  }
+  return number;
+}
+
+// A UTC date-time (ending in Z) is taken as is; a bare date or a floating
+// date-time is read in the rule's time zone, as RFC 5545 has it for rules
+// whose start is a local time
+function parseUntil(value: string, timeZone: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError("UNTIL must be a date such as 20261231 or 20261231T235959Z");
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => parseInt(part ?? "0", 10));
+  // A bare date includes the whole of that day
+  if (match[4] === undefined) {
+    return new Date(fromWallClock(Date.UTC(year, month - 1, day) + DAY_MS, timeZone).getTime() - 1);
+  }
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+  return match[7] ? new Date(local) : fromWallClock(local, timeZone);
+}
+
+export function parseRecurrenceRule(text: string, timeZone = "UTC"): RecurrenceRule {
+  const fields = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split("=");
+    if (!key?.trim() || value === undefined) {
+      throw new RecurrenceRuleError(`Invalid rule part "${part}"`);
+    }
+    const name = key.trim().toUpperCase();
+    if (!supportedFields.has(name)) {
+      throw new RecurrenceRuleError(`${name} is not supported`);
+    }
+    fields.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = fields.get("FREQ") as Frequency | undefined;
+  if (!freq || !frequencies.includes(freq)) {
+    throw new RecurrenceRuleError("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+
+  const rscale = fields.get("RSCALE") ?? "GREGORIAN";
+  if (rscale !== "GREGORIAN" && rscale !== "ISLAMIC-UMALQURA") {
+    throw new RecurrenceRuleError("RSCALE must be GREGORIAN or ISLAMIC-UMALQURA");
+  }
+
+  const skip = fields.get("SKIP") ?? "OMIT";
+  if (skip !== "OMIT" && skip !== "BACKWARD") {
+    throw new RecurrenceRuleError("SKIP must be OMIT or BACKWARD");
+  }
+
+  const list = (name: string) => (fields.get(name) ?? "").split(",").filter(Boolean);
+
+  const byDay = list("BYDAY").map((value): WeekdayRule => {
+    const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(value);
+    const weekday = match ? weekdayCodes.indexOf(match[2]) : -1;
+    if (!match || weekday === -1) {
+      throw new RecurrenceRuleError(`Invalid BYDAY value "${value}"`);
+    }
+    if (!match[1]) {
+      return { weekday };
+    }
+    const ordinal = parseInteger("The BYDAY ordinal", match[1], -5, 5);
+    if (ordinal === 0) {
+      throw new RecurrenceRuleError("The BYDAY ordinal cannot be 0");
+    }
+    return { weekday, ordinal };
+  });
+
+  const byMonthDay = list("BYMONTHDAY").map((value) => {
+    const day = parseInteger("BYMONTHDAY", value, -31, 31);
+    if (day === 0) {
+      throw new RecurrenceRuleError("BYMONTHDAY cannot be 0");
+    }
+    return day;
+  });
+
+  const byMonth = list("BYMONTH").map((value) => parseInteger("BYMONTH", value, 1, 12));
+
+  if (freq === "WEEKLY" && byMonthDay.length > 0) {
+    throw new RecurrenceRuleError("BYMONTHDAY cannot be used with FREQ=WEEKLY");
+  }
+  const monthScoped = freq === "MONTHLY" || (freq === "YEARLY" && byMonth.length > 0);
+  if (!monthScoped && byDay.some((rule) => rule.ordinal)) {
+    throw new RecurrenceRuleError("BYDAY ordinals need FREQ=MONTHLY, or FREQ=YEARLY with BYMONTH");
+  }
+  if (fields.has("COUNT") && fields.has("UNTIL")) {
+    throw new RecurrenceRuleError("COUNT and UNTIL cannot be used together");
+  }
+
+  const weekStart = weekdayCodes.indexOf(fields.get("WKST") ?? "MO");
+  if (weekStart === -1) {
+    throw new RecurrenceRuleError("Invalid WKST value");
+  }
+
+  return {
+    calendar: rscale === "ISLAMIC-UMALQURA" ? "hijri" : "gregorian",
+    freq,
+    interval: fields.has("INTERVAL") ? parseInteger("INTERVAL", fields.get("INTERVAL")!, 1, MAX_INTERVAL) : 1,
+    byDay,
+    byMonthDay,
+    byMonth,
+    count: fields.has("COUNT") ? parseInteger("COUNT", fields.get("COUNT")!, 1, 10_000) : undefined,
+    until: fields.has("UNTIL") ? parseUntil(fields.get("UNTIL")!, timeZone) : undefined,
+    weekStart,
+    skipBackward: skip === "BACKWARD",
+  };
+}
+
+// Calendar arithmetic
+
+function weekdayOf(day: Day): number {
+  // 1970-01-01 was a Thursday
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function gregorianParts(day: Day): DayParts {
+  const date = new Date(day * DAY_MS);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  return {
+    year,
+    month,
+    day: date.getUTCDate(),
+    weekday: weekdayOf(day),
+    monthLength: new Date(Date.UTC(year, month, 0)).getUTCDate(),
+  };
+}
+
+const hijriFormat = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura-nu-latn", {
+  timeZone: "UTC",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+});
+const hijriCache = new Map<Day, { year: number; month: number; day: number }>();
+const MAX_HIJRI_CACHE = 20_000;
+
+function hijriDate(day: Day) {
+  let date = hijriCache.get(day);
+  if (!date) {
+    const parts = hijriFormat.formatToParts(new Date(day * DAY_MS));
+    const get = (type: string) => parseInt(parts.find((part) => part.type === type)!.value, 10);
+    date = { year: get("year"), month: get("month"), day: get("day") };
+    if (hijriCache.size >= MAX_HIJRI_CACHE) hijriCache.clear();
+    hijriCache.set(day, date);
+  }
+  return date;
+}
+
+function hijriParts(day: Day): DayParts {
+  const date = hijriDate(day);
+  // Hijri months have 29 or 30 days: see whether the 30th exists
+  const thirtieth = hijriDate(day - (date.day - 1) + 29);
+  return { ...date, weekday: weekdayOf(day), monthLength: thirtieth.day === 30 ? 30 : 29 };
+}
+
+function partsOf(day: Day, rule: RecurrenceRule): DayParts {
+  return rule.calendar === "hijri" ? hijriParts(day) : gregorianParts(day);
+}
+
+function weekFloor(day: Day, weekStart: number): Day {
+  return day - ((weekdayOf(day) - weekStart + 7) % 7);
+}
+
+// Rule matching
+
+function matchesMonthDay(monthDay: number, parts: DayParts, skipBackward: boolean): boolean {
+  const target = monthDay > 0 ? monthDay : parts.monthLength + monthDay + 1;
+  if (target === parts.day) {
+    return true;
+  }
+  return skipBackward && monthDay > parts.monthLength && parts.day === parts.monthLength;
+}
+
+function matchesWeekday(rule: WeekdayRule, parts: DayParts): boolean {
+  if (rule.weekday !== parts.weekday) {
+    return false;
+  }
+  if (!rule.ordinal) {
+    return true;
+  }
+  return rule.ordinal > 0
+    ? Math.ceil(parts.day / 7) === rule.ordinal
+    : Math.ceil((parts.monthLength - parts.day + 1) / 7) === -rule.ordinal;
+}
+
+// Whether the day is an occurrence of a series starting on `start`. Parts of
+// the rule that are left out default to the start day, as in RFC 5545.
+function matches(rule: RecurrenceRule, day: Day, start: Day): boolean {
+  if (day < start) {
+    return false;
+  }
+  const parts = partsOf(day, rule);
+  const first = partsOf(start, rule);
+
+  let period: number;
+  switch (rule.freq) {
+    case "DAILY":
+      period = day - start;
+      break;
+    case "WEEKLY":
+      period = (weekFloor(day, rule.weekStart) - weekFloor(start, rule.weekStart)) / 7;
+      break;
+    case "MONTHLY":
+      period = (parts.year - first.year) * 12 + parts.month - first.month;
+      break;
+    case "YEARLY":
+      period = parts.year - first.year;
+      break;
+  }
+  if (period % rule.interval !== 0) {
+    return false;
+  }
+
+  const hasDayRule = rule.byDay.length > 0 || rule.byMonthDay.length > 0;
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(parts.month)) {
+    return false;
+  }
+  if (rule.freq === "YEARLY" && rule.byMonth.length === 0 && !hasDayRule && parts.month !== first.month) {
+    return false;
+  }
+  if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some((monthDay) => matchesMonthDay(monthDay, parts, rule.skipBackward))) {
+    return false;
+  }
+  if (rule.byDay.length > 0 && !rule.byDay.some((weekday) => matchesWeekday(weekday, parts))) {
+    return false;
+  }
+  if (!hasDayRule) {
+    if (rule.freq === "WEEKLY") {
+      return parts.weekday === first.weekday;
+    }
+    if (rule.freq === "MONTHLY" || rule.freq === "YEARLY") {
+      return matchesMonthDay(first.day, parts, rule.skipBackward);
+    }
+  }
+  return true;
+}
+
+function findNext(rule: RecurrenceRule, after: Day, start: Day): Day | null {
+  const limit = after + PERIOD_DAYS[rule.freq] * rule.interval + SEARCH_SLACK_DAYS;
+  for (let day = after + 1; day <= limit; day++) {
+    if (matches(rule, day, start)) {
+      return day;
+    }
+  }
+  return null;
+}
+
+// Time zones
+
+function dayInZone(date: Date, timeZone: string): { day: Day; minutes: number } {
+  const local = wallClock(date.getTime(), timeZone);
+  const day = Math.floor(local / DAY_MS);
+  return { day, minutes: Math.round((local - day * DAY_MS) / 60_000) };
+}
+
+function instantInZone(day: Day, minutes: number, timeZone: string): Date {
+  return fromWallClock(day * DAY_MS + minutes * 60_000, timeZone);
+}
+
+// Series
+
+// The rule as stored, for telling whether a client sent a different one
+export function normalizeRule(text: string): string {
+  return text.trim().replace(/^RRULE:/i, "").toUpperCase();
+}
+
+// Starts a series at the task's due date, or today when it has none. The due
+// date moves to the first day the rule matches on or after it.
+export function buildRecurrence(input: TaskRecurrenceInput, dueDate: Date | null, now = new Date()): { recurrence: TaskRecurrence; dueDate: Date } {
+  const rule = parseRecurrenceRule(input.rule, input.timeZone);
+  const anchor = dayInZone(dueDate ?? now, input.timeZone);
+  // Due dates picked without a time are midnight
+  const minutes = dueDate ? anchor.minutes : 0;
+
+  const startDay = matches(rule, anchor.day, anchor.day) ? anchor.day : findNext(rule, anchor.day, anchor.day);
+  const start = startDay === null ? null : instantInZone(startDay, minutes, input.timeZone);
+  if (!start || (rule.until && start > rule.until)) {
+    throw new RecurrenceRuleError("The rule has no occurrences from the due date on");
+  }
+
+  return {
+    recurrence: {
+      rule: normalizeRule(input.rule),
+      timeZone: input.timeZone,
+      start: start.toISOString(),
+      occurrence: 1,
+      paused: false,
+    },
+    dueDate: start,
+  };
+}
+
+// The first occurrence after `current` that is not before `notBefore`,
+// passing over (and counting) any missed in between. Null once the series has
+// ended through COUNT or UNTIL.
+export function nextOccurrence(recurrence: TaskRecurrence, current: Date, notBefore: Date): { dueDate: Date; occurrence: number } | null {
+  const rule = parseRecurrenceRule(recurrence.rule, recurrence.timeZone);
+  const start = dayInZone(new Date(recurrence.start), recurrence.timeZone);
+  let day: Day | null = dayInZone(current, recurrence.timeZone).day;
+  let occurrence = recurrence.occurrence;
+
+  while (true) {
+    day = findNext(rule, day, start.day);
+    if (day === null) {
+      return null;
+    }
+    occurrence++;
+    if (rule.count && occurrence > rule.count) {
+      return null;
+    }
+    const dueDate = instantInZone(day, start.minutes, recurrence.timeZone);
+    if (rule.until && dueDate > rule.until) {
+      return null;
+    }
+    if (dueDate >= notBefore) {
+      return { dueDate, occurrence };
+    }
+  }
+}
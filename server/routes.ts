@@ -1,34 +1,178 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
+import type { Express, Request } from "express";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { insertConversationSchema, insertMessageSchema, insertTaskSchema, insertBusinessProcessSchema, updateSettingsSchema } from "@shared/schema";
-import { generateAIResponse } from "./openai";
+import { storage, WipLimitError } from "./storage";
+import { insertConversationSchema, insertMessageSchema, sendMessageSchema, insertTaskSchema, updateTaskSchema, createConversationTasksSchema, taskFiltersSchema, moveTaskSchema, insertTaskColumnSchema, updateTaskColumnSchema, reorderTaskColumnsSchema, MAX_TASK_COLUMNS, MAX_ATTACHMENT_BYTES, insertBusinessProcessSchema, updateBusinessProcessSchema, knowledgeStatusChangeSchema, insertKnowledgeCommentSchema, knowledgeImportAnalyzeSchema, knowledgeImportSchema, insertMemorySchema, updateMemorySchema, updateSettingsSchema, updateUserTimeZoneSchema, suggestMeetingSlotsSchema, bookMeetingSlotSchema, updateCalendarEventSchema, updateUserRoleSchema, canEditKnowledge, canChangeKnowledgeStatus, hasPermission, isWorkspaceSetting, knowledgeTransitions, type KnowledgeStatus, type Task, type TaskColumn, type TaskRecurrence, type TaskRecurrenceInput, type UpdateTask, type BusinessProcess, type Memory, type ToolCallRecord, settingsTimeZone } from "@shared/schema";
+import { streamAIResponse } from "./ai";
+import { prepareConversationContext } from "./contextWindow";
+import { indexBusinessProcess, invalidateKnowledgeIndex, reindexKnowledgeBase, retrieveRelevantKnowledge, type RetrievedKnowledge } from "./knowledgeBase";
+import { search, parseSearchTypes } from "./search";
+import { addMemory, editMemory, extractMemories, invalidateMemoryCache, reembedMemories, retrieveRelevantMemories, serializeMemory } from "./memory";
+import { describeLLMProviders } from "./llm";
+import { AttachmentError, resolveAttachments, toModelTurns } from "./attachments";
+import { analyzeKnowledgeImport } from "./knowledgeImport";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { ObjectPermission, canSetObjectAclPolicy, getObjectAclPolicy, objectAclRequestSchema } from "./objectAcl";
+import { getObjectStorageBackend, LocalObjectStorageBackend, LocalUploadError, LOCAL_UPLOAD_ROUTE_PREFIX } from "./objectBackends";
 import { GmailService } from "./gmail";
-import { GoogleCalendarService } from "./googleCalendar";
+import { CalendarEventError, GoogleCalendarService, type EventEditScope } from "./googleCalendar";
+import { getUserTimeZone } from "./timeZone";
+import { SchedulingError, bookMeetingSlot, suggestMeetingSlots } from "./meetingScheduler";
+import { buildRecurrence, nextOccurrence, normalizeRule } from "./recurrence";
+import { advanceTaskSeries, startTaskScheduler, type SeriesContinuation } from "./taskScheduler";
+import { proposeConversationTasks, proposeExchangeTasks } from "./taskExtraction";
+import { CalendarSyncError, carryCalendarLink, createTaskFromEvent, linkTaskToCalendar, pushTaskToCalendar, releaseDeletedTasks, startCalendarSync, unlinkTaskFromCalendar } from "./calendarSync";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { setupAuth, requireAuth, requirePermission, getSessionUserId, toPublicUser } from "./auth";
+
+// An assistant reply that is still being streamed to subscribers. The partial
+// content is kept so clients that subscribe mid-generation can catch up.
+interface ActiveGeneration {
+  streamId: string;
+  userId: string;
+  conversationId: string;
+  content: string;
+  toolCalls: ToolCallRecord[];
+  abortController: AbortController;
+}
+
+// Checks the conversation, assignee, parent and column a task refers to.
+// Returns the problem to report, or null. Subtasks cannot have subtasks of
+// their own.
+async function validateTaskReferences(userId: string, data: UpdateTask, existing?: Task): Promise<string | null> {
+  if (data.conversationId && !(await storage.getConversation(userId, data.conversationId))) {
+    return "Conversation not found";
+  }
+  if (data.assigneeId && !(await storage.getUser(data.assigneeId))) {
+    return "Assignee not found";
+  }
+  if (data.parentId) {
+    const parent = await storage.getTask(userId, data.parentId);
+    if (!parent) {
+      return "Parent task not found";
+    }
+    if (parent.id === existing?.id) {
+      return "A task cannot be its own subtask";
+    }
+    if (parent.parentId) {
+      return "Subtasks cannot have subtasks of their own";
+    }
+    if (existing && (await storage.getTasks(userId, { parentId: existing.id })).length > 0) {
+      return "A task with subtasks cannot become a subtask";
+    }
+  }
+  if (data.columnId && !(await storage.getTaskColumn(data.columnId))) {
+    return "Column not found";
+  }
+  return null;
+}
+
+// Turns the recurrence a client sent into the stored form. A new rule starts
+// a new series and moves the due date to its first occurrence; resending the
+// current rule leaves the series as it is.
+function resolveRecurrence(
+  input: TaskRecurrenceInput | null | undefined,
+  dueDate: Date | null | undefined,
+  existing?: Task,
+): { recurrence?: TaskRecurrence | null; dueDate?: Date } {
+  if (input === undefined) {
+    return {};
+  }
+  if (input === null) {
+    return { recurrence: null };
+  }
+  const current = existing?.recurrence;
+  if (current && current.rule === normalizeRule(input.rule) && current.timeZone === input.timeZone) {
+    return {};
+  }
+  return buildRecurrence(input, dueDate !== undefined ? dueDate : existing?.dueDate ?? null);
+}
+
+const recurrenceActionSchema = z.enum(["skip", "pause", "resume"]);
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login routes and the /api auth guard come before any other route
+  setupAuth(app);
+
   const httpServer = createServer(app);
 
-  // WebSocket server for real-time communication
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // The signed-in user behind each accepted upgrade request
+  const upgradeUsers = new WeakMap<IncomingMessage, string>();
 
-  wss.on('connection', (ws) => {
+  // WebSocket server for real-time communication; the upgrade is refused
+  // without a signed-in session
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      getSessionUserId(info.req)
+        .then((userId) => {
+          if (userId) upgradeUsers.set(info.req, userId);
+          done(userId !== null, 401, 'Unauthorized');
+        })
+        .catch(() => done(false, 500));
+    },
+  });
+
+  // Conversation ids each client has subscribed to for streamed replies
+  const subscriptions = new Map<WebSocket, Set<string>>();
+  const clientUsers = new Map<WebSocket, string>();
+  const activeGenerations = new Map<string, ActiveGeneration>();
+
+  wss.on('connection', (ws, req) => {
     console.log('WebSocket client connected');
+    const userId = upgradeUsers.get(req)!;
+    subscriptions.set(ws, new Set());
+    clientUsers.set(ws, userId);
 
     ws.on('message', async (data) => {
       try {
         const message = JSON.parse(data.toString());
-        console.log('Received WebSocket message:', message);
-        
-        ws.send(JSON.stringify({ type: 'ack', data: message }));
+        const conversationId = typeof message.conversationId === 'string' ? message.conversationId : undefined;
+
+        switch (message.type) {
+          case 'subscribe': {
+            if (!conversationId || !(await storage.getConversation(userId, conversationId))) break;
+            subscriptions.get(ws)?.add(conversationId);
+
+            const generation = activeGenerations.get(conversationId);
+            if (generation) {
+              ws.send(JSON.stringify({
+                type: 'message_stream_start',
+                data: {
+                  conversationId,
+                  streamId: generation.streamId,
+                  content: generation.content,
+                  toolCalls: generation.toolCalls,
+                },
+              }));
+            }
+            break;
+          }
+          case 'unsubscribe': {
+            if (conversationId) subscriptions.get(ws)?.delete(conversationId);
+            break;
+          }
+          case 'cancel': {
+            if (!conversationId) break;
+            const generation = activeGenerations.get(conversationId);
+            if (generation && generation.userId === userId && (!message.streamId || message.streamId === generation.streamId)) {
+              generation.abortController.abort();
+            }
+            break;
+          }
+          default:
+            ws.send(JSON.stringify({ type: 'ack', data: message }));
+        }
       } catch (error) {
         console.error('WebSocket error:', error);
       }
     });
 
     ws.on('close', () => {
+      subscriptions.delete(ws);
+      clientUsers.delete(ws);
       console.log('WebSocket client disconnected');
     });
   });
@@ -42,197 +186,1014 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  // Send only to the given user's clients
+  const broadcastToUser = (userId: string, data: any) => {
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN && clientUsers.get(client) === userId) {
+        client.send(JSON.stringify(data));
+      }
+    });
+  };
+
+  // Shared knowledge entries concern everyone, private ones only their owner
+  const broadcastKnowledge = (process: BusinessProcess, data: any) => {
+    if (process.visibility === 'private' && process.userId) {
+      broadcastToUser(process.userId, data);
+    } else {
+      broadcast(data);
+    }
+  };
+
+  // Task changes go to the owner and, when different, the assignee
+  const broadcastTask = (task: Task, data: any) => {
+    if (task.userId) broadcastToUser(task.userId, data);
+    if (task.assigneeId && task.assigneeId !== task.userId) broadcastToUser(task.assigneeId, data);
+  };
+
+  // The next occurrence also follows the previous one onto the calendar
+  const onSeriesContinued = ({ previous, next }: SeriesContinuation) => {
+    broadcastTask(previous, { type: 'task_updated', data: previous });
+    if (next) {
+      broadcastTask(next, { type: 'task_created', data: next });
+      void carryCalendarLink(previous, next);
+    }
+  };
+
+  // Completing the current task of a recurring series brings in the next one
+  // straight away rather than waiting for its date
+  const continueSeries = async (task: Task) => {
+    if (task.status !== "completed" || !task.recurrence) return;
+    try {
+      const continuation = await advanceTaskSeries(task);
+      if (continuation) onSeriesContinued(continuation);
+    } catch (error) {
+      console.error(`Failed to continue recurring task ${task.id}:`, error);
+    }
+  };
+
+  startTaskScheduler(onSeriesContinued);
+  startCalendarSync((task) => broadcastTask(task, { type: 'task_updated', data: task }));
+
+  // Send only to clients subscribed to the given conversation
+  const broadcastToConversation = (conversationId: string, data: any) => {
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN && subscriptions.get(client)?.has(conversationId)) {
+        client.send(JSON.stringify(data));
+      }
+    });
+  };
+
+  // Streams the assistant reply for a conversation to its subscribers and
+  // persists it once the generation completes or is cancelled.
+  const runGeneration = async (generation: ActiveGeneration) => {
+    const { userId, conversationId, streamId } = generation;
+
+    try {
+      const [conversation, conversationMessages, settings] = await Promise.all([
+        storage.getConversation(userId, conversationId),
+        storage.getMessages(userId, conversationId),
+        storage.getSettings(userId),
+      ]);
+      if (!conversation) {
+        throw new Error("Conversation not found");
+      }
+      const latestUserMessage = conversationMessages.filter(m => m.role === "user").slice(-1)[0]?.content || "";
+
+      // Older turns beyond the token budget are replaced by a rolling summary
+      const context = await prepareConversationContext(conversation, conversationMessages, settings.contextTokenBudget);
+      if (context.summaryUpdated) {
+        broadcastToConversation(conversationId, {
+          type: 'conversation_summary_updated',
+          data: {
+            conversationId,
+            summary: context.summaryUpdated.summary,
+            summarizedUntil: context.summaryUpdated.summarizedUntil,
+          },
+        });
+      }
+
+      // Retrieval is best-effort: answer without grounding if it fails
+      let knowledge: RetrievedKnowledge[] = [];
+      try {
+        knowledge = await retrieveRelevantKnowledge(userId, latestUserMessage);
+      } catch (error) {
+        console.error('Knowledge retrieval error:', error);
+      }
+
+      let memories: Memory[] = [];
+      try {
+        memories = await retrieveRelevantMemories(userId, latestUserMessage);
+      } catch (error) {
+        console.error('Memory retrieval error:', error);
+      }
+
+      // The latest turn's attachments are read into it; older ones are named
+      const turns = await toModelTurns(context.messages, settings.contextTokenBudget);
+
+      const { content, cancelled, toolCalls, citations } = await streamAIResponse(
+        turns,
+        {
+          userId,
+          summary: context.summary,
+          knowledge,
+          memories,
+          signal: generation.abortController.signal,
+          toolContext: {
+            userId,
+            conversationId,
+            timeZone: settingsTimeZone(settings),
+            onTaskChange: (type, task) => {
+              broadcastTask(task, { type, data: type === 'task_deleted' ? { id: task.id } : task });
+              if (type === 'task_updated') {
+                void continueSeries(task);
+                void pushTaskToCalendar(task);
+              }
+              if (type === 'task_deleted') void releaseDeletedTasks();
+            },
+          },
+          onDelta: (delta) => {
+            generation.content += delta;
+            broadcastToConversation(conversationId, {
+              type: 'message_delta',
+              data: { conversationId, streamId, delta },
+            });
+          },
+          onToolCall: (toolCall) => {
+            generation.toolCalls.push(toolCall);
+            broadcastToConversation(conversationId, {
+              type: 'message_tool_call',
+              data: { conversationId, streamId, toolCall },
+            });
+          },
+        }
+      );
+
+      // Nothing worth keeping if the user stopped before the assistant did anything
+      const aiMessage = content || toolCalls.length > 0
+        ? await storage.createMessage({
+            conversationId,
+            role: "assistant",
+            content,
+            toolCalls: toolCalls.length > 0 ? toolCalls : null,
+            citations: citations.length > 0 ? citations : null,
+          })
+        : null;
+
+      if (aiMessage) {
+        broadcastToUser(userId, { type: 'message_created', data: aiMessage });
+      }
+      broadcastToConversation(conversationId, {
+        type: 'message_stream_end',
+        data: { conversationId, streamId, message: aiMessage, cancelled },
+      });
+
+      // Remember durable facts from completed exchanges in the background
+      if (aiMessage && !cancelled && content && latestUserMessage) {
+        extractMemories(userId, conversationId, { userMessage: latestUserMessage, assistantMessage: content })
+          .then((created) => created.forEach((memory) => broadcastToUser(userId, { type: 'memory_created', data: serializeMemory(memory) })))
+          .catch((error) => console.error('Memory extraction error:', error));
+      }
+
+      // Offer the exchange's action items as tasks; nothing is created until
+      // the user confirms them
+      if (settings.autoExtractTasks && aiMessage && !cancelled && content && latestUserMessage) {
+        proposeExchangeTasks(userId, conversationId, { userMessage: latestUserMessage, assistantMessage: content })
+          .then((proposals) => {
+            if (proposals.length > 0) {
+              broadcastToUser(userId, { type: 'task_proposals', data: { conversationId, proposals } });
+            }
+          })
+          .catch((error) => console.error('Task extraction error:', error));
+      }
+    } catch (error: any) {
+      console.error('Message generation error:', error);
+      broadcastToConversation(conversationId, {
+        type: 'message_stream_end',
+        data: { conversationId, streamId, message: null, cancelled: false, error: error.message },
+      });
+    } finally {
+      activeGenerations.delete(conversationId);
+    }
+  };
+
   // Conversations API
   app.get("/api/conversations", async (req, res) => {
     try {
-      const conversations = await storage.getConversations();
+      const conversations = await storage.getConversations(req.user!.id);
       res.json(conversations);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/conversations/:id", async (req, res) => {
+  app.get("/api/conversations/:id", async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/conversations", async (req, res) => {
+    try {
+      const data = insertConversationSchema.parse(req.body);
+      const conversation = await storage.createConversation(req.user!.id, data);
+      broadcastToUser(req.user!.id, { type: 'conversation_created', data: conversation });
+      res.json(conversation);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Proposes tasks for the action items in a conversation. Nothing is saved:
+  // the user confirms them through POST /api/conversations/:id/tasks.
+  app.post("/api/conversations/:id/extract-tasks", async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const messages = await storage.getMessages(req.user!.id, conversation.id);
+      const proposals = await proposeConversationTasks(req.user!.id, conversation, messages);
+      res.json(proposals);
+    } catch (error: any) {
+      console.error('Task extraction error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/conversations/:id/tasks", async (req, res) => {
+    const parsed = createConversationTasksSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
+    try {
+      const conversation = await storage.getConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const created: Task[] = [];
+      for (const fields of parsed.data.tasks) {
+        const task = await storage.createTask(req.user!.id, { ...fields, conversationId: conversation.id });
+        broadcastTask(task, { type: 'task_created', data: task });
+        created.push(task);
+      }
+      res.json(created);
+    } catch (error: any) {
+      if (error instanceof WipLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Messages API (/current is registered first so it is not taken for a
+  // conversation id)
+  app.get("/api/messages/current", async (req, res) => {
+    try {
+      const messages = await storage.getCurrentMessages(req.user!.id);
+      res.json(messages);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/messages/:conversationId", async (req, res) => {
+    try {
+      const messages = await storage.getMessages(req.user!.id, req.params.conversationId);
+      res.json(messages);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/messages/:conversationId?", async (req, res) => {
+    // Set once this request holds the conversation's generation slot, so
+    // every failure below can give it back
+    let reserved: ActiveGeneration | undefined;
+    const release = () => {
+      if (reserved && activeGenerations.get(reserved.conversationId) === reserved) {
+        activeGenerations.delete(reserved.conversationId);
+      }
+    };
+
+    try {
+      const userId = req.user!.id;
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { content, attachments: uploads } = parsed.data;
+      let conversationId = req.params.conversationId;
+
+      if (conversationId && !(await storage.getConversation(userId, conversationId))) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      if (conversationId && activeGenerations.has(conversationId)) {
+        return res.status(409).json({ error: "A reply is already being generated for this conversation" });
+      }
+
+      // Take the slot before the next await so a concurrent post to the same
+      // conversation gets the 409 above instead of starting a second reply
+      const generation: ActiveGeneration = {
+        streamId: randomUUID(),
+        userId,
+        conversationId: conversationId ?? "",
+        content: "",
+        toolCalls: [],
+        abortController: new AbortController(),
+      };
+      if (conversationId) {
+        activeGenerations.set(conversationId, generation);
+        reserved = generation;
+      }
+
+      // Attachments are checked and their text extracted before anything is saved
+      const attachments = await resolveAttachments(userId, uploads);
+
+      // Create a new conversation if none exists
+      if (!conversationId) {
+        const titleSource = content.trim() || attachments[0].name;
+        const conversation = await storage.createConversation(userId, {
+          title: titleSource.slice(0, 50) + (titleSource.length > 50 ? "..." : ""),
+        });
+        conversationId = conversation.id;
+        generation.conversationId = conversationId;
+        activeGenerations.set(conversationId, generation);
+        reserved = generation;
+      }
+
+      // Save user message
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: "user",
+        content,
+        attachments: attachments.length > 0 ? attachments : null,
+      });
+
+      broadcastToUser(userId, { type: 'message_created', data: userMessage });
+
+      // runGeneration releases the slot from here on
+      reserved = undefined;
+      void runGeneration(generation);
+
+      // The assistant reply follows over /ws as message_delta events
+      res.json({ userMessage, conversationId, streamId: generation.streamId });
+    } catch (error: any) {
+      release();
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(400).json({ error: "Attachment not found" });
+      }
+      console.error('Message creation error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Tasks API
+  app.get("/api/tasks", async (req, res) => {
+    const filters = taskFiltersSchema.safeParse(req.query);
+    if (!filters.success) {
+      return res.status(400).json({ error: filters.error.message });
+    }
+
+    try {
+      const tasks = await storage.getTasks(req.user!.id, filters.data);
+      res.json(tasks);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/tasks/:id", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.user!.id, req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      res.json(task);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/tasks", async (req, res) => {
+    try {
+      const data = insertTaskSchema.parse(req.body);
+      const invalid = await validateTaskReferences(req.user!.id, data);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const { recurrence, ...fields } = data;
+      const task = await storage.createTask(req.user!.id, { ...fields, ...resolveRecurrence(recurrence, fields.dueDate) });
+      broadcastTask(task, { type: 'task_created', data: task });
+      await continueSeries(task);
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof WipLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/tasks/:id", async (req, res) => {
+    try {
+      const updates = updateTaskSchema.parse(req.body);
+      const existing = await storage.getTask(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const invalid = await validateTaskReferences(req.user!.id, updates, existing);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const { recurrence, ...fields } = updates;
+      const task = await storage.updateTask(req.user!.id, req.params.id, {
+        ...fields,
+        ...resolveRecurrence(recurrence, fields.dueDate, existing),
+      });
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      broadcastTask(task, { type: 'task_updated', data: task });
+      await continueSeries(task);
+      void pushTaskToCalendar(task);
+      // A previous assignee no longer sees the task
+      if (existing.assigneeId && existing.assigneeId !== task.assigneeId && existing.assigneeId !== task.userId) {
+        broadcastToUser(existing.assigneeId, { type: 'task_deleted', data: { id: task.id } });
+      }
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof WipLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/move", async (req, res) => {
+    const parsed = moveTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
+    try {
+      const existing = await storage.getTask(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const column = await storage.getTaskColumn(parsed.data.columnId);
+      if (!column) {
+        return res.status(400).json({ error: "Column not found" });
+      }
+      const task = await storage.moveTask(req.user!.id, existing.id, column.id, parsed.data.beforeId);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      broadcastTask(task, { type: 'task_updated', data: task });
+      await continueSeries(task);
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof WipLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Skips the next occurrence of a recurring task (its due date moves to the
+  // one after), or pauses or resumes the series
+  app.post("/api/tasks/:id/recurrence/:action", async (req, res) => {
+    const action = recurrenceActionSchema.safeParse(req.params.action);
+    if (!action.success) {
+      return res.status(404).json({ error: "Unknown recurrence action" });
+    }
+
+    try {
+      const existing = await storage.getTask(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const recurrence = existing.recurrence;
+      if (!recurrence) {
+        return res.status(400).json({ error: "The task does not repeat" });
+      }
+
+      let updates: Partial<Task>;
+      if (action.data === "skip") {
+        const current = existing.dueDate ?? new Date();
+        const next = nextOccurrence(recurrence, current, new Date(current.getTime() + 1));
+        if (!next) {
+          return res.status(400).json({ error: "The series has no further occurrences" });
+        }
+        updates = { dueDate: next.dueDate, recurrence: { ...recurrence, occurrence: next.occurrence } };
+      } else {
+        updates = { recurrence: { ...recurrence, paused: action.data === "pause" } };
+      }
+
+      const task = await storage.updateTask(req.user!.id, existing.id, updates);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      broadcastTask(task, { type: 'task_updated', data: task });
+      void pushTaskToCalendar(task);
+      res.json(task);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/tasks/:id", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.user!.id, req.params.id);
+      if (task && task.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the task's owner can delete it" });
+      }
+      await storage.deleteTask(req.user!.id, req.params.id);
+      if (task) {
+        broadcastTask(task, { type: 'task_deleted', data: { id: req.params.id } });
+        void releaseDeletedTasks();
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Links between tasks and Google Calendar events
+  app.get("/api/task-calendar-links", async (req, res) => {
+    try {
+      const links = await storage.getTaskCalendarLinks(req.user!.id);
+      res.json(links);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/calendar", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.user!.id, req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const link = await linkTaskToCalendar(task);
+      res.json(link);
+    } catch (error: any) {
+      if (error instanceof CalendarSyncError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Calendar link error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/tasks/:id/calendar", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.user!.id, req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const link = await storage.getTaskCalendarLink(task.id);
+      if (link) {
+        await unlinkTaskFromCalendar(link);
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Calendar unlink error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Task board columns, shared by the workspace
+  app.get("/api/task-columns", async (req, res) => {
+    try {
+      const columns = await storage.getTaskColumns();
+      res.json(columns);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/task-columns", requirePermission("board:manage"), async (req, res) => {
+    try {
+      const data = insertTaskColumnSchema.parse(req.body);
+      if ((await storage.getTaskColumns()).length >= MAX_TASK_COLUMNS) {
+        return res.status(400).json({ error: `The board can have at most ${MAX_TASK_COLUMNS} columns` });
+      }
+      const column = await storage.createTaskColumn(data);
+      broadcast({ type: 'task_columns_updated', data: column });
+      res.json(column);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Registered before /:id so "reorder" is not taken for a column id
+  app.post("/api/task-columns/reorder", requirePermission("board:manage"), async (req, res) => {
+    const parsed = reorderTaskColumnsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
+    try {
+      const current = await storage.getTaskColumns();
+      const ids = new Set(parsed.data.ids);
+      if (ids.size !== current.length || current.some((column) => !ids.has(column.id))) {
+        return res.status(400).json({ error: "The new order must list every column once" });
+      }
+      const columns = await storage.reorderTaskColumns(parsed.data.ids);
+      broadcast({ type: 'task_columns_updated', data: columns });
+      res.json(columns);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/task-columns/:id", requirePermission("board:manage"), async (req, res) => {
+    try {
+      const updates = updateTaskColumnSchema.parse(req.body);
+      const existing = await storage.getTaskColumn(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Column not found" });
+      }
+      // Every status keeps at least one column for tasks to land in
+      if (updates.status && updates.status !== existing.status) {
+        const columns = await storage.getTaskColumns();
+        if (!columns.some((column) => column.id !== existing.id && column.status === existing.status)) {
+          return res.status(400).json({ error: "Every task status needs at least one column" });
+        }
+      }
+      const column = await storage.updateTaskColumn(existing.id, updates);
+      broadcast({ type: 'task_columns_updated', data: column });
+      res.json(column);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // The column's tasks move to the first other column with the same status
+  app.delete("/api/task-columns/:id", requirePermission("board:manage"), async (req, res) => {
+    try {
+      const columns = await storage.getTaskColumns();
+      const existing = columns.find((column) => column.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Column not found" });
+      }
+      const fallback = columns.find((column) => column.id !== existing.id && column.status === existing.status);
+      if (!fallback) {
+        return res.status(400).json({ error: "Every task status needs at least one column" });
+      }
+      await storage.deleteTaskColumn(existing.id, fallback.id);
+      broadcast({ type: 'task_columns_updated', data: { id: existing.id } });
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Memory API
+  app.get("/api/memories", async (req, res) => {
+    try {
+      const memories = await storage.getMemories(req.user!.id);
+      res.json(memories.map(serializeMemory));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/memories", async (req, res) => {
+    try {
+      const validatedData = insertMemorySchema.parse(req.body);
+      const memory = await addMemory(req.user!.id, validatedData);
+      res.json(serializeMemory(memory));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/memories/:id", async (req, res) => {
+    try {
+      const updates = updateMemorySchema.parse(req.body);
+      const memory = await editMemory(req.user!.id, req.params.id, updates);
+      if (!memory) {
+        return res.status(404).json({ error: "Memory not found" });
+      }
+      res.json(serializeMemory(memory));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/memories/:id", async (req, res) => {
+    try {
+      await storage.deleteMemory(req.user!.id, req.params.id);
+      invalidateMemoryCache(req.user!.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Search API
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q : "";
+      let types;
+      try {
+        types = parseSearchTypes(req.query.types);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      const limit = req.query.limit ? Number(req.query.limit) : undefined;
+      if (limit !== undefined && !Number.isInteger(limit)) {
+        return res.status(400).json({ error: "limit must be an integer" });
+      }
+
+      const results = await search(req.user!.id, query, { types, limit });
+      res.json(results);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Knowledge Base API
+  app.get("/api/knowledge", async (req, res) => {
+    try {
+      const processes = await storage.getBusinessProcesses(req.user!.id);
+      res.json(processes);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Entries in review: those assigned to the caller, plus every other one
+  // for users who may publish
+  app.get("/api/knowledge/review-queue", async (req, res) => {
     try {
-      const conversation = await storage.getConversation(req.params.id);
-      if (!conversation) {
-        return res.status(404).json({ error: "Conversation not found" });
-      }
-      res.json(conversation);
+      const canPublish = hasPermission(req.user!.role, "knowledge:publish");
+      const processes = await storage.getBusinessProcesses(req.user!.id);
+      const queue = processes
+        .filter((process) => process.status === "in_review" && (canPublish || process.reviewerId === req.user!.id))
+        .sort((a, b) => Number(b.reviewerId === req.user!.id) - Number(a.reviewerId === req.user!.id));
+      res.json(queue);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/conversations", async (req, res) => {
+  // Users an entry can be sent to for review
+  app.get("/api/knowledge/reviewers", async (req, res) => {
     try {
-      const data = insertConversationSchema.parse(req.body);
-      const conversation = await storage.createConversation(data);
-      broadcast({ type: 'conversation_created', data: conversation });
-      res.json(conversation);
+      const users = await storage.getUsers();
+      res.json(users.filter((user) => hasPermission(user.role, "knowledge:publish")).map(toPublicUser));
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Messages API
-  app.get("/api/messages/:conversationId", async (req, res) => {
+  app.get("/api/knowledge/:id", async (req, res) => {
     try {
-      const messages = await storage.getMessages(req.params.conversationId);
-      res.json(messages);
+      const process = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      res.json(process);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/messages/current", async (req, res) => {
+  app.post("/api/knowledge", async (req, res) => {
     try {
-      const messages = await storage.getCurrentMessages();
-      res.json(messages);
+      const data = insertBusinessProcessSchema.parse(req.body);
+      const process = await storage.createBusinessProcess(req.user!.id, data);
+      indexBusinessProcess(process).catch((error) => {
+        console.error(`Failed to index knowledge entry ${process.id}:`, error);
+      });
+      broadcastKnowledge(process, { type: 'knowledge_created', data: process });
+      res.json(process);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/messages/:conversationId?", async (req, res) => {
+  app.patch("/api/knowledge/:id", async (req, res) => {
     try {
-      const { content } = req.body;
-      let conversationId = req.params.conversationId;
-
-      // Create a new conversation if none exists
-      if (!conversationId) {
-        const conversation = await storage.createConversation({
-          title: content.slice(0, 50) + (content.length > 50 ? "..." : ""),
-        });
-        conversationId = conversation.id;
+      const updates = updateBusinessProcessSchema.parse(req.body);
+      const existing = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      if (!canEditKnowledge(req.user!.role, existing)) {
+        return res.status(403).json({ error: "Only reviewers can edit published or archived entries" });
+      }
+      if (updates.visibility && updates.visibility !== existing.visibility && existing.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the owner can change who sees this entry" });
       }
 
-      // Save user message
-      const userMessage = await storage.createMessage({
-        conversationId,
-        role: "user",
-        content,
-      });
-
-      broadcast({ type: 'message_created', data: userMessage });
-
-      // Get conversation history for context (including the user message we just saved)
-      const conversationMessages = await storage.getMessages(conversationId);
-      
-      // Generate AI response with full conversation context
-      const aiContent = await generateAIResponse(
-        conversationMessages.map(m => ({ role: m.role, content: m.content }))
-      );
-
-      // Save AI message
-      const aiMessage = await storage.createMessage({
-        conversationId,
-        role: "assistant",
-        content: aiContent,
+      const process = await storage.updateBusinessProcess(req.user!.id, req.params.id, updates);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      indexBusinessProcess(process).catch((error) => {
+        console.error(`Failed to index knowledge entry ${process.id}:`, error);
       });
-
-      broadcast({ type: 'message_created', data: aiMessage });
-
-      res.json({ userMessage, aiMessage, conversationId });
+      broadcastKnowledge(process, { type: 'knowledge_updated', data: process });
+      res.json(process);
     } catch (error: any) {
-      console.error('Message creation error:', error);
-      res.status(500).json({ error: error.message });
+      res.status(400).json({ error: error.message });
     }
   });
 
-  // Tasks API
-  app.get("/api/tasks", async (req, res) => {
+  app.get("/api/knowledge/:id/versions", async (req, res) => {
     try {
-      const tasks = await storage.getTasks();
-      res.json(tasks);
+      const process = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      const versions = await storage.getBusinessProcessVersions(req.user!.id, req.params.id);
+      res.json(versions);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/tasks/:id", async (req, res) => {
+  // Restoring copies an old version's text into a new version; visibility
+  // is left as it is, since only the owner may change it
+  app.post("/api/knowledge/:id/versions/:version/restore", async (req, res) => {
     try {
-      const task = await storage.getTask(req.params.id);
-      if (!task) {
-        return res.status(404).json({ error: "Task not found" });
+      const versionNumber = Number(req.params.version);
+      const version = Number.isInteger(versionNumber)
+        ? await storage.getBusinessProcessVersion(req.user!.id, req.params.id, versionNumber)
+        : undefined;
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
       }
-      res.json(task);
+      const existing = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (existing && !canEditKnowledge(req.user!.role, existing)) {
+        return res.status(403).json({ error: "Only reviewers can edit published or archived entries" });
+      }
+
+      const process = await storage.updateBusinessProcess(req.user!.id, req.params.id, {
+        title: version.title,
+        description: version.description,
+        category: version.category,
+        content: version.content,
+        tags: version.tags,
+      }, version.version);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      indexBusinessProcess(process).catch((error) => {
+        console.error(`Failed to index knowledge entry ${process.id}:`, error);
+      });
+      broadcastKnowledge(process, { type: 'knowledge_updated', data: process });
+      res.json(process);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/tasks", async (req, res) => {
-    try {
-      const data = insertTaskSchema.parse(req.body);
-      const task = await storage.createTask(data);
-      broadcast({ type: 'task_created', data: task });
-      res.json(task);
-    } catch (error: any) {
-      res.status(400).json({ error: error.message });
+  app.post("/api/knowledge/:id/status", async (req, res) => {
+    const parsed = knowledgeStatusChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
     }
-  });
+    const { status, reviewerId, comment } = parsed.data;
 
-  app.patch("/api/tasks/:id", async (req, res) => {
     try {
-      const task = await storage.updateTask(req.params.id, req.body);
-      if (!task) {
-        return res.status(404).json({ error: "Task not found" });
+      const existing = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
       }
-      broadcast({ type: 'task_updated', data: task });
-      res.json(task);
+      if (!knowledgeTransitions[existing.status as KnowledgeStatus]?.includes(status)) {
+        return res.status(400).json({ error: `An entry cannot move from ${existing.status} to ${status}` });
+      }
+      if (!canChangeKnowledgeStatus(req.user!, existing, status)) {
+        return res.status(403).json({ error: "You do not have permission to do this" });
+      }
+
+      // The reviewer stays on record after the decision, and is cleared when
+      // the entry goes back to draft
+      let nextReviewerId = status === "draft" ? null : existing.reviewerId;
+      if (status === "in_review") {
+        const reviewer = reviewerId ? await storage.getUser(reviewerId) : undefined;
+        if (!reviewer || !hasPermission(reviewer.role, "knowledge:publish")) {
+          return res.status(400).json({ error: "Choose a reviewer who can publish knowledge entries" });
+        }
+        nextReviewerId = reviewer.id;
+      }
+
+      const process = await storage.updateBusinessProcessStatus(req.user!.id, req.params.id, status, nextReviewerId, comment);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      broadcastKnowledge(process, { type: 'knowledge_updated', data: process });
+      if (status === "in_review" && nextReviewerId && nextReviewerId !== req.user!.id) {
+        broadcastToUser(nextReviewerId, { type: 'knowledge_review_requested', data: process });
+      }
+      res.json(process);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.get("/api/knowledge/:id/comments", async (req, res) => {
     try {
-      await storage.deleteTask(req.params.id);
-      broadcast({ type: 'task_deleted', data: { id: req.params.id } });
-      res.json({ success: true });
+      const process = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      const comments = await storage.getBusinessProcessComments(req.user!.id, req.params.id);
+      res.json(comments);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Knowledge Base API
-  app.get("/api/knowledge", async (req, res) => {
+  app.post("/api/knowledge/:id/comments", async (req, res) => {
+    const parsed = insertKnowledgeCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
     try {
-      const processes = await storage.getBusinessProcesses();
-      res.json(processes);
+      const comment = await storage.createBusinessProcessComment(req.user!.id, req.params.id, parsed.data.content);
+      if (!comment) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      res.json(comment);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/knowledge/:id", async (req, res) => {
+  // Bulk import: analyze returns editable drafts, import saves the ones the
+  // user kept
+  app.post("/api/knowledge/import/analyze", async (req, res) => {
+    const parsed = knowledgeImportAnalyzeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
     try {
-      const process = await storage.getBusinessProcess(req.params.id);
-      if (!process) {
-        return res.status(404).json({ error: "Knowledge entry not found" });
-      }
-      res.json(process);
+      const drafts = await analyzeKnowledgeImport(req.user!.id, parsed.data.files);
+      res.json({ drafts });
     } catch (error: any) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(400).json({ error: "Uploaded file not found" });
+      }
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/knowledge", async (req, res) => {
+  app.post("/api/knowledge/import", async (req, res) => {
+    const parsed = knowledgeImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
     try {
-      const data = insertBusinessProcessSchema.parse(req.body);
-      const process = await storage.createBusinessProcess(data);
-      broadcast({ type: 'knowledge_created', data: process });
-      res.json(process);
+      const created: BusinessProcess[] = [];
+      for (const entry of parsed.data.entries) {
+        const process = await storage.createBusinessProcess(req.user!.id, entry);
+        indexBusinessProcess(process).catch((error) => {
+          console.error(`Failed to index knowledge entry ${process.id}:`, error);
+        });
+        broadcastKnowledge(process, { type: 'knowledge_created', data: process });
+        created.push(process);
+      }
+      res.json(created);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/knowledge/:id", async (req, res) => {
+  app.delete("/api/knowledge/:id", requirePermission("knowledge:delete"), async (req, res) => {
     try {
-      await storage.deleteBusinessProcess(req.params.id);
-      broadcast({ type: 'knowledge_deleted', data: { id: req.params.id } });
+      const process = await storage.getBusinessProcess(req.user!.id, req.params.id);
+      if (!process || !(await storage.deleteBusinessProcess(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: "Knowledge entry not found" });
+      }
+      invalidateKnowledgeIndex();
+      broadcastKnowledge(process, { type: 'knowledge_deleted', data: { id: req.params.id } });
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -240,10 +1201,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Object Storage API
-  app.get("/objects/:objectPath(*)", async (req, res) => {
+  app.get("/objects/:objectPath(*)", requireAuth, async (req, res) => {
     const objectStorageService = new ObjectStorageService();
     try {
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      const canAccess = await objectStorageService.canAccessObjectEntity({
+        userId: req.user!.id,
+        objectFile,
+        requestedPermission: ObjectPermission.READ,
+      });
+      if (!canAccess) {
+        return res.sendStatus(403);
+      }
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       console.error("Error accessing object:", error);
@@ -254,10 +1223,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Target of the signed upload URLs issued by the local-disk backend; the
+  // signature stands in for a session, as with cloud signed URLs
+  app.put(`${LOCAL_UPLOAD_ROUTE_PREFIX}/:objectPath(*)`, async (req, res) => {
+    const backend = getObjectStorageBackend();
+    if (!(backend instanceof LocalObjectStorageBackend)) {
+      return res.sendStatus(404);
+    }
+
+    const objectPath = decodeURIComponent(req.path.slice(LOCAL_UPLOAD_ROUTE_PREFIX.length));
+    if (!backend.verifyUploadURL(objectPath, String(req.query.expires ?? ""), String(req.query.signature ?? ""))) {
+      return res.status(403).json({ error: "Upload URL is invalid or has expired" });
+    }
+
+    if (Number(req.get("Content-Length")) > MAX_ATTACHMENT_BYTES) {
+      return res.status(413).json({ error: `Uploads can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` });
+    }
+
+    try {
+      // The body parsers skip this route, so the body is still unread on the
+      // request stream whatever its content type
+      await backend.getObject(objectPath).write(req, req.get("Content-Type"), MAX_ATTACHMENT_BYTES);
+      res.sendStatus(200);
+    } catch (error: any) {
+      if (error instanceof LocalUploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error storing upload:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.post("/api/objects/upload", async (req, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      // Only the requester may claim the upload once it is in place
+      await storage.recordObjectUpload(req.user!.id, objectStorageService.normalizeObjectEntityPath(uploadURL));
       res.json({ uploadURL });
     } catch (error: any) {
       console.error("Error getting upload URL:", error);
@@ -270,15 +1272,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: "attachmentURL is required" });
     }
 
+    const parsed = objectAclRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
     try {
       const objectStorageService = new ObjectStorageService();
-      const objectPath = objectStorageService.normalizeObjectEntityPath(req.body.attachmentURL);
-      
+      const normalizedPath = objectStorageService.normalizeObjectEntityPath(req.body.attachmentURL);
+      const objectFile = await objectStorageService.getObjectEntityFile(normalizedPath);
+
+      const canSet = await canSetObjectAclPolicy({ userId: req.user!.id, objectPath: normalizedPath, objectFile });
+      if (!canSet) {
+        return res.status(403).json({ error: "You do not have permission to do this" });
+      }
+
+      const existingPolicy = await getObjectAclPolicy(objectFile);
+
+      const objectPath = await objectStorageService.trySetObjectEntityAclPolicy(req.body.attachmentURL, {
+        owner: existingPolicy?.owner ?? req.user!.id,
+        visibility: parsed.data.visibility,
+        aclRules: parsed.data.aclRules,
+      });
+      if (!existingPolicy) {
+        await storage.deleteObjectUpload(normalizedPath);
+      }
+
       res.status(200).json({
         objectPath: objectPath,
       });
     } catch (error: any) {
       console.error("Error setting attachment:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
       res.status(500).json({ error: "Internal server error" });
     }
   });
@@ -317,7 +1344,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/gmail/send", async (req, res) => {
+  // Sends from the shared mailbox, so staff cannot
+  app.post("/api/gmail/send", requirePermission("gmail:send"), async (req, res) => {
     try {
       const gmailService = new GmailService();
       const { to, subject, body, cc, bcc } = req.body;
@@ -350,9 +1378,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Google Calendar API
-  app.get("/api/calendar/events", async (req, res) => {
+  // The calendar a request is for, named by ?calendarId= (or calendarId in
+  // the body) and the primary one by default, read in the user's time zone
+  const calendarServiceFor = async (req: Request) => {
+    const calendarId = typeof req.query.calendarId === 'string' ? req.query.calendarId : req.body?.calendarId;
+    return new GoogleCalendarService(await getUserTimeZone(req.user!.id), typeof calendarId === 'string' && calendarId ? calendarId : undefined);
+  };
+
+  const parseEditScope = (value: unknown): EventEditScope | undefined => {
+    if (value === undefined) return 'occurrence';
+    return value === 'occurrence' || value === 'series' ? value : undefined;
+  };
+
+  app.get("/api/calendar/calendars", async (req, res) => {
     try {
       const calendarService = new GoogleCalendarService();
+      res.json(await calendarService.listCalendars());
+    } catch (error: any) {
+      console.error("Calendar error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/calendar/events", async (req, res) => {
+    try {
+      const calendarService = await calendarServiceFor(req);
       const maxResults = req.query.maxResults ? parseInt(req.query.maxResults as string) : 20;
       const timeMin = req.query.timeMin as string | undefined;
       const events = await calendarService.listEvents(maxResults, timeMin);
@@ -368,7 +1421,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/calendar/events/upcoming", async (req, res) => {
     try {
-      const calendarService = new GoogleCalendarService();
+      const calendarService = await calendarServiceFor(req);
       const days = req.query.days ? parseInt(req.query.days as string) : 7;
       const events = await calendarService.getUpcomingEvents(days);
       res.json(events);
@@ -383,7 +1436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/calendar/events/:id", async (req, res) => {
     try {
-      const calendarService = new GoogleCalendarService();
+      const calendarService = await calendarServiceFor(req);
       const event = await calendarService.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ error: "Event not found" });
@@ -400,14 +1453,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/calendar/events", async (req, res) => {
     try {
-      const calendarService = new GoogleCalendarService();
-      const { summary, description, start, end, location, attendees } = req.body;
+      const calendarService = await calendarServiceFor(req);
+      const { summary, description, start, end, allDay, timeZone, location, attendees, recurrence } = req.body;
       if (!summary || !start || !end) {
         return res.status(400).json({ error: "summary, start, and end are required" });
       }
-      const event = await calendarService.createEvent({ summary, description, start, end, location, attendees });
+      if (recurrence !== undefined && (!Array.isArray(recurrence) || recurrence.some((line: unknown) => typeof line !== 'string'))) {
+        return res.status(400).json({ error: "recurrence must be an array of RRULE lines" });
+      }
+      const event = await calendarService.createEvent({ summary, description, start, end, allDay, timeZone, location, attendees, recurrence });
       res.json(event);
     } catch (error: any) {
+      if (error instanceof CalendarEventError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Calendar create error:", error);
       if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
         return res.status(503).json({ error: "Calendar not connected", available: false });
@@ -417,11 +1476,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.patch("/api/calendar/events/:id", async (req, res) => {
+    const parsed = updateCalendarEventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
     try {
-      const calendarService = new GoogleCalendarService();
-      const event = await calendarService.updateEvent(req.params.id, req.body);
+      const calendarService = await calendarServiceFor(req);
+      const { calendarId, scope, ...updates } = parsed.data;
+      const event = await calendarService.updateEvent(req.params.id, updates, scope);
       res.json(event);
     } catch (error: any) {
+      if (error instanceof CalendarEventError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Calendar update error:", error);
       if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
         return res.status(503).json({ error: "Calendar not connected", available: false });
@@ -432,8 +1500,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/calendar/events/:id", async (req, res) => {
     try {
-      const calendarService = new GoogleCalendarService();
-      await calendarService.deleteEvent(req.params.id);
+      const calendarService = await calendarServiceFor(req);
+      const editScope = parseEditScope(req.query.scope);
+      if (!editScope) {
+        return res.status(400).json({ error: "scope must be occurrence or series" });
+      }
+      const deletedId = await calendarService.deleteEvent(req.params.id, editScope);
+      // Linked tasks stay, no longer on the calendar: the one linked to the
+      // deleted event (the series' master when deleting a series) and the
+      // one linked to the occurrence that was picked
+      for (const eventId of Array.from(new Set([deletedId, req.params.id]))) {
+        const link = await storage.getTaskCalendarLinkByEvent(eventId);
+        if (link) {
+          await storage.deleteTaskCalendarLink(link.id);
+        }
+      }
       res.json({ success: true });
     } catch (error: any) {
       console.error("Calendar delete error:", error);
@@ -444,20 +1525,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Creates a task for the event (e.g. to follow up on a meeting), linked to it
+  app.post("/api/calendar/events/:id/task", async (req, res) => {
+    try {
+      const task = await createTaskFromEvent(req.user!.id, req.params.id);
+      broadcastTask(task, { type: 'task_created', data: task });
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof WipLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof CalendarSyncError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Calendar task error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Ranked meeting times when the attendees are free, within working hours
+  // and clear of prayer times
+  app.post("/api/calendar/suggest-slots", async (req, res) => {
+    const parsed = suggestMeetingSlotsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
+    try {
+      res.json(await suggestMeetingSlots(req.user!.id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof SchedulingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Meeting scheduling error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Books a suggested slot and invites the attendees
+  app.post("/api/calendar/book-slot", async (req, res) => {
+    const parsed = bookMeetingSlotSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+
+    try {
+      res.json(await bookMeetingSlot(req.user!.id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof SchedulingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Meeting booking error:", error);
+      if (error.message?.includes('not connected') || error.message?.includes('X_REPLIT_TOKEN')) {
+        return res.status(503).json({ error: "Calendar not connected", available: false });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Users API
+  // Everyone's name and role, for picking assignees and reviewers
+  app.get("/api/users/directory", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      // Someone must always be able to manage roles and settings
+      if (existing.role === "admin" && role !== "admin" && (await storage.countUsers("admin")) <= 1) {
+        return res.status(400).json({ error: "The last administrator cannot be demoted" });
+      }
+      const user = await storage.updateUserRole(req.params.id, role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Settings API
+  app.get("/api/llm/providers", async (req, res) => {
+    try {
+      res.json(describeLLMProviders());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get("/api/settings", async (req, res) => {
     try {
-      const settings = await storage.getSettings();
+      const settings = await storage.getSettings(req.user!.id);
       res.json(settings);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Everyone may change their own settings; the workspace-wide ones need
+  // settings:manage
   app.patch("/api/settings", async (req, res) => {
     try {
       const data = updateSettingsSchema.parse(req.body);
-      const settings = await storage.updateSettings(data);
+      const workspaceKeys = Object.keys(data).filter((key) => isWorkspaceSetting(key) && data[key as keyof typeof data] !== undefined);
+      if (workspaceKeys.length > 0 && !hasPermission(req.user!.role, "settings:manage")) {
+        return res.status(403).json({ error: `Only administrators may change ${workspaceKeys.join(", ")}` });
+      }
+      const previous = await storage.getSettings(req.user!.id);
+      const settings = await storage.updateSettings(req.user!.id, data);
+
+      // Stored vectors are only comparable with the model that produced them
+      if (settings.embeddingProvider !== previous.embeddingProvider || settings.embeddingModel !== previous.embeddingModel) {
+        reindexKnowledgeBase().catch((error) => console.error('Knowledge reindex error:', error));
+        reembedMemories().catch((error) => console.error('Memory re-embedding error:', error));
+      }
+
+      res.json(settings);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Everyone may pick their own time zone; null follows the organisation's
+  app.patch("/api/settings/time-zone", async (req, res) => {
+    try {
+      const { timeZone } = updateUserTimeZoneSchema.parse(req.body);
+      const settings = await storage.updateSettings(req.user!.id, { timeZone });
       res.json(settings);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
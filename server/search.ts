@@ -0,0 +1,208 @@
+import { searchResultTypes, type SearchResult, type SearchResultType } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizeText, normalizeWithMap, tokenizeQuery } from "./textNormalization";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+// Candidate rows fetched per type before ranking
+const CANDIDATES_PER_TYPE = 50;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40;
+const TITLE_MATCH_WEIGHT = 3;
+const PHRASE_BONUS = 2;
+// Recency adds up to this much, decaying over roughly a month
+const RECENCY_BONUS = 1;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+export interface SearchOptions {
+  types?: SearchResultType[];
+  limit?: number;
+}
+
+interface Candidate {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  body: string;
+  conversationId?: string;
+  url: string;
+  date: Date;
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+function scoreCandidate(candidate: Candidate, terms: string[], phrase: string): number {
+  const title = normalizeText(candidate.title);
+  const body = normalizeText(candidate.body);
+
+  let score = 0;
+  for (const term of terms) {
+    score += countOccurrences(title, term) * TITLE_MATCH_WEIGHT;
+    // Repeated mentions in long bodies should not outweigh a title match
+    score += Math.min(countOccurrences(body, term), 5);
+  }
+  if (terms.length > 1 && (title.includes(phrase) || body.includes(phrase))) {
+    score += PHRASE_BONUS;
+  }
+
+  const ageDays = (Date.now() - candidate.date.getTime()) / (24 * 60 * 60 * 1000);
+  score += RECENCY_BONUS * Math.pow(0.5, Math.max(ageDays, 0) / RECENCY_HALF_LIFE_DAYS);
+  return score;
+}
+
+// Cuts a window around the first match and returns the matched term ranges in
+// the original (unnormalized) text, so highlights cover diacritics too.
+function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const source = text.replace(/\s+/g, " ").trim();
+  const { text: normalized, sourceIndex } = normalizeWithMap(source);
+
+  const matches: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let i = normalized.indexOf(term); i !== -1; i = normalized.indexOf(term, i + term.length)) {
+      matches.push([sourceIndex[i], sourceIndex[i + term.length - 1] + 1]);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  const firstMatch = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  const end = Math.min(source.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+  // Avoid starting mid-word
+  if (start > 0) {
+    const space = source.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) {
+      start = space + 1;
+    }
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < source.length ? "…" : "";
+  const snippet = `${prefix}${source.slice(start, end)}${suffix}`;
+
+  const highlights: Array<[number, number]> = [];
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchStart < start || matchEnd > end) {
+      continue;
+    }
+    const range: [number, number] = [matchStart - start + prefix.length, matchEnd - start + prefix.length];
+    const previous = highlights[highlights.length - 1];
+    if (previous && range[0] <= previous[1]) {
+      previous[1] = Math.max(previous[1], range[1]);
+    } else {
+      highlights.push(range);
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+async function loadCandidates(userId: string, type: SearchResultType, terms: string[]): Promise<Candidate[]> {
+  switch (type) {
+    case "conversation": {
+      const conversations = await storage.searchConversations(userId, terms, CANDIDATES_PER_TYPE);
+      return conversations.map((conversation) => ({
+        type,
+        id: conversation.id,
+        title: conversation.title,
+        body: conversation.title,
+        conversationId: conversation.id,
+        url: `/chat/${conversation.id}`,
+        date: conversation.updatedAt,
+      }));
+    }
+    case "message": {
+      const [messages, conversations] = await Promise.all([
+        storage.searchMessages(userId, terms, CANDIDATES_PER_TYPE),
+        storage.getConversations(userId),
+      ]);
+      const titles = new Map(conversations.map((conversation) => [conversation.id, conversation.title]));
+      return messages.map((message) => ({
+        type,
+        id: message.id,
+        title: titles.get(message.conversationId) ?? "",
+        body: message.content,
+        conversationId: message.conversationId,
+        url: `/chat/${message.conversationId}`,
+        date: message.createdAt,
+      }));
+    }
+    case "task": {
+      const tasks = await storage.searchTasks(userId, terms, CANDIDATES_PER_TYPE);
+      return tasks.map((task) => ({
+        type,
+        id: task.id,
+        title: task.title,
+        body: task.description || task.title,
+        conversationId: task.conversationId ?? undefined,
+        url: "/tasks",
+        date: task.updatedAt,
+      }));
+    }
+    case "knowledge": {
+      const processes = await storage.searchBusinessProcesses(userId, terms, CANDIDATES_PER_TYPE);
+      return processes.map((process) => ({
+        type,
+        id: process.id,
+        title: process.title,
+        body: `${process.description}\n${process.content}`,
+        url: `/knowledge?entry=${process.id}`,
+        date: process.updatedAt,
+      }));
+    }
+  }
+}
+
+export function parseSearchTypes(value: unknown): SearchResultType[] | undefined {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const requested = value.split(",").map((type) => type.trim());
+  const invalid = requested.filter((type) => !searchResultTypes.includes(type as SearchResultType));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown search type: ${invalid.join(", ")}`);
+  }
+  return requested as SearchResultType[];
+}
+
+// Searches the user's conversations, messages and tasks and the knowledge
+// entries they can see. Matching is insensitive to case, Arabic diacritics,
+// hamza/alef variants, taa marbuta, alef maqsura and Arabic-Indic digits;
+// every query term must appear.
+export async function search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const types = options.types?.length ? options.types : [...searchResultTypes];
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const phrase = terms.join(" ");
+
+  const candidates = (await Promise.all(types.map((type) => loadCandidates(userId, type, terms)))).flat();
+
+  return candidates
+    .map((candidate) => ({ candidate, score: scoreCandidate(candidate, terms, phrase) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate, score }) => {
+      const { snippet, highlights } = buildSnippet(candidate.body, terms);
+      return {
+        type: candidate.type,
+        id: candidate.id,
+        title: candidate.title,
+        snippet,
+        highlights,
+        score: Math.round(score * 1000) / 1000,
+        conversationId: candidate.conversationId,
+        url: candidate.url,
+        createdAt: candidate.date.toISOString(),
+      };
+    });
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { conversations, tasks } from "@shared/schema";
+import { storage, WipLimitError } from "./storage";
+import { db, resetDatabase } from "./testDatabase";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+function account(username: string) {
+  return { username, password: "hashed.salt" };
+}
+
+describe("createFirstUser", () => {
+  it("makes the first account an administrator and hands it the data from before accounts", async () => {
+    const [conversation] = await db.insert(conversations).values({ title: "Before accounts" }).returning();
+    const [task] = await db.insert(tasks).values({ title: "Before accounts" }).returning();
+    const first = await storage.createFirstUser(account("owner"));
+
+    expect(first?.role).toBe("admin");
+    expect(await storage.getConversation(first!.id, conversation.id)).toBeDefined();
+    expect(await storage.getTask(first!.id, task.id)).toBeDefined();
+  });
+
+  it("creates nothing once an account exists", async () => {
+    await storage.createUser(account("owner"));
+    expect(await storage.createFirstUser(account("second"))).toBeUndefined();
+    expect(await storage.getUserByUsername("second")).toBeUndefined();
+  });
+
+  it("lets only one of two simultaneous sign-ups become the first", async () => {
+    const results = await Promise.all([storage.createFirstUser(account("a")), storage.createFirstUser(account("b"))]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await storage.countUsers()).toBe(1);
+    expect(await storage.countUsers("admin")).toBe(1);
+  });
+});
+
+describe("per-user data", () => {
+  let alice: string;
+  let bob: string;
+
+  beforeEach(async () => {
+    alice = (await storage.createUser(account("alice"))).id;
+    bob = (await storage.createUser(account("bob"))).id;
+  });
+
+  it("keeps conversations and their messages to their owner", async () => {
+    const conversation = await storage.createConversation(alice, { title: "Payroll" });
+    await storage.createMessage({ conversationId: conversation.id, role: "user", content: "Salaries for October" });
+
+    expect(await storage.getConversations(bob)).toEqual([]);
+    expect(await storage.getConversation(bob, conversation.id)).toBeUndefined();
+    expect(await storage.getMessages(bob, conversation.id)).toEqual([]);
+    expect(await storage.getCurrentMessages(bob)).toEqual([]);
+    expect(await storage.updateConversation(bob, conversation.id, "Taken")).toBeUndefined();
+    expect(await storage.searchConversations(bob, ["payroll"], 10)).toEqual([]);
+
+    expect(await storage.getMessages(alice, conversation.id)).toHaveLength(1);
+    expect((await storage.getConversation(alice, conversation.id))?.title).toBe("Payroll");
+  });
+
+  it("shows tasks to their owner and assignee, and lets only the owner delete them", async () => {
+    const own = await storage.createTask(alice, { title: "Own task" });
+    const assigned = await storage.createTask(alice, { title: "Assigned task", assigneeId: bob });
+
+    expect((await storage.getTasks(bob)).map((task) => task.id)).toEqual([assigned.id]);
+    expect(await storage.getTask(bob, own.id)).toBeUndefined();
+    expect(await storage.updateTask(bob, own.id, { title: "Taken" })).toBeUndefined();
+    expect(await storage.searchTasks(bob, ["own"], 10)).toEqual([]);
+
+    // An assignee may edit but not take over or delete the task
+    const edited = await storage.updateTask(bob, assigned.id, { title: "Edited", userId: bob });
+    expect(edited).toMatchObject({ title: "Edited", userId: alice });
+    await storage.deleteTask(bob, assigned.id);
+    expect(await storage.getTask(alice, assigned.id)).toBeDefined();
+    await storage.deleteTask(alice, assigned.id);
+    expect(await storage.getTask(alice, assigned.id)).toBeUndefined();
+  });
+
+  it("keeps memories to their owner", async () => {
+    const memory = await storage.createMemory(alice, { content: "Prefers Arabic replies" });
+
+    expect(await storage.getMemories(bob)).toEqual([]);
+    expect(await storage.getMemory(bob, memory.id)).toBeUndefined();
+    expect(await storage.updateMemory(bob, memory.id, { content: "Changed" })).toBeUndefined();
+    await storage.deleteMemory(bob, memory.id);
+    expect((await storage.getMemory(alice, memory.id))?.content).toBe("Prefers Arabic replies");
+  });
+
+  it("shows private knowledge entries only to their owner", async () => {
+    const entry = { description: "How we pay", category: "finance", content: "Steps" };
+    const shared = await storage.createBusinessProcess(alice, { ...entry, title: "Shared" });
+    const own = await storage.createBusinessProcess(alice, { ...entry, title: "Private", visibility: "private" });
+
+    expect((await storage.getBusinessProcesses(bob)).map((process) => process.id)).toEqual([shared.id]);
+    expect(await storage.getBusinessProcess(bob, own.id)).toBeUndefined();
+    expect(await storage.deleteBusinessProcess(bob, own.id)).toBe(false);
+    expect(await storage.getBusinessProcess(alice, own.id)).toBeDefined();
+  });
+});
+
+describe("WIP limits", () => {
+  let alice: string;
+  let bob: string;
+
+  beforeEach(async () => {
+    alice = (await storage.createUser(account("alice"))).id;
+    bob = (await storage.createUser(account("bob"))).id;
+    const [, inProgress] = await storage.getTaskColumns();
+    await storage.updateTaskColumn(inProgress.id, { wipLimit: 1 });
+  });
+
+  it("counts every user's tasks, whichever way a task enters the column", async () => {
+    await storage.createTask(alice, { title: "Started", status: "in_progress" });
+    const pending = await storage.createTask(bob, { title: "Waiting" });
+    const [, inProgress] = await storage.getTaskColumns();
+
+    await expect(storage.createTask(bob, { title: "Also started", status: "in_progress" })).rejects.toThrow(WipLimitError);
+    await expect(storage.createTask(bob, { title: "Also started", columnId: inProgress.id })).rejects.toThrow(WipLimitError);
+    await expect(storage.updateTask(bob, pending.id, { status: "in_progress" })).rejects.toThrow(WipLimitError);
+    await expect(storage.moveTask(bob, pending.id, inProgress.id)).rejects.toThrow(WipLimitError);
+    expect((await storage.getTask(bob, pending.id))?.status).toBe("pending");
+  });
+
+  it("does not count subtasks or a task moving within the column", async () => {
+    const started = await storage.createTask(alice, { title: "Started", status: "in_progress" });
+    await storage.createTask(alice, { title: "Step", status: "in_progress", parentId: started.id });
+    expect(await storage.moveTask(alice, started.id, started.columnId!)).toBeDefined();
+  });
+});
@@ -2,94 +2,395 @@ import {
   conversations,
   messages,
   tasks,
+  taskColumns,
+  taskCalendarLinks,
   businessProcesses,
+  businessProcessVersions,
+  businessProcessComments,
+  knowledgeChunks,
+  memories,
   settings,
+  objectUploads,
+  users,
   type Conversation,
   type InsertConversation,
   type Message,
   type InsertMessage,
   type Task,
   type InsertTask,
-  type UpdateTask,
+  type TaskFilters,
+  type TaskColumn,
+  type InsertTaskColumn,
+  type UpdateTaskColumn,
+  type TaskStatus,
+  type TaskRecurrence,
+  type TaskCalendarLink,
   type BusinessProcess,
   type InsertBusinessProcess,
+  type UpdateBusinessProcess,
+  type BusinessProcessVersion,
+  type BusinessProcessVersionWithAuthor,
+  type BusinessProcessCommentWithAuthor,
+  type KnowledgeStatus,
+  type KnowledgeChunk,
+  type InsertKnowledgeChunk,
+  type Memory,
+  type InsertMemory,
   type Settings,
   type UpdateSettings,
+  type User,
+  type InsertUser,
+  type UserRole,
+  WORKSPACE_SETTINGS,
+  isWorkspaceSetting,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { db, pool } from "./db";
+import { eq, asc, desc, and, or, ne, gte, lte, inArray, isNull, arrayContains, isNotNull, max, min, count, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import { normalizedColumn, escapeLikePattern } from "./textNormalization";
+import { countTokens } from "./tokens";
+
+// Matches rows whose normalized text contains every (already normalized) term
+function matchesAllTerms(text: SQLWrapper, terms: string[]): SQL | undefined {
+  const normalized = normalizedColumn(text);
+  return and(...terms.map((term) => sql`${normalized} like ${`%${escapeLikePattern(term)}%`}`));
+}
+
+// Knowledge entries the user may see: every shared entry plus their own
+function visibleToUser(userId: string): SQL | undefined {
+  return or(eq(businessProcesses.visibility, "shared"), eq(businessProcesses.userId, userId));
+}
+
+// Tasks the user owns or is assigned to
+function visibleTask(userId: string): SQL | undefined {
+  return or(eq(tasks.userId, userId), eq(tasks.assigneeId, userId));
+}
+
+// Ids of the user's conversations, for scoping messages
+function conversationIdsOf(userId: string) {
+  return db.select({ id: conversations.id }).from(conversations).where(eq(conversations.userId, userId));
+}
+
+// The versioned fields of a knowledge entry
+function snapshotOf(process: BusinessProcess) {
+  return {
+    processId: process.id,
+    visibility: process.visibility,
+    title: process.title,
+    description: process.description,
+    category: process.category,
+    content: process.content,
+    tags: process.tags,
+  };
+}
+
+// The board a workspace starts with, one column per task status
+const defaultTaskColumns: { name: string; status: TaskStatus }[] = [
+  { name: "قيد الانتظار", status: "pending" },
+  { name: "قيد التنفيذ", status: "in_progress" },
+  { name: "مكتملة", status: "completed" },
+];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A task would take a column over its WIP limit
+export class WipLimitError extends Error {
+  constructor(column: TaskColumn, count: number) {
+    super(`"${column.name}" already has ${count} of at most ${column.wipLimit} tasks`);
+    this.name = "WipLimitError";
+  }
+}
+
+// Throws if a top-level task may not enter the column without going over its
+// WIP limit, counting everyone's tasks there: the board's columns are shared
+// by the workspace. The column row must be locked in the transaction, so
+// concurrent placements into it are counted one after the other.
+async function checkWipLimit(tx: Transaction, column: TaskColumn, parentId: string | null | undefined): Promise<void> {
+  if (column.wipLimit === null || parentId) {
+    return;
+  }
+  const [{ total }] = await tx
+    .select({ total: count() })
+    .from(tasks)
+    .where(and(eq(tasks.columnId, column.id), isNull(tasks.parentId)));
+  if (total >= column.wipLimit) {
+    throw new WipLimitError(column, total);
+  }
+}
+
+// Where a task created or updated with these fields goes on the board: an
+// explicit column sets the status, a new status picks the first column for it.
+// Returns no changes when the task stays where it is, and throws WipLimitError
+// when the column is full.
+async function placeTask(
+  tx: Transaction,
+  fields: { columnId?: string | null; status?: string; parentId?: string | null },
+  current?: Task,
+): Promise<Partial<Task>> {
+  let column: TaskColumn | undefined;
+  if (fields.columnId && fields.columnId !== current?.columnId) {
+    [column] = await tx.select().from(taskColumns).where(eq(taskColumns.id, fields.columnId)).for("update");
+  } else if (fields.status && (!current || fields.status !== current.status)) {
+    [column] = await tx
+      .select()
+      .from(taskColumns)
+      .where(eq(taskColumns.status, fields.status))
+      .orderBy(asc(taskColumns.position))
+      .limit(1)
+      .for("update");
+  }
+  if (!column) {
+    return {};
+  }
+
+  await checkWipLimit(tx, column, fields.parentId !== undefined ? fields.parentId : current?.parentId);
+  const [{ last }] = await tx
+    .select({ last: max(tasks.position) })
+    .from(tasks)
+    .where(eq(tasks.columnId, column.id));
+  return { columnId: column.id, status: column.status, position: (last ?? 0) + 1 };
+}
+
+// A task to create; the recurrence is resolved from the client's rule first
+export type NewTask = Omit<InsertTask, "recurrence"> & { recurrence?: TaskRecurrence | null };
+
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  countUsers(role?: UserRole): Promise<number>;
+  createUser(user: InsertUser, role?: UserRole): Promise<User>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  ensureAdmin(): Promise<User | undefined>;
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+
   // Conversations
-  getConversations(): Promise<Conversation[]>;
-  getConversation(id: string): Promise<Conversation | undefined>;
-  createConversation(conversation: InsertConversation): Promise<Conversation>;
-  updateConversation(id: string, title: string): Promise<Conversation | undefined>;
+  getConversations(userId: string): Promise<Conversation[]>;
+  getConversation(userId: string, id: string): Promise<Conversation | undefined>;
+  createConversation(userId: string, conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(userId: string, id: string, title: string): Promise<Conversation | undefined>;
+  updateConversationSummary(id: string, summary: string, summarizedUntil: Date): Promise<Conversation | undefined>;
   
-  // Messages
-  getMessages(conversationId: string): Promise<Message[]>;
-  getCurrentMessages(): Promise<Message[]>;
+  // Messages (the caller must own the conversation before creating one)
+  getMessages(userId: string, conversationId: string): Promise<Message[]>;
+  getCurrentMessages(userId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   
   // Tasks
-  getTasks(): Promise<Task[]>;
-  getTask(id: string): Promise<Task | undefined>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined>;
-  deleteTask(id: string): Promise<void>;
+  getTasks(userId: string, filters?: TaskFilters): Promise<Task[]>;
+  getTask(userId: string, id: string): Promise<Task | undefined>;
+  createTask(userId: string, task: NewTask): Promise<Task>;
+  updateTask(userId: string, id: string, updates: Partial<Task>): Promise<Task | undefined>;
+  deleteTask(userId: string, id: string): Promise<void>;
+  moveTask(userId: string, id: string, columnId: string, beforeId?: string | null): Promise<Task | undefined>;
+  getDueRecurringTasks(now: Date): Promise<Task[]>;
+  continueTaskSeries(id: string, next: { dueDate: Date; recurrence: TaskRecurrence } | null): Promise<{ previous: Task; next?: Task } | undefined>;
+
+  // Task board columns (workspace-wide)
+  getTaskColumns(): Promise<TaskColumn[]>;
+  getTaskColumn(id: string): Promise<TaskColumn | undefined>;
+  createTaskColumn(column: InsertTaskColumn): Promise<TaskColumn>;
+  updateTaskColumn(id: string, updates: UpdateTaskColumn): Promise<TaskColumn | undefined>;
+  deleteTaskColumn(id: string, fallbackId: string): Promise<void>;
+  reorderTaskColumns(ids: string[]): Promise<TaskColumn[]>;
+
+  // Links between tasks and Google Calendar events
+  getTaskCalendarLink(taskId: string): Promise<TaskCalendarLink | undefined>;
+  getTaskCalendarLinkByEvent(eventId: string): Promise<TaskCalendarLink | undefined>;
+  getTaskCalendarLinks(userId: string): Promise<TaskCalendarLink[]>;
+  getAllTaskCalendarLinks(): Promise<{ link: TaskCalendarLink; task: Task | null }[]>;
+  createTaskCalendarLink(link: Pick<TaskCalendarLink, "taskId" | "eventId" | "eventUpdatedAt" | "taskUpdatedAt">): Promise<TaskCalendarLink>;
+  updateTaskCalendarLink(id: string, updates: Partial<Pick<TaskCalendarLink, "eventUpdatedAt" | "taskUpdatedAt" | "lastError" | "syncedAt">>): Promise<TaskCalendarLink | undefined>;
+  deleteTaskCalendarLink(id: string): Promise<void>;
   
-  // Business Processes
-  getBusinessProcesses(): Promise<BusinessProcess[]>;
-  getBusinessProcess(id: string): Promise<BusinessProcess | undefined>;
-  createBusinessProcess(process: InsertBusinessProcess): Promise<BusinessProcess>;
-  deleteBusinessProcess(id: string): Promise<void>;
+  // Business Processes (shared entries plus the caller's private ones)
+  getBusinessProcesses(userId: string): Promise<BusinessProcess[]>;
+  getAllBusinessProcesses(): Promise<BusinessProcess[]>;
+  getBusinessProcess(userId: string, id: string): Promise<BusinessProcess | undefined>;
+  createBusinessProcess(userId: string, process: InsertBusinessProcess): Promise<BusinessProcess>;
+  updateBusinessProcess(userId: string, id: string, updates: UpdateBusinessProcess, restoredFrom?: number): Promise<BusinessProcess | undefined>;
+  deleteBusinessProcess(userId: string, id: string): Promise<boolean>;
+  getBusinessProcessVersions(userId: string, processId: string): Promise<BusinessProcessVersionWithAuthor[]>;
+  getBusinessProcessVersion(userId: string, processId: string, version: number): Promise<BusinessProcessVersion | undefined>;
+  updateBusinessProcessStatus(userId: string, id: string, status: KnowledgeStatus, reviewerId: string | null, comment?: string): Promise<BusinessProcess | undefined>;
+  getBusinessProcessComments(userId: string, processId: string): Promise<BusinessProcessCommentWithAuthor[]>;
+  createBusinessProcessComment(userId: string, processId: string, content: string): Promise<BusinessProcessCommentWithAuthor | undefined>;
+  
+  // Knowledge Chunks
+  getKnowledgeChunks(): Promise<KnowledgeChunk[]>;
+  replaceKnowledgeChunks(processId: string, chunks: InsertKnowledgeChunk[]): Promise<KnowledgeChunk[]>;
   
+  // Memories
+  getMemories(userId: string): Promise<Memory[]>;
+  getAllMemories(): Promise<Memory[]>;
+  getMemory(userId: string, id: string): Promise<Memory | undefined>;
+  createMemory(userId: string, memory: InsertMemory, embedding?: number[] | null): Promise<Memory>;
+  updateMemory(userId: string, id: string, updates: Partial<Memory>): Promise<Memory | undefined>;
+  updateMemoryEmbedding(id: string, embedding: number[] | null): Promise<void>;
+  deleteMemory(userId: string, id: string): Promise<void>;
+  
+  // Search (terms must already be normalized with textNormalization)
+  searchConversations(userId: string, terms: string[], limit: number): Promise<Conversation[]>;
+  searchMessages(userId: string, terms: string[], limit: number): Promise<Message[]>;
+  searchTasks(userId: string, terms: string[], limit: number): Promise<Task[]>;
+  searchBusinessProcesses(userId: string, terms: string[], limit: number): Promise<BusinessProcess[]>;
+  
+  // Object uploads (who requested each upload URL)
+  recordObjectUpload(userId: string, objectPath: string): Promise<void>;
+  getObjectUploader(objectPath: string): Promise<string | undefined>;
+  deleteObjectUpload(objectPath: string): Promise<void>;
+
   // Settings
-  getSettings(): Promise<Settings>;
-  updateSettings(updates: UpdateSettings): Promise<Settings>;
+  getSettings(userId: string): Promise<Settings>;
+  getWorkspaceSettings(): Promise<Settings>;
+  updateSettings(userId: string, updates: UpdateSettings): Promise<Settings>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.createdAt);
+  }
+
+  async countUsers(role?: UserRole): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(role ? eq(users.role, role) : undefined);
+    return count;
+  }
+
+  async createUser(insertUser: InsertUser, role?: UserRole): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values({ ...insertUser, role })
+      .returning();
+    return user;
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  // Accounts created before roles existed all default to staff; the
+  // earliest one is promoted so the workspace is never left without an
+  // administrator. Returns the promoted user, if any.
+  async ensureAdmin(): Promise<User | undefined> {
+    if ((await this.countUsers("admin")) > 0) return undefined;
+    const [first] = await db.select().from(users).orderBy(users.createdAt).limit(1);
+    return first ? await this.updateUserRole(first.id, "admin") : undefined;
+  }
+
+  // Creates the first account as an administrator and hands it the data from
+  // before accounts existed. The advisory lock makes concurrent sign-ups take
+  // turns, so only one finds no accounts; the others get undefined.
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('first_user'))`);
+      const [{ total }] = await tx.select({ total: count() }).from(users);
+      if (total > 0) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: "admin" })
+        .returning();
+      await tx.update(conversations).set({ userId: user.id }).where(isNull(conversations.userId));
+      await tx.update(tasks).set({ userId: user.id }).where(isNull(tasks.userId));
+      await tx.update(businessProcesses).set({ userId: user.id }).where(isNull(businessProcesses.userId));
+      await tx.update(memories).set({ userId: user.id }).where(isNull(memories.userId));
+      return user;
+    });
+  }
+
   // Conversations
-  async getConversations(): Promise<Conversation[]> {
-    return await db.select().from(conversations).orderBy(desc(conversations.updatedAt));
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
   }
 
-  async getConversation(id: string): Promise<Conversation | undefined> {
-    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+  async getConversation(userId: string, id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
     return conversation || undefined;
   }
 
-  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+  async createConversation(userId: string, insertConversation: InsertConversation): Promise<Conversation> {
     const [conversation] = await db
       .insert(conversations)
-      .values(insertConversation)
+      .values({ ...insertConversation, userId })
       .returning();
     return conversation;
   }
 
-  async updateConversation(id: string, title: string): Promise<Conversation | undefined> {
+  async updateConversation(userId: string, id: string, title: string): Promise<Conversation | undefined> {
     const [conversation] = await db
       .update(conversations)
       .set({ title, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+      .returning();
+    return conversation || undefined;
+  }
+
+  async updateConversationSummary(id: string, summary: string, summarizedUntil: Date): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .update(conversations)
+      .set({ summary, summarizedUntil })
       .where(eq(conversations.id, id))
       .returning();
     return conversation || undefined;
   }
 
   // Messages
-  async getMessages(conversationId: string): Promise<Message[]> {
+  async getMessages(userId: string, conversationId: string): Promise<Message[]> {
     return await db
       .select()
       .from(messages)
-      .where(eq(messages.conversationId, conversationId))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        inArray(messages.conversationId, conversationIdsOf(userId)),
+      ))
       .orderBy(messages.createdAt);
   }
 
-  async getCurrentMessages(): Promise<Message[]> {
+  async getCurrentMessages(userId: string): Promise<Message[]> {
     const latestConversation = await db
       .select()
       .from(conversations)
+      .where(eq(conversations.userId, userId))
       .orderBy(desc(conversations.updatedAt))
       .limit(1);
     
@@ -97,13 +398,13 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
 
-    return await this.getMessages(latestConversation[0].id);
+    return await this.getMessages(userId, latestConversation[0].id);
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const [message] = await db
       .insert(messages)
-      .values(insertMessage)
+      .values({ ...insertMessage, tokenCount: countTokens(insertMessage.content) })
       .returning();
     
     await db
@@ -115,61 +416,622 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Tasks
-  async getTasks(): Promise<Task[]> {
-    return await db.select().from(tasks).orderBy(desc(tasks.createdAt));
+  async getTasks(userId: string, filters: TaskFilters = {}): Promise<Task[]> {
+    const conditions: (SQL | undefined)[] = [visibleTask(userId)];
+    if (filters.status) conditions.push(eq(tasks.status, filters.status));
+    if (filters.priority) conditions.push(eq(tasks.priority, filters.priority));
+    if (filters.assigneeId === "none") {
+      conditions.push(isNull(tasks.assigneeId));
+    } else if (filters.assigneeId) {
+      conditions.push(eq(tasks.assigneeId, filters.assigneeId === "me" ? userId : filters.assigneeId));
+    }
+    if (filters.label) conditions.push(arrayContains(tasks.labels, [filters.label]));
+    if (filters.parentId === "none") {
+      conditions.push(isNull(tasks.parentId));
+    } else if (filters.parentId) {
+      conditions.push(eq(tasks.parentId, filters.parentId));
+    }
+    if (filters.dueBefore) conditions.push(lte(tasks.dueDate, filters.dueBefore));
+    if (filters.dueAfter) conditions.push(gte(tasks.dueDate, filters.dueAfter));
+
+    return await db
+      .select()
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(desc(tasks.createdAt));
   }
 
-  async getTask(id: string): Promise<Task | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+  async getTask(userId: string, id: string): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(and(eq(tasks.id, id), visibleTask(userId)));
     return task || undefined;
   }
 
-  async createTask(insertTask: InsertTask): Promise<Task> {
-    const [task] = await db
-      .insert(tasks)
-      .values(insertTask)
-      .returning();
-    return task;
+  async createTask(userId: string, insertTask: NewTask): Promise<Task> {
+    await this.getTaskColumns();
+    return await db.transaction(async (tx) => {
+      const placement = await placeTask(tx, {
+        columnId: insertTask.columnId,
+        status: insertTask.status ?? "pending",
+        parentId: insertTask.parentId,
+      });
+      const [task] = await tx
+        .insert(tasks)
+        .values({ ...insertTask, ...placement, userId })
+        .returning();
+      return task;
+    });
+  }
+
+  // Owners and assignees may both edit a task; the owner never changes
+  async updateTask(userId: string, id: string, updates: Partial<Task>): Promise<Task | undefined> {
+    const { userId: _owner, position: _position, ...changes } = updates;
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.id, id), visibleTask(userId)))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const placement = await placeTask(tx, changes, current);
+      const [task] = await tx
+        .update(tasks)
+        .set({ ...changes, ...placement, updatedAt: new Date() })
+        .where(eq(tasks.id, id))
+        .returning();
+      return task;
+    });
+  }
+
+  // Moves a task into a column before another of the user's tasks there, or
+  // to the end. The task takes the column's status; moving it into another
+  // column throws WipLimitError when that one is full.
+  async moveTask(userId: string, id: string, columnId: string, beforeId?: string | null): Promise<Task | undefined> {
+    return await db.transaction(async (tx) => {
+      const [column] = await tx.select().from(taskColumns).where(eq(taskColumns.id, columnId)).for("update");
+      const [current] = await tx
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.id, id), visibleTask(userId)))
+        .for("update");
+      if (!column || !current) {
+        return undefined;
+      }
+      if (current.columnId !== column.id) {
+        await checkWipLimit(tx, column, current.parentId);
+      }
+
+      let siblings = await tx
+        .select({ id: tasks.id, position: tasks.position })
+        .from(tasks)
+        .where(and(eq(tasks.columnId, columnId), ne(tasks.id, id), visibleTask(userId)))
+        .orderBy(asc(tasks.position), asc(tasks.createdAt));
+
+      const index = beforeId ? siblings.findIndex((sibling) => sibling.id === beforeId) : -1;
+      const insertAt = index === -1 ? siblings.length : index;
+      let before = siblings[insertAt - 1];
+      let after = siblings[insertAt];
+
+      // Equal neighbours (e.g. tasks from before the board) leave no gap to
+      // split, so spread the column out first
+      if (before && after && before.position >= after.position) {
+        siblings = siblings.map((sibling, i) => ({ ...sibling, position: i + 1 }));
+        for (const sibling of siblings) {
+          await tx.update(tasks).set({ position: sibling.position }).where(eq(tasks.id, sibling.id));
+        }
+        before = siblings[insertAt - 1];
+        after = siblings[insertAt];
+      }
+
+      let position: number;
+      if (before && after) {
+        position = (before.position + after.position) / 2;
+      } else if (after) {
+        position = after.position - 1;
+      } else {
+        const [{ last }] = await tx
+          .select({ last: max(tasks.position) })
+          .from(tasks)
+          .where(and(eq(tasks.columnId, columnId), ne(tasks.id, id)));
+        position = (last ?? 0) + 1;
+      }
+
+      const [task] = await tx
+        .update(tasks)
+        .set({ columnId, status: column.status, position, updatedAt: new Date() })
+        .where(eq(tasks.id, id))
+        .returning();
+      return task;
+    });
+  }
+
+  // Only the owner can delete a task; its subtasks go with it
+  async deleteTask(userId: string, id: string): Promise<void> {
+    await db.delete(tasks).where(and(eq(tasks.id, id), eq(tasks.userId, userId)));
+  }
+
+  // Recurring tasks whose due date has come, for the scheduler (all users)
+  async getDueRecurringTasks(now: Date): Promise<Task[]> {
+    return await db
+      .select()
+      .from(tasks)
+      .where(and(
+        isNotNull(tasks.recurrence),
+        sql`coalesce((${tasks.recurrence}->>'paused')::boolean, false) = false`,
+        lte(tasks.dueDate, now),
+      ));
+  }
+
+  // Creates the next task of a series and hands it the recurrence, or ends
+  // the series when there is no next one. Does nothing if the task no longer
+  // carries the recurrence, so each occurrence is only created once.
+  async continueTaskSeries(id: string, next: { dueDate: Date; recurrence: TaskRecurrence } | null): Promise<{ previous: Task; next?: Task } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.id, id), isNotNull(tasks.recurrence)))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+      const seriesId = current.seriesId ?? current.id;
+      const [previous] = await tx
+        .update(tasks)
+        .set({ recurrence: null, seriesId, updatedAt: new Date() })
+        .where(eq(tasks.id, id))
+        .returning();
+      if (!next) {
+        return { previous };
+      }
+
+      const placement = await placeTask(tx, { status: "pending", parentId: current.parentId });
+      const [created] = await tx
+        .insert(tasks)
+        .values({
+          userId: current.userId,
+          conversationId: current.conversationId,
+          parentId: current.parentId,
+          title: current.title,
+          description: current.description,
+          priority: current.priority,
+          assigneeId: current.assigneeId,
+          labels: current.labels,
+          checklist: current.checklist.map((item) => ({ ...item, done: false })),
+          ...placement,
+          status: "pending",
+          dueDate: next.dueDate,
+          recurrence: next.recurrence,
+          seriesId,
+        })
+        .returning();
+      return { previous, next: created };
+    });
+  }
+
+  // Task calendar links
+  async getTaskCalendarLink(taskId: string): Promise<TaskCalendarLink | undefined> {
+    const [link] = await db.select().from(taskCalendarLinks).where(eq(taskCalendarLinks.taskId, taskId));
+    return link || undefined;
+  }
+
+  async getTaskCalendarLinkByEvent(eventId: string): Promise<TaskCalendarLink | undefined> {
+    const [link] = await db.select().from(taskCalendarLinks).where(eq(taskCalendarLinks.eventId, eventId));
+    return link || undefined;
+  }
+
+  // Links of the tasks the user can see
+  async getTaskCalendarLinks(userId: string): Promise<TaskCalendarLink[]> {
+    const rows = await db
+      .select({ link: taskCalendarLinks })
+      .from(taskCalendarLinks)
+      .innerJoin(tasks, eq(taskCalendarLinks.taskId, tasks.id))
+      .where(visibleTask(userId));
+    return rows.map((row) => row.link);
+  }
+
+  // Every link with its task, or null once the task has been deleted
+  async getAllTaskCalendarLinks(): Promise<{ link: TaskCalendarLink; task: Task | null }[]> {
+    return await db
+      .select({ link: taskCalendarLinks, task: tasks })
+      .from(taskCalendarLinks)
+      .leftJoin(tasks, eq(taskCalendarLinks.taskId, tasks.id));
   }
 
-  async updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined> {
-    const [task] = await db
-      .update(tasks)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(tasks.id, id))
+  async createTaskCalendarLink(link: Pick<TaskCalendarLink, "taskId" | "eventId" | "eventUpdatedAt" | "taskUpdatedAt">): Promise<TaskCalendarLink> {
+    const [created] = await db.insert(taskCalendarLinks).values(link).returning();
+    return created;
+  }
+
+  async updateTaskCalendarLink(
+    id: string,
+    updates: Partial<Pick<TaskCalendarLink, "eventUpdatedAt" | "taskUpdatedAt" | "lastError" | "syncedAt">>,
+  ): Promise<TaskCalendarLink | undefined> {
+    const [link] = await db.update(taskCalendarLinks).set(updates).where(eq(taskCalendarLinks.id, id)).returning();
+    return link || undefined;
+  }
+
+  async deleteTaskCalendarLink(id: string): Promise<void> {
+    await db.delete(taskCalendarLinks).where(eq(taskCalendarLinks.id, id));
+  }
+
+  // Task board columns
+  // The default columns are created on first use, and tasks from before the
+  // board are put in the first column for their status
+  async getTaskColumns(): Promise<TaskColumn[]> {
+    const columns = await db.select().from(taskColumns).orderBy(asc(taskColumns.position), asc(taskColumns.createdAt));
+    if (columns.length > 0) {
+      return columns;
+    }
+
+    return await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(taskColumns)
+        .values(defaultTaskColumns.map((column, position) => ({ ...column, position })))
+        .returning();
+      for (const column of created) {
+        await tx
+          .update(tasks)
+          .set({ columnId: column.id })
+          .where(and(isNull(tasks.columnId), eq(tasks.status, column.status)));
+      }
+      return created;
+    });
+  }
+
+  async getTaskColumn(id: string): Promise<TaskColumn | undefined> {
+    const [column] = await db.select().from(taskColumns).where(eq(taskColumns.id, id));
+    return column || undefined;
+  }
+
+  async createTaskColumn(insertColumn: InsertTaskColumn): Promise<TaskColumn> {
+    const [{ last }] = await db.select({ last: max(taskColumns.position) }).from(taskColumns);
+    const [column] = await db
+      .insert(taskColumns)
+      .values({ ...insertColumn, position: (last ?? -1) + 1 })
       .returning();
-    return task || undefined;
+    return column;
   }
 
-  async deleteTask(id: string): Promise<void> {
-    await db.delete(tasks).where(eq(tasks.id, id));
+  // Changing a column's status changes the status of every task in it
+  async updateTaskColumn(id: string, updates: UpdateTaskColumn): Promise<TaskColumn | undefined> {
+    return await db.transaction(async (tx) => {
+      const [column] = await tx
+        .update(taskColumns)
+        .set(updates)
+        .where(eq(taskColumns.id, id))
+        .returning();
+      if (column && updates.status) {
+        await tx
+          .update(tasks)
+          .set({ status: column.status, updatedAt: new Date() })
+          .where(and(eq(tasks.columnId, id), ne(tasks.status, column.status)));
+      }
+      return column || undefined;
+    });
+  }
+
+  // Tasks in the deleted column move to the end of the fallback column
+  async deleteTaskColumn(id: string, fallbackId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [fallback] = await tx.select().from(taskColumns).where(eq(taskColumns.id, fallbackId));
+      const [{ last }] = await tx
+        .select({ last: max(tasks.position) })
+        .from(tasks)
+        .where(eq(tasks.columnId, fallbackId));
+      const [{ first }] = await tx
+        .select({ first: min(tasks.position) })
+        .from(tasks)
+        .where(eq(tasks.columnId, id));
+      await tx
+        .update(tasks)
+        .set({
+          columnId: fallbackId,
+          status: fallback.status,
+          position: sql`${tasks.position} - ${first ?? 0} + ${(last ?? 0) + 1}`,
+        })
+        .where(eq(tasks.columnId, id));
+      await tx.delete(taskColumns).where(eq(taskColumns.id, id));
+    });
+  }
+
+  async reorderTaskColumns(ids: string[]): Promise<TaskColumn[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx.update(taskColumns).set({ position }).where(eq(taskColumns.id, ids[position]));
+      }
+    });
+    return await this.getTaskColumns();
   }
 
   // Business Processes
-  async getBusinessProcesses(): Promise<BusinessProcess[]> {
+  async getBusinessProcesses(userId: string): Promise<BusinessProcess[]> {
+    return await db
+      .select()
+      .from(businessProcesses)
+      .where(visibleToUser(userId))
+      .orderBy(desc(businessProcesses.updatedAt));
+  }
+
+  // Every entry regardless of owner, for maintaining the shared vector index
+  async getAllBusinessProcesses(): Promise<BusinessProcess[]> {
     return await db.select().from(businessProcesses).orderBy(desc(businessProcesses.updatedAt));
   }
 
-  async getBusinessProcess(id: string): Promise<BusinessProcess | undefined> {
-    const [process] = await db.select().from(businessProcesses).where(eq(businessProcesses.id, id));
+  async getBusinessProcess(userId: string, id: string): Promise<BusinessProcess | undefined> {
+    const [process] = await db
+      .select()
+      .from(businessProcesses)
+      .where(and(eq(businessProcesses.id, id), visibleToUser(userId)));
     return process || undefined;
   }
 
-  async createBusinessProcess(insertProcess: InsertBusinessProcess): Promise<BusinessProcess> {
-    const [process] = await db
-      .insert(businessProcesses)
-      .values(insertProcess)
+  async createBusinessProcess(userId: string, insertProcess: InsertBusinessProcess): Promise<BusinessProcess> {
+    return await db.transaction(async (tx) => {
+      const [process] = await tx
+        .insert(businessProcesses)
+        .values({ ...insertProcess, userId, status: "draft" })
+        .returning();
+      await tx.insert(businessProcessVersions).values({ ...snapshotOf(process), version: 1, authorId: userId });
+      return process;
+    });
+  }
+
+  // Applies the edit and records the result as the entry's next version.
+  // Entries from before versioning first get their current state recorded as
+  // version 1, credited to their owner.
+  async updateBusinessProcess(userId: string, id: string, updates: UpdateBusinessProcess, restoredFrom?: number): Promise<BusinessProcess | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locking the row keeps concurrent edits from claiming the same version number
+      const [existing] = await tx
+        .select()
+        .from(businessProcesses)
+        .where(and(eq(businessProcesses.id, id), visibleToUser(userId)))
+        .for("update");
+      if (!existing) {
+        return undefined;
+      }
+
+      const [{ latest }] = await tx
+        .select({ latest: max(businessProcessVersions.version) })
+        .from(businessProcessVersions)
+        .where(eq(businessProcessVersions.processId, id));
+      let version = latest ?? 0;
+      if (version === 0) {
+        version = 1;
+        await tx.insert(businessProcessVersions).values({
+          ...snapshotOf(existing),
+          version,
+          authorId: existing.userId,
+          createdAt: existing.updatedAt,
+        });
+      }
+
+      const [process] = await tx
+        .update(businessProcesses)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(businessProcesses.id, id))
+        .returning();
+      await tx.insert(businessProcessVersions).values({
+        ...snapshotOf(process),
+        version: version + 1,
+        authorId: userId,
+        restoredFrom: restoredFrom ?? null,
+      });
+      return process;
+    });
+  }
+
+  // Deletes an entry the user can see; returns whether one was deleted
+  async deleteBusinessProcess(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(businessProcesses)
+      .where(and(eq(businessProcesses.id, id), visibleToUser(userId)))
+      .returning({ id: businessProcesses.id });
+    return deleted.length > 0;
+  }
+
+  // Newest first. Empty for entries that have not been edited since
+  // versioning was introduced.
+  async getBusinessProcessVersions(userId: string, processId: string): Promise<BusinessProcessVersionWithAuthor[]> {
+    if (!(await this.getBusinessProcess(userId, processId))) {
+      return [];
+    }
+    const rows = await db
+      .select({ version: businessProcessVersions, authorName: users.username })
+      .from(businessProcessVersions)
+      .leftJoin(users, eq(businessProcessVersions.authorId, users.id))
+      .where(eq(businessProcessVersions.processId, processId))
+      .orderBy(desc(businessProcessVersions.version));
+    return rows.map((row) => ({ ...row.version, authorName: row.authorName }));
+  }
+
+  async getBusinessProcessVersion(userId: string, processId: string, version: number): Promise<BusinessProcessVersion | undefined> {
+    if (!(await this.getBusinessProcess(userId, processId))) {
+      return undefined;
+    }
+    const [row] = await db
+      .select()
+      .from(businessProcessVersions)
+      .where(and(eq(businessProcessVersions.processId, processId), eq(businessProcessVersions.version, version)));
+    return row || undefined;
+  }
+
+  // Status changes are not new versions of the text, so they only leave a
+  // note in the review thread
+  async updateBusinessProcessStatus(
+    userId: string,
+    id: string,
+    status: KnowledgeStatus,
+    reviewerId: string | null,
+    comment = "",
+  ): Promise<BusinessProcess | undefined> {
+    return await db.transaction(async (tx) => {
+      const [process] = await tx
+        .update(businessProcesses)
+        .set({ status, reviewerId, updatedAt: new Date() })
+        .where(and(eq(businessProcesses.id, id), visibleToUser(userId)))
+        .returning();
+      if (!process) {
+        return undefined;
+      }
+      await tx.insert(businessProcessComments).values({ processId: id, authorId: userId, content: comment, statusChange: status });
+      return process;
+    });
+  }
+
+  // Oldest first, as a discussion reads
+  async getBusinessProcessComments(userId: string, processId: string): Promise<BusinessProcessCommentWithAuthor[]> {
+    if (!(await this.getBusinessProcess(userId, processId))) {
+      return [];
+    }
+    const rows = await db
+      .select({ comment: businessProcessComments, authorName: users.username })
+      .from(businessProcessComments)
+      .leftJoin(users, eq(businessProcessComments.authorId, users.id))
+      .where(eq(businessProcessComments.processId, processId))
+      .orderBy(businessProcessComments.createdAt);
+    return rows.map((row) => ({ ...row.comment, authorName: row.authorName }));
+  }
+
+  async createBusinessProcessComment(userId: string, processId: string, content: string): Promise<BusinessProcessCommentWithAuthor | undefined> {
+    if (!(await this.getBusinessProcess(userId, processId))) {
+      return undefined;
+    }
+    const [comment] = await db
+      .insert(businessProcessComments)
+      .values({ processId, authorId: userId, content })
       .returning();
-    return process;
+    const author = await this.getUser(userId);
+    return { ...comment, authorName: author?.username ?? null };
   }
 
-  async deleteBusinessProcess(id: string): Promise<void> {
-    await db.delete(businessProcesses).where(eq(businessProcesses.id, id));
+  // Knowledge Chunks
+  async getKnowledgeChunks(): Promise<KnowledgeChunk[]> {
+    return await db.select().from(knowledgeChunks).orderBy(knowledgeChunks.processId, knowledgeChunks.chunkIndex);
+  }
+
+  async replaceKnowledgeChunks(processId: string, chunks: InsertKnowledgeChunk[]): Promise<KnowledgeChunk[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(eq(knowledgeChunks.processId, processId));
+      if (chunks.length === 0) {
+        return [];
+      }
+      return await tx.insert(knowledgeChunks).values(chunks).returning();
+    });
+  }
+
+  // Memories
+  async getMemories(userId: string): Promise<Memory[]> {
+    return await db
+      .select()
+      .from(memories)
+      .where(eq(memories.userId, userId))
+      .orderBy(desc(memories.updatedAt));
+  }
+
+  // Every user's memories, for re-embedding after the embedding model changed
+  async getAllMemories(): Promise<Memory[]> {
+    return await db.select().from(memories).orderBy(desc(memories.updatedAt));
+  }
+
+  async getMemory(userId: string, id: string): Promise<Memory | undefined> {
+    const [memory] = await db.select().from(memories).where(and(eq(memories.id, id), eq(memories.userId, userId)));
+    return memory || undefined;
+  }
+
+  async createMemory(userId: string, insertMemory: InsertMemory, embedding: number[] | null = null): Promise<Memory> {
+    const [memory] = await db
+      .insert(memories)
+      .values({ ...insertMemory, userId, embedding })
+      .returning();
+    return memory;
+  }
+
+  async updateMemory(userId: string, id: string, updates: Partial<Memory>): Promise<Memory | undefined> {
+    const [memory] = await db
+      .update(memories)
+      .set({ ...updates, userId, updatedAt: new Date() })
+      .where(and(eq(memories.id, id), eq(memories.userId, userId)))
+      .returning();
+    return memory || undefined;
+  }
+
+  // Refreshing the vector is not an edit, so updatedAt is left alone
+  async updateMemoryEmbedding(id: string, embedding: number[] | null): Promise<void> {
+    await db.update(memories).set({ embedding }).where(eq(memories.id, id));
+  }
+
+  async deleteMemory(userId: string, id: string): Promise<void> {
+    await db.delete(memories).where(and(eq(memories.id, id), eq(memories.userId, userId)));
+  }
+
+  // Search
+  async searchConversations(userId: string, terms: string[], limit: number): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), matchesAllTerms(conversations.title, terms)))
+      .orderBy(desc(conversations.updatedAt))
+      .limit(limit);
+  }
+
+  async searchMessages(userId: string, terms: string[], limit: number): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(
+        inArray(messages.conversationId, conversationIdsOf(userId)),
+        matchesAllTerms(messages.content, terms),
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(limit);
+  }
+
+  async searchTasks(userId: string, terms: string[], limit: number): Promise<Task[]> {
+    return await db
+      .select()
+      .from(tasks)
+      .where(and(
+        visibleTask(userId),
+        matchesAllTerms(sql`concat_ws(' ', ${tasks.title}, ${tasks.description})`, terms),
+      ))
+      .orderBy(desc(tasks.updatedAt))
+      .limit(limit);
+  }
+
+  async searchBusinessProcesses(userId: string, terms: string[], limit: number): Promise<BusinessProcess[]> {
+    const searchable = sql`concat_ws(' ', ${businessProcesses.title}, ${businessProcesses.description}, ${businessProcesses.category}, ${businessProcesses.content}, array_to_string(${businessProcesses.tags}, ' '))`;
+    return await db
+      .select()
+      .from(businessProcesses)
+      .where(and(visibleToUser(userId), matchesAllTerms(searchable, terms)))
+      .orderBy(desc(businessProcesses.updatedAt))
+      .limit(limit);
+  }
+
+  // Object uploads
+  async recordObjectUpload(userId: string, objectPath: string): Promise<void> {
+    // Upload URLs expire after minutes; records of uploads never finalized
+    // are dropped along the way
+    await db.delete(objectUploads).where(sql`${objectUploads.createdAt} < now() - interval '1 day'`);
+    await db.insert(objectUploads).values({ objectPath, userId });
+  }
+
+  async getObjectUploader(objectPath: string): Promise<string | undefined> {
+    const [upload] = await db.select().from(objectUploads).where(eq(objectUploads.objectPath, objectPath));
+    return upload?.userId;
+  }
+
+  async deleteObjectUpload(objectPath: string): Promise<void> {
+    await db.delete(objectUploads).where(eq(objectUploads.objectPath, objectPath));
   }
 
   // Settings
-  async getSettings(): Promise<Settings> {
-    const [existingSettings] = await db.select().from(settings).limit(1);
+  async getWorkspaceSettings(): Promise<Settings> {
+    const [existingSettings] = await db.select().from(settings).where(isNull(settings.userId)).limit(1);
     
     if (existingSettings) {
       return existingSettings;
@@ -184,16 +1046,51 @@ export class DatabaseStorage implements IStorage {
     return newSettings;
   }
 
-  async updateSettings(updates: UpdateSettings): Promise<Settings> {
-    const currentSettings = await this.getSettings();
-    
-    const [updatedSettings] = await db
+  // The user's settings, created from the workspace settings on first use.
+  // The settings in WORKSPACE_SETTINGS always come from the workspace.
+  async getSettings(userId: string): Promise<Settings> {
+    const workspace = await this.getWorkspaceSettings();
+    let [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    if (!userSettings) {
+      const { id, createdAt, updatedAt, ...defaults } = workspace;
+      await db
+        .insert(settings)
+        .values({ ...defaults, userId })
+        .onConflictDoNothing({ target: settings.userId });
+      [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+    }
+
+    const shared: Partial<Settings> = {};
+    for (const key of WORKSPACE_SETTINGS) {
+      Object.assign(shared, { [key]: workspace[key] });
+    }
+    return { ...userSettings, ...shared };
+  }
+
+  async updateSettings(userId: string, updates: UpdateSettings): Promise<Settings> {
+    const workspaceUpdates: Partial<Settings> = {};
+    const userUpdates: Partial<Settings> = {};
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      Object.assign(isWorkspaceSetting(key) ? workspaceUpdates : userUpdates, { [key]: value });
+    }
+    const workspace = await this.getWorkspaceSettings();
+    await this.getSettings(userId);
+
+    if (Object.keys(workspaceUpdates).length > 0) {
+      await db
+        .update(settings)
+        .set({ ...workspaceUpdates, updatedAt: new Date() })
+        .where(eq(settings.id, workspace.id));
+    }
+
+    await db
       .update(settings)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(settings.id, currentSettings.id))
-      .returning();
+      .set({ ...userUpdates, updatedAt: new Date() })
+      .where(eq(settings.userId, userId));
     
-    return updatedSettings;
+    return await this.getSettings(userId);
   }
 }
 
@@ -0,0 +1,104 @@
+import { MAX_PROPOSED_TASKS, type Message, type TaskProposal } from "@shared/schema";
+import { storage } from "./storage";
+import { completeChat } from "./ai";
+import { countMessageTokens, truncateToTokens } from "./tokens";
+import { describeNow } from "./timeZone";
+import type { ConversationExchange } from "./memory";
+
+// The most recent part of a conversation the model reads for action items
+const TRANSCRIPT_TOKENS = 8000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Providers without a JSON mode may wrap the object in prose or code fences
+function parseProposals(raw: string): TaskProposal[] {
+  const json = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+  const parsed = json ? JSON.parse(json) : {};
+  const items = Array.isArray(parsed?.tasks) ? parsed.tasks : [];
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  return items
+    .filter((item: any) => text(item?.title))
+    .slice(0, MAX_PROPOSED_TASKS)
+    .map((item: any) => ({
+      title: text(item.title).slice(0, MAX_TITLE_LENGTH),
+      description: text(item.description).slice(0, MAX_DESCRIPTION_LENGTH),
+      dueDate: DATE_PATTERN.test(text(item.dueDate)) && !isNaN(Date.parse(text(item.dueDate))) ? text(item.dueDate) : null,
+    }));
+}
+
+// The latest messages that fit the transcript budget, oldest first, after
+// the conversation's summary of anything older
+function buildTranscript(messages: Message[], summary?: string | null): string {
+  const lines: string[] = [];
+  let budget = TRANSCRIPT_TOKENS;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = countMessageTokens(messages[i]);
+    if (cost > budget) break;
+    budget -= cost;
+    lines.unshift(`${messages[i].role === "user" ? "User" : "Assistant"}: ${messages[i].content}`);
+  }
+  if (summary && lines.length < messages.length) {
+    lines.unshift(`Summary of earlier messages: ${truncateToTokens(summary, budget).text}`);
+  }
+  return lines.join("\n\n");
+}
+
+// Asks the model for the action items in a transcript, leaving out ones
+// that are already tasks of the conversation
+async function proposeTasks(userId: string, conversationId: string, transcript: string): Promise<TaskProposal[]> {
+  if (!transcript.trim()) {
+    return [];
+  }
+
+  const [tasks, settings] = await Promise.all([storage.getTasks(userId), storage.getSettings(userId)]);
+  const existing = tasks.filter((task) => task.conversationId === conversationId);
+
+  const response = await completeChat([
+    {
+      role: "system",
+      content: `You find action items in a business conversation: concrete things someone agreed or was asked to do, such as follow-ups, deliverables, calls and reviews. Ignore general advice, questions, ideas that were not agreed on, and work the assistant already did in the conversation.
+
+For each action item give:
+- title: a short imperative phrase
+- description: one or two sentences of context from the conversation (who, what, why); empty if there is nothing to add
+- dueDate: YYYY-MM-DD when the conversation gives or implies a deadline ("by Thursday", "end of the month"), otherwise null
+
+It is now ${describeNow(settings)}. Write in the language the conversation is in. Propose at most ${MAX_PROPOSED_TASKS} items and none that repeat the existing tasks; most conversations contain few or none.
+
+Respond with JSON only: {"tasks": [{"title": "...", "description": "...", "dueDate": "YYYY-MM-DD" | null}]}
+
+Existing tasks from this conversation:
+${existing.map((task) => `- ${task.title}`).join("\n") || "(none)"}`,
+    },
+    { role: "user", content: transcript },
+  ], { userId, responseFormat: "json", maxTokens: 2048 });
+
+  const known = new Set(existing.map((task) => normalizeTitle(task.title)));
+  return parseProposals(response).filter((proposal) => !known.has(normalizeTitle(proposal.title)));
+}
+
+// Action items from the whole conversation, for the "extract tasks" action
+export async function proposeConversationTasks(
+  userId: string,
+  conversation: { id: string; summary?: string | null },
+  messages: Message[],
+): Promise<TaskProposal[]> {
+  return await proposeTasks(userId, conversation.id, buildTranscript(messages, conversation.summary));
+}
+
+// Action items from the latest exchange, offered after each reply when the
+// user has turned that on
+export async function proposeExchangeTasks(
+  userId: string,
+  conversationId: string,
+  exchange: ConversationExchange,
+): Promise<TaskProposal[]> {
+  return await proposeTasks(userId, conversationId, `User: ${exchange.userMessage}\n\nAssistant: ${exchange.assistantMessage}`);
+}
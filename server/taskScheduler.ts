@@ -0,0 +1,56 @@
+import type { Task } from "@shared/schema";
+import { storage } from "./storage";
+import { nextOccurrence } from "./recurrence";
+
+// How often the scheduler looks for recurring tasks whose date has come
+const SCHEDULER_INTERVAL_MS = 60_000;
+
+export interface SeriesContinuation {
+  previous: Task;
+  // Missing when the series has ended
+  next?: Task;
+}
+
+// Creates the next occurrence of a recurring task, due on the first date of
+// the rule after the task's own that has not passed yet. Occurrences missed
+// while the server was down or the series was paused are skipped.
+export async function advanceTaskSeries(task: Task, now = new Date()): Promise<SeriesContinuation | undefined> {
+  if (!task.recurrence || task.recurrence.paused) {
+    return undefined;
+  }
+  const next = nextOccurrence(task.recurrence, task.dueDate ?? now, now);
+  return await storage.continueTaskSeries(
+    task.id,
+    next && { dueDate: next.dueDate, recurrence: { ...task.recurrence, occurrence: next.occurrence } },
+  );
+}
+
+// Runs in the background for the life of the server, bringing in the next
+// occurrence of every recurring task once its due date arrives. Completing a
+// recurring task does the same straight away (see the task routes).
+export function startTaskScheduler(onContinued: (continuation: SeriesContinuation) => void): void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = new Date();
+      for (const task of await storage.getDueRecurringTasks(now)) {
+        try {
+          const continuation = await advanceTaskSeries(task, now);
+          if (continuation) onContinued(continuation);
+        } catch (error) {
+          console.error(`Failed to continue recurring task ${task.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Task scheduler failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(tick, SCHEDULER_INTERVAL_MS).unref();
+  void tick();
+}
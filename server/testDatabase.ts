@@ -0,0 +1,39 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+
+// The ES module build of drizzle-kit/api cannot load its own dependencies
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+// Stands in for ./db in tests that need real queries: an in-memory Postgres
+// with the schema created from shared/schema.ts. Use it with
+//   vi.mock("./db", () => import("./testDatabase"));
+// and call resetDatabase() before each test.
+
+const client = new PGlite();
+
+export const db = drizzle({ client, schema });
+
+// Only the session store uses the pool, and tests that load storage never
+// touch it
+export const pool = {};
+
+const tables = Object.values(schema).filter((value) => value instanceof Object && Symbol.for("drizzle:IsDrizzleTable") in value);
+
+let created: Promise<void> | undefined;
+
+async function createSchema(): Promise<void> {
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+}
+
+// Creates the tables on first use and empties them
+export async function resetDatabase(): Promise<void> {
+  created ??= createSchema();
+  await created;
+  const names = tables.map((table) => `"${(table as any)[Symbol.for("drizzle:Name")]}"`);
+  await client.exec(`truncate ${names.join(", ")} cascade`);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { escapeLikePattern, normalizeText, normalizeWithMap, tokenizeQuery } from "./textNormalization";
+
+describe("normalizeText", () => {
+  it("drops diacritics and tatweel", () => {
+    expect(normalizeText("مُدِير")).toBe("مدير");
+    expect(normalizeText("مـــدير")).toBe("مدير");
+  });
+
+  it("folds alef, yaa, taa marbuta and hamza variants", () => {
+    expect(normalizeText("أحمد")).toBe("احمد");
+    expect(normalizeText("إدارة")).toBe("اداره");
+    expect(normalizeText("مستشفى")).toBe("مستشفي");
+    expect(normalizeText("مؤتمر")).toBe("موتمر");
+    expect(normalizeText("رئيس")).toBe("رييس");
+  });
+
+  it("turns Arabic-Indic digits into Western ones", () => {
+    expect(normalizeText("٢٠٢٦")).toBe("2026");
+    expect(normalizeText("۱۲")).toBe("12");
+  });
+
+  it("lowercases Latin text", () => {
+    expect(normalizeText("Invoice ABC")).toBe("invoice abc");
+  });
+});
+
+describe("normalizeWithMap", () => {
+  it("maps each normalized character back to its source index", () => {
+    const source = "مُدِير";
+    const { text, sourceIndex } = normalizeWithMap(source);
+    expect(text).toBe("مدير");
+    expect(sourceIndex).toEqual([0, 2, 4, 5]);
+    expect(Array.from(text).every((char, i) => normalizeText(source[sourceIndex[i]]) === char)).toBe(true);
+  });
+});
+
+describe("tokenizeQuery", () => {
+  it("splits on Arabic and Latin punctuation and drops duplicates", () => {
+    expect(tokenizeQuery("الفاتورة، الفاتورة؟ (invoice-2026)")).toEqual(["الفاتوره", "invoice", "2026"]);
+  });
+
+  it("returns no terms for punctuation only", () => {
+    expect(tokenizeQuery(" ، ؟ ... ")).toEqual([]);
+  });
+});
+
+describe("escapeLikePattern", () => {
+  it("escapes LIKE wildcards and backslashes", () => {
+    expect(escapeLikePattern("50%_off\\")).toBe("50\\%\\_off\\\\");
+  });
+});
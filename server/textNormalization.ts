@@ -0,0 +1,67 @@
+import { sql, type SQL, type SQLWrapper } from "drizzle-orm";
+
+// Arabic diacritics (tashkeel), Quranic marks, superscript alef and tatweel.
+// These are dropped entirely so "مُدِير" and "مدير" compare equal.
+const IGNORED_CHARS = "\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640";
+const IGNORED_CHARS_PATTERN = new RegExp(`[${IGNORED_CHARS}]`);
+
+// One-to-one letter folding. Each character in FOLD_FROM becomes the character
+// at the same position in FOLD_TO:
+// - alef with hamza above/below, madda and wasla → bare alef
+// - alef maqsura → yaa, taa marbuta → haa
+// - hamza on waw/yaa → waw/yaa
+// - Arabic-Indic and Eastern Arabic-Indic digits → Western digits
+const FOLD_FROM = "أإآٱىةؤئ٠١٢٣٤٥٦٧٨٩۰۱۲۳۴۵۶۷۸۹";
+const FOLD_TO = "اااايهوي01234567890123456789";
+
+const FOLD_MAP = new Map(Array.from(FOLD_FROM).map((char, i) => [char, FOLD_TO[i]]));
+
+export interface NormalizedText {
+  text: string;
+  // Index in the original string of each character of the normalized text
+  sourceIndex: number[];
+}
+
+// Normalizes text for matching and keeps a map back to the original so that
+// matches can be highlighted in the unnormalized text.
+export function normalizeWithMap(input: string): NormalizedText {
+  let text = "";
+  const sourceIndex: number[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (IGNORED_CHARS_PATTERN.test(char)) {
+      continue;
+    }
+    // toLowerCase keeps length for the Latin and Arabic ranges we care about
+    text += FOLD_MAP.get(char) ?? char.toLowerCase();
+    sourceIndex.push(i);
+  }
+
+  return { text, sourceIndex };
+}
+
+export function normalizeText(input: string): string {
+  return normalizeWithMap(input).text;
+}
+
+// Splits a query into normalized search terms
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set(
+    normalizeText(query)
+      .split(/[\s.,;:!?؟،؛"'`()[\]{}<>«»\-_/\\|*+=~^&#@$]+/)
+      .map((term) => term.trim())
+      .filter((term) => term.length > 0),
+  ));
+}
+
+// The same normalization as normalizeText, expressed in SQL so candidate rows
+// can be filtered in Postgres before ranking.
+export function normalizedColumn(column: SQLWrapper): SQL {
+  return sql`translate(regexp_replace(lower(coalesce(${column}, '')), ${`[${IGNORED_CHARS}]`}, '', 'g'), ${FOLD_FROM}, ${FOLD_TO})`;
+}
+
+// Escapes LIKE wildcards in a term
+export function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Settings } from "@shared/schema";
+import {
+  dateInZone,
+  describeNow,
+  formatInZone,
+  fromWallClock,
+  isMidnightInZone,
+  offsetInZone,
+  parseInZone,
+  startOfDayInZone,
+  toZonedISOString,
+  wallClock,
+} from "./timeZone";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+const RIYADH = "Asia/Riyadh";
+const NEW_YORK = "America/New_York";
+
+describe("wall-clock conversion", () => {
+  it("round-trips a zone without daylight saving", () => {
+    const local = Date.UTC(2026, 9, 18, 10, 0);
+    const instant = fromWallClock(local, RIYADH);
+    expect(instant.toISOString()).toBe("2026-10-18T07:00:00.000Z");
+    expect(wallClock(instant.getTime(), RIYADH)).toBe(local);
+  });
+
+  it("uses the offset in force on either side of a daylight saving change", () => {
+    expect(fromWallClock(Date.UTC(2026, 2, 7, 9, 0), NEW_YORK).toISOString()).toBe("2026-03-07T14:00:00.000Z");
+    expect(fromWallClock(Date.UTC(2026, 2, 9, 9, 0), NEW_YORK).toISOString()).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("takes the earlier instant for a time repeated when clocks go back", () => {
+    expect(fromWallClock(Date.UTC(2026, 10, 1, 1, 30), NEW_YORK).toISOString()).toBe("2026-11-01T05:30:00.000Z");
+  });
+});
+
+describe("parseInZone", () => {
+  it("keeps an explicit offset or Z", () => {
+    expect(parseInZone("2026-10-18T10:00:00+02:00", RIYADH).toISOString()).toBe("2026-10-18T08:00:00.000Z");
+    expect(parseInZone("2026-10-18T10:00:00Z", RIYADH).toISOString()).toBe("2026-10-18T10:00:00.000Z");
+  });
+
+  it("reads a date-time without an offset in the zone", () => {
+    expect(parseInZone("2026-10-18T10:00", RIYADH).toISOString()).toBe("2026-10-18T07:00:00.000Z");
+    expect(parseInZone("2026-07-01 09:30:15", NEW_YORK).toISOString()).toBe("2026-07-01T13:30:15.000Z");
+  });
+
+  it("reads a bare date as midnight in the zone", () => {
+    expect(parseInZone("2026-10-18", RIYADH).toISOString()).toBe("2026-10-17T21:00:00.000Z");
+  });
+});
+
+describe("days in a zone", () => {
+  it("finds the local date of an instant", () => {
+    // 22:30 UTC is already the next morning in Riyadh
+    expect(dateInZone(new Date("2026-10-18T22:30:00Z"), RIYADH)).toBe("2026-10-19");
+    expect(formatInZone(new Date("2026-10-18T22:30:00Z"), RIYADH)).toBe("2026-10-19T01:30:00");
+  });
+
+  it("moves by whole local days across a daylight saving change", () => {
+    const afternoon = new Date("2026-03-08T15:00:00Z");
+    expect(startOfDayInZone(afternoon, NEW_YORK).toISOString()).toBe("2026-03-08T05:00:00.000Z");
+    // The day clocks go forward is 23 hours long
+    expect(startOfDayInZone(afternoon, NEW_YORK, 1).toISOString()).toBe("2026-03-09T04:00:00.000Z");
+    // and the day they go back, 25
+    expect(startOfDayInZone(new Date("2026-11-01T15:00:00Z"), NEW_YORK, 1).toISOString()).toBe("2026-11-02T05:00:00.000Z");
+  });
+
+  it("tells whether an instant is local midnight", () => {
+    expect(isMidnightInZone(new Date("2026-10-17T21:00:00Z"), RIYADH)).toBe(true);
+    expect(isMidnightInZone(new Date("2026-10-18T00:00:00Z"), RIYADH)).toBe(false);
+  });
+});
+
+describe("offsets", () => {
+  it("formats the zone's offset at the instant", () => {
+    expect(offsetInZone(new Date("2026-03-07T15:00:00Z"), NEW_YORK)).toBe("-05:00");
+    expect(offsetInZone(new Date("2026-03-09T15:00:00Z"), NEW_YORK)).toBe("-04:00");
+    expect(offsetInZone(new Date("2026-10-18T07:00:00Z"), "Asia/Kolkata")).toBe("+05:30");
+  });
+
+  it("writes ISO 8601 with the offset", () => {
+    expect(toZonedISOString(new Date("2026-10-18T07:00:00Z"), RIYADH)).toBe("2026-10-18T10:00:00+03:00");
+  });
+});
+
+describe("describeNow", () => {
+  it("gives the user's local weekday, date and time", () => {
+    const settings = { timeZone: null, organizationTimeZone: RIYADH } as Settings;
+    expect(describeNow(settings, new Date("2026-10-18T07:05:00Z"))).toBe("Sunday 2026-10-18 10:05 (Asia/Riyadh, UTC+03:00)");
+    expect(describeNow({ ...settings, timeZone: NEW_YORK }, new Date("2026-10-18T07:05:00Z"))).toBe("Sunday 2026-10-18 03:05 (America/New_York, UTC-04:00)");
+  });
+});
@@ -0,0 +1,108 @@
+import { settingsTimeZone, type Settings } from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 86_400_000;
+
+// A date-time written without an offset, e.g. "2026-03-05T10:00", read as
+// wall-clock time in some zone
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// The wall-clock time in the zone, as if it were UTC
+export function wallClock(instant: number, timeZone: string): number {
+  const parts = zoneFormat(timeZone).formatToParts(new Date(instant));
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)!.value, 10);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+}
+
+// The instant at which the zone's clocks show the given wall-clock time
+// (expressed as if it were UTC)
+export function fromWallClock(local: number, timeZone: string): Date {
+  // Correct by the zone's offset, twice in case the first guess crossed a
+  // daylight saving change
+  let instant = local - (wallClock(local, timeZone) - local);
+  instant = local - (wallClock(instant, timeZone) - instant);
+  return new Date(instant);
+}
+
+// The user's own time zone, or the organisation's when they have not set one
+export async function getUserTimeZone(userId: string): Promise<string> {
+  return settingsTimeZone(await storage.getSettings(userId));
+}
+
+export function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Reads an ISO 8601 date or date-time. One with an offset (or Z) is taken
+// as is; one without is wall-clock time in the zone, and a bare date is its
+// midnight there.
+export function parseInZone(value: string, timeZone: string): Date {
+  const match = LOCAL_DATE_TIME.exec(value.trim());
+  if (!match) {
+    return new Date(value);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return fromWallClock(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second), timeZone);
+}
+
+// "YYYY-MM-DDTHH:mm:ss" as the zone's clocks show it
+export function formatInZone(date: Date, timeZone: string): string {
+  return new Date(wallClock(date.getTime(), timeZone)).toISOString().slice(0, 19);
+}
+
+// "YYYY-MM-DD" of the day the instant falls on in the zone
+export function dateInZone(date: Date, timeZone: string): string {
+  return formatInZone(date, timeZone).slice(0, 10);
+}
+
+// Midnight at the start of the instant's day in the zone, moved by whole days
+export function startOfDayInZone(date: Date, timeZone: string, addDays = 0): Date {
+  const local = wallClock(date.getTime(), timeZone);
+  return fromWallClock((Math.floor(local / DAY_MS) + addDays) * DAY_MS, timeZone);
+}
+
+export function isMidnightInZone(date: Date, timeZone: string): boolean {
+  return wallClock(date.getTime(), timeZone) % DAY_MS === 0;
+}
+
+// The zone's offset from UTC at the instant, e.g. "+03:00"
+export function offsetInZone(date: Date, timeZone: string): string {
+  const minutes = Math.round((wallClock(date.getTime(), timeZone) - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+  const sign = minutes < 0 ? "-" : "+";
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+}
+
+// ISO 8601 with the zone's offset, e.g. "2026-10-18T10:00:00+03:00"
+export function toZonedISOString(date: Date, timeZone: string): string {
+  return `${formatInZone(date, timeZone)}${offsetInZone(date, timeZone)}`;
+}
+
+// The current local date and time for the model, so it can resolve words
+// like "tomorrow at 10"
+export function describeNow(settings: Settings, now = new Date()): string {
+  const timeZone = settingsTimeZone(settings);
+  const weekday = now.toLocaleDateString("en-US", { weekday: "long", timeZone });
+  const local = formatInZone(now, timeZone);
+  return `${weekday} ${local.slice(0, 10)} ${local.slice(11, 16)} (${timeZone}, UTC${offsetInZone(now, timeZone)})`;
+}
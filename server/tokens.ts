@@ -0,0 +1,22 @@
+import { countTokens as countEncodedTokens, decode, encode } from "gpt-tokenizer/encoding/o200k_base";
+
+// Role and separator tokens the chat format adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Token count under o200k_base, the encoding used by the GPT-4o/GPT-5 family
+export function countTokens(text: string): number {
+  return text ? countEncodedTokens(text) : 0;
+}
+
+export function countMessageTokens(message: { content: string; tokenCount?: number | null }): number {
+  return (message.tokenCount ?? countTokens(message.content)) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// The longest prefix of text that fits in maxTokens
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) {
+    return { text, truncated: false };
+  }
+  return { text: decode(tokens.slice(0, Math.max(0, maxTokens))), truncated: true };
+}
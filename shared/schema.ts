@@ -1,12 +1,153 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, jsonb, integer, real, doublePrecision, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// A tool the assistant invoked while producing a reply, kept on the message as
+// a trace of the agent loop so the chat thread can show what it did.
+export const toolCallRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.record(z.unknown()),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  step: z.number().int().optional(),
+  durationMs: z.number().optional(),
+});
+
+export type ToolCallRecord = z.infer<typeof toolCallRecordSchema>;
+
+// A knowledge base passage the assistant cited in a reply, numbered as it
+// appears in the text ([1], [2], ...).
+export const citationSchema = z.object({
+  index: z.number().int(),
+  processId: z.string(),
+  title: z.string(),
+  excerpt: z.string(),
+});
+
+export type Citation = z.infer<typeof citationSchema>;
+
+// How the assistant can use a file attached to a message: documents are read
+// as extracted text, images are shown to vision-capable models, anything else
+// is only named.
+export const attachmentKinds = ["text", "image", "file"] as const;
+export type AttachmentKind = typeof attachmentKinds[number];
+
+export const MAX_MESSAGE_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// A file the user attached to a chat message. Content type and size come from
+// the stored object, not from the client.
+export const messageAttachmentSchema = z.object({
+  objectPath: z.string(),
+  name: z.string(),
+  contentType: z.string(),
+  size: z.number().int(),
+  kind: z.enum(attachmentKinds),
+  // Text pulled out of documents, cut to a maximum length
+  extractedText: z.string().optional(),
+  // Why a document could not be read, shown to the model instead
+  extractionError: z.string().optional(),
+});
+
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+
+// What the client sends for each attachment after finalizing its upload
+export const attachmentUploadSchema = z.object({
+  objectPath: z.string().startsWith("/objects/"),
+  name: z.string().min(1).max(255),
+});
+
+export type AttachmentUpload = z.infer<typeof attachmentUploadSchema>;
+
+export const sendMessageSchema = z.object({
+  content: z.string(),
+  attachments: z.array(attachmentUploadSchema).max(MAX_MESSAGE_ATTACHMENTS).default([]),
+}).refine((message) => message.content.trim() || message.attachments.length > 0, {
+  message: "A message needs text or at least one attachment",
+});
+
+export const taskStatuses = ["pending", "in_progress", "completed"] as const;
+export type TaskStatus = typeof taskStatuses[number];
+
+export const taskPriorities = ["low", "medium", "high", "urgent"] as const;
+export type TaskPriority = typeof taskPriorities[number];
+
+export const MAX_TASK_LABELS = 20;
+export const MAX_TASK_CHECKLIST_ITEMS = 100;
+
+// A step within a task, ticked off without being a task of its own
+export const taskChecklistItemSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().trim().min(1).max(500),
+  done: z.boolean().default(false),
+});
+
+export type TaskChecklistItem = z.infer<typeof taskChecklistItemSchema>;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// An IANA time zone name such as "Asia/Riyadh"
+export const timeZoneSchema = z.string().trim().refine(isTimeZone, "Unknown time zone");
+
+// A wall-clock time of day, "HH:mm"
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+
+// How a task repeats, as sent by clients: an RRULE (RFC 5545) such as
+// "FREQ=MONTHLY;BYMONTHDAY=15", or with "RSCALE=ISLAMIC-UMALQURA" for Hijri
+// dates, and the time zone its days are counted in
+export const taskRecurrenceInputSchema = z.object({
+  rule: z.string().trim().min(1).max(500),
+  timeZone: timeZoneSchema,
+});
+
+export type TaskRecurrenceInput = z.infer<typeof taskRecurrenceInputSchema>;
+
+// The stored recurrence. Only the series' current task carries it; it moves to
+// each new occurrence as that is created.
+export interface TaskRecurrence extends TaskRecurrenceInput {
+  // First occurrence (DTSTART), which intervals and default days count from
+  start: string;
+  // 1-based index of the current task in the series, for COUNT
+  occurrence: number;
+  paused: boolean;
+}
+
+export const knowledgeVisibilities = ["shared", "private"] as const;
+export type KnowledgeVisibility = typeof knowledgeVisibilities[number];
+
+// Lifecycle of a knowledge entry. Only published entries ground the
+// assistant's replies; the others are still listed on the Knowledge page.
+export const knowledgeStatuses = ["draft", "in_review", "published", "archived"] as const;
+export type KnowledgeStatus = typeof knowledgeStatuses[number];
+
+// The statuses an entry can move to from each status
+export const knowledgeTransitions: Record<KnowledgeStatus, readonly KnowledgeStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["published", "draft"],
+  published: ["archived", "draft"],
+  archived: ["draft"],
+};
+
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Owning user; null only for rows created before accounts existed, which
+  // are assigned to the first account when it registers
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
+  // Rolling summary of the turns that no longer fit the context budget; it
+  // replaces every message created at or before summarizedUntil in the prompt
+  summary: text("summary"),
+  summarizedUntil: timestamp("summarized_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -16,22 +157,81 @@ export const messages = pgTable("messages", {
   conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
   role: text("role").notNull(),
   content: text("content").notNull(),
-  attachments: jsonb("attachments"),
+  attachments: jsonb("attachments").$type<MessageAttachment[]>(),
+  toolCalls: jsonb("tool_calls").$type<ToolCallRecord[]>(),
+  citations: jsonb("citations").$type<Citation[]>(),
+  tokenCount: integer("token_count"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Columns of the task board, shared by the whole workspace. Each column maps
+// to the status its tasks get, so several columns can share a status
+export const taskColumns = pgTable("task_columns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  status: text("status").notNull(),
+  position: integer("position").notNull().default(0),
+  // Most top-level tasks in the column, counting every user's; null for no limit
+  wipLimit: integer("wip_limit"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  // Subtasks point at their parent; only one level of nesting is allowed
+  parentId: varchar("parent_id").references((): AnyPgColumn => tasks.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description"),
   status: text("status").notNull().default("pending"),
+  priority: text("priority").notNull().default("medium"),
+  dueDate: timestamp("due_date"),
+  // The user doing the work; the task is visible to them as well as its owner
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  labels: text("labels").array().notNull().default(sql`ARRAY[]::text[]`),
+  checklist: jsonb("checklist").$type<TaskChecklistItem[]>().notNull().default([]),
+  columnId: varchar("column_id").references(() => taskColumns.id, { onDelete: "set null" }),
+  // Order within the column; moves take the midpoint of their new neighbours
+  position: doublePrecision("position").notNull().default(0),
+  recurrence: jsonb("recurrence").$type<TaskRecurrence>(),
+  // The first task of the recurring series this task belongs to
+  seriesId: varchar("series_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("tasks_parent_id_idx").on(table.parentId),
+  index("tasks_assignee_id_idx").on(table.assigneeId),
+  index("tasks_column_id_idx").on(table.columnId),
+]);
+
+// A task shown on the connected Google Calendar as an event. The two
+// timestamps record each side as of the last sync, so anything newer is a
+// change still to be carried across. The task reference is cleared when the
+// task is deleted, which leaves the event to be removed by the next sync.
+export const taskCalendarLinks = pgTable("task_calendar_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").unique().references(() => tasks.id, { onDelete: "set null" }),
+  eventId: text("event_id").notNull().unique(),
+  eventUpdatedAt: timestamp("event_updated_at").notNull(),
+  taskUpdatedAt: timestamp("task_updated_at").notNull(),
+  // Why the last sync failed; cleared by the next one that succeeds
+  lastError: text("last_error"),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const businessProcesses = pgTable("business_processes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  // Shared entries are visible to (and ground the replies of) every user;
+  // private ones only to their owner
+  visibility: text("visibility").notNull().default("shared"),
+  // Entries from before the approval workflow count as published; new ones
+  // are created as drafts
+  status: text("status").notNull().default("published"),
+  // Who is asked to approve the entry while it is in review
+  reviewerId: varchar("reviewer_id").references(() => users.id, { onDelete: "set null" }),
   title: text("title").notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
@@ -41,7 +241,73 @@ export const businessProcesses = pgTable("business_processes", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const conversationsRelations = relations(conversations, ({ many }) => ({
+// Snapshot of a knowledge entry after each change, numbered from 1 per
+// entry. Restoring an old version adds a new one rather than rewinding.
+export const businessProcessVersions = pgTable("business_process_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  processId: varchar("process_id").notNull().references(() => businessProcesses.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  visibility: text("visibility").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  content: text("content").notNull(),
+  tags: text("tags").array().default(sql`ARRAY[]::text[]`),
+  // Set when this version brought back an earlier one
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("business_process_versions_process_version_idx").on(table.processId, table.version),
+]);
+
+// Review discussion on a knowledge entry. Status changes are recorded here
+// too, with the optional note the user gave.
+export const businessProcessComments = pgTable("business_process_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  processId: varchar("process_id").notNull().references(() => businessProcesses.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  content: text("content").notNull().default(""),
+  // The status the entry moved to, for comments that record a status change
+  statusChange: text("status_change"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("business_process_comments_process_id_idx").on(table.processId),
+]);
+
+// Embedded passages of business process content used for retrieval
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  processId: varchar("process_id").notNull().references(() => businessProcesses.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  embedding: real("embedding").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("knowledge_chunks_process_id_idx").on(table.processId),
+]);
+
+export const memoryCategories = ["person", "preference", "supplier", "decision", "fact"] as const;
+export type MemoryCategory = typeof memoryCategories[number];
+
+// Durable facts extracted from conversations (or added by hand) and recalled
+// into the prompt of later conversations
+export const memories = pgTable("memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  category: text("category").notNull().default("fact"),
+  sourceConversationId: varchar("source_conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  embedding: real("embedding").array(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [conversations.userId],
+    references: [users.id],
+  }),
   messages: many(messages),
   tasks: many(tasks),
 }));
@@ -54,6 +320,10 @@ export const messagesRelations = relations(messages, ({ one }) => ({
 }));
 
 export const tasksRelations = relations(tasks, ({ one }) => ({
+  user: one(users, {
+    fields: [tasks.userId],
+    references: [users.id],
+  }),
   conversation: one(conversations, {
     fields: [tasks.conversationId],
     references: [conversations.id],
@@ -62,31 +332,164 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
 
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
+  userId: true,
+  summary: true,
+  summarizedUntil: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
+  tokenCount: true,
   createdAt: true,
+}).extend({
+  attachments: z.array(messageAttachmentSchema).nullable().optional(),
+  toolCalls: z.array(toolCallRecordSchema).nullable().optional(),
+  citations: z.array(citationSchema).nullable().optional(),
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
+  userId: true,
+  position: true,
+  recurrence: true,
+  seriesId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  title: z.string().trim().min(1),
+  status: z.enum(taskStatuses).optional(),
+  priority: z.enum(taskPriorities).optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  labels: z.array(z.string().trim().min(1).max(50)).max(MAX_TASK_LABELS)
+    .transform((labels) => Array.from(new Set(labels)))
+    .optional(),
+  checklist: z.array(taskChecklistItemSchema).max(MAX_TASK_CHECKLIST_ITEMS).optional(),
+  // A board column; takes precedence over status, which follows the column
+  columnId: z.string().min(1).optional(),
+  // Replaces the recurrence, or stops it when null
+  recurrence: taskRecurrenceInputSchema.nullable().optional(),
 });
 
-export const updateTaskSchema = insertTaskSchema.partial().extend({
-  id: z.string(),
+export const updateTaskSchema = insertTaskSchema.partial();
+
+export const MAX_PROPOSED_TASKS = 10;
+
+// An action item the model found in a conversation, for the user to confirm
+// before it becomes a task. Due dates are calendar days (YYYY-MM-DD).
+export const taskProposalSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  dueDate: z.string().nullable(),
+});
+
+// The confirmed proposals, created as tasks linked to the conversation
+export const createConversationTasksSchema = z.object({
+  tasks: z.array(insertTaskSchema.pick({ title: true, description: true, dueDate: true, priority: true }))
+    .min(1)
+    .max(MAX_PROPOSED_TASKS),
+});
+
+// Moves a task into a column, before another task or at the end
+export const moveTaskSchema = z.object({
+  columnId: z.string().min(1),
+  beforeId: z.string().nullable().optional(),
+});
+
+export const MAX_TASK_COLUMNS = 12;
+
+export const insertTaskColumnSchema = createInsertSchema(taskColumns).omit({
+  id: true,
+  position: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(50),
+  status: z.enum(taskStatuses),
+  wipLimit: z.number().int().min(1).nullable().optional(),
+});
+
+export const updateTaskColumnSchema = insertTaskColumnSchema.partial();
+
+export const reorderTaskColumnsSchema = z.object({
+  ids: z.array(z.string()).min(1),
+});
+
+// Query parameters accepted by GET /api/tasks
+export const taskFiltersSchema = z.object({
+  status: z.enum(taskStatuses).optional(),
+  priority: z.enum(taskPriorities).optional(),
+  // A user id, "me" or "none" for unassigned tasks
+  assigneeId: z.string().optional(),
+  label: z.string().optional(),
+  // A task id for its subtasks, or "none" for top-level tasks
+  parentId: z.string().optional(),
+  dueBefore: z.coerce.date().optional(),
+  dueAfter: z.coerce.date().optional(),
 });
 
 export const insertBusinessProcessSchema = createInsertSchema(businessProcesses).omit({
   id: true,
+  userId: true,
+  status: true,
+  reviewerId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  visibility: z.enum(knowledgeVisibilities).optional(),
+});
+
+export const updateBusinessProcessSchema = insertBusinessProcessSchema.partial();
+
+// Moving an entry through the approval workflow. Submitting for review
+// needs a reviewer; the comment is kept in the entry's review thread.
+export const knowledgeStatusChangeSchema = z.object({
+  status: z.enum(knowledgeStatuses),
+  reviewerId: z.string().optional(),
+  comment: z.string().trim().max(5000).optional(),
+});
+
+export const insertKnowledgeCommentSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+export const MAX_KNOWLEDGE_IMPORT_FILES = 20;
+
+// Uploaded documents to turn into knowledge entries
+export const knowledgeImportAnalyzeSchema = z.object({
+  files: z.array(attachmentUploadSchema).min(1).max(MAX_KNOWLEDGE_IMPORT_FILES),
+});
+
+// A knowledge entry proposed from an uploaded document, for the user to
+// review before it is created
+export const knowledgeImportDraftSchema = z.object({
+  sourceName: z.string(),
+  title: z.string(),
+  description: z.string(),
+  category: z.string(),
+  tags: z.array(z.string()),
+  content: z.string(),
+  // Set when the document could not be read; the other fields are then empty
+  error: z.string().optional(),
+});
+
+export const knowledgeImportSchema = z.object({
+  entries: z.array(insertBusinessProcessSchema).min(1).max(MAX_KNOWLEDGE_IMPORT_FILES),
+});
+
+export const insertMemorySchema = createInsertSchema(memories).omit({
+  id: true,
+  userId: true,
+  embedding: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  content: z.string().trim().min(1),
+  category: z.enum(memoryCategories).optional(),
 });
 
+export const updateMemorySchema = insertMemorySchema.partial();
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
@@ -96,40 +499,308 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type MoveTask = z.infer<typeof moveTaskSchema>;
+
+export type TaskColumn = typeof taskColumns.$inferSelect;
+export type InsertTaskColumn = z.infer<typeof insertTaskColumnSchema>;
+export type UpdateTaskColumn = z.infer<typeof updateTaskColumnSchema>;
+export type TaskFilters = z.infer<typeof taskFiltersSchema>;
+export type TaskProposal = z.infer<typeof taskProposalSchema>;
+export type TaskCalendarLink = typeof taskCalendarLinks.$inferSelect;
 
 export type BusinessProcess = typeof businessProcesses.$inferSelect;
 export type InsertBusinessProcess = z.infer<typeof insertBusinessProcessSchema>;
+export type UpdateBusinessProcess = z.infer<typeof updateBusinessProcessSchema>;
+export type BusinessProcessVersion = typeof businessProcessVersions.$inferSelect;
+// A version as listed in the history, with its author's name
+export type BusinessProcessVersionWithAuthor = BusinessProcessVersion & { authorName: string | null };
+export type KnowledgeStatusChange = z.infer<typeof knowledgeStatusChangeSchema>;
+export type BusinessProcessComment = typeof businessProcessComments.$inferSelect;
+export type BusinessProcessCommentWithAuthor = BusinessProcessComment & { authorName: string | null };
+export type KnowledgeImportDraft = z.infer<typeof knowledgeImportDraftSchema>;
+
+export type Memory = typeof memories.$inferSelect;
+export type InsertMemory = z.infer<typeof insertMemorySchema>;
+export type UpdateMemory = z.infer<typeof updateMemorySchema>;
+
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertKnowledgeChunk = typeof knowledgeChunks.$inferInsert;
+
+export const userRoles = ["admin", "manager", "staff"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Operations gated by role; anything not listed here is open to every
+// signed-in user
+export const permissions = ["settings:manage", "users:manage", "knowledge:delete", "knowledge:publish", "gmail:send", "board:manage"] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  manager: ["knowledge:delete", "knowledge:publish", "gmail:send", "board:manage"],
+  staff: [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return (rolePermissions[role as UserRole] ?? []).includes(permission);
+}
+
+// Drafts and entries in review are open to anyone who can see them; once
+// published or archived, only reviewers may change the text
+export function canEditKnowledge(role: string | null | undefined, process: Pick<BusinessProcess, "status">): boolean {
+  return process.status === "draft" || process.status === "in_review" || hasPermission(role, "knowledge:publish");
+}
+
+// Anyone may submit a draft for review, and the entry's owner may withdraw
+// it from review; every other move needs knowledge:publish
+export function canChangeKnowledgeStatus(
+  user: { id: string; role: string | null | undefined },
+  process: Pick<BusinessProcess, "status" | "userId">,
+  status: KnowledgeStatus,
+): boolean {
+  if (!knowledgeTransitions[process.status as KnowledgeStatus]?.includes(status)) {
+    return false;
+  }
+  if (process.status === "draft" && status === "in_review") {
+    return true;
+  }
+  if (process.status === "in_review" && status === "draft" && process.userId === user.id) {
+    return true;
+  }
+  return hasPermission(user.role, "knowledge:publish");
+}
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash as "<hex hash>.<hex salt>", never the plain password
   password: text("password").notNull(),
+  displayName: text("display_name"),
+  role: text("role").notNull().default("staff"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
+}).extend({
+  username: z.string().trim().min(3).max(50).regex(/^[\w.@-]+$/, "Username may only contain letters, digits and . _ @ -"),
+  password: z.string().min(8).max(200),
+  displayName: z.string().trim().max(100).nullable().optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API exposes about a user
+export type PublicUser = Omit<User, "password">;
 
+export const usersRelations = relations(users, ({ many }) => ({
+  conversations: many(conversations),
+  tasks: many(tasks),
+}));
+
+// Upload URLs handed out, keyed by the normalized "/objects/..." path, so a
+// fresh upload can only be given its first ACL policy by whoever asked for it
+export const objectUploads = pgTable("object_uploads", {
+  objectPath: text("object_path").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const llmProviderIds = ["openai", "anthropic", "ollama", "fake"] as const;
+export type LLMProviderId = typeof llmProviderIds[number];
+// Anthropic has no embeddings API
+export const embeddingProviderIds = ["openai", "ollama", "fake"] as const;
+export type EmbeddingProviderId = typeof embeddingProviderIds[number];
+
+// One row per user, plus the workspace row (null userId) that new users'
+// settings are copied from. The settings in WORKSPACE_SETTINGS are only read
+// from and written to the workspace row.
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: "cascade" }),
   assistantName: text("assistant_name").notNull().default("Modern"),
   systemInstructions: text("system_instructions").notNull().default("أنت مساعد ذكي متخصص في مساعدة الشركات. تتعلم من المحادثات السابقة وتتذكر كل شيء. ساعد المستخدم بطريقة احترافية ومنظمة."),
+  maxAgentSteps: integer("max_agent_steps").notNull().default(6),
+  contextTokenBudget: integer("context_token_budget").notNull().default(16000),
+  llmProvider: text("llm_provider").notNull().default("openai"),
+  // null uses the provider's default model
+  llmModel: text("llm_model"),
+  embeddingProvider: text("embedding_provider").notNull().default("openai"),
+  embeddingModel: text("embedding_model"),
+  // Look for action items after every assistant reply and offer them as tasks
+  autoExtractTasks: boolean("auto_extract_tasks").notNull().default(false),
+  // Where the organisation works; like the embedding settings it always
+  // comes from the workspace
+  organizationTimeZone: text("organization_time_zone").notNull().default("Asia/Riyadh"),
+  // The user's own time zone; null follows the organisation's
+  timeZone: text("time_zone"),
+  // The organisation's working week and hours, in its time zone, for
+  // suggesting meeting times. Days run from 0 (Sunday) to 6; the default
+  // weekend is Friday and Saturday.
+  workingDays: integer("working_days").array().notNull().default(sql`ARRAY[0,1,2,3,4]::integer[]`),
+  workdayStart: text("workday_start").notNull().default("09:00"),
+  workdayEnd: text("workday_end").notNull().default("17:00"),
+  // Meetings keep clear of each prayer for this long; 0 ignores prayer times
+  prayerBreakMinutes: integer("prayer_break_minutes").notNull().default(20),
+  // Where prayer times are calculated for; Riyadh by default
+  prayerLatitude: doublePrecision("prayer_latitude").notNull().default(24.7136),
+  prayerLongitude: doublePrecision("prayer_longitude").notNull().default(46.6753),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({
   id: true,
+  userId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  maxAgentSteps: z.number().int().min(1).max(20).optional(),
+  contextTokenBudget: z.number().int().min(2000).max(200000).optional(),
+  llmProvider: z.enum(llmProviderIds).optional(),
+  llmModel: z.string().trim().max(200).nullable().optional().transform((value) => value === "" ? null : value),
+  embeddingProvider: z.enum(embeddingProviderIds).optional(),
+  embeddingModel: z.string().trim().max(200).nullable().optional().transform((value) => value === "" ? null : value),
+  organizationTimeZone: timeZoneSchema.optional(),
+  timeZone: timeZoneSchema.nullable().optional(),
+  workingDays: z.array(z.number().int().min(0).max(6)).max(7).transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)).optional(),
+  workdayStart: timeOfDaySchema.optional(),
+  workdayEnd: timeOfDaySchema.optional(),
+  prayerBreakMinutes: z.number().int().min(0).max(60).optional(),
+  prayerLatitude: z.number().min(-90).max(90).optional(),
+  prayerLongitude: z.number().min(-180).max(180).optional(),
 });
 
-export const updateSettingsSchema = insertSettingsSchema.partial();
+export const updateSettingsSchema = insertSettingsSchema.partial().refine(
+  (updates) => !updates.workdayStart || !updates.workdayEnd || updates.workdayStart < updates.workdayEnd,
+  { message: "The working day must end after it starts", path: ["workdayEnd"] },
+);
 
 export type Settings = typeof settings.$inferSelect;
+
+// Settings that hold for the whole organisation and are kept on the
+// workspace row, so only settings:manage may change them: what the assistant
+// is called and told, how many tool rounds it may take, the embedding model
+// (the knowledge index is shared), and the organisation's time zone, working
+// hours and prayer-time location. Everything else is each user's own.
+export const WORKSPACE_SETTINGS = [
+  "assistantName",
+  "systemInstructions",
+  "maxAgentSteps",
+  "embeddingProvider",
+  "embeddingModel",
+  "organizationTimeZone",
+  "workingDays",
+  "workdayStart",
+  "workdayEnd",
+  "prayerBreakMinutes",
+  "prayerLatitude",
+  "prayerLongitude",
+] as const satisfies readonly (keyof Settings)[];
+
+export function isWorkspaceSetting(key: string): key is typeof WORKSPACE_SETTINGS[number] {
+  return (WORKSPACE_SETTINGS as readonly string[]).includes(key);
+}
+
+// The zone dates and times are read and shown in for a user
+export function settingsTimeZone(settings: Pick<Settings, "timeZone" | "organizationTimeZone">): string {
+  return settings.timeZone || settings.organizationTimeZone;
+}
+
+// A user's own time zone, which the Settings page saves on its own
+export const updateUserTimeZoneSchema = z.object({
+  timeZone: timeZoneSchema.nullable(),
+});
+
+// A change to a Google Calendar event; fields left out stay as they are.
+// Anything else in the body is dropped.
+export const updateCalendarEventSchema = z.object({
+  summary: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(5000).optional(),
+  // ISO 8601, as when creating an event
+  start: z.string().trim().min(1).optional(),
+  end: z.string().trim().min(1).optional(),
+  allDay: z.boolean().optional(),
+  timeZone: timeZoneSchema.optional(),
+  location: z.string().max(500).optional(),
+  attendees: z.array(z.string().trim().min(1).max(200)).optional(),
+  notifyAttendees: z.boolean().optional(),
+  // RRULE, EXRULE, RDATE and EXDATE lines; an empty list ends the repetition
+  recurrence: z.array(z.string(), { invalid_type_error: "recurrence must be an array of RRULE lines" }).optional(),
+  calendarId: z.string().optional(),
+  scope: z.enum(["occurrence", "series"]).default("occurrence"),
+});
+
+export type UpdateCalendarEvent = z.infer<typeof updateCalendarEventSchema>;
+
+// Meeting scheduling
+export const MAX_MEETING_ATTENDEES = 20;
+
+// Email addresses, or names of workspace members whose username is one
+const meetingAttendeesSchema = z.array(z.string().trim().min(1).max(200)).max(MAX_MEETING_ATTENDEES);
+
+export const suggestMeetingSlotsSchema = z.object({
+  attendees: meetingAttendeesSchema.default([]),
+  durationMinutes: z.number().int().min(15).max(480).default(60),
+  // ISO 8601 dates or date-times, local to the user unless they carry an
+  // offset; a date for "to" includes that whole day. Defaults to the next
+  // seven days.
+  from: z.string().trim().min(1).optional(),
+  to: z.string().trim().min(1).optional(),
+  maxSlots: z.number().int().min(1).max(20).default(5),
+});
+
+export const bookMeetingSlotSchema = z.object({
+  summary: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).optional(),
+  location: z.string().max(500).optional(),
+  start: z.string().trim().min(1),
+  end: z.string().trim().min(1),
+  attendees: meetingAttendeesSchema.default([]),
+});
+
+export type SuggestMeetingSlots = z.infer<typeof suggestMeetingSlotsSchema>;
+export type BookMeetingSlot = z.infer<typeof bookMeetingSlotSchema>;
+
+export interface MeetingSlot {
+  // ISO 8601 with the user's offset
+  start: string;
+  end: string;
+  // Higher is better
+  score: number;
+  // Why the slot scored lower, e.g. it is back-to-back with another meeting
+  notes: string[];
+}
+
+export interface MeetingSlotSuggestions {
+  timeZone: string;
+  // The attendees' email addresses
+  attendees: string[];
+  // Best first
+  slots: MeetingSlot[];
+  // Attendees whose calendars could not be read, so their conflicts are unknown
+  unavailable: string[];
+}
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+
+export const searchResultTypes = ["conversation", "message", "task", "knowledge"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  // [start, end) character ranges of matched terms within snippet
+  highlights: Array<[number, number]>;
+  score: number;
+  conversationId?: string;
+  url: string;
+  createdAt: string;
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server-side unit tests, next to the modules they cover as *.test.ts. They
+// run offline: storage either is mocked or runs on an in-memory Postgres
+// (server/testDatabase.ts), Google APIs are mocked, and the model is the fake
+// provider.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+  },
+});